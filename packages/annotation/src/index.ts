@@ -1,54 +1,28 @@
-import type { RenderNode, RenderAttrs, ChartArea, Scale } from '@chartts/core'
+import type {
+  RenderNode, ChartArea, Scale, Annotation,
+} from '@chartts/core'
+import { annotationNodes } from '@chartts/core'
+
+/**
+ * Imperative annotation helpers.
+ *
+ * Charts draw annotations themselves from `options.annotations` — with
+ * clipping, layering, tooltips and dragging. These helpers return the bare
+ * geometry for custom renders and chart types.
+ */
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export interface AnnotationConfig {
-  type: 'line' | 'area' | 'label' | 'threshold'
-}
+export type {
+  Annotation, AnnotationBase, LineAnnotation, AreaAnnotation, LabelAnnotation, ThresholdAnnotation,
+} from '@chartts/core'
 
-export interface LineAnnotation extends AnnotationConfig {
-  type: 'line'
-  axis: 'x' | 'y'
-  value: number | string
-  label?: string
-  color?: string
-  dash?: boolean
-  lineWidth?: number
-}
-
-export interface AreaAnnotation extends AnnotationConfig {
-  type: 'area'
-  axis: 'x' | 'y'
-  from: number | string
-  to: number | string
-  color?: string
-  opacity?: number
-  label?: string
-}
-
-export interface LabelAnnotation extends AnnotationConfig {
-  type: 'label'
-  x: number | string
-  y: number
-  text: string
-  color?: string
-  fontSize?: number
-  anchor?: 'start' | 'middle' | 'end'
-}
-
-export interface ThresholdAnnotation extends AnnotationConfig {
-  type: 'threshold'
-  value: number
-  label?: string
-  color?: string
-  aboveColor?: string
-  belowColor?: string
+export interface AnnotationConfig {
+  type: Annotation['type']
 }
 
-export type Annotation = LineAnnotation | AreaAnnotation | LabelAnnotation | ThresholdAnnotation
-
 // ---------------------------------------------------------------------------
 // Options helpers
 // ---------------------------------------------------------------------------
@@ -81,43 +55,6 @@ interface LabelOpts {
   anchor?: 'start' | 'middle' | 'end'
 }
 
-// ---------------------------------------------------------------------------
-// Internal helpers
-// ---------------------------------------------------------------------------
-
-function buildLineAttrs(color: string, lineWidth: number, dash: boolean): RenderAttrs {
-  const attrs: RenderAttrs = {
-    stroke: color,
-    strokeWidth: lineWidth,
-  }
-  if (dash) {
-    attrs.strokeDasharray = '6 4'
-  }
-  return attrs
-}
-
-function buildTextNode(
-  x: number,
-  y: number,
-  content: string,
-  color: string,
-  fontSize: number,
-  anchor: 'start' | 'middle' | 'end',
-): RenderNode {
-  return {
-    type: 'text',
-    x,
-    y,
-    content,
-    attrs: {
-      fill: color,
-      fontSize,
-      textAnchor: anchor,
-      dominantBaseline: 'auto',
-    },
-  }
-}
-
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -136,44 +73,7 @@ export function referenceLine(
   yScale: Scale,
   opts?: LineOpts,
 ): RenderNode[] {
-  const color = opts?.color ?? '#888888'
-  const lineWidth = opts?.lineWidth ?? 1.5
-  const dash = opts?.dash ?? true
-  const nodes: RenderNode[] = []
-
-  if (axis === 'y') {
-    const py = yScale.map(value)
-    nodes.push({
-      type: 'line',
-      x1: area.x,
-      y1: py,
-      x2: area.x + area.width,
-      y2: py,
-      attrs: buildLineAttrs(color, lineWidth, dash),
-    })
-    if (opts?.label) {
-      nodes.push(
-        buildTextNode(area.x - 4, py - 6, opts.label, color, 11, 'end'),
-      )
-    }
-  } else {
-    const px = xScale.map(value)
-    nodes.push({
-      type: 'line',
-      x1: px,
-      y1: area.y,
-      x2: px,
-      y2: area.y + area.height,
-      attrs: buildLineAttrs(color, lineWidth, dash),
-    })
-    if (opts?.label) {
-      nodes.push(
-        buildTextNode(px, area.y - 6, opts.label, color, 11, 'middle'),
-      )
-    }
-  }
-
-  return nodes
+  return annotationNodes({ type: 'line', axis, value, ...opts }, area, xScale, yScale)
 }
 
 /**
@@ -191,67 +91,7 @@ export function referenceArea(
   yScale: Scale,
   opts?: AreaOpts,
 ): RenderNode[] {
-  const color = opts?.color ?? '#3b82f6'
-  const opacity = opts?.opacity ?? 0.12
-  const nodes: RenderNode[] = []
-
-  if (axis === 'y') {
-    const y1 = yScale.map(from)
-    const y2 = yScale.map(to)
-    const top = Math.min(y1, y2)
-    const height = Math.abs(y2 - y1)
-
-    nodes.push({
-      type: 'rect',
-      x: area.x,
-      y: top,
-      width: area.width,
-      height,
-      attrs: { fill: color, fillOpacity: opacity },
-    })
-
-    if (opts?.label) {
-      nodes.push(
-        buildTextNode(
-          area.x + area.width / 2,
-          top + height / 2,
-          opts.label,
-          color,
-          11,
-          'middle',
-        ),
-      )
-    }
-  } else {
-    const x1 = xScale.map(from)
-    const x2 = xScale.map(to)
-    const left = Math.min(x1, x2)
-    const width = Math.abs(x2 - x1)
-
-    nodes.push({
-      type: 'rect',
-      x: left,
-      y: area.y,
-      width,
-      height: area.height,
-      attrs: { fill: color, fillOpacity: opacity },
-    })
-
-    if (opts?.label) {
-      nodes.push(
-        buildTextNode(
-          left + width / 2,
-          area.y + 14,
-          opts.label,
-          color,
-          11,
-          'middle',
-        ),
-      )
-    }
-  }
-
-  return nodes
+  return annotationNodes({ type: 'area', axis, from, to, ...opts }, area, xScale, yScale)
 }
 
 /**
@@ -267,61 +107,8 @@ export function threshold(
   yScale: Scale,
   opts?: ThresholdOpts,
 ): RenderNode[] {
-  const color = opts?.color ?? '#ef4444'
-  const lineWidth = opts?.lineWidth ?? 1.5
-  const dash = opts?.dash ?? true
-  const py = yScale.map(value)
-  const nodes: RenderNode[] = []
-
-  // Color zone above threshold
-  if (opts?.aboveColor) {
-    const aboveHeight = py - area.y
-    if (aboveHeight > 0) {
-      nodes.push({
-        type: 'rect',
-        x: area.x,
-        y: area.y,
-        width: area.width,
-        height: aboveHeight,
-        attrs: { fill: opts.aboveColor, fillOpacity: 0.08 },
-      })
-    }
-  }
-
-  // Color zone below threshold
-  if (opts?.belowColor) {
-    const belowTop = py
-    const belowHeight = area.y + area.height - py
-    if (belowHeight > 0) {
-      nodes.push({
-        type: 'rect',
-        x: area.x,
-        y: belowTop,
-        width: area.width,
-        height: belowHeight,
-        attrs: { fill: opts.belowColor, fillOpacity: 0.08 },
-      })
-    }
-  }
-
-  // Threshold line
-  nodes.push({
-    type: 'line',
-    x1: area.x,
-    y1: py,
-    x2: area.x + area.width,
-    y2: py,
-    attrs: buildLineAttrs(color, lineWidth, dash),
-  })
-
-  // Label
-  if (opts?.label) {
-    nodes.push(
-      buildTextNode(area.x + area.width + 4, py + 4, opts.label, color, 11, 'start'),
-    )
-  }
-
-  return nodes
+  // Thresholds are horizontal — the x scale is never read
+  return annotationNodes({ type: 'threshold', value, ...opts }, area, yScale, yScale)
 }
 
 /**
@@ -333,25 +120,19 @@ export function dataLabel(
   x: number | string,
   y: number,
   text: string,
-  _area: ChartArea,
+  area: ChartArea,
   xScale: Scale,
   yScale: Scale,
   opts?: LabelOpts,
 ): RenderNode {
-  const px = xScale.map(x)
-  const py = yScale.map(y)
-  const color = opts?.color ?? '#374151'
-  const fontSize = opts?.fontSize ?? 12
-  const anchor = opts?.anchor ?? 'middle'
-
-  return buildTextNode(px, py, text, color, fontSize, anchor)
+  return annotationNodes({ type: 'label', x, y, text, ...opts }, area, xScale, yScale)[0]!
 }
 
 /**
  * Batch convert an array of Annotation configs into RenderNode[].
  *
- * This is the declarative API: users describe what annotations they want
- * and this function produces the full render tree.
+ * Prefer `options.annotations`, which renders the same annotations as part
+ * of the chart and keeps them in sync with zoom and pan.
  */
 export function createAnnotations(
   annotations: Annotation[],
@@ -359,53 +140,6 @@ export function createAnnotations(
   xScale: Scale,
   yScale: Scale,
 ): RenderNode[] {
-  const nodes: RenderNode[] = []
-
-  for (const ann of annotations) {
-    switch (ann.type) {
-      case 'line': {
-        const lineNodes = referenceLine(ann.axis, ann.value, area, xScale, yScale, {
-          label: ann.label,
-          color: ann.color,
-          dash: ann.dash,
-          lineWidth: ann.lineWidth,
-        })
-        nodes.push(...lineNodes)
-        break
-      }
-
-      case 'area': {
-        const areaNodes = referenceArea(ann.axis, ann.from, ann.to, area, xScale, yScale, {
-          color: ann.color,
-          opacity: ann.opacity,
-          label: ann.label,
-        })
-        nodes.push(...areaNodes)
-        break
-      }
-
-      case 'label': {
-        const labelNode = dataLabel(ann.x, ann.y, ann.text, area, xScale, yScale, {
-          color: ann.color,
-          fontSize: ann.fontSize,
-          anchor: ann.anchor,
-        })
-        nodes.push(labelNode)
-        break
-      }
-
-      case 'threshold': {
-        const thresholdNodes = threshold(ann.value, area, yScale, {
-          label: ann.label,
-          color: ann.color,
-          aboveColor: ann.aboveColor,
-          belowColor: ann.belowColor,
-        })
-        nodes.push(...thresholdNodes)
-        break
-      }
-    }
-  }
-
+  const nodes = annotations.flatMap(ann => annotationNodes(ann, area, xScale, yScale))
   return [{ type: 'group', children: nodes, attrs: { class: 'chartts-annotations' } }]
 }
@@ -27,6 +27,10 @@ program
   .option('--y <field>', 'Field name for y-axis series (JSON data)')
   .option('--title <text>', 'Chart title / aria label')
   .option('--scale <n>', 'PNG scale factor', '2')
+  .option('--x-format <spec>', "x label format, e.g. '%b %Y' or ',.0f'")
+  .option('--y-format <spec>', "y value format, e.g. '$,.2s', '.1%' or 'duration'")
+  .option('--locale <tag>', 'Locale for number and date labels (e.g. de-DE)')
+  .option('--currency <code>', 'Currency for $ in formats (e.g. EUR)')
   .action(async (opts) => {
     try {
       await renderAction(opts)
@@ -59,6 +63,10 @@ interface RenderOptions {
   y?: string
   title?: string
   scale: string
+  xFormat?: string
+  yFormat?: string
+  locale?: string
+  currency?: string
 }
 
 async function renderAction(opts: RenderOptions): Promise<void> {
@@ -127,6 +135,10 @@ async function renderAction(opts: RenderOptions): Promise<void> {
     height,
     theme: opts.theme as 'light' | 'dark',
     ...(opts.title ? { ariaLabel: opts.title } : {}),
+    ...(opts.xFormat ? { xFormat: opts.xFormat } : {}),
+    ...(opts.yFormat ? { yFormat: opts.yFormat } : {}),
+    ...(opts.locale ? { locale: opts.locale } : {}),
+    ...(opts.currency ? { currency: opts.currency } : {}),
   }
 
   if (outputExt === '.png') {
@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest'
+import { movePoint, firstPoint, locatePoint, describePoint } from '../navigation'
+import { dataTableModel, MAX_ROWS } from '../data-table'
+import { createChart } from '../../api/create'
+import { lineChartType } from '../../charts/line/line-type'
+import { pieChartType } from '../../charts/pie/pie-type'
+import { resolveOptions, LIGHT_THEME } from '../../constants'
+import { createLinearScale } from '../../scales/linear'
+import { createCategoricalScale } from '../../scales/categorical'
+import type { ChartData, ChartEvents, ChartTypePlugin, DataPoint, RenderContext } from '../../types'
+
+const data: ChartData = {
+  labels: ['Jan', 'Feb', 'Mar', 'Apr'],
+  series: [
+    { name: 'Revenue', values: [10, NaN, 30, 40] },
+    { name: 'Cost', values: [5, 15, 25, NaN] },
+  ],
+}
+
+function makeCtx(chartType: ChartTypePlugin, input = data): RenderContext {
+  const options = resolveOptions({}, input.series.length)
+  const prepared = chartType.prepareData(input, options)
+  const area = { x: 50, y: 20, width: 500, height: 300 }
+  const xScale = createCategoricalScale({ categories: prepared.labels, range: [area.x, area.x + area.width] })
+  const yScale = createLinearScale({
+    domain: [prepared.bounds.yMin, prepared.bounds.yMax],
+    range: [area.y + area.height, area.y],
+  })
+  return { data: prepared, options, area, xScale, yScale, theme: { ...LIGHT_THEME } }
+}
+
+describe('movePoint', () => {
+  const prepared = makeCtx(lineChartType).data
+
+  it('starts on the first point with a value', () => {
+    expect(firstPoint(prepared)).toEqual({ seriesIndex: 0, pointIndex: 0 })
+    expect(movePoint(prepared, null, 'ArrowLeft')).toEqual({ seriesIndex: 0, pointIndex: 0 })
+  })
+
+  it('steps along a series, skipping gaps and stopping at the ends', () => {
+    expect(movePoint(prepared, { seriesIndex: 0, pointIndex: 0 }, 'ArrowRight')).toEqual({ seriesIndex: 0, pointIndex: 2 })
+    expect(movePoint(prepared, { seriesIndex: 0, pointIndex: 3 }, 'ArrowRight')).toEqual({ seriesIndex: 0, pointIndex: 3 })
+    expect(movePoint(prepared, { seriesIndex: 0, pointIndex: 2 }, 'Home')).toEqual({ seriesIndex: 0, pointIndex: 0 })
+    expect(movePoint(prepared, { seriesIndex: 1, pointIndex: 0 }, 'End')).toEqual({ seriesIndex: 1, pointIndex: 2 })
+  })
+
+  it('switches series at the same label', () => {
+    expect(movePoint(prepared, { seriesIndex: 0, pointIndex: 2 }, 'ArrowDown')).toEqual({ seriesIndex: 1, pointIndex: 2 })
+    expect(movePoint(prepared, { seriesIndex: 1, pointIndex: 2 }, 'ArrowUp')).toEqual({ seriesIndex: 0, pointIndex: 2 })
+    // No value for Cost in April — stay on Revenue
+    expect(movePoint(prepared, { seriesIndex: 0, pointIndex: 3 }, 'ArrowDown')).toEqual({ seriesIndex: 0, pointIndex: 3 })
+  })
+})
+
+describe('locatePoint', () => {
+  it('finds line points through their marks', () => {
+    const ctx = makeCtx(lineChartType)
+    const hit = locatePoint(lineChartType, ctx, lineChartType.render(ctx), { seriesIndex: 1, pointIndex: 1 })
+    expect(hit).toMatchObject({ seriesIndex: 1, pointIndex: 1 })
+    expect(hit.x).toBeCloseTo(ctx.xScale.map('Feb'))
+    expect(hit.y).toBeCloseTo(ctx.yScale.map(15))
+  })
+
+  it('places pie slices inside the slice', () => {
+    const ctx = makeCtx(pieChartType, { labels: ['A', 'B', 'C'], series: [{ name: 'Share', values: [1, 2, 3] }] })
+    const hit = locatePoint(pieChartType, ctx, pieChartType.render(ctx), { seriesIndex: 0, pointIndex: 2 })
+    expect(pieChartType.hitTest(ctx, hit.x, hit.y)).toMatchObject({ seriesIndex: 0, pointIndex: 2 })
+  })
+})
+
+describe('describePoint', () => {
+  it('reads label, series, formatted value and position', () => {
+    const ctx = makeCtx(lineChartType)
+    expect(describePoint(ctx.data, ctx.options, { seriesIndex: 1, pointIndex: 1 })).toBe('Feb, Cost: 15 (2 of 4)')
+  })
+})
+
+describe('keyboard activation', () => {
+  it('fires point:activate, leaving point:click to the mouse', () => {
+    const el = document.createElement('div')
+    const clicked = vi.fn()
+    const chart = createChart(el, lineChartType, data, { width: 400, height: 300, animate: false, onClick: clicked })
+    const activated: DataPoint[] = []
+    chart.on('point:activate', (e) => activated.push((e as ChartEvents['point:activate']).point))
+    chart.on('point:click', clicked)
+
+    for (const key of ['ArrowRight', 'Enter']) chart.element.dispatchEvent(new KeyboardEvent('keydown', { key }))
+    expect(activated.map(p => [p.seriesIndex, p.label])).toEqual([[0, 'Jan']])
+    expect(clicked).not.toHaveBeenCalled()
+    chart.destroy()
+  })
+})
+
+describe('dataTableModel', () => {
+  it('has a row per label and a column per series', () => {
+    const model = dataTableModel(data, resolveOptions({ ariaLabel: 'Sales', xLabel: 'Month' }, 2))
+    expect(model.caption).toBe('Sales')
+    expect(model.columns).toEqual(['Month', 'Revenue', 'Cost'])
+    expect(model.rows[1]).toEqual(['Feb', '', '15'])
+  })
+
+  it('lists the first rows of large data and says how many there are', () => {
+    const values = Array.from({ length: 100_000 }, (_, i) => i)
+    const model = dataTableModel({ series: [{ name: 'S', values }] }, resolveOptions({ ariaLabel: 'Big' }, 1))
+    expect(model.rows).toHaveLength(MAX_ROWS)
+    expect(model.totalRows).toBe(100_000)
+    expect(model.caption).toBe(`Big (first ${MAX_ROWS} of 100000 rows)`)
+  })
+
+  it('is added and removed with setOptions', () => {
+    const el = document.createElement('div')
+    const chart = createChart(el, lineChartType, data, { width: 400, height: 300, animate: false })
+    expect(el.querySelector('.chartts-data-table')).toBeNull()
+    chart.setOptions({ dataTable: true })
+    expect(el.querySelectorAll('.chartts-data-table tbody tr')).toHaveLength(4)
+    chart.setOptions({ dataTable: false })
+    expect(el.querySelector('.chartts-data-table')).toBeNull()
+    chart.destroy()
+  })
+})
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { sonifySeries, pointNote, valueToFrequency, seriesPan, createSonifier, type SonifyOptions } from '../sonify'
+import { resolveOptions, resolveSonify } from '../../constants'
+import { prepareData } from '../../data/prepare'
+
+const opts = resolveSonify(true) as SonifyOptions
+
+const data = prepareData({
+  labels: ['a', 'b', 'c', 'd'],
+  series: [
+    { name: 'Low', values: [0, 50, NaN, 100] },
+    { name: 'Mid', values: [10, 20, 30, 40] },
+    { name: 'High', values: [1, 2, 3, 4] },
+  ],
+}, resolveOptions({ yMin: 0, yMax: 100 }, 3))
+
+describe('valueToFrequency', () => {
+  it('spans min to max frequency exponentially', () => {
+    expect(valueToFrequency(0, 0, 100, opts)).toBeCloseTo(220)
+    expect(valueToFrequency(100, 0, 100, opts)).toBeCloseTo(880)
+    // Halfway in value is one octave up — equal steps, equal intervals
+    expect(valueToFrequency(50, 0, 100, opts)).toBeCloseTo(440)
+  })
+
+  it('clamps out-of-range values and handles a flat domain', () => {
+    expect(valueToFrequency(-5, 0, 100, opts)).toBeCloseTo(220)
+    expect(valueToFrequency(7, 7, 7, opts)).toBeCloseTo(440)
+  })
+})
+
+describe('seriesPan', () => {
+  it('centers a single series and spreads several', () => {
+    expect(seriesPan(0, 1)).toBe(0)
+    expect(seriesPan(0, 3)).toBeCloseTo(-0.8)
+    expect(seriesPan(1, 3)).toBeCloseTo(0)
+    expect(seriesPan(2, 3)).toBeCloseTo(0.8)
+  })
+})
+
+describe('sonifySeries', () => {
+  it('emits one note per value, with rests for gaps', () => {
+    const notes = sonifySeries(data, 0, opts)
+    expect(notes.map(n => n.pointIndex)).toEqual([0, 1, 3])
+    expect(notes.map(n => n.time)).toEqual([0, 150, 450])
+    expect(notes[0]).toMatchObject({ duration: 150, gain: 0.3, pan: -0.8, seriesIndex: 0 })
+    expect(notes[2]!.frequency).toBeGreaterThan(notes[1]!.frequency)
+  })
+
+  it('returns nothing for an unknown series', () => {
+    expect(sonifySeries(data, 9, opts)).toEqual([])
+  })
+})
+
+describe('pointNote', () => {
+  it('plays a single point at time 0', () => {
+    expect(pointNote(data, 2, 1, opts)).toMatchObject({ time: 0, pan: 0.8, pointIndex: 1 })
+    expect(pointNote(data, 0, 2, opts)).toBeNull()
+  })
+})
+
+describe('createSonifier', () => {
+  it('is a no-op without WebAudio', () => {
+    const sonifier = createSonifier()
+    expect(() => sonifier.play(sonifySeries(data, 1, opts))).not.toThrow()
+    sonifier.destroy()
+  })
+})
@@ -0,0 +1,96 @@
+import type { ChartData, ResolvedOptions } from '../types'
+import { VISUALLY_HIDDEN } from './live-region'
+import { seriesLength, seriesValues } from '../data/xy'
+
+/**
+ * Visually hidden data table — the screen-reader alternative to the chart.
+ * One row per label, one column per series, values formatted the same way
+ * as the axes and tooltips. Large data lists its first MAX_ROWS rows, and
+ * the caption says how many there are in all.
+ */
+
+/** Rows listed before the table is cut short — beyond this it's no longer browsable. */
+export const MAX_ROWS = 1000
+
+export interface DataTableModel {
+  caption: string
+  columns: string[]
+  rows: string[][]
+  /** Rows in the data, of which `rows` holds at most MAX_ROWS. */
+  totalRows: number
+}
+
+export function dataTableModel(data: ChartData, options: ResolvedOptions): DataTableModel {
+  const labels = tableLabels(data)
+  const values = data.series.map(seriesValues)
+  let caption = options.ariaDescription ? `${options.ariaLabel}. ${options.ariaDescription}` : options.ariaLabel
+  if (labels.length > MAX_ROWS) caption += ` (first ${MAX_ROWS} of ${labels.length} rows)`
+  return {
+    caption,
+    columns: [options.xLabel || 'Label', ...data.series.map(s => s.name)],
+    rows: labels.slice(0, MAX_ROWS).map((label, i) => [
+      options.xFormat(label),
+      ...values.map((vs) => {
+        const v = vs[i]
+        return v == null || !Number.isFinite(v) ? '' : options.yFormat(v)
+      }),
+    ]),
+    totalRows: labels.length,
+  }
+}
+
+/** Row labels — point indices when the data has no labels, as in prepareData(). */
+function tableLabels(data: ChartData): (string | number | Date)[] {
+  if (data.labels) return data.labels
+  const count = data.series.reduce((max, s) => Math.max(max, seriesLength(s)), 0)
+  return Array.from({ length: count }, (_, i) => i)
+}
+
+export interface DataTable {
+  update(data: ChartData, options: ResolvedOptions): void
+  destroy(): void
+}
+
+export function createDataTable(container: HTMLElement): DataTable {
+  const table = document.createElement('table')
+  table.className = 'chartts-data-table'
+  table.style.cssText = VISUALLY_HIDDEN
+  container.appendChild(table)
+
+  return {
+    update(data, options) {
+      const model = dataTableModel(data, options)
+      const caption = document.createElement('caption')
+      caption.textContent = model.caption
+
+      const headRow = document.createElement('tr')
+      for (const name of model.columns) {
+        const th = document.createElement('th')
+        th.scope = 'col'
+        th.textContent = name
+        headRow.appendChild(th)
+      }
+      const thead = document.createElement('thead')
+      thead.appendChild(headRow)
+
+      const tbody = document.createElement('tbody')
+      for (const row of model.rows) {
+        const tr = document.createElement('tr')
+        row.forEach((cell, i) => {
+          // The label cell heads its row
+          const el = i === 0 ? document.createElement('th') : document.createElement('td')
+          if (i === 0) el.scope = 'row'
+          el.textContent = cell
+          tr.appendChild(el)
+        })
+        tbody.appendChild(tr)
+      }
+
+      table.replaceChildren(caption, thead, tbody)
+    },
+
+    destroy() {
+      table.remove()
+    },
+  }
+}
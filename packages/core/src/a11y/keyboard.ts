@@ -0,0 +1,102 @@
+import type { ChartTypePlugin, RenderContext, RenderNode, HitResult } from '../types'
+import {
+  NAVIGATION_KEYS, movePoint, locatePoint, describePoint, describeChart,
+  type NavigationKey, type PointRef,
+} from './navigation'
+
+/**
+ * Keyboard navigation — makes the chart a single tab stop. Arrow keys move
+ * between points and series, Home/End jump along the series, Enter/Space
+ * select the point, Escape clears. Each move is announced.
+ */
+
+export interface KeyboardNavigationConfig {
+  chartType: ChartTypePlugin
+  /** Context of the last render — null before the first one. */
+  getContext(): RenderContext | null
+  /** Last rendered nodes — used to find where each point is drawn. */
+  getNodes(): RenderNode[]
+  /** Show hover feedback (highlight, tooltip) for a point, or clear it. */
+  onFocusPoint(hit: HitResult | null): void
+  /** Enter/Space on the focused point. */
+  onActivate(hit: HitResult, event: KeyboardEvent): void
+  /** Read a message out through the live region. */
+  announce(message: string): void
+}
+
+export interface KeyboardNavigation {
+  attach(el: SVGElement | HTMLCanvasElement): void
+  /** Forget the focused point (data changed underneath it). */
+  reset(): void
+  destroy(): void
+}
+
+export function createKeyboardNavigation(config: KeyboardNavigationConfig): KeyboardNavigation {
+  let target: SVGElement | HTMLCanvasElement | null = null
+  let current: PointRef | null = null
+
+  function locate(ctx: RenderContext, ref: PointRef): HitResult {
+    return locatePoint(config.chartType, ctx, config.getNodes(), ref)
+  }
+
+  function onKeyDown(e: KeyboardEvent): void {
+    // Legend buttons inside the chart handle their own keys
+    if (e.target !== target) return
+    const ctx = config.getContext()
+    if (!ctx) return
+
+    if (NAVIGATION_KEYS.has(e.key)) {
+      e.preventDefault()
+      const next = movePoint(ctx.data, current, e.key as NavigationKey)
+      if (!next) return
+      current = next
+      config.onFocusPoint(locate(ctx, next))
+      config.announce(describePoint(ctx.data, ctx.options, next))
+    } else if ((e.key === 'Enter' || e.key === ' ') && current) {
+      e.preventDefault()
+      config.onActivate(locate(ctx, current), e)
+    } else if (e.key === 'Escape' && current) {
+      current = null
+      config.onFocusPoint(null)
+    }
+  }
+
+  function onFocus(): void {
+    const ctx = config.getContext()
+    if (!ctx) return
+    if (current) {
+      config.onFocusPoint(locate(ctx, current))
+      config.announce(describePoint(ctx.data, ctx.options, current))
+    } else {
+      config.announce(describeChart(ctx.data, ctx.options))
+    }
+  }
+
+  function onBlur(): void {
+    if (current) config.onFocusPoint(null)
+  }
+
+  return {
+    attach(el) {
+      target = el
+      el.setAttribute('tabindex', '0')
+      el.setAttribute('role', 'application')
+      el.setAttribute('aria-roledescription', 'chart')
+      el.addEventListener('keydown', onKeyDown as EventListener)
+      el.addEventListener('focus', onFocus)
+      el.addEventListener('blur', onBlur)
+    },
+
+    reset() {
+      current = null
+    },
+
+    destroy() {
+      if (!target) return
+      target.removeEventListener('keydown', onKeyDown as EventListener)
+      target.removeEventListener('focus', onFocus)
+      target.removeEventListener('blur', onBlur)
+      target = null
+    },
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * ARIA live region — a visually hidden element whose text changes are read
+ * out by screen readers without moving focus.
+ */
+
+/** Inline styles that hide an element visually but keep it in the accessibility tree. */
+export const VISUALLY_HIDDEN = [
+  'position:absolute', 'width:1px', 'height:1px', 'margin:-1px', 'padding:0',
+  'border:0', 'overflow:hidden', 'clip:rect(0 0 0 0)', 'clip-path:inset(50%)', 'white-space:nowrap',
+].join(';')
+
+export interface LiveRegion {
+  announce(message: string): void
+  destroy(): void
+}
+
+export function createLiveRegion(container: HTMLElement): LiveRegion {
+  const el = document.createElement('div')
+  el.className = 'chartts-live-region'
+  el.setAttribute('role', 'status')
+  el.setAttribute('aria-live', 'polite')
+  el.setAttribute('aria-atomic', 'true')
+  el.style.cssText = VISUALLY_HIDDEN
+  container.appendChild(el)
+
+  return {
+    announce(message) {
+      // Re-announce identical text (e.g. pressing an arrow key at the edge)
+      if (el.textContent === message) el.textContent = ''
+      el.textContent = message
+    },
+
+    destroy() {
+      el.remove()
+    },
+  }
+}
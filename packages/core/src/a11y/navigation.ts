@@ -0,0 +1,146 @@
+import type {
+  ChartTypePlugin, RenderContext, RenderNode, PreparedData, ResolvedOptions, HitResult, ArcShape,
+} from '../types'
+import { createIndexMapper, getSeriesYScale } from '../utils/scale'
+
+/**
+ * Keyboard navigation model — which point the arrow keys move to, where
+ * that point is drawn, and how it is announced. Pure functions over
+ * PreparedData and the render tree, so they work for every chart type.
+ */
+
+export interface PointRef {
+  seriesIndex: number
+  pointIndex: number
+}
+
+/** Keys the chart handles while focused. */
+export type NavigationKey = 'ArrowLeft' | 'ArrowRight' | 'ArrowUp' | 'ArrowDown' | 'Home' | 'End'
+
+export const NAVIGATION_KEYS: ReadonlySet<string> = new Set<NavigationKey>([
+  'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End',
+])
+
+function hasValue(data: PreparedData, seriesIndex: number, pointIndex: number): boolean {
+  const v = data.series[seriesIndex]?.values[pointIndex]
+  return v != null && Number.isFinite(v)
+}
+
+/** First point with a value, scanning series in order. */
+export function firstPoint(data: PreparedData): PointRef | null {
+  for (let s = 0; s < data.series.length; s++) {
+    const values = data.series[s]!.values
+    for (let p = 0; p < values.length; p++) {
+      if (hasValue(data, s, p)) return { seriesIndex: s, pointIndex: p }
+    }
+  }
+  return null
+}
+
+/**
+ * The point `key` moves to from `current`. Left/Right step along the series
+ * (skipping gaps), Up/Down switch series at the same label, Home/End jump to
+ * the ends of the series. Stays put at the edges; with nothing focused yet,
+ * any key lands on the first point.
+ */
+export function movePoint(data: PreparedData, current: PointRef | null, key: NavigationKey): PointRef | null {
+  if (!current || !hasValue(data, current.seriesIndex, current.pointIndex)) return firstPoint(data)
+  const { seriesIndex: s, pointIndex: p } = current
+  const count = data.series[s]!.values.length
+
+  const scan = (from: number, step: number, seriesIdx: number, limit: number): PointRef | null => {
+    for (let i = from; i >= 0 && i < limit; i += step) {
+      if (hasValue(data, seriesIdx, i)) return { seriesIndex: seriesIdx, pointIndex: i }
+    }
+    return null
+  }
+
+  switch (key) {
+    case 'ArrowRight': return scan(p + 1, 1, s, count) ?? current
+    case 'ArrowLeft': return scan(p - 1, -1, s, count) ?? current
+    case 'Home': return scan(0, 1, s, count) ?? current
+    case 'End': return scan(count - 1, -1, s, count) ?? current
+    case 'ArrowUp':
+    case 'ArrowDown': {
+      const step = key === 'ArrowDown' ? 1 : -1
+      for (let t = s + step; t >= 0 && t < data.series.length; t += step) {
+        if (hasValue(data, t, p)) return { seriesIndex: t, pointIndex: p }
+      }
+      return current
+    }
+  }
+}
+
+/**
+ * Where a point is drawn, in chart coordinates. Uses the mark rendered for it
+ * (`data-series`/`data-index`) and lets the plugin's hitTest snap that to its
+ * own anchor; charts without per-point marks fall back to the x/y scales.
+ */
+export function locatePoint(
+  chartType: ChartTypePlugin,
+  ctx: RenderContext,
+  nodes: RenderNode[],
+  ref: PointRef,
+): HitResult {
+  const [x, y] = findMark(nodes, ref) ?? scalePosition(ctx, ref)
+  const hit = chartType.hitTest(ctx, x, y)
+  if (hit && hit.seriesIndex === ref.seriesIndex && hit.pointIndex === ref.pointIndex) return hit
+  return { ...ref, distance: 0, x, y }
+}
+
+function scalePosition(ctx: RenderContext, ref: PointRef): [number, number] {
+  const series = ctx.data.series[ref.seriesIndex]!
+  return [createIndexMapper(ctx, series).map(ref.pointIndex), getSeriesYScale(ctx, series).map(series.values[ref.pointIndex]!)]
+}
+
+/** Center of the first mark tagged with the point's series/index, if any. */
+function findMark(nodes: RenderNode[], ref: PointRef): [number, number] | null {
+  for (const node of nodes) {
+    if (node.type === 'group' || node.type === 'defs' || node.type === 'clipPath') {
+      if (node.type === 'group') {
+        const found = findMark(node.children, ref)
+        if (found) return found
+      }
+      continue
+    }
+    const attrs = node.attrs
+    if (attrs?.['data-index'] === undefined || attrs['data-series'] === undefined) continue
+    if (Number(attrs['data-series']) !== ref.seriesIndex || Number(attrs['data-index']) !== ref.pointIndex) continue
+
+    switch (node.type) {
+      case 'circle': return [node.cx, node.cy]
+      case 'rect': return [node.x + node.width / 2, node.y + node.height / 2]
+      case 'line': return [(node.x1 + node.x2) / 2, (node.y1 + node.y2) / 2]
+      case 'text': return [node.x, node.y]
+      case 'path':
+        if (node.arc) return arcCentroid(node.arc)
+        break
+    }
+  }
+  return null
+}
+
+function arcCentroid(arc: ArcShape): [number, number] {
+  const angle = (arc.outerStart + arc.outerEnd) / 2
+  const r = (arc.outerR + arc.innerR) / 2
+  return [arc.cx + r * Math.cos(angle), arc.cy + r * Math.sin(angle)]
+}
+
+/** Screen-reader text for a point: "Mar, Revenue: 1.2K (3 of 12)". */
+export function describePoint(data: PreparedData, options: ResolvedOptions, ref: PointRef): string {
+  const series = data.series[ref.seriesIndex]
+  if (!series) return ''
+  const label = series.x?.[ref.pointIndex] ?? data.labels[ref.pointIndex]
+  const value = series.values[ref.pointIndex]!
+  const format = data.yAxes?.find(a => a.id === series.yAxis)?.format ?? options.yFormat
+  const where = label === undefined ? '' : `${options.xFormat(label)}, `
+  return `${where}${series.name}: ${format(value)} (${ref.pointIndex + 1} of ${series.values.length})`
+}
+
+/** Announced when the chart receives focus. */
+export function describeChart(data: PreparedData, options: ResolvedOptions): string {
+  const points = data.series.reduce((n, s) => Math.max(n, s.values.length), 0)
+  const seriesText = data.series.length === 1 ? '1 series' : `${data.series.length} series`
+  const description = options.ariaDescription ? ` ${options.ariaDescription}.` : ''
+  return `${options.ariaLabel}.${description} ${seriesText}, ${points} points. Use arrow keys to explore, Enter to select.`
+}
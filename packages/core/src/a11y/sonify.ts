@@ -0,0 +1,158 @@
+import type { PreparedData, ResolvedOptions } from '../types'
+
+/**
+ * Sonification — data as sound.
+ *
+ * The note generators are pure: values map to pitch (exponentially, so equal
+ * value steps sound like equal intervals), series map to a stereo position,
+ * and point index maps to time. createSonifier() only plays the resulting
+ * NoteEvents through WebAudio.
+ */
+
+export type SonifyOptions = Exclude<ResolvedOptions['sonify'], false>
+
+export interface NoteEvent {
+  /** Start, in ms from the beginning of playback. */
+  time: number
+  /** Length, in ms. */
+  duration: number
+  /** Pitch, in Hz. */
+  frequency: number
+  /** Stereo position, -1 (left) to 1 (right). */
+  pan: number
+  /** Peak gain, 0–1. */
+  gain: number
+  seriesIndex: number
+  pointIndex: number
+}
+
+/** Stereo spread across series — stays clear of the hard left/right edges. */
+const PAN_WIDTH = 0.8
+
+/** Pitch for `value`, with the series' axis bounds spanning min–max frequency. */
+export function valueToFrequency(value: number, min: number, max: number, opts: SonifyOptions): number {
+  const t = max > min ? Math.max(0, Math.min(1, (value - min) / (max - min))) : 0.5
+  return opts.minFrequency * Math.pow(opts.maxFrequency / opts.minFrequency, t)
+}
+
+/** Stereo position of a series: spread evenly left to right. */
+export function seriesPan(seriesIndex: number, seriesCount: number): number {
+  if (seriesCount <= 1) return 0
+  return -PAN_WIDTH + (2 * PAN_WIDTH * seriesIndex) / (seriesCount - 1)
+}
+
+/** Value bounds of the axis a series is drawn against. */
+function seriesBounds(data: PreparedData, seriesIndex: number): [number, number] {
+  const axisId = data.series[seriesIndex]?.yAxis
+  const axis = axisId ? data.yAxes?.find(a => a.id === axisId) : undefined
+  return axis ? [axis.yMin, axis.yMax] : [data.bounds.yMin, data.bounds.yMax]
+}
+
+/** The single note for one point, starting at time 0. Null for a gap. */
+export function pointNote(data: PreparedData, seriesIndex: number, pointIndex: number, opts: SonifyOptions): NoteEvent | null {
+  const value = data.series[seriesIndex]?.values[pointIndex]
+  if (value == null || !Number.isFinite(value)) return null
+  const [min, max] = seriesBounds(data, seriesIndex)
+  return {
+    time: 0,
+    duration: opts.noteDuration,
+    frequency: valueToFrequency(value, min, max, opts),
+    pan: seriesPan(seriesIndex, data.series.length),
+    gain: opts.volume,
+    seriesIndex,
+    pointIndex,
+  }
+}
+
+/** One note per point of a series, back to back. Gaps are rests. */
+export function sonifySeries(data: PreparedData, seriesIndex: number, opts: SonifyOptions): NoteEvent[] {
+  const series = data.series[seriesIndex]
+  if (!series) return []
+  const notes: NoteEvent[] = []
+  for (let i = 0; i < series.values.length; i++) {
+    const note = pointNote(data, seriesIndex, i, opts)
+    if (note) notes.push({ ...note, time: i * opts.noteDuration })
+  }
+  return notes
+}
+
+export interface Sonifier {
+  /** Play a sequence of notes, replacing whatever is playing. */
+  play(notes: NoteEvent[], waveform?: SonifyOptions['waveform']): void
+  /** Stop everything that is playing or scheduled. */
+  stop(): void
+  destroy(): void
+}
+
+/** Attack/release ramp so notes don't click, in seconds. */
+const RAMP = 0.01
+
+/**
+ * WebAudio player for NoteEvents. The AudioContext is created on first use —
+ * browsers only let it start after a user gesture. No-op without WebAudio.
+ */
+export function createSonifier(): Sonifier {
+  let audio: AudioContext | null = null
+  let voices: OscillatorNode[] = []
+
+  function context(): AudioContext | null {
+    if (typeof AudioContext === 'undefined') return null
+    audio ??= new AudioContext()
+    if (audio.state === 'suspended') void audio.resume()
+    return audio
+  }
+
+  function schedule(ac: AudioContext, note: NoteEvent, start: number, waveform: OscillatorType): void {
+    const end = start + note.duration / 1000
+    const osc = ac.createOscillator()
+    osc.type = waveform
+    osc.frequency.value = note.frequency
+
+    const gain = ac.createGain()
+    gain.gain.setValueAtTime(0, start)
+    gain.gain.linearRampToValueAtTime(note.gain, start + RAMP)
+    gain.gain.setValueAtTime(note.gain, Math.max(start + RAMP, end - RAMP))
+    gain.gain.linearRampToValueAtTime(0, end)
+
+    osc.connect(gain)
+    if (typeof ac.createStereoPanner === 'function') {
+      const panner = ac.createStereoPanner()
+      panner.pan.value = note.pan
+      gain.connect(panner)
+      panner.connect(ac.destination)
+    } else {
+      gain.connect(ac.destination)
+    }
+
+    osc.onended = () => { voices = voices.filter(v => v !== osc) }
+    osc.start(start)
+    osc.stop(end)
+    voices.push(osc)
+  }
+
+  function stop(): void {
+    for (const osc of voices) {
+      try { osc.stop() } catch { /* already stopped */ }
+    }
+    voices = []
+  }
+
+  return {
+    play(notes, waveform = 'sine') {
+      stop()
+      const ac = context()
+      if (!ac) return
+      // Small lead so the first note isn't clipped
+      const t0 = ac.currentTime + 0.05
+      for (const note of notes) schedule(ac, note, t0 + note.time / 1000, waveform)
+    },
+
+    stop,
+
+    destroy() {
+      stop()
+      void audio?.close()
+      audio = null
+    },
+  }
+}
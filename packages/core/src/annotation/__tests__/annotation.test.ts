@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { annotationNodes, renderAnnotations, annotationAt, moveAnnotation, annotationLayer } from '../annotation'
+import { renderToString } from '../../render/string'
+import { lineChartType } from '../../charts/line/line-type'
+import { resolveOptions, LIGHT_THEME } from '../../constants'
+import { createLinearScale } from '../../scales/linear'
+import { createCategoricalScale } from '../../scales/categorical'
+import type { Annotation, ChartData, RenderAttrs, RenderContext, RenderNode } from '../../types'
+
+const data: ChartData = {
+  labels: ['Jan', 'Feb', 'Mar', 'Apr', 'May'],
+  series: [{ name: 'Revenue', values: [0, 25, 50, 75, 100] }],
+}
+
+function makeCtx(annotations: Annotation[] = []): RenderContext {
+  const options = resolveOptions({ annotations, yMin: 0, yMax: 100 }, 1)
+  const prepared = lineChartType.prepareData(data, options)
+  const area = { x: 50, y: 20, width: 400, height: 200 }
+  const xScale = createCategoricalScale({ categories: prepared.labels, range: [area.x, area.x + area.width] })
+  const yScale = createLinearScale({ domain: [0, 100], range: [area.y + area.height, area.y] })
+  return { data: prepared, options, area, xScale, yScale, theme: { ...LIGHT_THEME } }
+}
+
+function groups(node: RenderNode | null | undefined): RenderNode[] {
+  return node?.type === 'group' ? node.children : []
+}
+
+function attrs(node: RenderNode | undefined): RenderAttrs | undefined {
+  return node && 'attrs' in node ? node.attrs : undefined
+}
+
+describe('annotationNodes', () => {
+  it('projects reference lines and bands through the scales', () => {
+    const ctx = makeCtx()
+    const [ref] = annotationNodes({ type: 'line', axis: 'y', value: 50 }, ctx.area, ctx.xScale, ctx.yScale)
+    expect(ref).toMatchObject({ type: 'line', x1: 50, x2: 450, y1: 120, y2: 120 })
+
+    const [band] = annotationNodes({ type: 'area', axis: 'x', from: 'Feb', to: 'Mar' }, ctx.area, ctx.xScale, ctx.yScale)
+    expect(band).toMatchObject({ type: 'rect', x: 150, width: 100, y: 20, height: 200 })
+  })
+})
+
+describe('renderAnnotations', () => {
+  const annotations: Annotation[] = [
+    { type: 'area', axis: 'y', from: 60, to: 80, label: 'Target' },
+    { type: 'line', axis: 'x', value: 'Mar', label: 'Launch', id: 'launch' },
+    { type: 'line', axis: 'y', value: 40, layer: 'below', tooltip: 'Break-even' },
+  ]
+
+  it('splits annotations into layers', () => {
+    expect(annotations.map(annotationLayer)).toEqual(['below', 'above', 'below'])
+    const ctx = makeCtx()
+    expect(groups(renderAnnotations(annotations, ctx, 'below', 'clip')).map(g => attrs(g)?.['data-annotation'])).toEqual([0, 2])
+    expect(groups(renderAnnotations(annotations, ctx, 'above', 'clip')).map(g => attrs(g)?.key)).toEqual(['launch'])
+  })
+
+  it('clips shapes, keeps labels and carries a tooltip', () => {
+    const [launch] = groups(renderAnnotations(annotations, makeCtx(), 'above', 'clip'))
+    expect(attrs(launch)?.title).toBe('Launch')
+    const [shapes, label] = groups(launch)
+    expect(attrs(shapes)?.clipPath).toBe('clip')
+    expect(groups(shapes).map(n => attrs(n)?.class)).toEqual([undefined, 'chartts-annotation-hit'])
+    expect(label).toMatchObject({ type: 'text', content: 'Launch' })
+  })
+
+  it('hides reference lines that fall outside the plot', () => {
+    const off: Annotation[] = [{ type: 'threshold', value: 150 }]
+    expect(renderAnnotations(off, makeCtx(), 'below', 'clip')).toBeNull()
+  })
+})
+
+describe('annotationAt', () => {
+  const annotations: Annotation[] = [
+    { type: 'area', axis: 'y', from: 0, to: 50 },
+    { type: 'line', axis: 'y', value: 25 },
+  ]
+
+  it('prefers the above layer and respects the filter', () => {
+    const ctx = makeCtx()
+    expect(annotationAt(annotations, ctx, 200, 171)).toBe(1)
+    expect(annotationAt(annotations, ctx, 200, 200)).toBe(0)
+    expect(annotationAt(annotations, ctx, 200, 50)).toBe(-1)
+    expect(annotationAt(annotations, ctx, 200, 171, a => a.type === 'area')).toBe(0)
+  })
+})
+
+describe('moveAnnotation', () => {
+  it('reads values back through the scales', () => {
+    const ctx = makeCtx()
+    const moved = moveAnnotation({ type: 'threshold', value: 50 }, ctx, 0, -40)
+    expect(moved).toMatchObject({ value: 70 })
+  })
+
+  it('snaps to categories and keeps band width at the edge', () => {
+    const ctx = makeCtx()
+    expect(moveAnnotation({ type: 'line', axis: 'x', value: 'Feb' }, ctx, 140, 0)).toMatchObject({ value: 'Mar' })
+    const band = moveAnnotation({ type: 'area', axis: 'x', from: 'Mar', to: 'Apr' }, ctx, 500, 0)
+    expect(band).toMatchObject({ from: 'Apr', to: 'May' })
+  })
+})
+
+describe('renderToString', () => {
+  it('draws annotations from options', () => {
+    const svg = renderToString(lineChartType, data, {
+      width: 600, height: 400,
+      annotations: [{ type: 'threshold', value: 50, label: 'Limit' }],
+    })
+    expect(svg).toContain('chartts-annotations-below')
+    expect(svg).toContain('<title>Limit</title>')
+  })
+})
@@ -0,0 +1,275 @@
+import type {
+  Annotation, ChartArea, RenderContext, RenderNode, RenderAttrs, Scale,
+} from '../types'
+import { group, line, rect, text } from '../render/tree'
+
+/**
+ * Declarative annotations — reference lines, shaded bands, thresholds and
+ * free labels, described in data space and projected through the chart's
+ * scales on every render (so they follow zoom and pan for free).
+ *
+ * annotationNodes() is the bare geometry; renderAnnotations() wraps it for
+ * the chart: one keyed group per annotation, shapes clipped to the plot,
+ * a hover tooltip and a wide invisible hit line for thin lines.
+ */
+
+const LINE_COLOR = '#888888'
+const AREA_COLOR = '#3b82f6'
+const THRESHOLD_COLOR = '#ef4444'
+const LABEL_COLOR = '#374151'
+const LABEL_FONT_SIZE = 11
+const DASH = '6 4'
+
+/** Half-width of the invisible stroke that makes thin lines easy to hover and grab. */
+export const ANNOTATION_HIT_WIDTH = 6
+
+/** Which side of the series an annotation draws on, unless it says otherwise. */
+export function annotationLayer(ann: Annotation): 'above' | 'below' {
+  if (ann.layer) return ann.layer
+  return ann.type === 'area' || ann.type === 'threshold' ? 'below' : 'above'
+}
+
+/** Text shown on hover: the explicit tooltip, else the annotation's label. */
+export function annotationTooltip(ann: Annotation): string | undefined {
+  return ann.tooltip ?? (ann.type === 'label' ? ann.text : ann.label)
+}
+
+function lineAttrs(color: string, width: number, dash: boolean): RenderAttrs {
+  return dash
+    ? { stroke: color, strokeWidth: width, strokeDasharray: DASH }
+    : { stroke: color, strokeWidth: width }
+}
+
+function label(x: number, y: number, content: string, color: string, anchor: 'start' | 'middle' | 'end', fontSize = LABEL_FONT_SIZE): RenderNode {
+  return text(x, y, content, { fill: color, fontSize, textAnchor: anchor, dominantBaseline: 'auto', class: 'chartts-annotation-label' })
+}
+
+/**
+ * Geometry of one annotation in chart coordinates. `yScale` is the scale of
+ * the axis the annotation's y values are on.
+ */
+export function annotationNodes(ann: Annotation, area: ChartArea, xScale: Scale, yScale: Scale): RenderNode[] {
+  switch (ann.type) {
+    case 'line': {
+      const color = ann.color ?? LINE_COLOR
+      const attrs = lineAttrs(color, ann.lineWidth ?? 1.5, ann.dash ?? true)
+      if (ann.axis === 'y') {
+        const py = yScale.map(ann.value)
+        const nodes = [line(area.x, py, area.x + area.width, py, attrs)]
+        if (ann.label) nodes.push(label(area.x - 4, py - 6, ann.label, color, 'end'))
+        return nodes
+      }
+      const px = xScale.map(ann.value)
+      const nodes = [line(px, area.y, px, area.y + area.height, attrs)]
+      if (ann.label) nodes.push(label(px, area.y - 6, ann.label, color, 'middle'))
+      return nodes
+    }
+
+    case 'area': {
+      const color = ann.color ?? AREA_COLOR
+      const attrs = { fill: color, fillOpacity: ann.opacity ?? 0.12 }
+      if (ann.axis === 'y') {
+        const y1 = yScale.map(ann.from)
+        const y2 = yScale.map(ann.to)
+        const top = Math.min(y1, y2)
+        const height = Math.abs(y2 - y1)
+        const nodes = [rect(area.x, top, area.width, height, attrs)]
+        if (ann.label) nodes.push(label(area.x + area.width / 2, top + height / 2, ann.label, color, 'middle'))
+        return nodes
+      }
+      const x1 = xScale.map(ann.from)
+      const x2 = xScale.map(ann.to)
+      const left = Math.min(x1, x2)
+      const width = Math.abs(x2 - x1)
+      const nodes = [rect(left, area.y, width, area.height, attrs)]
+      if (ann.label) nodes.push(label(left + width / 2, area.y + 14, ann.label, color, 'middle'))
+      return nodes
+    }
+
+    case 'threshold': {
+      const color = ann.color ?? THRESHOLD_COLOR
+      const py = yScale.map(ann.value)
+      const nodes: RenderNode[] = []
+      const above = py - area.y
+      if (ann.aboveColor && above > 0) {
+        nodes.push(rect(area.x, area.y, area.width, above, { fill: ann.aboveColor, fillOpacity: 0.08 }))
+      }
+      const below = area.y + area.height - py
+      if (ann.belowColor && below > 0) {
+        nodes.push(rect(area.x, py, area.width, below, { fill: ann.belowColor, fillOpacity: 0.08 }))
+      }
+      nodes.push(line(area.x, py, area.x + area.width, py, lineAttrs(color, ann.lineWidth ?? 1.5, ann.dash ?? true)))
+      if (ann.label) nodes.push(label(area.x + area.width + 4, py + 4, ann.label, color, 'start'))
+      return nodes
+    }
+
+    case 'label':
+      return [label(xScale.map(ann.x), yScale.map(ann.y), ann.text, ann.color ?? LABEL_COLOR, ann.anchor ?? 'middle', ann.fontSize ?? 12)]
+  }
+}
+
+/** Scale for the annotation's y values — its secondary axis if it names one. */
+export function annotationYScale(ann: Annotation, ctx: RenderContext): Scale {
+  return (ann.yAxis && ctx.yScales?.[ann.yAxis]) || ctx.yScale
+}
+
+/** Reference lines and thresholds run edge to edge — anything off the plot is hidden. */
+function inPlot(ann: Annotation, ctx: RenderContext): boolean {
+  const { area } = ctx
+  if ((ann.type === 'line' && ann.axis === 'y') || ann.type === 'threshold') {
+    const py = annotationYScale(ann, ctx).map(ann.value)
+    return py >= area.y - 0.5 && py <= area.y + area.height + 0.5
+  }
+  if (ann.type === 'line') {
+    const px = ctx.xScale.map(ann.value)
+    return px >= area.x - 0.5 && px <= area.x + area.width + 0.5
+  }
+  return true
+}
+
+/**
+ * Render the annotations for one layer as a single group, or null when the
+ * layer is empty. Shapes are clipped to `clipId`; labels (which sit in the
+ * margins) are not, but are dropped with their line once it leaves the plot.
+ */
+export function renderAnnotations(
+  annotations: Annotation[],
+  ctx: RenderContext,
+  layer: 'above' | 'below',
+  clipId: string,
+): RenderNode | null {
+  const groups: RenderNode[] = []
+
+  annotations.forEach((ann, index) => {
+    if (annotationLayer(ann) !== layer || !inPlot(ann, ctx)) return
+    const nodes = annotationNodes(ann, ctx.area, ctx.xScale, annotationYScale(ann, ctx))
+    const shapes: RenderNode[] = nodes.filter(n => n.type !== 'text')
+    const labels = nodes.filter(n => n.type === 'text')
+
+    if (ann.draggable || annotationTooltip(ann)) {
+      for (const shape of shapes.slice()) {
+        if (shape.type !== 'line') continue
+        shapes.push(line(shape.x1, shape.y1, shape.x2, shape.y2, {
+          stroke: 'transparent', strokeWidth: ANNOTATION_HIT_WIDTH * 2, class: 'chartts-annotation-hit',
+        }))
+      }
+    }
+
+    const cls = `chartts-annotation chartts-annotation-${ann.type}` +
+      (ann.draggable ? ` chartts-annotation-draggable chartts-annotation-drag-${dragAxis(ann)}` : '')
+    groups.push(group([
+      group(shapes, { clipPath: clipId }),
+      ...labels,
+    ], {
+      class: cls,
+      key: ann.id ?? `${ann.type}-${index}`,
+      'data-annotation': index,
+      title: annotationTooltip(ann),
+    }))
+  })
+
+  if (!groups.length) return null
+  return group(groups, { class: `chartts-annotations chartts-annotations-${layer}` })
+}
+
+/** Direction an annotation moves when dragged. */
+export function dragAxis(ann: Annotation): 'x' | 'y' | 'xy' {
+  if (ann.type === 'threshold') return 'y'
+  if (ann.type === 'label') return 'xy'
+  return ann.axis
+}
+
+/**
+ * Index (in `annotations`) of the topmost annotation under (x, y), in chart
+ * coordinates, or -1. Above-layer annotations win over below-layer ones.
+ */
+export function annotationAt(annotations: Annotation[], ctx: RenderContext, x: number, y: number, filter?: (ann: Annotation) => boolean): number {
+  const { area } = ctx
+  const inside = x >= area.x && x <= area.x + area.width && y >= area.y && y <= area.y + area.height
+  for (const layer of ['above', 'below'] as const) {
+    for (let i = annotations.length - 1; i >= 0; i--) {
+      const ann = annotations[i]!
+      if (annotationLayer(ann) !== layer || (filter && !filter(ann)) || !inPlot(ann, ctx)) continue
+      if (hits(ann, ctx, x, y, inside)) return i
+    }
+  }
+  return -1
+}
+
+function hits(ann: Annotation, ctx: RenderContext, x: number, y: number, inside: boolean): boolean {
+  const yScale = annotationYScale(ann, ctx)
+  switch (ann.type) {
+    case 'threshold':
+      return inside && Math.abs(y - yScale.map(ann.value)) <= ANNOTATION_HIT_WIDTH
+    case 'line':
+      return inside && (ann.axis === 'y'
+        ? Math.abs(y - yScale.map(ann.value)) <= ANNOTATION_HIT_WIDTH
+        : Math.abs(x - ctx.xScale.map(ann.value)) <= ANNOTATION_HIT_WIDTH)
+    case 'area': {
+      if (!inside) return false
+      const scale = ann.axis === 'y' ? yScale : ctx.xScale
+      const a = scale.map(ann.from)
+      const b = scale.map(ann.to)
+      const v = ann.axis === 'y' ? y : x
+      return v >= Math.min(a, b) && v <= Math.max(a, b)
+    }
+    case 'label': {
+      // Approximate text box around the anchor point
+      const px = ctx.xScale.map(ann.x)
+      const py = yScale.map(ann.y)
+      const size = ann.fontSize ?? 12
+      const half = ann.text.length * size * 0.3
+      const cx = ann.anchor === 'start' ? px + half : ann.anchor === 'end' ? px - half : px
+      return Math.abs(x - cx) <= half + 2 && y <= py + 2 && y >= py - size - 2
+    }
+  }
+}
+
+/**
+ * `ann` moved by (dx, dy) pixels, with its values read back through the
+ * scales. Movement is clamped to the plot (bands keep their width). On a
+ * categorical x axis, positions snap to the nearest label.
+ */
+export function moveAnnotation(ann: Annotation, ctx: RenderContext, dx: number, dy: number): Annotation {
+  const { area } = ctx
+  const yScale = annotationYScale(ann, ctx)
+  const labels = ctx.data.labels
+
+  const moveY = (value: number | string, d: number): number => yScale.invert(yScale.map(value) + d)
+  const moveX = (value: number | string, d: number): number | string => {
+    const inverted = ctx.xScale.invert(ctx.xScale.map(value) + d)
+    if (!ctx.xScale.bandwidth?.()) return inverted
+    const index = clamp(Math.round(inverted), 0, labels.length - 1)
+    return typeof value === 'string' ? String(labels[index]) : index
+  }
+  // Largest part of `d` that keeps every pixel position in [lo, hi]
+  const limit = (d: number, positions: number[], lo: number, hi: number): number =>
+    clamp(d, lo - Math.min(...positions), hi - Math.max(...positions))
+  const limitX = (d: number, ...values: (number | string)[]): number =>
+    limit(d, values.map(v => ctx.xScale.map(v)), area.x, area.x + area.width)
+  const limitY = (d: number, ...values: (number | string)[]): number =>
+    limit(d, values.map(v => yScale.map(v)), area.y, area.y + area.height)
+
+  switch (ann.type) {
+    case 'threshold':
+      return { ...ann, value: moveY(ann.value, limitY(dy, ann.value)) }
+    case 'line':
+      return ann.axis === 'y'
+        ? { ...ann, value: moveY(ann.value, limitY(dy, ann.value)) }
+        : { ...ann, value: moveX(ann.value, limitX(dx, ann.value)) }
+    case 'area': {
+      if (ann.axis === 'y') {
+        const d = limitY(dy, ann.from, ann.to)
+        return { ...ann, from: moveY(ann.from, d), to: moveY(ann.to, d) }
+      }
+      const d = limitX(dx, ann.from, ann.to)
+      return { ...ann, from: moveX(ann.from, d), to: moveX(ann.to, d) }
+    }
+    case 'label':
+      return { ...ann, x: moveX(ann.x, limitX(dx, ann.x)), y: moveY(ann.y, limitY(dy, ann.y)) }
+  }
+}
+
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.max(lo, Math.min(hi, v))
+}
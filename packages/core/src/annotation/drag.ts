@@ -0,0 +1,126 @@
+import type { Annotation, RenderContext } from '../types'
+import { annotationAt, moveAnnotation } from './annotation'
+
+/**
+ * Dragging for annotations marked `draggable`.
+ *
+ * Listens in the capture phase so a grab on an annotation doesn't also
+ * start a pan or a brush selection, and swallows the click that ends a drag.
+ */
+
+export interface AnnotationDragConfig {
+  /** Annotations as currently rendered (including any drag in progress). */
+  getAnnotations(): Annotation[]
+  /** Context of the last render — null before the first one. */
+  getContext(): RenderContext | null
+  /** The annotation at `index` moved; re-render with it. */
+  onMove(index: number, annotation: Annotation): void
+  /** The drag ended with the annotation somewhere new. */
+  onEnd(index: number, annotation: Annotation, previous: Annotation): void
+}
+
+export interface AnnotationDrag {
+  attach(el: SVGElement | HTMLCanvasElement): void
+  destroy(): void
+}
+
+interface DragState {
+  index: number
+  pointerId: number
+  startX: number
+  startY: number
+  original: Annotation
+  current: Annotation
+}
+
+export function createAnnotationDrag(config: AnnotationDragConfig): AnnotationDrag {
+  let target: SVGElement | HTMLCanvasElement | null = null
+  let drag: DragState | null = null
+  let suppressClick = false
+
+  /** Client px to chart (viewBox) coordinates. */
+  function toChart(e: PointerEvent): { x: number; y: number } {
+    const el = target!
+    const r = el.getBoundingClientRect()
+    const x = e.clientX - r.left
+    const y = e.clientY - r.top
+    if (el instanceof HTMLCanvasElement || !r.width || !r.height) return { x, y }
+    const viewBox = el.getAttribute('viewBox')?.split(' ').map(Number) ?? [0, 0, r.width, r.height]
+    return { x: x * viewBox[2]! / r.width, y: y * viewBox[3]! / r.height }
+  }
+
+  function onPointerDown(e: PointerEvent): void {
+    if (e.button !== 0) return
+    const ctx = config.getContext()
+    if (!ctx) return
+    const { x, y } = toChart(e)
+    const annotations = config.getAnnotations()
+    const index = annotationAt(annotations, ctx, x, y, ann => !!ann.draggable)
+    if (index < 0) return
+
+    e.preventDefault()
+    e.stopImmediatePropagation()
+    const ann = annotations[index]!
+    drag = { index, pointerId: e.pointerId, startX: x, startY: y, original: ann, current: ann }
+    target!.setPointerCapture?.(e.pointerId)
+    target!.classList.add('chartts-annotation-dragging')
+  }
+
+  function onPointerMove(e: PointerEvent): void {
+    if (!drag || e.pointerId !== drag.pointerId) return
+    const ctx = config.getContext()
+    if (!ctx) return
+    e.stopImmediatePropagation()
+    const { x, y } = toChart(e)
+    drag.current = moveAnnotation(drag.original, ctx, x - drag.startX, y - drag.startY)
+    config.onMove(drag.index, drag.current)
+  }
+
+  function onPointerUp(e: PointerEvent): void {
+    if (!drag || e.pointerId !== drag.pointerId) return
+    e.stopImmediatePropagation()
+    const { index, original, current } = drag
+    drag = null
+    target!.releasePointerCapture?.(e.pointerId)
+    target!.classList.remove('chartts-annotation-dragging')
+    if (current === original) return
+    suppressClick = true
+    config.onEnd(index, current, original)
+  }
+
+  function onPointerCancel(e: PointerEvent): void {
+    if (!drag || e.pointerId !== drag.pointerId) return
+    const { index, original } = drag
+    drag = null
+    target!.classList.remove('chartts-annotation-dragging')
+    config.onMove(index, original)
+  }
+
+  function onClick(e: MouseEvent): void {
+    if (!suppressClick) return
+    suppressClick = false
+    e.stopImmediatePropagation()
+  }
+
+  return {
+    attach(el) {
+      target = el
+      el.addEventListener('pointerdown', onPointerDown as EventListener, true)
+      el.addEventListener('pointermove', onPointerMove as EventListener, true)
+      el.addEventListener('pointerup', onPointerUp as EventListener, true)
+      el.addEventListener('pointercancel', onPointerCancel as EventListener, true)
+      el.addEventListener('click', onClick as EventListener, true)
+    },
+
+    destroy() {
+      if (!target) return
+      target.removeEventListener('pointerdown', onPointerDown as EventListener, true)
+      target.removeEventListener('pointermove', onPointerMove as EventListener, true)
+      target.removeEventListener('pointerup', onPointerUp as EventListener, true)
+      target.removeEventListener('pointercancel', onPointerCancel as EventListener, true)
+      target.removeEventListener('click', onClick as EventListener, true)
+      target = null
+      drag = null
+    },
+  }
+}
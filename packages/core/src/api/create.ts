@@ -1,29 +1,32 @@
 import type {
   ChartData, ChartOptions, ChartInstance, ChartTypePlugin,
-  RenderNode, RenderContext, EventBus, PreparedData,
+  RenderNode, RenderContext, EventBus, PreparedData, DataPoint, Annotation,
 } from '../types'
 import { resolveOptions } from '../constants'
 import { resolveTheme, watchScheme } from '../theme/engine'
 import { createEventBus } from '../events/bus'
-import { computeLayout } from '../layout/compute'
 import { observeResize } from '../layout/responsive'
-import { renderXAxis, renderYAxis, renderGrid } from '../axis/axis'
-import { renderLegend } from '../legend/legend'
-import { createLinearScale } from '../scales/linear'
-import { createCategoricalScale } from '../scales/categorical'
-import { group, defs, clipPathDef, rect } from '../render/tree'
+import { createInteractiveLegend } from '../legend/interactive'
+import { buildScene } from '../render/scene'
 import { createInteractionLayer } from '../interaction/interaction'
+import { applyDimming } from '../interaction/highlight'
 import { createZoomPan, type ZoomPanInstance } from '../interaction/zoom-pan'
 import { createBrush, type BrushInstance } from '../interaction/brush'
 import { createDebugPanel, type DebugPanel } from '../debug/debug'
 import { renderEmptyState, renderLoadingState, renderErrorState } from '../render/states'
-import { decimateData } from '../data/decimate'
+import { createTransitioner, prefersReducedMotion } from '../render/transition'
+import { createKeyboardNavigation } from '../a11y/keyboard'
+import { createLiveRegion } from '../a11y/live-region'
+import { createDataTable } from '../a11y/data-table'
+import { createSonifier, pointNote, sonifySeries } from '../a11y/sonify'
+import { createAnnotationDrag } from '../annotation/drag'
+import { createBreadcrumbControl, drillInto } from '../features/drilldown'
 import { resolveRendererType, createRendererManager } from './renderer-manager'
 import { createStateManager } from './state-manager'
 import { createExporter } from './exporter'
 
 /** Extended options for createChart (includes debug flag) */
-interface CreateChartOptions extends ChartOptions {
+export interface CreateChartOptions extends ChartOptions {
   debug?: boolean
 }
 
@@ -37,6 +40,11 @@ export function createChart(
   data: ChartData,
   options: CreateChartOptions = {},
 ): ChartInstance {
+  return mountChart(resolveContainer(target), chartType, data, options, null)
+}
+
+/** The element a chart renders into, from a selector or the element itself. */
+export function resolveContainer(target: string | HTMLElement): HTMLElement {
   const container = typeof target === 'string'
     ? document.querySelector<HTMLElement>(target)
     : target
@@ -44,16 +52,44 @@ export function createChart(
   if (!container) {
     throw new Error(`[chartts] Target element not found: ${target}`)
   }
+  return container
+}
+
+/**
+ * Build a chart instance in `container`, either with a fresh root or by
+ * taking over the server-rendered `<svg>` in `adopt` (see hydrateChart).
+ */
+export function mountChart(
+  container: HTMLElement,
+  chartType: ChartTypePlugin,
+  data: ChartData,
+  options: CreateChartOptions,
+  adopt: SVGSVGElement | null,
+): ChartInstance {
+  // Size the server rendered at — used when the container has no layout yet
+  const adoptedSize = adopt?.getAttribute('viewBox')?.split(' ').map(Number)
 
   // State
   let currentData = data
   let currentOptions = resolveOptions(options, data.series.length)
   let currentTheme = resolveTheme(currentOptions.theme)
-  let width = currentOptions.width || container.clientWidth || 400
-  let height = currentOptions.height || container.clientHeight || 300
+  let width = currentOptions.width || container.clientWidth || adoptedSize?.[2] || 400
+  let height = currentOptions.height || container.clientHeight || adoptedSize?.[3] || 300
   let lastCtx: RenderContext | null = null
   let lastPrepared: PreparedData | null = null
   let lastRenderedNodes: RenderNode[] = []
+  // Set by setData/setOptions: the next render tweens from what's on screen
+  let transitionNext = false
+  // Series toggled off from the legend or toggleSeries(), by name
+  const hiddenSeries = new Set<string>()
+  // Current page of a paged legend (clamped by the layout on every render)
+  let legendPage = 0
+  // Annotation being dragged, drawn in place of options.annotations[index]
+  let annotationDrag: { index: number; annotation: Annotation } | null = null
+  // Drill-down levels below the top: the node drilled into and the data shown there
+  let drillStack: { name: string; data: ChartData }[] = []
+  // Bumped on every drill change, so a slow load() can't land on a newer level
+  let drillVersion = 0
 
   // Renderer subsystem
   const rendererType = resolveRendererType(currentOptions.renderer, data)
@@ -65,9 +101,13 @@ export function createChart(
     height,
     className: currentOptions.className,
     ariaLabel: currentOptions.ariaLabel,
+    adopt,
     onReady: () => render(), // Re-render when Canvas/WebGL finishes loading
   })
 
+  // Transitions between data/option states (drawn through whichever renderer is active)
+  const transition = createTransitioner((frame) => rm.renderer.render(rm.root, frame))
+
   // State manager
   const stateManager = createStateManager(() => render())
 
@@ -104,9 +144,90 @@ export function createChart(
     interaction.attach(rm.root.element as SVGElement, container)
   }
 
-  // Zoom & Pan
+  // Interactive legend: click/Enter toggles a series, hover isolates it
+  const legendControl = createInteractiveLegend({
+    onToggle: (name) => instance.toggleSeries(name),
+    onHover: (name) => {
+      if (transition.active || !lastPrepared) return
+      const series = name === null ? undefined : lastPrepared.series.find(s => s.name === name)
+      rm.renderer.render(rm.root, series
+        ? applyDimming(lastRenderedNodes, { seriesIndex: series.index, pointIndex: -1, distance: 0, x: 0, y: 0 })
+        : lastRenderedNodes)
+    },
+    onPage: (delta) => {
+      legendPage += delta
+      render()
+    },
+    getNodes: () => lastRenderedNodes,
+  })
+  legendControl.attach(rm.root.element as SVGElement | HTMLCanvasElement)
+
+  // Drill-down: clicking (or activating) a node drills into it, the breadcrumb leads back up
+  const drillOnPoint = ({ point }: { point: DataPoint }): void => {
+    if (!currentOptions.drilldown) return
+    void drillTo(point.path ?? [String(point.label)], point)
+  }
+  bus.on('point:click', drillOnPoint)
+  bus.on('point:activate', drillOnPoint)
+  const breadcrumb = createBreadcrumbControl({
+    onNavigate: (depth) => instance.drillUp(drillStack.length - depth),
+    getNodes: () => lastRenderedNodes,
+  })
+  breadcrumb.attach(rm.root.element as SVGElement | HTMLCanvasElement)
+
+  // Keyboard navigation, announced through a live region
+  const liveRegion = currentOptions.keyboard ? createLiveRegion(container) : null
+  const keyboard = liveRegion
+    ? createKeyboardNavigation({
+        chartType,
+        getContext: () => lastCtx,
+        getNodes: () => lastRenderedNodes,
+        onFocusPoint: (hit) => interaction.focusPoint(hit),
+        onActivate: (hit, event) => interaction.activatePoint(hit, event),
+        announce: (message) => liveRegion.announce(message),
+      })
+    : null
+  keyboard?.attach(rm.root.element as SVGElement | HTMLCanvasElement)
+
+  // Sonification: a tone for each point reached by pointer or keyboard (AudioContext starts lazily)
+  const sonifier = createSonifier()
+  const playPoint = ({ point }: { point: DataPoint }): void => {
+    const sonify = currentOptions.sonify
+    if (!sonify || !sonify.onPoint || !lastPrepared) return
+    const note = pointNote(lastPrepared, point.seriesIndex, point.index, sonify)
+    if (note) sonifier.play([note], sonify.waveform)
+  }
+  bus.on('point:enter', playPoint)
+  bus.on('point:focus', playPoint)
+
+  // Screen-reader alternative: the data as a visually hidden table
+  let dataTable = currentOptions.dataTable ? createDataTable(container) : null
+  dataTable?.update(currentData, currentOptions)
+
+  // Draggable annotations — attached before zoom/pan and brush so a grab wins
+  const annotationDragger = createAnnotationDrag({
+    getAnnotations: shownAnnotations,
+    getContext: () => lastCtx,
+    onMove(index, annotation) {
+      annotationDrag = { index, annotation }
+      render()
+    },
+    onEnd(index, annotation, previous) {
+      annotationDrag = null
+      const next = currentOptions.annotations.slice()
+      next[index] = annotation
+      options.annotations = next
+      currentOptions.annotations = next
+      render()
+      bus.emit('annotation:change', { annotation, previous, index })
+    },
+  })
+  annotationDragger.attach(rm.root.element as SVGElement | HTMLCanvasElement)
+
+  // Zoom & Pan — charts with nodes always get one for focusNode(); the
+  // options only decide whether wheel, pinch and drag drive it
   let zoomPan: ZoomPanInstance | null = null
-  if (currentOptions.zoom || currentOptions.pan) {
+  if (currentOptions.zoom || currentOptions.pan || chartType.locateNode) {
     const needs2DZoom = !!chartType.suppressAxes
     zoomPan = createZoomPan(
       {
@@ -171,108 +292,121 @@ export function createChart(
       })
     : () => {}
 
-  // Initial render
+  // Initial render. Hydrated markup is already on screen — don't replay entry animations.
+  if (adopt) rm.root.element.classList.add('chartts-skip-anim')
   render()
   requestAnimationFrame(() => {
     rm.root.element.classList.add('chartts-skip-anim')
   })
 
   // -----------------------------------------------------------------------
+  function shownAnnotations(): Annotation[] {
+    const list = currentOptions.annotations
+    if (!annotationDrag) return list
+    const { index, annotation } = annotationDrag
+    return list.map((ann, i) => i === index ? annotation : ann)
+  }
+
+  function drillPath(): string[] {
+    return drillStack.map(level => level.name)
+  }
+
+  /** The data at the current drill-down level. */
+  function levelData(): ChartData {
+    return drillStack[drillStack.length - 1]?.data ?? currentData
+  }
+
+  /** Replace the drill-down levels and redraw, announcing the change. */
+  function setDrillStack(next: { name: string; data: ChartData }[]): void {
+    const previous = drillPath()
+    drillStack = next
+    drillVersion++
+    // Point indices refer to the level that was on screen
+    keyboard?.reset()
+    transitionNext = true
+    render()
+    bus.emit('drill:change', { path: drillPath(), previous })
+  }
+
+  /**
+   * Drill down `names` one level at a time — through the label hierarchy,
+   * else through drilldown.load. Stops at the first leaf. A failing load
+   * leaves the chart where it is and fires `drill:error`.
+   */
+  async function drillTo(names: string[], point?: DataPoint): Promise<void> {
+    const drill = currentOptions.drilldown
+    if (!drill || !names.length) return
+    const version = drillVersion
+    const next = drillStack.slice()
+    let data = levelData()
+
+    for (const name of names) {
+      const path = [...next.map(level => level.name), name]
+      let child: ChartData | null | undefined
+      try {
+        child = drillInto(data, [name], drill.separator) ?? (drill.load ? await drill.load(path, point) : null)
+      } catch (error) {
+        if (version === drillVersion) bus.emit('drill:error', { path, error })
+        return
+      }
+      // The chart moved on (or was reset) while loading
+      if (version !== drillVersion) return
+      if (!child) break
+      next.push({ name, data: child })
+      data = child
+    }
+    if (next.length > drillStack.length) setDrillStack(next)
+  }
+
   function render(): void {
     rm.updateViewport(width, height)
 
+    // Whatever is on screen right now — mid-transition frame or last full render
+    const shown = transition.stop() ?? lastRenderedNodes
+    const animate = transitionNext && currentOptions.animate && shown.length > 0 && !prefersReducedMotion()
+    transitionNext = false
+
     // Render state overlays (loading / error / empty)
     if (stateManager.state === 'loading') {
+      lastRenderedNodes = []
       rm.renderer.render(rm.root, renderLoadingState(width, height, currentTheme))
       return
     }
     if (stateManager.state === 'error') {
+      lastRenderedNodes = []
       rm.renderer.render(rm.root, renderErrorState(width, height, currentTheme, stateManager.message))
       return
     }
 
-    const hasRichGraphData = chartType.type === 'graph' &&
-      ((options as Record<string, unknown>).nodes || (options as Record<string, unknown>).edges)
-    const isEmpty = !hasRichGraphData && (
-      !currentData.series.length ||
-      currentData.series.every(s => s.values.length === 0)
-    )
-    if (stateManager.state === 'empty' || isEmpty) {
+    if (stateManager.state === 'empty') {
+      lastRenderedNodes = []
       rm.renderer.render(rm.root, renderEmptyState(width, height, currentTheme, stateManager.message))
       return
     }
 
-    // Decimate large datasets before preparing
-    const decimateOpt = (options as Record<string, unknown>).decimate
-    const dataForRender = decimateOpt
-      ? decimateData(currentData, typeof decimateOpt === 'object' ? decimateOpt : { threshold: Math.max(width * 2, 500) })
-      : currentData
-
-    const prepared = chartType.prepareData(dataForRender, currentOptions)
-    lastPrepared = prepared
-
-    // Chart types that suppress axes/grid don't need axis margins
-    const suppressAxes = !!chartType.suppressAxes
-    const layoutOpts = suppressAxes
-      ? { ...currentOptions, xAxis: false, yAxis: false, xLabel: '', yLabel: '', legend: false as const, padding: [4, 4, 4, 4] as [number, number, number, number] }
-      : currentOptions
-    const { area } = computeLayout(width, height, layoutOpts, prepared)
-
-    // Use band mode for bar-like charts so bars don't overflow the chart area
-    const useBand = !!chartType.useBandScale
-    const xScale = createCategoricalScale({
-      categories: prepared.labels,
-      range: [area.x, area.x + area.width],
-      format: currentOptions.xFormat,
-      band: useBand,
-    })
-
-    const yScale = createLinearScale({
-      domain: [prepared.bounds.yMin, prepared.bounds.yMax],
-      range: [area.y + area.height, area.y],
-      nice: true,
-      format: currentOptions.yFormat,
-    })
-
-    // Apply zoom/pan state to scales
-    if (zoomPan) {
-      zoomPan.applyToScales(xScale, yScale, area)
-    }
-
-    const ctx: RenderContext = {
-      data: prepared,
-      options: currentOptions,
-      area,
-      xScale,
-      yScale,
+    const { nodes, ctx, legend } = buildScene(chartType, levelData(), options, { width, height }, {
       theme: currentTheme,
-      zoomPan: zoomPan ? zoomPan.getState() : undefined,
+      hiddenSeries,
+      legendPage,
+      zoom: zoomPan ?? undefined,
+      annotations: shownAnnotations(),
+      drillPath: drillPath(),
+    })
+    legendPage = legend?.page ?? 0
+    if (!ctx) {
+      lastRenderedNodes = []
+      rm.renderer.render(rm.root, nodes)
+      return
     }
     lastCtx = ctx
-
-    const clipId = 'chartts-clip'
-    const nodes: RenderNode[] = []
-
-    nodes.push(defs([
-      clipPathDef(clipId, [rect(area.x, area.y, area.width, area.height)]),
-    ]))
-
-    if (!suppressAxes) {
-      nodes.push(renderGrid(xScale, yScale, area, currentOptions, currentTheme))
-      nodes.push(renderXAxis(xScale, area, currentOptions, currentTheme))
-      nodes.push(renderYAxis(yScale, area, currentOptions, currentTheme))
-    }
-
-    const chartNodes = chartType.render(ctx)
-    nodes.push(group(chartNodes, { class: 'chartts-content', clipPath: clipId }))
-
-    if (!suppressAxes) {
-      const legend = renderLegend(prepared, area, currentOptions, currentTheme)
-      if (legend) nodes.push(legend)
-    }
+    lastPrepared = ctx.data
 
     lastRenderedNodes = nodes
-    rm.renderer.render(rm.root, nodes)
+    if (animate) {
+      transition.run(shown, nodes, currentOptions.duration)
+    } else {
+      rm.renderer.render(rm.root, nodes)
+    }
 
     // SVG-only: inject effect gradient/filter defs
     rm.injectEffectDefs(currentOptions.colors)
@@ -286,8 +420,18 @@ export function createChart(
     setData(newData: ChartData): void {
       const prev = currentData
       currentData = newData
+      // New data starts back at the top level
+      if (drillStack.length) {
+        const previous = drillPath()
+        drillStack = []
+        drillVersion++
+        bus.emit('drill:change', { path: [], previous })
+      }
       currentOptions = resolveOptions(options, newData.series.length)
       stateManager.reset()
+      keyboard?.reset()
+      dataTable?.update(currentData, currentOptions)
+      transitionNext = true
       render()
       bus.emit('data:change', { previous: prev, current: newData })
     },
@@ -297,6 +441,14 @@ export function createChart(
       currentOptions = resolveOptions(options, currentData.series.length)
       currentTheme = resolveTheme(currentOptions.theme)
       rm.applyTheme(currentTheme)
+      if (currentOptions.dataTable) {
+        dataTable ??= createDataTable(container)
+        dataTable.update(currentData, currentOptions)
+      } else {
+        dataTable?.destroy()
+        dataTable = null
+      }
+      transitionNext = true
       render()
     },
 
@@ -321,6 +473,57 @@ export function createChart(
       render()
     },
 
+    toggleSeries(name: string, visible?: boolean): void {
+      const index = currentData.series.findIndex(s => s.name === name)
+      if (index < 0) return
+      const show = visible ?? hiddenSeries.has(name)
+      if (show === !hiddenSeries.has(name)) return
+      // Keep at least one series on screen — an empty chart has no legend to toggle back
+      if (!show && currentData.series.every(s => s.name === name || hiddenSeries.has(s.name))) return
+
+      if (show) hiddenSeries.delete(name)
+      else hiddenSeries.add(name)
+      // Series indices shift when one is hidden or shown
+      keyboard?.reset()
+      transitionNext = true
+      render()
+      bus.emit('legend:toggle', { series: name, index, visible: show })
+    },
+
+    isSeriesVisible(name: string): boolean {
+      return !hiddenSeries.has(name)
+    },
+
+    getHiddenSeries(): string[] {
+      return [...hiddenSeries]
+    },
+
+    sonify(series?: string | number): void {
+      const sonify = currentOptions.sonify
+      if (!sonify || !lastPrepared) return
+      const index = typeof series === 'string'
+        ? lastPrepared.series.findIndex(s => s.name === series)
+        : series ?? 0
+      sonifier.play(sonifySeries(lastPrepared, index, sonify), sonify.waveform)
+    },
+
+    stopSound(): void {
+      sonifier.stop()
+    },
+
+    drillDown(path: string | string[]): Promise<void> {
+      return drillTo(typeof path === 'string' ? [path] : path)
+    },
+
+    drillUp(levels = 1): void {
+      if (!drillStack.length || levels <= 0) return
+      setDrillStack(drillStack.slice(0, Math.max(0, drillStack.length - levels)))
+    },
+
+    getDrillPath(): string[] {
+      return drillPath()
+    },
+
     resetZoom(): void {
       if (zoomPan) {
         zoomPan.reset()
@@ -328,10 +531,26 @@ export function createChart(
       }
     },
 
+    focusNode(id: string, zoom = 2): void {
+      if (!zoomPan || !lastCtx) return
+      const at = chartType.locateNode?.(lastCtx, id)
+      if (!at) return
+      const { area } = lastCtx
+      zoomPan.focus((at.x - area.x) / area.width, (at.y - area.y) / area.height, zoom)
+    },
+
     destroy(): void {
+      transition.stop()
       stopResize()
       stopThemeWatch()
       interaction.destroy()
+      legendControl.destroy()
+      breadcrumb.destroy()
+      keyboard?.destroy()
+      liveRegion?.destroy()
+      dataTable?.destroy()
+      sonifier.destroy()
+      annotationDragger.destroy()
       zoomPan?.destroy()
       brush?.destroy()
       debug?.destroy()
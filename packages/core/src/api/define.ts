@@ -17,21 +17,25 @@ export function defineChartType(
     type: string
     suppressAxes?: boolean
     useBandScale?: boolean
-    getScaleTypes?: () => { x: ScaleType; y: ScaleType }
+    hierarchical?: boolean
+    getScaleTypes?: (data?: PreparedData, options?: ResolvedOptions) => { x: ScaleType; y: ScaleType }
     prepareData?: (data: ChartData, options: ResolvedOptions) => PreparedData
     render: (ctx: RenderContext) => RenderNode[]
     hitTest?: (ctx: RenderContext, x: number, y: number) => HitResult | null
     getHighlightNodes?: (ctx: RenderContext, hit: HitResult) => RenderNode[]
+    locateNode?: (ctx: RenderContext, id: string) => { x: number; y: number } | null
   },
 ): ChartTypePlugin {
   return {
     type: config.type,
     suppressAxes: config.suppressAxes,
     useBandScale: config.useBandScale,
+    hierarchical: config.hierarchical,
     getScaleTypes: config.getScaleTypes ?? (() => ({ x: 'categorical' as ScaleType, y: 'linear' as ScaleType })),
     prepareData: config.prepareData ?? ((data, options) => prepareData(data, options)),
     render: config.render,
     hitTest: config.hitTest ?? (() => null),
     getHighlightNodes: config.getHighlightNodes,
+    locateNode: config.locateNode,
   }
 }
@@ -0,0 +1,28 @@
+import type { ChartData, ChartInstance, ChartTypePlugin } from '../types'
+import { mountChart, resolveContainer, type CreateChartOptions } from './create'
+
+/**
+ * Turn a server-rendered chart into an interactive one.
+ *
+ * Adopts the `<svg class="chartts">` that renderToString produced inside
+ * `target` instead of replacing it: the first client render patches only
+ * the nodes that differ, then interaction, tooltips, zoom/pan and resize
+ * handling attach as with createChart. Pass the same chart type, data and
+ * options the server used. Without server markup this is createChart.
+ *
+ * @example
+ * ```ts
+ * // server: html = `<div id="chart">${renderToString(lineChartType, data, opts)}</div>`
+ * const chart = hydrateChart('#chart', lineChartType, data, opts)
+ * ```
+ */
+export function hydrateChart(
+  target: string | HTMLElement,
+  chartType: ChartTypePlugin,
+  data: ChartData,
+  options: CreateChartOptions = {},
+): ChartInstance {
+  const container = resolveContainer(target)
+  const svg = container.querySelector<SVGSVGElement>(':scope > svg.chartts')
+  return mountChart(container, chartType, data, options, svg)
+}
@@ -2,6 +2,7 @@ import type { ChartData, Renderer, RendererRoot, ThemeConfig } from '../types'
 import { createSVGRenderer } from '../render/svg'
 import { applyTheme } from '../theme/engine'
 import { createEffectDefs } from '../render/effects'
+import { seriesLength } from '../data/xy'
 
 /**
  * Renderer subsystem — selection, root creation, theme application.
@@ -28,7 +29,7 @@ export interface RendererManager {
  */
 export function resolveRendererType(renderer: string, data: ChartData): RendererType {
   if (renderer === 'canvas' || renderer === 'webgl' || renderer === 'svg') return renderer
-  const totalPoints = data.series.reduce((sum, s) => sum + s.values.length, 0)
+  const totalPoints = data.series.reduce((sum, s) => sum + seriesLength(s), 0)
   return totalPoints > 100_000 ? 'webgl' : totalPoints > 5_000 ? 'canvas' : 'svg'
 }
 
@@ -40,6 +41,8 @@ export function createRendererManager(config: {
   height: number
   className: string
   ariaLabel: string
+  /** Server-rendered <svg> to take over instead of creating a root. */
+  adopt?: Element | null
   onReady?: () => void
 }): RendererManager {
   const { container, rendererType, className, ariaLabel } = config
@@ -53,7 +56,9 @@ export function createRendererManager(config: {
 
   // Always start with SVG (synchronous, zero-cost)
   let renderer: Renderer = createSVGRenderer()
-  let root: RendererRoot = renderer.createRoot(container, config.width, config.height, rootAttrs)
+  let root: RendererRoot = config.adopt && renderer.adoptRoot
+    ? renderer.adoptRoot(config.adopt, config.width, config.height, rootAttrs)
+    : renderer.createRoot(container, config.width, config.height, rootAttrs)
 
   let readyResolve: () => void
   const ready = new Promise<void>(r => { readyResolve = r })
@@ -80,6 +85,9 @@ export function createRendererManager(config: {
     })
   }
 
+  // Colors the effect defs were last written for
+  let fxColors: string | null = null
+
   const mgr: RendererManager = {
     renderer,
     root,
@@ -111,14 +119,21 @@ export function createRendererManager(config: {
 
     injectEffectDefs(colors: string[]) {
       if (useCanvas) return
+      const key = colors.join()
+      if (key === fxColors) return
       const NS = 'http://www.w3.org/2000/svg'
       let fxDefs = this.root.element.querySelector('defs.chartts-fx') as SVGElement
       if (!fxDefs) {
         fxDefs = document.createElementNS(NS, 'defs')
         fxDefs.classList.add('chartts-fx')
         this.root.element.insertBefore(fxDefs, this.root.element.firstChild)
+      } else if (fxColors === null) {
+        // Server-rendered defs (hydrateChart) were made from the same options
+        fxColors = key
+        return
       }
       fxDefs.innerHTML = createEffectDefs(colors)
+      fxColors = key
     },
 
     destroy() {
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { layoutXLabels, fitXLabel } from '../labels'
+import { buildScene } from '../../render/scene'
+import { barChartType } from '../../charts/bar/bar-type'
+import { lineChartType } from '../../charts/line/line-type'
+import type { RenderNode } from '../../types'
+
+const words = (n: number, label: (i: number) => string): string[] => Array.from({ length: n }, (_, i) => label(i))
+
+describe('layoutXLabels', () => {
+  it('keeps labels horizontal while they fit', () => {
+    expect(layoutXLabels(['Jan', 'Feb', 'Mar'], 80, 11)).toEqual({ step: 1, angle: 0, maxWidth: Infinity, height: 19 })
+  })
+
+  it('skips every nth label before rotating', () => {
+    expect(layoutXLabels(words(10, i => `Week ${i}`), 30, 11)).toMatchObject({ step: 2, angle: 0 })
+  })
+
+  it('rotates labels too long to thin out', () => {
+    const labels = words(50, i => `Department number ${i}`)
+    expect(layoutXLabels(labels, 30, 11)).toMatchObject({ step: 1, angle: 45, maxWidth: Infinity })
+    expect(layoutXLabels(labels, 8, 11)).toMatchObject({ step: 3, angle: 90 })
+  })
+
+  it('truncates rotated labels past the height allowed', () => {
+    const layout = layoutXLabels(words(50, i => `A very long department name ${i}`), 24, 11, 60)
+    expect(layout.height).toBeLessThanOrEqual(60)
+    expect(fitXLabel('A very long department name 1', layout, 11)).toMatch(/…$/)
+    expect(fitXLabel('Ops', layout, 11)).toBe('Ops')
+  })
+})
+
+describe('x axis in the scene', () => {
+  function collect(nodes: RenderNode[], out: RenderNode[] = []): RenderNode[] {
+    for (const node of nodes) {
+      out.push(node)
+      if (node.type === 'group') collect(node.children, out)
+    }
+    return out
+  }
+
+  it('rotates crowded category labels and reserves their height', () => {
+    const labels = words(60, i => `Product category ${i}`)
+    const data = { labels, series: [{ name: 'Sales', values: labels.map((_, i) => i) }] }
+    const crowded = buildScene(barChartType, data, {}, { width: 600, height: 400 })
+    const roomy = buildScene(barChartType, { labels: ['a', 'b'], series: [{ name: 'Sales', values: [1, 2] }] }, {}, { width: 600, height: 400 })
+
+    expect(crowded.ctx!.area.height).toBeLessThan(roomy.ctx!.area.height)
+    const labelAttrs = collect(crowded.nodes).flatMap(n => n.type === 'text' && n.attrs?.class === 'chartts-x-label' ? [n.attrs] : [])
+    expect(labelAttrs.length).toBeGreaterThan(0)
+    expect(labelAttrs.every(attrs => attrs.transform?.startsWith('rotate(-'))).toBe(true)
+  })
+
+  it('reserves room only for labels the axis rotates', () => {
+    // Line charts put labels on points, closer together than bar bands
+    for (let length = 4; length <= 40; length += 2) {
+      const labels = words(12, i => `${i}`.padEnd(length, 'x'))
+      const data = { labels, series: [{ name: 'Sales', values: labels.map((_, i) => i) }] }
+      const { nodes, ctx } = buildScene(lineChartType, data, { legend: false }, { width: 600, height: 400 })
+      const rotated = collect(nodes).some(n => n.type === 'text' && n.attrs?.class === 'chartts-x-label' && !!n.attrs.transform)
+      const reserved = 400 - 8 - (ctx!.area.y + ctx!.area.height)
+      expect(reserved > 20, `labels of ${length} characters`).toBe(rotated)
+    }
+  })
+
+  it('keeps full names on truncated labels', () => {
+    const labels = words(40, i => `An exceptionally long and descriptive category name ${i}`)
+    const data = { labels, series: [{ name: 'Sales', values: labels.map(() => 1) }] }
+    const { nodes } = buildScene(barChartType, data, {}, { width: 600, height: 300 })
+    const titles = collect(nodes).flatMap(n => n.type === 'group' && n.attrs?.class === 'chartts-x-label-truncated' ? [n.attrs.title] : [])
+    expect(titles.length).toBeGreaterThan(0)
+    expect(titles[0]).toBe(labels[0])
+  })
+})
@@ -1,16 +1,29 @@
-import type { RenderNode, Scale, ChartArea, ResolvedOptions, ThemeConfig } from '../types'
+import type { RenderNode, Scale, ChartArea, ResolvedOptions, ThemeConfig, Tick } from '../types'
 import { CSS_PREFIX } from '../constants'
 import { group, line, text } from '../render/tree'
+import type { YAxisSlot } from '../layout/compute'
+import { fitXLabel, horizontalLabelHeight, layoutXLabels, tickSpacing, type XLabelLayout } from './labels'
+
+/** The x scale's ticks inside the chart area, minor ones included. */
+export function xAxisTicks(scale: Scale, area: ChartArea, options: ResolvedOptions): Tick[] {
+  return scale.ticks(options.xTicks || undefined)
+    .filter(tick => tick.position >= area.x - 1 && tick.position <= area.x + area.width + 1)
+}
 
 /**
  * Render x-axis: axis line, tick marks, tick labels.
  * All colors reference CSS custom properties for Tailwind compatibility.
+ * Labels that would collide are skipped, rotated or truncated as `layout`
+ * says — computeLayout()'s, which reserved their height. Without one they
+ * are fit to a single horizontal row. Truncated labels keep their full
+ * text as a native tooltip.
  */
 export function renderXAxis(
   scale: Scale,
   area: ChartArea,
   options: ResolvedOptions,
   theme: ThemeConfig,
+  layout?: XLabelLayout,
 ): RenderNode {
   const nodes: RenderNode[] = []
   const y = area.y + area.height
@@ -24,36 +37,48 @@ export function renderXAxis(
     }))
   }
 
-  // Ticks + labels
-  const ticks = scale.ticks(options.xTicks || undefined)
+  // Ticks + labels, skipping ticks outside the chart area
+  const ticks = xAxisTicks(scale, area, options)
+  const labeled = ticks.filter(tick => !tick.minor)
+  const fontSize = theme.fontSizeSmall
+  const fit = layout ?? layoutXLabels(labeled.map(tick => tick.label), tickSpacing(labeled, area.width), fontSize, horizontalLabelHeight(options.fontSize))
+
+  let index = 0
   for (const tick of ticks) {
     const x = tick.position
 
-    // Skip ticks outside chart area
-    if (x < area.x - 1 || x > area.x + area.width + 1) continue
-
-    // Tick mark
-    nodes.push(line(x, y, x, y + 4, {
-      class: 'chartts-x-tick',
+    // Tick mark (minor ticks are shorter and unlabeled)
+    nodes.push(line(x, y, x, y + (tick.minor ? 2 : 4), {
+      class: tick.minor ? 'chartts-x-tick chartts-x-tick-minor' : 'chartts-x-tick',
       stroke: `var(${CSS_PREFIX}-axis)`,
       strokeWidth: theme.axisWidth,
     }))
+    if (tick.minor || index++ % fit.step) continue
 
-    // Tick label
-    nodes.push(text(x, y + 14, tick.label, {
+    // Tick label — rotated labels hang from the tick, ending at it
+    const label = fitXLabel(tick.label, fit, fontSize)
+    const attrs = {
       class: 'chartts-x-label',
       fill: `var(${CSS_PREFIX}-text-muted)`,
-      textAnchor: 'middle',
-      fontSize: theme.fontSizeSmall,
+      fontSize,
       fontFamily: `var(${CSS_PREFIX}-font-family)`,
-    }))
+    }
+    const node = fit.angle
+      ? text(x, y + 8, label, {
+          ...attrs,
+          textAnchor: 'end',
+          dominantBaseline: 'central',
+          transform: `rotate(${-fit.angle}, ${x}, ${y + 8})`,
+        })
+      : text(x, y + 14, label, { ...attrs, textAnchor: 'middle' })
+    nodes.push(label === tick.label ? node : group([node], { class: 'chartts-x-label-truncated', title: tick.label }))
   }
 
-  // Axis label
+  // Axis label, below the tick labels however tall they came out
   if (options.xLabel) {
     nodes.push(text(
       area.x + area.width / 2,
-      y + 30,
+      y + 30 + Math.max(0, fit.height - horizontalLabelHeight(options.fontSize)),
       options.xLabel,
       {
         class: 'chartts-x-axis-label',
@@ -70,19 +95,27 @@ export function renderXAxis(
 }
 
 /**
- * Render y-axis: axis line, tick marks, tick labels.
+ * Render a y-axis: axis line, tick marks, tick labels, title.
+ * Without a slot this is the primary axis on the left edge of the area;
+ * with one, it's placed `slot.offset` px outside the left or right edge.
  */
 export function renderYAxis(
   scale: Scale,
   area: ChartArea,
   options: ResolvedOptions,
   theme: ThemeConfig,
+  slot?: YAxisSlot,
 ): RenderNode {
   const nodes: RenderNode[] = []
+  const right = slot?.position === 'right'
+  const dir = right ? 1 : -1
+  const x = right ? area.x + area.width + (slot?.offset ?? 0) : area.x - (slot?.offset ?? 0)
+  const title = slot?.axis ? slot.axis.label : options.yLabel
+  const tickCount = slot?.axis?.ticks ?? options.yTicks
 
   // Axis line
   if (options.yAxis) {
-    nodes.push(line(area.x, area.y, area.x, area.y + area.height, {
+    nodes.push(line(x, area.y, x, area.y + area.height, {
       class: 'chartts-y-axis',
       stroke: `var(${CSS_PREFIX}-axis)`,
       strokeWidth: theme.axisWidth,
@@ -90,37 +123,50 @@ export function renderYAxis(
   }
 
   // Ticks + labels
-  const ticks = scale.ticks(options.yTicks)
+  const ticks = scale.ticks(tickCount)
   for (const tick of ticks) {
     const y = tick.position
 
     // Skip ticks outside chart area (with small tolerance)
     if (y < area.y - 1 || y > area.y + area.height + 1) continue
 
-    // Tick mark
-    nodes.push(line(area.x - 4, y, area.x, y, {
-      class: 'chartts-y-tick',
+    // Tick mark (minor ticks are shorter and unlabeled)
+    nodes.push(line(x + dir * (tick.minor ? 2 : 4), y, x, y, {
+      class: tick.minor ? 'chartts-y-tick chartts-y-tick-minor' : 'chartts-y-tick',
       stroke: `var(${CSS_PREFIX}-axis)`,
       strokeWidth: theme.axisWidth,
     }))
+    if (tick.minor) continue
+
+    // Secondary axes may draw their own (dashed) grid across the plot
+    if (slot?.axis?.grid && y > area.y + 1 && y < area.y + area.height - 1) {
+      nodes.push(line(area.x, y, area.x + area.width, y, {
+        class: 'chartts-grid-h chartts-grid-secondary',
+        stroke: `var(${CSS_PREFIX}-grid)`,
+        strokeWidth: theme.gridWidth,
+        strokeDasharray: '4,4',
+      }))
+    }
 
     // Tick label
-    nodes.push(text(area.x - 7, y, tick.label, {
+    nodes.push(text(x + dir * 7, y, tick.label, {
       class: 'chartts-y-label',
       fill: `var(${CSS_PREFIX}-text-muted)`,
-      textAnchor: 'end',
+      textAnchor: right ? 'start' : 'end',
       dominantBaseline: 'middle',
       fontSize: theme.fontSizeSmall,
       fontFamily: `var(${CSS_PREFIX}-font-family)`,
     }))
   }
 
-  // Axis label (rotated)
-  if (options.yLabel) {
+  // Axis title (rotated), at the outer edge of the reserved slot
+  if (title) {
+    const tx = slot ? x + dir * (slot.width - 4) : 12
+    const ty = area.y + area.height / 2
     nodes.push(text(
-      12,
-      area.y + area.height / 2,
-      options.yLabel,
+      tx,
+      ty,
+      title,
       {
         class: 'chartts-y-axis-label',
         fill: `var(${CSS_PREFIX}-text)`,
@@ -128,12 +174,13 @@ export function renderYAxis(
         fontSize: theme.fontSize,
         fontFamily: `var(${CSS_PREFIX}-font-family)`,
         fontWeight: 500,
-        transform: `rotate(-90, 12, ${area.y + area.height / 2})`,
+        transform: `rotate(${right ? 90 : -90}, ${tx}, ${ty})`,
       },
     ))
   }
 
-  return group(nodes, { class: 'chartts-y-axis-group' })
+  const cls = slot?.axis ? `chartts-y-axis-group chartts-y-axis-${slot.axis.id}` : 'chartts-y-axis-group'
+  return group(nodes, { class: cls })
 }
 
 /**
@@ -159,12 +206,20 @@ export function renderGrid(
       if (tick.position < area.y - 1 || tick.position > area.y + area.height + 1) continue
       if (Math.abs(tick.position - area.y) < 1 || Math.abs(tick.position - (area.y + area.height)) < 1) continue
 
-      nodes.push(line(area.x, tick.position, area.x + area.width, tick.position, {
-        class: 'chartts-grid-h',
-        stroke: `var(${CSS_PREFIX}-grid)`,
-        strokeWidth: theme.gridWidth,
-        strokeDasharray: dasharray,
-      }))
+      nodes.push(line(area.x, tick.position, area.x + area.width, tick.position, tick.minor
+        ? {
+            class: 'chartts-grid-h chartts-grid-minor',
+            stroke: `var(${CSS_PREFIX}-grid)`,
+            strokeWidth: theme.gridWidth * 0.5,
+            strokeOpacity: 0.6,
+            strokeDasharray: dasharray,
+          }
+        : {
+            class: 'chartts-grid-h',
+            stroke: `var(${CSS_PREFIX}-grid)`,
+            strokeWidth: theme.gridWidth,
+            strokeDasharray: dasharray,
+          }))
     }
   }
 
@@ -0,0 +1,77 @@
+import { measureText, truncateText } from '../utils/text-measure'
+
+/**
+ * X-axis tick label placement. Labels that collide at their tick spacing
+ * are first thinned out (every 2nd or 3rd), then rotated 45°, then 90° —
+ * skipping again if even upright labels overlap — and finally truncated
+ * with an ellipsis once rotated labels outgrow the height allowed for them.
+ */
+
+export interface XLabelLayout {
+  /** Label every `step`th tick. */
+  step: number
+  /** Counter-clockwise rotation in degrees. */
+  angle: 0 | 45 | 90
+  /** Labels wider than this are truncated. Infinity when none are. */
+  maxWidth: number
+  /** Space below the axis line taken by tick marks and labels, in px. */
+  height: number
+}
+
+/** Tick mark plus the gap above a rotated label. */
+const TICK_SPACE = 8
+/** Minimum clear space between neighbouring labels. */
+const LABEL_GAP = 6
+/** Thinning beyond every 3rd label hides too much — rotate instead. */
+const MAX_SKIP = 3
+
+/** Height of the x tick labels for a layout that keeps them horizontal. */
+export function horizontalLabelHeight(fontSize: number): number {
+  return fontSize + TICK_SPACE
+}
+
+/**
+ * Place `labels` drawn `spacing` px apart at `fontSize`, keeping rotated
+ * labels within `maxHeight` px below the axis line.
+ */
+export function layoutXLabels(labels: string[], spacing: number, fontSize: number, maxHeight = Infinity): XLabelLayout {
+  const widest = labels.reduce((w, label) => Math.max(w, measureText(label, fontSize)), 0)
+  const flat = horizontalLabelHeight(fontSize)
+  if (labels.length <= 1 || widest + LABEL_GAP <= spacing) {
+    return { step: 1, angle: 0, maxWidth: Infinity, height: flat }
+  }
+
+  const skip = Math.ceil((widest + LABEL_GAP) / spacing)
+  if (skip <= MAX_SKIP) return { step: skip, angle: 0, maxWidth: Infinity, height: flat }
+
+  // Rotated labels need room for their line height, measured across the ticks
+  const lineHeight = fontSize * 1.2
+  const angle = spacing >= lineHeight * Math.SQRT2 + LABEL_GAP ? 45 : 90
+  const step = angle === 45 ? 1 : Math.max(1, Math.ceil((lineHeight + LABEL_GAP) / spacing))
+
+  const extent = (width: number): number => angle === 45 ? (width + lineHeight) * Math.SQRT1_2 : width
+  const room = Math.max(flat, maxHeight) - TICK_SPACE
+  const maxWidth = extent(widest) <= room
+    ? Infinity
+    : Math.max(0, angle === 45 ? room * Math.SQRT2 - lineHeight : room)
+  return {
+    step,
+    angle,
+    maxWidth,
+    height: TICK_SPACE + Math.max(fontSize, extent(Math.min(widest, maxWidth))),
+  }
+}
+
+/** Closest distance between neighbouring labeled ticks — the room each label has. */
+export function tickSpacing(ticks: { position: number }[], fallback: number): number {
+  let spacing = fallback
+  for (let i = 1; i < ticks.length; i++) {
+    spacing = Math.min(spacing, Math.abs(ticks[i]!.position - ticks[i - 1]!.position))
+  }
+  return spacing
+}
+
+/** A label as laid out — ellipsis-truncated past `layout.maxWidth`. */
+export function fitXLabel(label: string, layout: XLabelLayout, fontSize: number): string {
+  return layout.maxWidth === Infinity ? label : truncateText(label, fontSize, layout.maxWidth)
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { createMercator, createEqualEarth, createAlbersUsa, createOrthographic } from '../geo/projection'
+import { topoFeatures, type GeoFeatureCollection, type Topology } from '../geo/geojson'
+import { geoChartType } from '../geo/geo-type'
+import { buildScene } from '../../render/scene'
+import type { RenderNode } from '../../types'
+
+describe('projections', () => {
+  it('mercator and equalEarth put the origin at the centre of the map', () => {
+    const [mx, my] = createMercator().point(0, 0)!
+    expect(mx).toBeCloseTo(0)
+    expect(my).toBeCloseTo(0)
+    const [x, y] = createEqualEarth().point(90, 0)!
+    expect(x).toBeCloseTo(1.3533, 3)
+    expect(y).toBeCloseTo(0)
+    expect(createMercator().point(0, 60)![1]).toBeLessThan(0)
+  })
+
+  it('cuts rings crossing the antimeridian in two', () => {
+    const fiji: [number, number][] = [[178, -16], [-179, -16], [-179, -18], [178, -18], [178, -16]]
+    const pieces = createEqualEarth().ring(fiji)
+    expect(pieces).toHaveLength(2)
+    for (const piece of pieces) {
+      const xs = piece.map(p => p[0])
+      expect(Math.max(...xs) - Math.min(...xs)).toBeLessThan(0.1)
+    }
+  })
+
+  it('albersUsa places Alaska and Hawaii in their insets', () => {
+    const albers = createAlbersUsa()
+    const [nx, ny] = albers.point(-74, 40.7)!
+    expect(Math.abs(nx)).toBeLessThan(0.455)
+    expect(Math.abs(ny)).toBeLessThan(0.238)
+    const [hx, hy] = albers.point(-157.8, 21.3)!
+    expect(hx).toBeGreaterThan(-0.214)
+    expect(hx).toBeLessThan(-0.115)
+    expect(hy).toBeGreaterThan(0.166)
+    const [ax, ay] = albers.point(-149.9, 61.2)!
+    expect(ax).toBeLessThan(-0.214)
+    expect(ay).toBeGreaterThan(0.12)
+    expect(albers.point(0, 51.5)).toBeNull()
+  })
+
+  it('orthographic hides the far side and clips rings to the horizon', () => {
+    const globe = createOrthographic([0, 0])
+    expect(globe.point(0, 0)).toEqual([0, -0])
+    expect(globe.point(180, 0)).toBeNull()
+
+    const straddling: [number, number][] = [[60, -10], [120, -10], [120, 10], [60, 10], [60, -10]]
+    const [ring] = globe.ring(straddling)
+    expect(ring).toBeDefined()
+    for (const [x, y] of ring!) expect(Math.hypot(x, y)).toBeLessThanOrEqual(1 + 1e-9)
+    expect(Math.max(...ring!.map(p => p[0]))).toBeCloseTo(1, 2)
+    expect(globe.ring([[150, 0], [160, 0], [160, 10], [150, 0]])).toEqual([])
+  })
+})
+
+describe('topojson', () => {
+  // Two unit squares sharing the arc x = 1, quantized to a 0.5° grid
+  const topology: Topology = {
+    type: 'Topology',
+    transform: { scale: [0.5, 0.5], translate: [10, 20] },
+    arcs: [
+      [[2, 0], [0, 2]],
+      [[2, 2], [-2, 0], [0, -2], [2, 0]],
+      [[2, 0], [2, 0], [0, 2], [-2, 0]],
+    ],
+    objects: {
+      areas: {
+        type: 'GeometryCollection',
+        geometries: [
+          { type: 'Polygon', arcs: [[0, 1]], properties: { name: 'West' } },
+          { type: 'Polygon', arcs: [[2, ~0]], id: 'E' },
+          { type: 'Point', coordinates: [4, 2] },
+        ],
+      },
+    },
+  }
+
+  it('decodes delta-encoded arcs and stitches rings', () => {
+    const [west, east, point] = topoFeatures(topology)
+    expect(west!.properties).toEqual({ name: 'West' })
+    expect(west!.geometry).toEqual({ type: 'Polygon', coordinates: [[[11, 20], [11, 21], [10, 21], [10, 20], [11, 20]]] })
+    expect(east!.id).toBe('E')
+    expect(east!.geometry).toEqual({ type: 'Polygon', coordinates: [[[11, 20], [12, 20], [12, 21], [11, 21], [11, 20]]] })
+    expect(point!.geometry).toEqual({ type: 'Point', coordinates: [12, 21] })
+  })
+
+  it('throws on a missing object', () => {
+    expect(() => topoFeatures(topology, 'nope')).toThrow('[chartts] Topology has no object "nope"')
+  })
+})
+
+describe('geo rendering', () => {
+  const square = (lon: number, lat: number): [number, number][][] =>
+    [[[lon, lat], [lon + 10, lat], [lon + 10, lat + 10], [lon, lat + 10], [lon, lat]]]
+  const geo: GeoFeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', properties: { name: 'A' }, geometry: { type: 'Polygon', coordinates: square(0, 0) } },
+      { type: 'Feature', properties: { name: 'B' }, geometry: { type: 'Polygon', coordinates: square(10, 0) } },
+    ],
+  }
+
+  function flat(nodes: RenderNode[]): RenderNode[] {
+    return nodes.flatMap(n => n.type === 'group' ? [n, ...flat(n.children)] : [n])
+  }
+
+  it('draws GeoJSON regions and projects lon/lat points onto them', () => {
+    const options = { animate: false, geo, projection: 'mercator', scatterSeries: 1, legendPosition: 'none' }
+    const { nodes } = buildScene(geoChartType, {
+      labels: ['A', 'B'],
+      series: [
+        { name: 'Sales', values: [10, 20] },
+        { name: 'Stores', values: [], points: [{ x: 10, y: 5, size: 3 }] },
+      ],
+    }, options, { width: 400, height: 300 })
+
+    const all = flat(nodes)
+    const regions = all.flatMap(n => n.type === 'path' && n.attrs?.class === 'chartts-geo-region' ? [n.attrs] : [])
+    expect(regions.map(a => a['data-name'])).toEqual(['A', 'B'])
+
+    // The store sits on the shared border, halfway up — between the two labels
+    const labels = all.flatMap(n => n.type === 'text' && n.attrs?.class === 'chartts-geo-label' ? [n] : [])
+    const dots = all.flatMap(n => n.type === 'circle' ? [n] : [])
+    expect(dots).toHaveLength(1)
+    expect(dots[0]!.cx).toBeCloseTo((labels[0]!.x + labels[1]!.x) / 2, 1)
+  })
+})
@@ -0,0 +1,207 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { louvain } from '../graph/louvain'
+import { forceLayout } from '../graph/layout-force'
+import { radialLayout } from '../graph/layout-radial'
+import { gridLayout } from '../graph/layout-grid'
+import { applyClusters } from '../graph/clusters'
+import { neighborhoodFlows, shortestPath, resolvePath } from '../graph/explore'
+import { renderEdges } from '../graph/edges'
+import { graphChartType } from '../graph/graph-type'
+import type { GraphNode, GraphEdge, GraphOptions } from '../graph/types'
+import { buildScene } from '../../render/scene'
+import { applyDimming } from '../../interaction/highlight'
+import { createZoomPan } from '../../interaction/zoom-pan'
+import { createChart } from '../../api/create'
+import { LIGHT_THEME } from '../../constants'
+import type { RenderNode } from '../../types'
+
+const area = { x: 0, y: 0, width: 600, height: 400 }
+
+function node(index: number, size = 30): GraphNode {
+  return {
+    id: `n${index}`, label: `n${index}`, index, value: 0, shape: 'circle', color: null, pin: null,
+    x: 0, y: 0, vx: 0, vy: 0, width: size, height: size, community: null, members: 0,
+  }
+}
+
+function edges(pairs: [number, number][]): GraphEdge[] {
+  return pairs.map(([source, target]) => ({ source, target, weight: 1, label: null, style: 'solid', color: null }))
+}
+
+// Two triangles joined by the 2–3 bridge
+const triangles = edges([[0, 1], [1, 2], [2, 0], [3, 4], [4, 5], [5, 3], [2, 3]])
+
+describe('louvain', () => {
+  it('splits two triangles at their bridge, largest community first', () => {
+    expect(louvain(6, triangles)).toEqual([0, 0, 0, 1, 1, 1])
+    expect(louvain(3, [])).toEqual([0, 1, 2])
+  })
+})
+
+describe('graph layouts', () => {
+  it('force layout keeps a large graph inside the area without overlaps', () => {
+    const n = 150
+    const nodes = Array.from({ length: n }, (_, i) => node(i, 16))
+    const links = edges(Array.from({ length: n }, (_, i): [number, number] => [i, (i * 7 + 1) % n]))
+    forceLayout(nodes, links, { area, iterations: 60 })
+
+    for (const nd of nodes) {
+      expect(nd.x).toBeGreaterThanOrEqual(area.x)
+      expect(nd.x).toBeLessThanOrEqual(area.x + area.width)
+      expect(nd.y).toBeGreaterThanOrEqual(area.y)
+      expect(nd.y).toBeLessThanOrEqual(area.y + area.height)
+    }
+    let overlaps = 0
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (Math.hypot(nodes[i]!.x - nodes[j]!.x, nodes[i]!.y - nodes[j]!.y) < 16) overlaps++
+      }
+    }
+    expect(overlaps).toBe(0)
+  })
+
+  it('radial layout puts the root at the centre and its neighbours on one ring', () => {
+    const nodes = Array.from({ length: 7 }, (_, i) => node(i))
+    radialLayout(nodes, edges([[0, 1], [0, 2], [0, 3], [1, 4], [2, 5], [3, 6]]), { area, root: 'n0' })
+    expect(nodes[0]!.x).toBeCloseTo(300)
+    expect(nodes[0]!.y).toBeCloseTo(200)
+    expect(nodes[1]!.y).toBeLessThan(200) // first subtree starts at 12 o'clock
+    // Rings are ellipses filling the area less room for the largest node
+    const ring = (nd: GraphNode): number => Math.hypot((nd.x - 300) / 270, (nd.y - 200) / 170)
+    for (const i of [1, 2, 3]) expect(ring(nodes[i]!)).toBeCloseTo(0.5)
+    for (const i of [4, 5, 6]) expect(ring(nodes[i]!)).toBeCloseTo(1)
+  })
+
+  it('grid layout keeps each community in consecutive cells', () => {
+    const nodes = Array.from({ length: 6 }, (_, i) => node(i))
+    gridLayout(nodes, triangles, { area, groups: [1, 0, 1, 0, 1, 0] })
+    const order = [...nodes].sort((a, b) => a.y - b.y || a.x - b.x).map(nd => nd.index % 2)
+    expect(order).toEqual([1, 1, 1, 0, 0, 0])
+  })
+})
+
+describe('clusters', () => {
+  function flat(nodes: RenderNode[]): RenderNode[] {
+    return nodes.flatMap(n => n.type === 'group' ? [n, ...flat(n.children)] : [n])
+  }
+
+  it('collapses unexpanded communities and merges the edges into them', () => {
+    const nodes = Array.from({ length: 6 }, (_, i) => node(i))
+    const { graphNodes, graphEdges } = applyClusters(nodes, triangles, { resolution: 1, collapse: true, expanded: [1] })
+
+    expect(graphNodes.map(nd => nd.id)).toEqual(['cluster-0', 'n3', 'n4', 'n5'])
+    expect(graphNodes[0]).toMatchObject({ label: 'n2 +2', members: 3, community: 0 })
+    expect(graphNodes.map(nd => nd.index)).toEqual([0, 1, 2, 3])
+    // Triangle 0–1–2 disappears inside the cluster; the bridge now starts at it
+    expect(graphEdges.map(e => [e.source, e.target])).toEqual([[1, 2], [2, 3], [3, 1], [0, 1]])
+  })
+
+  it('renders collapsed clusters and outlines expanded ones', () => {
+    const options = {
+      animate: false,
+      nodes: ['a', 'b', 'c', 'd', 'e', 'f'].map(id => ({ id })),
+      edges: [['a', 'b'], ['b', 'c'], ['c', 'a'], ['d', 'e'], ['e', 'f'], ['f', 'd'], ['c', 'd']]
+        .map(([source, target]) => ({ source: source!, target: target! })),
+      clusters: { collapse: true, expanded: [1] },
+    }
+    const { nodes } = buildScene(graphChartType, { series: [] }, options, { width: 600, height: 400 })
+    const clusters = flat(nodes).flatMap(n =>
+      (n.type === 'group' || n.type === 'rect') && n.attrs?.class?.includes('chartts-graph-cluster') ? [[n.type, n.attrs.ariaLabel]] : [])
+    expect(clusters).toEqual([
+      ['rect', 'Collapse cluster of 3 nodes'],
+      ['group', 'Expand cluster of 3 nodes'],
+    ])
+  })
+})
+
+describe('exploring', () => {
+  function flat(nodes: RenderNode[]): RenderNode[] {
+    return nodes.flatMap(n => n.type === 'group' ? [n, ...flat(n.children)] : [n])
+  }
+
+  const chain = edges([[0, 1], [1, 2], [2, 3]])
+
+  it('tags each node and edge with the neighborhoods it belongs to', () => {
+    expect(neighborhoodFlows(4, chain, 1)).toEqual({ nodes: ['0 1', '1 0 2', '2 1 3', '3 2'], edges: ['0 1', '1 2', '2 3'] })
+    expect(neighborhoodFlows(4, chain, 2).nodes[0]).toBe('0 1 2')
+    expect(neighborhoodFlows(4, chain, 0).edges).toEqual(['', '', ''])
+  })
+
+  it('finds the fewest-hop path, ignoring direction', () => {
+    expect(shortestPath(6, triangles, 0, 5)).toEqual([0, 2, 3, 5])
+    expect(shortestPath(6, triangles, 5, 0)).toEqual([5, 3, 2, 0])
+    expect(shortestPath(4, edges([[0, 1], [2, 3]]), 0, 3)).toEqual([])
+    const nodes = Array.from({ length: 6 }, (_, i) => node(i))
+    expect(resolvePath(nodes, triangles, ['n0'])).toEqual([0])
+    expect(resolvePath(nodes, triangles, ['n0', 'missing'])).toEqual([])
+  })
+
+  const options = {
+    animate: false,
+    nodes: ['a', 'b', 'c', 'd'].map(id => ({ id })),
+    edges: [['a', 'b'], ['b', 'c'], ['c', 'd']].map(([source, target]) => ({ source: source!, target: target! })),
+  }
+
+  it('dims all but the hovered node and its neighbors', () => {
+    const { nodes, ctx } = buildScene(graphChartType, { series: [] }, options, { width: 600, height: 400 })
+    // One series per node, so hover has a point to report
+    expect(ctx!.data.series.map(s => s.name)).toEqual(['a', 'b', 'c', 'd'])
+
+    const dimmed = flat(applyDimming(nodes, { seriesIndex: 0, pointIndex: 0, distance: 0, x: 0, y: 0 }))
+    const opacity = (cls: string): (number | undefined)[] => dimmed.flatMap(n =>
+      n.type === 'group' && n.attrs?.class?.startsWith(cls) ? [n.attrs.opacity] : [])
+    expect(opacity('chartts-series')).toEqual([undefined, undefined, 0.3, 0.3])
+    expect(opacity('chartts-graph-link')).toEqual([undefined, 0.3, 0.3])
+  })
+
+  it('fades everything off the highlighted path', () => {
+    const withPath = { ...options, path: ['b', 'd'] }
+    const { nodes } = buildScene(graphChartType, { series: [] }, withPath, { width: 600, height: 400 })
+    const all = flat(nodes)
+    const opacity = all.flatMap(n => n.type === 'group' && n.attrs?.class?.startsWith('chartts-series') ? [n.attrs.opacity] : [])
+    expect(opacity).toEqual([0.25, undefined, undefined, undefined])
+    expect(all.filter(n => n.type === 'rect' && n.attrs?.class === 'chartts-graph-path-end')).toHaveLength(2)
+  })
+
+  it('moves an edge label along its edge when the middle is taken', () => {
+    const nodes = [node(0, 10), node(1, 10), node(2, 10), node(3, 10)]
+    Object.assign(nodes[0]!, { x: 0, y: 0 })
+    Object.assign(nodes[1]!, { x: 200, y: 0 })
+    Object.assign(nodes[2]!, { x: 100, y: -100 })
+    Object.assign(nodes[3]!, { x: 100, y: 100 })
+    // Both edges cross at (100, 0)
+    const crossing = edges([[0, 1], [2, 3]]).map(e => ({ ...e, label: 'label' }))
+    const links = renderEdges(nodes, crossing, {} as GraphOptions, LIGHT_THEME)
+    const labels = flat(links).flatMap(n => n.type === 'text' ? [[Math.round(n.x), Math.round(n.y)]] : [])
+    // The second label steps to t = 0.35 along y -95…95 (edges end at the node boxes)
+    expect(labels).toEqual([[100, 0], [100, -28]])
+  })
+
+  it('zooms onto a node, spreading the graph around it', () => {
+    const size = { width: 600, height: 400 }
+    const { ctx } = buildScene(graphChartType, { series: [] }, options, size)
+    const { area } = ctx!
+    const at = graphChartType.locateNode!(ctx!, 'c')!
+
+    const zoom = createZoomPan({ x: true, y: true, normalizedPan: false }, () => {})
+    zoom.focus((at.x - area.x) / area.width, (at.y - area.y) / area.height, 2)
+    const zoomed = buildScene(graphChartType, { series: [] }, { ...options, zoom: true }, size, { zoom }).ctx!
+    const hit = graphChartType.hitTest(zoomed, area.x + area.width / 2, area.y + area.height / 2)
+    expect(hit?.seriesIndex).toBe(2)
+    expect(hit?.x).toBeCloseTo(area.x + area.width / 2)
+  })
+
+  it('focuses a node without the zoom option, leaving the wheel alone', () => {
+    const el = document.createElement('div')
+    const chart = createChart(el, graphChartType, { series: [] }, { ...options, width: 600, height: 400 })
+    const changes: unknown[] = []
+    chart.on('zoom:change', (e) => changes.push(e))
+
+    chart.element.dispatchEvent(new WheelEvent('wheel', { deltaY: -100, clientX: 300, clientY: 200 }))
+    expect(changes).toEqual([])
+    chart.focusNode('c')
+    expect(changes).toMatchObject([{ zoomX: 2, zoomY: 2 }])
+    chart.destroy()
+  })
+})
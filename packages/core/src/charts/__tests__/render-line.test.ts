@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { renderToString } from '../../render/string'
 import { lineChartType } from '../line/line-type'
+import type { ChartData } from '../../types'
 
 const data = {
   labels: ['Jan', 'Feb', 'Mar', 'Apr', 'May'],
@@ -139,4 +140,16 @@ describe('Line chart rendering', () => {
     // The line path should exist and start with M
     expect(svg).toMatch(/d="M[\d.]/)
   })
+
+  it('breaks or connects the line across missing values', () => {
+    const gappy = (gaps?: 'connect'): ChartData => ({
+      labels: data.labels,
+      series: [{ name: 'Revenue', values: [10, null, 18, 30, 22], gaps }],
+    })
+    const moves = (svg: string): number | undefined => svg.match(/<path d="([^"]*)"[^>]*class="chartts-line"/)?.[1]?.match(/M/g)?.length
+    const broken = renderToString(lineChartType, gappy(), opts)
+    expect(moves(broken)).toBe(2)
+    expect((broken.match(/class="chartts-point"/g) || []).length).toBe(4)
+    expect(moves(renderToString(lineChartType, gappy('connect'), opts))).toBe(1)
+  })
 })
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { sankeyLayout, type SankeyLink, type SankeyNode, type SankeyAlign } from '../sankey/layout'
+import { sankeyChartType } from '../sankey/sankey-type'
+import { buildScene } from '../../render/scene'
+import { applyDimming } from '../../interaction/highlight'
+import type { RenderNode } from '../../types'
+
+const area = { x: 0, y: 0, width: 400, height: 300 }
+
+function graph(names: string[], flows: [number, number, number][]): { nodes: SankeyNode[]; links: SankeyLink[] } {
+  const nodes = names.map((name, index): SankeyNode => ({ name, index, column: 0, x: 0, y: 0, height: 0, value: 0, totalIn: 0, totalOut: 0 }))
+  const links = flows.map(([source, target, value]): SankeyLink => {
+    nodes[source]!.totalOut += value
+    nodes[target]!.totalIn += value
+    return { source, target, value, sy: 0, ty: 0, width: 0, circular: false, laneY: 0 }
+  })
+  return { nodes, links }
+}
+
+function layout(names: string[], flows: [number, number, number][], align: SankeyAlign = 'justify'): ReturnType<typeof graph> {
+  const g = graph(names, flows)
+  sankeyLayout(g.nodes, g.links, { area, nodeWidth: 10, nodePadding: 8, align, iterations: 32 })
+  return g
+}
+
+describe('sankeyLayout', () => {
+  it('routes back-links as circular and keeps columns acyclic', () => {
+    const { nodes, links } = layout(
+      ['Visit', 'Signup', 'Verify', 'Paid', 'Retry'],
+      [[0, 1, 100], [1, 2, 80], [2, 3, 50], [2, 4, 30], [4, 1, 20], [4, 4, 5]],
+    )
+    expect(nodes.map(n => n.column)).toEqual([0, 1, 2, 3, 3])
+    expect(links.filter(l => l.circular).map(l => [l.source, l.target])).toEqual([[4, 1], [4, 4]])
+    for (const l of links.filter(l => l.circular)) {
+      expect(l.laneY).toBeGreaterThan(Math.max(...nodes.map(n => n.y + n.height)))
+      expect(l.laneY).toBeLessThanOrEqual(area.height)
+    }
+  })
+
+  it('uses one scale so bands keep their width end to end', () => {
+    const { nodes, links } = layout(['A', 'B', 'C'], [[0, 1, 30], [0, 2, 10], [1, 2, 30]])
+    const ky = nodes[0]!.height / nodes[0]!.value
+    for (const l of links) expect(l.width).toBeCloseTo(l.value * ky)
+    // Bands fill their nodes exactly on both sides
+    expect(links.filter(l => l.target === 2).reduce((s, l) => s + l.width, 0)).toBeCloseTo(nodes[2]!.height)
+  })
+
+  it('keeps nodes inside the area without overlaps', () => {
+    const names = Array.from({ length: 24 }, (_, i) => `N${i}`)
+    const flows: [number, number, number][] = []
+    for (let i = 0; i < 8; i++) {
+      flows.push([i, 8 + ((i * 3) % 8), 10 + i], [8 + i, 16 + ((i * 5) % 8), 5 + i])
+    }
+    const { nodes } = layout(names, flows)
+    for (const n of nodes) {
+      expect(n.y).toBeGreaterThanOrEqual(area.y - 1e-6)
+      expect(n.y + n.height).toBeLessThanOrEqual(area.y + area.height + 1e-6)
+    }
+    for (const c of new Set(nodes.map(n => n.column))) {
+      const column = nodes.filter(n => n.column === c).sort((a, b) => a.y - b.y)
+      for (let i = 1; i < column.length; i++) {
+        expect(column[i]!.y).toBeGreaterThanOrEqual(column[i - 1]!.y + column[i - 1]!.height + 8 - 1e-6)
+      }
+    }
+  })
+
+  it('relaxes nodes toward their neighbours to untangle bands', () => {
+    // Input order would cross A→D and B→C
+    const { nodes } = layout(['A', 'B', 'C', 'D'], [[0, 3, 10], [1, 2, 10]])
+    const [a, b, c, d] = nodes.map(n => n.y)
+    expect(a! < b!).toBe(d! < c!)
+  })
+
+  it('aligns nodes left, right, center or justified', () => {
+    const flows: [number, number, number][] = [[0, 1, 5], [1, 2, 5], [0, 3, 5]]
+    const names = ['A', 'B', 'C', 'Side']
+    expect(layout(names, flows, 'justify').nodes[3]!.column).toBe(2)
+    expect(layout(names, flows, 'left').nodes[3]!.column).toBe(1)
+    expect(layout([...names, 'Feeder'], [...flows, [4, 2, 5]], 'right').nodes[4]!.column).toBe(1)
+    expect(layout([...names, 'Feeder'], [...flows, [4, 2, 5]], 'center').nodes[4]!.column).toBe(1)
+  })
+})
+
+describe('sankey rendering', () => {
+  const data = {
+    labels: [],
+    series: [
+      { name: 'Visit → Signup', values: [100] },
+      { name: 'Signup → Paid', values: [60] },
+      { name: 'Visit → Bounce', values: [40] },
+      { name: 'Paid → Signup', values: [10] },
+    ],
+  }
+
+  function flat(nodes: RenderNode[]): RenderNode[] {
+    return nodes.flatMap(n => n.type === 'group' ? [n, ...flat(n.children)] : [n])
+  }
+
+  it('draws loops around the nodes and tags flows for highlighting', () => {
+    const { nodes } = buildScene(sankeyChartType, data, { animate: false }, { width: 500, height: 300 })
+    const links = flat(nodes).flatMap(n => n.type === 'path' && n.attrs?.class?.includes('chartts-sankey-link') ? [n.attrs] : [])
+    expect(links).toHaveLength(4)
+    expect(links.filter(a => a.class?.includes('circular'))).toHaveLength(1)
+
+    // Hovering Bounce (node 3) keeps its own flow lit and dims Signup → Paid
+    const dimmed = flat(applyDimming(nodes, { seriesIndex: 3, pointIndex: 0, distance: 0, x: 0, y: 0 }))
+      .flatMap(n => n.type === 'path' && n.attrs?.class?.includes('chartts-sankey-link') ? [n.attrs] : [])
+    expect(dimmed.find(a => a.ariaLabel === 'Visit → Bounce: 40')?.opacity).toBeUndefined()
+    expect(dimmed.find(a => a.ariaLabel === 'Signup → Paid: 60')?.opacity).toBe(0.3)
+  })
+})
@@ -1,6 +1,6 @@
 import type {
   ChartData, ResolvedOptions, PreparedData,
-  RenderContext, RenderNode, HitResult,
+  RenderContext, RenderNode, HitResult, ScaleType,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { lineChartType } from '../line/line-type'
@@ -12,6 +12,9 @@ import { lineChartType } from '../line/line-type'
 export const areaChartType = defineChartType({
   type: 'area',
 
+  getScaleTypes(data?: PreparedData, options?: ResolvedOptions): { x: ScaleType; y: ScaleType } {
+    return lineChartType.getScaleTypes(data, options)
+  },
 
   prepareData(data: ChartData, options: ResolvedOptions): PreparedData {
     // Force fill on all series
@@ -47,6 +47,8 @@ export const barChartType = defineChartType({
       const barNodes: RenderNode[] = []
 
       for (let i = 0; i < series.values.length; i++) {
+
+        if (isNaN(series.values[i]!)) continue // skip missing data
         const cx = xScale.map(i)
         const barX = cx + groupOffset + series.index * barWidth
         const vy = yScale.map(series.values[i]!)
@@ -90,6 +92,7 @@ export const barChartType = defineChartType({
       nodes.push(group(barNodes, {
         class: `chartts-series chartts-series-${series.index}`,
         'data-series-name': series.name,
+        key: series.name,
       }))
     }
 
@@ -143,6 +146,7 @@ export const barChartType = defineChartType({
 
     for (const series of data.series) {
       for (let i = 0; i < series.values.length; i++) {
+        if (isNaN(series.values[i]!)) continue // skip missing data
         const cx = xScale.map(i)
         const barX = cx + groupOffset + series.index * barWidth
         const vy = yScale.map(series.values[i]!)
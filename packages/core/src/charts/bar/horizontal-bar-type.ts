@@ -80,6 +80,8 @@ export const horizontalBarChartType = defineChartType({
       const barNodes: RenderNode[] = []
 
       for (let i = 0; i < series.values.length; i++) {
+
+        if (isNaN(series.values[i]!)) continue // skip missing data
         const catCenter = area.y + categoryHeight * (i + 0.5)
         const barY = catCenter + groupOffset + series.index * barHeight
         const vx = valueToX(series.values[i]!)
@@ -147,6 +149,7 @@ export const horizontalBarChartType = defineChartType({
 
     for (const series of data.series) {
       for (let i = 0; i < series.values.length; i++) {
+        if (isNaN(series.values[i]!)) continue // skip missing data
         const catCenter = area.y + categoryHeight * (i + 0.5)
         const barY = catCenter + groupOffset + series.index * barHeight
         const vx = valueToX(series.values[i]!)
@@ -28,7 +28,7 @@ export const stackedBarChartType = defineChartType({
       let posSum = 0
       let negSum = 0
       for (const s of prepared.series) {
-        const v = s.values[i] ?? 0
+        const v = stackValue(s.values[i])
         if (v >= 0) posSum += v
         else negSum += v
       }
@@ -59,7 +59,7 @@ export const stackedBarChartType = defineChartType({
       let negY = baseline  // tracks current bottom of negative stack
 
       for (const series of data.series) {
-        const value = series.values[i] ?? 0
+        const value = stackValue(series.values[i])
         if (value === 0) continue
 
         const cx = xScale.map(i)
@@ -133,7 +133,7 @@ export const stackedBarChartType = defineChartType({
       let negY = baseline
 
       for (const series of data.series) {
-        const value = series.values[i] ?? 0
+        const value = stackValue(series.values[i])
         if (value === 0) continue
 
         const vy = yScale.map(Math.abs(value))
@@ -151,3 +151,8 @@ export const stackedBarChartType = defineChartType({
     return null
   },
 })
+
+/** A series' contribution to a stack — missing values (NaN) add nothing. */
+function stackValue(v: number | undefined): number {
+  return v === undefined || Number.isNaN(v) ? 0 : v
+}
@@ -1,12 +1,13 @@
 import type {
-  ResolvedOptions,
-  RenderContext, RenderNode, HitResult,
+  ResolvedOptions, PreparedData,
+  RenderContext, RenderNode, HitResult, ScaleType,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { group, circle } from '../../render/tree'
+import { pointXScaleType, createIndexMapper } from '../../utils/scale'
 
 export interface BubbleOptions extends ResolvedOptions {
-  /** Sizes array per series. Each entry maps 1:1 to values. */
+  /** Sizes array per series. Each entry maps 1:1 to values. Default: XY point sizes, else the values. */
   sizes?: number[][]
   /** Min bubble radius in px. Default 4. */
   minRadius?: number
@@ -31,16 +32,17 @@ function resolveSizeNorm(ctx: RenderContext): SizeNorm {
   const minR = bOpts.minRadius ?? 4
   const maxR = bOpts.maxRadius ?? 30
 
-  // Use explicit sizes, or fall back to using series values as sizes
-  let allSizes = bOpts.sizes ?? []
-  if (allSizes.length === 0) {
-    allSizes = ctx.data.series.map(s => s.values.map(v => Math.abs(v)))
-  }
+  // Use explicit sizes, else the XY points' sizes, else the series values
+  const explicit = bOpts.sizes?.length ? bOpts.sizes : null
+  const allSizes = ctx.data.series.map(s =>
+    explicit ? explicit[s.index] ?? s.sizes ?? [] : s.sizes ?? s.values.map(v => Math.abs(v)),
+  )
 
   let sizeMin = Infinity
   let sizeMax = -Infinity
   for (const sizes of allSizes) {
     for (const s of sizes) {
+      if (isNaN(s)) continue
       if (s < sizeMin) sizeMin = s
       if (s > sizeMax) sizeMax = s
     }
@@ -51,6 +53,12 @@ function resolveSizeNorm(ctx: RenderContext): SizeNorm {
   return { sizeMin, sizeRange, minR, maxR, allSizes }
 }
 
+/** Raw size of point i — 1 when it has none. */
+function sizeAt(sizes: number[], i: number): number {
+  const v = sizes[i]
+  return v === undefined || isNaN(v) ? 1 : v
+}
+
 function normalizeRadius(rawSize: number, norm: SizeNorm): number {
   const normalized = (rawSize - norm.sizeMin) / norm.sizeRange
   return norm.minR + normalized * (norm.maxR - norm.minR)
@@ -63,21 +71,25 @@ function normalizeRadius(rawSize: number, norm: SizeNorm): number {
 export const bubbleChartType = defineChartType({
   type: 'bubble',
 
-
+  getScaleTypes(data?: PreparedData): { x: ScaleType; y: ScaleType } {
+    return { x: pointXScaleType(data), y: 'linear' }
+  },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, xScale, yScale } = ctx
+    const { data, yScale } = ctx
     const nodes: RenderNode[] = []
     const norm = resolveSizeNorm(ctx)
 
     for (const series of data.series) {
       const sizes = norm.allSizes[series.index] ?? []
+      const xScale = createIndexMapper(ctx, series)
       const dots: RenderNode[] = []
 
       for (let i = 0; i < series.values.length; i++) {
+        if (isNaN(series.values[i]!)) continue // skip missing data
         const x = xScale.map(i)
         const y = yScale.map(series.values[i]!)
-        const rawSize = sizes[i] ?? 1
+        const rawSize = sizeAt(sizes, i)
         const r = normalizeRadius(rawSize, norm)
 
         dots.push(circle(x, y, r, {
@@ -104,7 +116,7 @@ export const bubbleChartType = defineChartType({
   },
 
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, xScale, yScale } = ctx
+    const { data, yScale } = ctx
     const norm = resolveSizeNorm(ctx)
 
     let best: HitResult | null = null
@@ -112,10 +124,12 @@ export const bubbleChartType = defineChartType({
 
     for (const series of data.series) {
       const sizes = norm.allSizes[series.index] ?? []
+      const xScale = createIndexMapper(ctx, series)
       for (let i = 0; i < series.values.length; i++) {
+        if (isNaN(series.values[i]!)) continue
         const x = xScale.map(i)
         const y = yScale.map(series.values[i]!)
-        const rawSize = sizes[i] ?? 1
+        const rawSize = sizeAt(sizes, i)
         const r = normalizeRadius(rawSize, norm)
 
         const dist = Math.sqrt((mx - x) ** 2 + (my - y) ** 2)
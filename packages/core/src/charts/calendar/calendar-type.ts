@@ -1,10 +1,11 @@
 import type {
   ChartData, ResolvedOptions, PreparedData,
-  RenderContext, RenderNode, HitResult,
+  RenderContext, RenderNode, HitResult, ColorMapOptions,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
 import { group, rect, text } from '../../render/tree'
+import { layoutColorMap, type ColorMap } from '../../legend/color-legend'
 
 /**
  * Calendar heatmap — GitHub-style contribution grid.
@@ -15,7 +16,11 @@ import { group, rect, text } from '../../render/tree'
  *
  * Renders a 7-row (days of week) x N-column (weeks) grid.
  * If labels aren't dates, treats data as a flat grid: 7 rows.
+ * Cells are colored by magnitude through `colorScale`, from 0 by default;
+ * days at 0 stay empty. `colorLegend` adds a legend.
  */
+export interface CalendarOptions extends ResolvedOptions, ColorMapOptions {}
+
 export const calendarChartType = defineChartType({
   type: 'calendar',
   suppressAxes: true,
@@ -26,7 +31,7 @@ export const calendarChartType = defineChartType({
   },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, area, theme, options } = ctx
+    const { data, theme } = ctx
     const nodes: RenderNode[] = []
 
     const series = data.series[0]
@@ -37,11 +42,7 @@ export const calendarChartType = defineChartType({
     const rows = 7 // days of week
     const cols = Math.ceil(count / rows)
 
-    let maxVal = 0
-    for (const v of values) {
-      if (Math.abs(v) > maxVal) maxVal = Math.abs(v)
-    }
-    if (maxVal === 0) maxVal = 1
+    const { scale, plot: area, legend } = colorMap(ctx)
 
     // Detect date mode (labels are YYYY-MM-DD)
     const isDateMode = data.labels.length > 0 &&
@@ -62,7 +63,6 @@ export const calendarChartType = defineChartType({
     const cellH = cellW // square cells
     const gap = Math.max(1, cellW * 0.12)
 
-    const color = options.colors[0] ?? '#10b981'
     const labelFontSize = Math.min(theme.fontSizeSmall * 0.8, cellH * 0.6)
 
     // Month labels along the top (date mode only)
@@ -106,14 +106,11 @@ export const calendarChartType = defineChartType({
       const col = Math.floor(idx / rows)
       const row = idx % rows
       const val = Math.abs(values[idx]!)
-      const intensity = val / maxVal
 
       const x = gridX + col * (cellW + gap)
       const y = gridY + row * (cellH + gap)
 
-      const cellColor = intensity === 0
-        ? (theme.gridColor ?? '#e5e7eb')
-        : interpolateOpacity(color, intensity)
+      const cellColor = val === 0 ? theme.gridColor : scale.map(val)
 
       const cellNodes: RenderNode[] = [
         rect(x, y, cellW, cellH, {
@@ -134,14 +131,17 @@ export const calendarChartType = defineChartType({
       }))
     }
 
+    if (legend) nodes.push(legend)
     return nodes
   },
 
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, area } = ctx
+    const { data } = ctx
     const series = data.series[0]
     if (!series || series.values.length === 0) return null
 
+    const area = colorMap(ctx).plot
+
     const count = series.values.length
     const rows = 7
     const cols = Math.ceil(count / rows)
@@ -179,24 +179,14 @@ export const calendarChartType = defineChartType({
   },
 })
 
-function interpolateOpacity(color: string, t: number): string {
-  // Extract hex from CSS variable fallback: var(--name, #hex) → #hex
-  let hex = color
-  const varMatch = color.match(/#[0-9a-fA-F]{3,8}/)
-  if (varMatch) hex = varMatch[0]
-
-  const h = hex.replace('#', '')
-  const r = parseInt(h.substring(0, 2), 16)
-  const g = parseInt(h.substring(2, 4), 16)
-  const b = parseInt(h.substring(4, 6), 16)
-
-  if (isNaN(r) || isNaN(g) || isNaN(b)) {
-    // Fallback: just use the color with opacity
-    const alpha = 0.15 + t * 0.85
-    return `rgba(16,185,129,${alpha})`
-  }
-
-  // Blend with a minimum opacity of 0.15 up to 1.0
-  const alpha = 0.15 + t * 0.85
-  return `rgba(${r},${g},${b},${alpha})`
+/** Colors for each day's magnitude, by default from 0 to the largest, and the area left beside the legend. */
+function colorMap(ctx: RenderContext): ColorMap {
+  const cOpts = ctx.options as CalendarOptions
+  const magnitudes = (ctx.data.series[0]?.values ?? []).map(Math.abs)
+  return layoutColorMap([0, ...magnitudes], ctx.area, ctx, {
+    scale: cOpts.colorScale,
+    legend: cOpts.colorLegend,
+    fade: 0.15,
+    title: ctx.data.series[0]?.name,
+  })
 }
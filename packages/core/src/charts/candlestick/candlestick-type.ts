@@ -4,6 +4,7 @@ import type {
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { prepareData } from '../../data/prepare'
+import { seriesValues } from '../../data/xy'
 import { group, rect } from '../../render/tree'
 import { getBandwidth } from '../../utils/scale'
 
@@ -52,7 +53,7 @@ export const candlestickChartType = defineChartType({
     // Auto-detect OHLC from 4 series named Open/High/Low/Close
     if (!ohlc && data.series.length >= 4) {
       const byName: Record<string, number[]> = {}
-      for (const s of data.series) byName[s.name.toLowerCase()] = s.values
+      for (const s of data.series) byName[s.name.toLowerCase()] = seriesValues(s).map(v => v ?? NaN)
       if (byName.open && byName.high && byName.low && byName.close) {
         ohlc = { open: byName.open, high: byName.high, low: byName.low, close: byName.close }
       }
@@ -7,7 +7,7 @@ import { prepareData } from '../../data/prepare'
 import { group, rect, path, circle } from '../../render/tree'
 import { PathBuilder } from '../../render/tree'
 import { formatNum } from '../../utils/format'
-import { getBandwidth } from '../../utils/scale'
+import { getBandwidth, getSeriesYScale } from '../../utils/scale'
 
 /**
  * Combo / Mixed chart — overlays bar + line on the same axes.
@@ -19,6 +19,9 @@ import { getBandwidth } from '../../utils/scale'
  * Simple heuristic:
  * - series[0] → bars
  * - series[1..N] → lines
+ *
+ * Any series can be bound to a secondary axis via `Series.yAxis`, e.g. a
+ * volume bar series on the left and a price line on a right-hand axis.
  */
 export const comboChartType = defineChartType({
   type: 'combo',
@@ -27,6 +30,14 @@ export const comboChartType = defineChartType({
 
   prepareData(data: ChartData, options: ResolvedOptions): PreparedData {
     const prepared = prepareData(data, options)
+
+    // Bars need a zero baseline on whichever axis they're plotted against
+    const barAxis = prepared.yAxes?.find(a => a.id === prepared.series[0]?.yAxis)
+    if (barAxis) {
+      if (barAxis.min === undefined && barAxis.yMin > 0) barAxis.yMin = 0
+      if (barAxis.max === undefined && barAxis.yMax < 0) barAxis.yMax = 0
+      return prepared
+    }
     if (options.yMin === undefined && prepared.bounds.yMin > 0) {
       prepared.bounds.yMin = 0
     }
@@ -37,7 +48,7 @@ export const comboChartType = defineChartType({
   },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, options, xScale, yScale } = ctx
+    const { data, options, xScale } = ctx
     const nodes: RenderNode[] = []
 
     if (data.series.length === 0) return nodes
@@ -46,16 +57,17 @@ export const comboChartType = defineChartType({
 
     // Bars for series[0]
     const barSeries = data.series[0]!
+    const barScale = getSeriesYScale(ctx, barSeries)
     const bw = getBandwidth(xScale)
     const barWidth = bw * (1 - options.barGap)
-    const baseline = yScale.map(Math.max(0, yScale.getDomain()[0] as number))
+    const baseline = barScale.map(Math.max(0, barScale.getDomain()[0] as number))
 
     const barNodes: RenderNode[] = []
     for (let i = 0; i < barSeries.values.length; i++) {
       if (isNaN(barSeries.values[i]!)) continue // skip missing data
       const cx = xScale.map(i)
       const barX = cx - barWidth / 2
-      const vy = yScale.map(barSeries.values[i]!)
+      const vy = barScale.map(barSeries.values[i]!)
       const isPositive = barSeries.values[i]! >= 0
       const y = isPositive ? vy : baseline
       const h = Math.abs(vy - baseline)
@@ -97,6 +109,7 @@ export const comboChartType = defineChartType({
     for (let si = 1; si < data.series.length; si++) {
       const series = data.series[si]!
       const color = options.colors[series.index % options.colors.length]!
+      const yScale = getSeriesYScale(ctx, series)
       const lineNodes: RenderNode[] = []
 
       // Build line path
@@ -149,7 +162,7 @@ export const comboChartType = defineChartType({
   },
 
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, xScale, yScale, options } = ctx
+    const { data, xScale, options } = ctx
     if (data.series.length === 0) return null
 
     let best: HitResult | null = null
@@ -157,15 +170,16 @@ export const comboChartType = defineChartType({
 
     // Check bar hits first (series[0])
     const barSeries = data.series[0]!
+    const barScale = getSeriesYScale(ctx, barSeries)
     const bw = getBandwidth(xScale)
     const barWidth = bw * (1 - options.barGap)
-    const baseline = yScale.map(Math.max(0, yScale.getDomain()[0] as number))
+    const baseline = barScale.map(Math.max(0, barScale.getDomain()[0] as number))
 
     for (let i = 0; i < barSeries.values.length; i++) {
       if (isNaN(barSeries.values[i]!)) continue
       const cx = xScale.map(i)
       const barX = cx - barWidth / 2
-      const vy = yScale.map(barSeries.values[i]!)
+      const vy = barScale.map(barSeries.values[i]!)
       const y = barSeries.values[i]! >= 0 ? vy : baseline
       const h = Math.abs(vy - baseline)
 
@@ -178,6 +192,7 @@ export const comboChartType = defineChartType({
     // Check line point hits (series[1..N])
     for (let si = 1; si < data.series.length; si++) {
       const series = data.series[si]!
+      const yScale = getSeriesYScale(ctx, series)
       for (let i = 0; i < series.values.length; i++) {
         if (isNaN(series.values[i]!)) continue
         const px = xScale.map(i)
@@ -27,7 +27,7 @@ export const customChartType = defineChartType({
   type: 'custom',
   suppressAxes: true,
 
-  getScaleTypes(_data?: ChartData, options?: ResolvedOptions): { x: ScaleType; y: ScaleType } {
+  getScaleTypes(_data?: PreparedData, options?: ResolvedOptions): { x: ScaleType; y: ScaleType } {
     const cOpts = options as CustomChartOptions | undefined
     return cOpts?.scaleTypes ?? { x: 'categorical', y: 'linear' }
   },
@@ -1,22 +1,45 @@
 import type {
   ChartData, ResolvedOptions, PreparedData,
-  RenderContext, RenderNode, HitResult,
+  RenderContext, RenderNode, HitResult, ColorMapOptions,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
-import { path, rect, circle, text, group } from '../../render/tree'
+import { path, circle, text, group } from '../../render/tree'
+import { layoutColorMap, type ColorMap } from '../../legend/color-legend'
+import { contrastText } from '../../color/color'
 import { WORLD_REGIONS } from './world-regions'
+import type { GeoSource } from './geojson'
+import type { GeoProjectionName } from './projection'
+import type { ProjectedMap } from './map'
+import { projectMap } from './map'
 
 export interface GeoRegion {
   name: string
   path: string
+  /** Label anchor. Default: the average of the path's points. */
+  centroid?: { x: number; y: number }
 }
 
-export interface GeoOptions extends ResolvedOptions {
+export interface GeoOptions extends ResolvedOptions, ColorMapOptions {
   regions?: GeoRegion[]
   viewBox?: { x: number; y: number; width: number; height: number }
+  /**
+   * GeoJSON (FeatureCollection or Feature) or TopoJSON topology to draw
+   * instead of `regions`. Polygon features become regions named by
+   * `nameProperty`; the map is fitted to the projected features.
+   */
+  geo?: GeoSource
+  /** TopoJSON object to draw. Default: the topology's first object. */
+  topoObject?: string
+  /** Projection for `geo`. Default 'equalEarth'. */
+  projection?: GeoProjectionName
+  /** [lon, lat] the map is centred on — the facing point of an orthographic globe, the central meridian otherwise. */
+  center?: [number, number]
+  /** Feature property naming each region, matched against the labels. Default 'name', falling back to the feature id. */
+  nameProperty?: string
   showLabels?: boolean | 'data'
   scatterSeries?: number
+  /** 'none' hides the color legend, like `colorLegend: false`. */
   legendPosition?: 'bottom' | 'none'
 }
 
@@ -34,7 +57,7 @@ function getCentroids(regions: GeoRegion[]): Map<string, { x: number; y: number
   if (cached) return cached
   cached = new Map()
   for (const r of regions) {
-    const c = getPathCentroid(r.path)
+    const c = r.centroid ?? getPathCentroid(r.path)
     if (c) cached.set(r.name, c)
   }
   centroidCache.set(regions, cached)
@@ -56,19 +79,31 @@ function getBBoxes(regions: GeoRegion[]): Map<string, BBox> {
 /** Default viewBox matching Guardian world-map coordinate space. */
 const DEFAULT_VB = { x: 0, y: 0, width: 1000, height: 430 }
 
+/** The regions to draw and their coordinate space — projected `geo` input, else `regions` in `viewBox`. */
+function resolveMap(gOpts: GeoOptions): { regions: GeoRegion[]; vb: typeof DEFAULT_VB; map?: ProjectedMap } {
+  if (gOpts.geo) {
+    const map = projectMap(gOpts.geo, {
+      projection: gOpts.projection ?? 'equalEarth',
+      center: gOpts.center ?? [0, 0],
+      object: gOpts.topoObject,
+      nameProperty: gOpts.nameProperty ?? 'name',
+    })
+    return { regions: map.regions, vb: map.viewBox, map }
+  }
+  return { regions: gOpts.regions ?? WORLD_SIMPLE, vb: gOpts.viewBox ?? DEFAULT_VB }
+}
+
 /** Compute transform params for fitting map into chart area, with optional zoom/pan. */
 function computeMapTransform(
   area: { x: number; y: number; width: number; height: number },
   vb: typeof DEFAULT_VB,
-  legendHeight: number,
   zp?: { zoomX: number; zoomY: number; panX: number; panY: number },
 ) {
-  const fitHeight = area.height - legendHeight
-  const baseScale = Math.min(area.width / vb.width, fitHeight / vb.height) * 0.88
+  const baseScale = Math.min(area.width / vb.width, area.height / vb.height) * 0.88
 
   // Base offsets center the map at zoom=1
   const baseOX = area.x + area.width / 2 - (vb.x + vb.width / 2) * baseScale
-  const baseOY = area.y + fitHeight / 2 - (vb.y + vb.height / 2) * baseScale
+  const baseOY = area.y + area.height / 2 - (vb.y + vb.height / 2) * baseScale
 
   const zoom = zp ? Math.max(zp.zoomX, zp.zoomY) : 1
   const scale = baseScale * zoom
@@ -88,14 +123,6 @@ function computeMapTransform(
   return { scale, offsetX, offsetY }
 }
 
-function formatValue(v: number): string {
-  if (Math.abs(v) >= 1e12) return (v / 1e12).toFixed(1) + 'T'
-  if (Math.abs(v) >= 1e9) return (v / 1e9).toFixed(1) + 'B'
-  if (Math.abs(v) >= 1e6) return (v / 1e6).toFixed(1) + 'M'
-  if (Math.abs(v) >= 1e3) return (v / 1e3).toFixed(1) + 'K'
-  return v % 1 === 0 ? String(v) : v.toFixed(1)
-}
-
 export const geoChartType = defineChartType({
   type: 'geo',
   suppressAxes: true,
@@ -110,9 +137,8 @@ export const geoChartType = defineChartType({
     const nodes: RenderNode[] = []
 
     const gOpts = options as GeoOptions
-    const regions = gOpts.regions ?? WORLD_SIMPLE
+    const { regions, vb, map } = resolveMap(gOpts)
     const showLabels = gOpts.showLabels
-    const showLegend = gOpts.legendPosition !== 'none'
 
     if (regions.length === 0) return nodes
 
@@ -125,34 +151,36 @@ export const geoChartType = defineChartType({
       }
     }
 
-    // Color range
     const values = [...valueMap.values()]
-    const minVal = values.length > 0 ? Math.min(...values) : 0
-    const maxVal = values.length > 0 ? Math.max(...values) : 1
-    const range = maxVal - minVal || 1
-
-    const baseColor = options.colors[0] ?? '#3b82f6'
-    const legendH = showLegend && values.length > 0 ? 28 : 0
+    const { scale: colors, plot, legend } = colorMap(ctx, values)
 
     // Coordinate system
-    const vb = gOpts.viewBox ?? DEFAULT_VB
-    const { scale, offsetX, offsetY } = computeMapTransform(area, vb, legendH, ctx.zoomPan)
+    const { scale, offsetX, offsetY } = computeMapTransform(plot, vb, ctx.zoomPan)
     const transform = `translate(${offsetX},${offsetY}) scale(${scale})`
 
     const centroids = getCentroids(regions)
 
+    if (map?.outline) {
+      nodes.push(path(map.outline, {
+        class: 'chartts-geo-sphere',
+        fill: theme.gridColor,
+        fillOpacity: 0.25,
+        stroke: theme.textMuted,
+        strokeWidth: 0.6 / scale,
+        transform,
+      }))
+    }
+
     // Render regions
     for (let i = 0; i < regions.length; i++) {
       const region = regions[i]!
       const val = valueMap.get(region.name)
       const hasData = val !== undefined
-      const t = hasData ? (val - minVal) / range : 0
-      const fillOpacity = hasData ? 0.2 + t * 0.75 : 0.06
 
       nodes.push(path(region.path, {
         class: 'chartts-geo-region',
-        fill: hasData ? baseColor : theme.gridColor,
-        fillOpacity,
+        fill: hasData ? colors.map(val) : theme.gridColor,
+        fillOpacity: hasData ? 1 : 0.06,
         stroke: theme.textMuted,
         strokeWidth: 0.4 / scale,
         transform,
@@ -168,7 +196,7 @@ export const geoChartType = defineChartType({
       const labelNodes: RenderNode[] = []
       const fontSize = Math.max(6, Math.min(9, area.width / 80))
 
-      for (const [name] of valueMap) {
+      for (const [name, val] of valueMap) {
         const centroid = centroids.get(name)
         if (!centroid) continue
 
@@ -177,7 +205,7 @@ export const geoChartType = defineChartType({
 
         labelNodes.push(text(lx, ly, name, {
           class: 'chartts-geo-label',
-          fill: theme.textColor,
+          fill: contrastText(colors.map(val), theme.textColor),
           textAnchor: 'middle',
           dominantBaseline: 'central',
           fontSize,
@@ -212,20 +240,32 @@ export const geoChartType = defineChartType({
       const scatterSeries = data.series[gOpts.scatterSeries]
       if (scatterSeries) {
         const scatterNodes: RenderNode[] = []
-        const maxScatter = Math.max(...scatterSeries.values.map(Math.abs), 1)
-
-        for (let i = 0; i < data.labels.length; i++) {
-          const name = String(data.labels[i])
-          const val = scatterSeries.values[i] ?? 0
-          if (val <= 0) continue
-
-          const centroid = centroids.get(name)
-          if (!centroid) continue
-
-          const sx = offsetX + centroid.x * scale
-          const sy = offsetY + centroid.y * scale
-          const r = 3 + (val / maxScatter) * 12
-          const color = options.colors[1 % options.colors.length]!
+        const color = options.colors[1 % options.colors.length]!
+        // XY points are {x: lon, y: lat, size?} — placed through the projection, sized by `size`
+        const lonLat = scatterSeries.x
+        const magnitudes = lonLat ? scatterSeries.sizes ?? [] : scatterSeries.values
+        const maxScatter = Math.max(...magnitudes.map(Math.abs), 1)
+        const count = lonLat ? lonLat.length : data.labels.length
+
+        for (let i = 0; i < count; i++) {
+          let position: { x: number; y: number } | null | undefined
+          let r: number
+          if (lonLat) {
+            const lat = scatterSeries.values[i]!
+            if (!map || isNaN(lat)) continue
+            position = map.locate(Number(lonLat[i]), lat)
+            const size = scatterSeries.sizes?.[i]
+            r = size === undefined ? 4 : 3 + (Math.abs(size) / maxScatter) * 12
+          } else {
+            const val = scatterSeries.values[i] ?? 0
+            if (val <= 0) continue
+            position = centroids.get(String(data.labels[i]))
+            r = 3 + (val / maxScatter) * 12
+          }
+          if (!position) continue
+
+          const sx = offsetX + position.x * scale
+          const sy = offsetY + position.y * scale
 
           scatterNodes.push(circle(sx, sy, r, {
             class: 'chartts-geo-scatter',
@@ -244,78 +284,21 @@ export const geoChartType = defineChartType({
       }
     }
 
-    // Color legend bar
-    if (showLegend && values.length > 0) {
-      const legendNodes: RenderNode[] = []
-      const lw = Math.min(200, area.width * 0.4)
-      const lh = 8
-      const lx = area.x + (area.width - lw) / 2
-      const ly = area.y + area.height - 20
-
-      // Gradient steps
-      const steps = 10
-      const stepW = lw / steps
-      for (let s = 0; s < steps; s++) {
-        const t = s / (steps - 1)
-        const opacity = 0.2 + t * 0.75
-        legendNodes.push(rect(lx + s * stepW, ly, stepW + 0.5, lh, {
-          fill: baseColor,
-          fillOpacity: opacity,
-          stroke: 'none',
-        }))
-      }
-
-      // Border
-      legendNodes.push(rect(lx, ly, lw, lh, {
-        fill: 'none',
-        stroke: theme.textMuted,
-        strokeWidth: 0.5,
-        rx: 2,
-      }))
-
-      // Min/max labels
-      const labelSize = Math.max(8, theme.fontSizeSmall * 0.8)
-      const seriesName = series?.name ?? ''
-      legendNodes.push(text(lx, ly + lh + labelSize + 2, formatValue(minVal), {
-        fill: theme.textMuted,
-        fontSize: labelSize,
-        fontFamily: theme.fontFamily,
-        textAnchor: 'start',
-      }))
-      legendNodes.push(text(lx + lw, ly + lh + labelSize + 2, formatValue(maxVal), {
-        fill: theme.textMuted,
-        fontSize: labelSize,
-        fontFamily: theme.fontFamily,
-        textAnchor: 'end',
-      }))
-      if (seriesName) {
-        legendNodes.push(text(lx + lw / 2, ly + lh + labelSize + 2, seriesName, {
-          fill: theme.textColor,
-          fontSize: labelSize,
-          fontFamily: theme.fontFamily,
-          textAnchor: 'middle',
-          fontWeight: 600,
-        }))
-      }
-
-      nodes.push(group(legendNodes, { class: 'chartts-geo-legend' }))
-    }
+    if (legend) nodes.push(legend)
 
     return nodes
   },
 
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, area, options } = ctx
+    const { data, options } = ctx
     if (!data.series[0] || data.series[0].values.length === 0) return null
 
     const gOpts = options as GeoOptions
-    const regions = gOpts.regions ?? WORLD_SIMPLE
-    const showLegend = gOpts.legendPosition !== 'none'
+    const { regions, vb } = resolveMap(gOpts)
     const values = [...new Map(data.labels.map((l, i) => [String(l), data.series[0]!.values[i] ?? 0])).values()]
-    const legendH = showLegend && values.length > 0 ? 28 : 0
+    const { plot } = colorMap(ctx, values)
 
-    const vb = gOpts.viewBox ?? DEFAULT_VB
-    const { scale, offsetX, offsetY } = computeMapTransform(area, vb, legendH, ctx.zoomPan)
+    const { scale, offsetX, offsetY } = computeMapTransform(plot, vb, ctx.zoomPan)
 
     // Convert mouse to map space
     const mapX = (mx - offsetX) / scale
@@ -361,6 +344,18 @@ export const geoChartType = defineChartType({
   },
 })
 
+/** Region colors over the data `values`, and the area the map fits beside the legend. */
+function colorMap(ctx: RenderContext, values: number[]): ColorMap {
+  const gOpts = ctx.options as GeoOptions
+  return layoutColorMap(values, ctx.area, ctx, {
+    scale: gOpts.colorScale,
+    legend: values.length === 0 || gOpts.legendPosition === 'none' ? false : gOpts.colorLegend,
+    legendByDefault: true,
+    fade: 0.2,
+    title: ctx.data.series[0]?.name,
+  })
+}
+
 /** Extract all x,y coordinate pairs from SVG path string. */
 function extractCoords(d: string): number[] {
   const nums = d.match(/-?\d+(?:\.\d+)?/g)
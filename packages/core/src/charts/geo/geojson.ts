@@ -0,0 +1,160 @@
+/**
+ * GeoJSON and TopoJSON input for the Geo chart.
+ *
+ * Only the parts a choropleth needs: Polygon and MultiPolygon features
+ * become regions, everything else is ignored. TopoJSON topologies are
+ * decoded here — quantized, delta-encoded arcs stitched back into rings —
+ * so no topojson-client dependency is needed.
+ */
+
+/** [longitude, latitude] in degrees. */
+export type GeoPosition = [number, number]
+
+export type GeoGeometry =
+  | { type: 'Point'; coordinates: GeoPosition }
+  | { type: 'MultiPoint'; coordinates: GeoPosition[] }
+  | { type: 'LineString'; coordinates: GeoPosition[] }
+  | { type: 'MultiLineString'; coordinates: GeoPosition[][] }
+  | { type: 'Polygon'; coordinates: GeoPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoPosition[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoGeometry[] }
+
+export interface GeoFeature {
+  type: 'Feature'
+  id?: string | number
+  properties?: Record<string, unknown> | null
+  geometry: GeoGeometry | null
+}
+
+export interface GeoFeatureCollection {
+  type: 'FeatureCollection'
+  features: GeoFeature[]
+}
+
+export type TopoGeometry =
+  | { type: 'Point'; coordinates: GeoPosition }
+  | { type: 'MultiPoint'; coordinates: GeoPosition[] }
+  | { type: 'LineString'; arcs: number[] }
+  | { type: 'MultiLineString'; arcs: number[][] }
+  | { type: 'Polygon'; arcs: number[][] }
+  | { type: 'MultiPolygon'; arcs: number[][][] }
+  | { type: 'GeometryCollection'; geometries: TopoObject[] }
+  | { type: null }
+
+export type TopoObject = TopoGeometry & {
+  id?: string | number
+  properties?: Record<string, unknown> | null
+}
+
+export interface Topology {
+  type: 'Topology'
+  /** Present when positions are quantized and arcs delta-encoded. */
+  transform?: { scale: [number, number]; translate: [number, number] }
+  arcs: GeoPosition[][]
+  objects: Record<string, TopoObject>
+}
+
+/** Anything the Geo chart's `geo` option accepts. */
+export type GeoSource = GeoFeatureCollection | GeoFeature | Topology
+
+/**
+ * Features from any `GeoSource`. For a topology, `object` names the entry of
+ * `topology.objects` to decode — by default the first.
+ */
+export function toFeatures(source: GeoSource, object?: string): GeoFeature[] {
+  switch (source.type) {
+    case 'FeatureCollection': return source.features
+    case 'Feature': return [source]
+    case 'Topology': return topoFeatures(source, object)
+  }
+}
+
+/** Decode one object of a TopoJSON topology into GeoJSON features. */
+export function topoFeatures(topology: Topology, object?: string): GeoFeature[] {
+  const name = object ?? Object.keys(topology.objects)[0]
+  const root = name === undefined ? undefined : topology.objects[name]
+  if (!root) throw new Error(`[chartts] Topology has no object "${name ?? ''}"`)
+
+  const arcs = decodeArcs(topology)
+  const position = positionDecoder(topology)
+  const toFeature = (o: TopoObject): GeoFeature => ({
+    type: 'Feature',
+    ...(o.id !== undefined ? { id: o.id } : {}),
+    properties: o.properties ?? {},
+    geometry: topoGeometry(o, arcs, position),
+  })
+  return root.type === 'GeometryCollection' ? root.geometries.map(toFeature) : [toFeature(root)]
+}
+
+/** Arcs as absolute positions — delta-decoded and un-quantized if transformed. */
+function decodeArcs(topology: Topology): GeoPosition[][] {
+  const t = topology.transform
+  if (!t) return topology.arcs
+  const [sx, sy] = t.scale
+  const [tx, ty] = t.translate
+  return topology.arcs.map(arc => {
+    let x = 0
+    let y = 0
+    return arc.map(([dx, dy]) => {
+      x += dx
+      y += dy
+      return [x * sx + tx, y * sy + ty] as GeoPosition
+    })
+  })
+}
+
+/** Point coordinates are quantized but not delta-encoded. */
+function positionDecoder(topology: Topology): (p: GeoPosition) => GeoPosition {
+  const t = topology.transform
+  if (!t) return p => p
+  return ([x, y]) => [x * t.scale[0] + t.translate[0], y * t.scale[1] + t.translate[1]]
+}
+
+function topoGeometry(
+  o: TopoObject,
+  arcs: GeoPosition[][],
+  position: (p: GeoPosition) => GeoPosition,
+): GeoGeometry | null {
+  // A negative index ~i is arc i reversed. Consecutive arcs share an
+  // endpoint, so each one after the first drops its first position.
+  const line = (indices: number[]): GeoPosition[] => {
+    const out: GeoPosition[] = []
+    for (const i of indices) {
+      const arc = i < 0 ? arcs[~i]!.slice().reverse() : arcs[i]!
+      for (let k = out.length ? 1 : 0; k < arc.length; k++) out.push(arc[k]!)
+    }
+    return out
+  }
+
+  switch (o.type) {
+    case 'Point': return { type: 'Point', coordinates: position(o.coordinates) }
+    case 'MultiPoint': return { type: 'MultiPoint', coordinates: o.coordinates.map(position) }
+    case 'LineString': return { type: 'LineString', coordinates: line(o.arcs) }
+    case 'MultiLineString': return { type: 'MultiLineString', coordinates: o.arcs.map(line) }
+    case 'Polygon': return { type: 'Polygon', coordinates: o.arcs.map(line) }
+    case 'MultiPolygon': return { type: 'MultiPolygon', coordinates: o.arcs.map(p => p.map(line)) }
+    case 'GeometryCollection': return {
+      type: 'GeometryCollection',
+      geometries: o.geometries.map(g => topoGeometry(g, arcs, position)).filter((g): g is GeoGeometry => g !== null),
+    }
+    default: return null
+  }
+}
+
+/** The polygons of a geometry, each as rings — exterior first, then holes. */
+export function polygonsOf(geometry: GeoGeometry | null): GeoPosition[][][] {
+  if (!geometry) return []
+  switch (geometry.type) {
+    case 'Polygon': return [geometry.coordinates]
+    case 'MultiPolygon': return geometry.coordinates
+    case 'GeometryCollection': return geometry.geometries.flatMap(polygonsOf)
+    default: return []
+  }
+}
+
+/** A feature's region name: `properties[key]`, else its id. */
+export function featureName(feature: GeoFeature, key: string, index: number): string {
+  const value = feature.properties?.[key]
+  if (typeof value === 'string' || typeof value === 'number') return String(value)
+  return feature.id !== undefined ? String(feature.id) : String(index)
+}
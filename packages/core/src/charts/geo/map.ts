@@ -0,0 +1,119 @@
+import type { GeoRegion } from './geo-type'
+import type { GeoSource } from './geojson'
+import type { GeoProjectionName, PlanarPoint } from './projection'
+import { toFeatures, polygonsOf, featureName } from './geojson'
+import { createProjection } from './projection'
+
+/**
+ * GeoJSON / TopoJSON projected into map space: region paths the Geo chart
+ * draws exactly like the built-in world map, in a viewBox fitted to the
+ * projected features (or to the whole globe, for orthographic).
+ */
+export interface ProjectedMap {
+  regions: GeoRegion[]
+  viewBox: { x: number; y: number; width: number; height: number }
+  /** Map-space position of a lon/lat, or null when it isn't on the map. */
+  locate(lon: number, lat: number): { x: number; y: number } | null
+  /** Path of the globe's outline, for projections that show the whole sphere. */
+  outline?: string
+}
+
+export interface MapSettings {
+  projection: GeoProjectionName
+  center: [number, number]
+  /** TopoJSON object to decode. */
+  object?: string
+  /** Feature property holding the region name. */
+  nameProperty: string
+}
+
+/** Width of map space; its height follows the projected aspect ratio. */
+const MAP_WIDTH = 1000
+
+const mapCache = new WeakMap<GeoSource, Map<string, ProjectedMap>>()
+
+/** Project `source`, once per source object and settings. */
+export function projectMap(source: GeoSource, settings: MapSettings): ProjectedMap {
+  const key = `${settings.projection}|${settings.center.join(',')}|${settings.object ?? ''}|${settings.nameProperty}`
+  let bySettings = mapCache.get(source)
+  if (!bySettings) {
+    bySettings = new Map()
+    mapCache.set(source, bySettings)
+  }
+  let map = bySettings.get(key)
+  if (!map) {
+    map = buildMap(source, settings)
+    bySettings.set(key, map)
+  }
+  return map
+}
+
+function buildMap(source: GeoSource, settings: MapSettings): ProjectedMap {
+  const projection = createProjection(settings.projection, settings.center)
+  const shapes = toFeatures(source, settings.object).map((feature, i) => ({
+    name: featureName(feature, settings.nameProperty, i),
+    rings: polygonsOf(feature.geometry).flatMap(polygon => polygon.flatMap(ring => projection.ring(ring))),
+  })).filter(shape => shape.rings.length > 0)
+
+  // Fit to the globe when there is one, else to what was drawn
+  const fitted = projection.outline ? [projection.outline] : shapes.flatMap(s => s.rings)
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  for (const ring of fitted) {
+    for (const [x, y] of ring) {
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+    }
+  }
+  if (minX > maxX) minX = maxX = minY = maxY = 0
+  const k = MAP_WIDTH / (maxX - minX || 1)
+  const toMap = ([x, y]: PlanarPoint): PlanarPoint => [(x - minX) * k, (y - minY) * k]
+
+  const regions = shapes.map(({ name, rings }): GeoRegion => {
+    const mapped = rings.map(ring => ring.map(toMap))
+    return { name, path: mapped.map(ringPath).join(''), centroid: largestCentroid(mapped) }
+  })
+
+  return {
+    regions,
+    viewBox: { x: 0, y: 0, width: MAP_WIDTH, height: (maxY - minY) * k },
+    locate(lon, lat) {
+      const p = projection.point(lon, lat)
+      if (!p) return null
+      const [x, y] = toMap(p)
+      return { x, y }
+    },
+    ...(projection.outline ? { outline: ringPath(projection.outline.map(toMap)) } : {}),
+  }
+}
+
+function ringPath(ring: PlanarPoint[]): string {
+  return ring.map(([x, y], i) => `${i ? 'L' : 'M'}${round(x)},${round(y)}`).join('') + 'Z'
+}
+
+function round(v: number): number {
+  return Math.round(v * 100) / 100
+}
+
+/** Area centroid of the largest ring — a mainland, not the average of its islands. */
+function largestCentroid(rings: PlanarPoint[][]): { x: number; y: number } | undefined {
+  let best: { x: number; y: number } | undefined
+  let bestArea = 0
+  for (const ring of rings) {
+    let area = 0, cx = 0, cy = 0
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [x0, y0] = ring[j]!
+      const [x1, y1] = ring[i]!
+      const cross = x0 * y1 - x1 * y0
+      area += cross
+      cx += (x0 + x1) * cross
+      cy += (y0 + y1) * cross
+    }
+    if (Math.abs(area) > bestArea) {
+      bestArea = Math.abs(area)
+      best = { x: cx / (3 * area), y: cy / (3 * area) }
+    }
+  }
+  return best
+}
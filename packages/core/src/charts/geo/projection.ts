@@ -0,0 +1,279 @@
+import type { GeoPosition } from './geojson'
+
+/**
+ * Map projections for GeoJSON input. Each turns lon/lat degrees into planar
+ * points (y down) in its own units; the Geo chart fits those to the plot.
+ *
+ * - mercator — conformal, latitudes clamped to ±85.05°
+ * - equalEarth — equal-area world map (Šavrič, Patterson & Jenny, 2018)
+ * - albersUsa — conic equal-area lower 48 with Alaska and Hawaii insets
+ * - orthographic — a globe seen from space, back hemisphere clipped
+ *
+ * Rings are clipped before projecting: at the antimeridian for the world
+ * projections (rings around a pole are closed over it), at the horizon for
+ * the globe.
+ */
+
+export type GeoProjectionName = 'mercator' | 'equalEarth' | 'albersUsa' | 'orthographic'
+
+/** A projected point, y down. */
+export type PlanarPoint = [number, number]
+
+export interface GeoProjection {
+  /** Project a point; null when it isn't on the map (far side of the globe, outside every inset). */
+  point(lon: number, lat: number): PlanarPoint | null
+  /** Project a polygon ring, clipped to the map — zero or more rings. */
+  ring(ring: GeoPosition[]): PlanarPoint[][]
+  /** The projected sphere, for projections whose map is the whole globe. */
+  outline?: PlanarPoint[]
+}
+
+const RAD = Math.PI / 180
+
+/**
+ * A projection by name. `center` is [lon, lat]: the point the globe faces
+ * for orthographic, the central meridian (lon only) for mercator and
+ * equalEarth. albersUsa ignores it.
+ */
+export function createProjection(name: GeoProjectionName, center: [number, number] = [0, 0]): GeoProjection {
+  switch (name) {
+    case 'mercator': return createMercator(center[0])
+    case 'equalEarth': return createEqualEarth(center[0])
+    case 'albersUsa': return createAlbersUsa()
+    case 'orthographic': return createOrthographic(center)
+    default: throw new Error(`[chartts] Unknown projection: "${String(name)}"`)
+  }
+}
+
+export function createMercator(centralMeridian = 0): GeoProjection {
+  const limit = 85.05113 * RAD
+  return cylindrical(centralMeridian, (l, p) => {
+    const phi = Math.max(-limit, Math.min(limit, p))
+    return [l, -Math.log(Math.tan(Math.PI / 4 + phi / 2))]
+  })
+}
+
+export function createEqualEarth(centralMeridian = 0): GeoProjection {
+  const A1 = 1.340264, A2 = -0.081106, A3 = 0.000893, A4 = 0.003796
+  const M = Math.sqrt(3) / 2
+  return cylindrical(centralMeridian, (l, p) => {
+    const theta = Math.asin(M * Math.sin(p))
+    const t2 = theta * theta
+    const t6 = t2 * t2 * t2
+    return [
+      (l * Math.cos(theta)) / (M * (A1 + 3 * A2 * t2 + t6 * (7 * A3 + 9 * A4 * t2))),
+      -theta * (A1 + A2 * t2 + t6 * (A3 + A4 * t2)),
+    ]
+  })
+}
+
+/** A world projection: longitudes relative to the central meridian, rings cut at the antimeridian. */
+function cylindrical(centralMeridian: number, raw: (lambda: number, phi: number) => PlanarPoint): GeoProjection {
+  return {
+    point: (lon, lat) => raw(wrapLongitude(lon - centralMeridian) * RAD, lat * RAD),
+    ring: (ring) => cutAntimeridian(ring.map(([lon, lat]) => [wrapLongitude(lon - centralMeridian), lat]))
+      .map(r => r.map(([lon, lat]) => raw(lon * RAD, lat * RAD))),
+  }
+}
+
+function wrapLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180
+}
+
+/**
+ * Split a ring where it crosses ±180°. Longitudes are first unwrapped so no
+ * step jumps more than half the globe; a ring that then ends a full turn
+ * from its start encircles a pole and is closed over it. Every 360° copy
+ * that overlaps the map is clipped to it.
+ */
+function cutAntimeridian(ring: GeoPosition[]): GeoPosition[][] {
+  if (ring.length < 3) return []
+  const unwrapped: GeoPosition[] = [ring[0]!]
+  let shift = 0
+  let latSum = ring[0]![1]
+  for (let i = 1; i < ring.length; i++) {
+    const [lon, lat] = ring[i]!
+    const step = lon - ring[i - 1]![0]
+    if (step > 180) shift -= 360
+    else if (step < -180) shift += 360
+    unwrapped.push([lon + shift, lat])
+    latSum += lat
+  }
+  if (shift !== 0) {
+    const pole = latSum >= 0 ? 90 : -90
+    unwrapped.push([unwrapped[unwrapped.length - 1]![0], pole], [unwrapped[0]![0], pole])
+  }
+
+  const lons = unwrapped.map(p => p[0])
+  const min = Math.min(...lons)
+  const max = Math.max(...lons)
+  if (min >= -180 && max <= 180) return [unwrapped]
+
+  const pieces: GeoPosition[][] = []
+  for (let k = Math.floor((min + 180) / 360); k <= Math.floor((max + 180) / 360); k++) {
+    const shifted = unwrapped.map(([lon, lat]): GeoPosition => [lon - k * 360, lat])
+    const clipped = clipLongitude(clipLongitude(shifted, -180, 1), 180, -1)
+    if (clipped.length >= 3) pieces.push(clipped)
+  }
+  return pieces
+}
+
+/** Sutherland–Hodgman against the meridian `edge`, keeping the side `dir` (1 east, -1 west) of it. */
+function clipLongitude(ring: GeoPosition[], edge: number, dir: 1 | -1): GeoPosition[] {
+  const inside = (p: GeoPosition): boolean => (p[0] - edge) * dir >= 0
+  const cross = (a: GeoPosition, b: GeoPosition): GeoPosition =>
+    [edge, a[1] + ((edge - a[0]) / (b[0] - a[0])) * (b[1] - a[1])]
+  const out: GeoPosition[] = []
+  let prev = ring[ring.length - 1]
+  for (const cur of ring) {
+    if (!prev) break
+    if (inside(cur)) {
+      if (!inside(prev)) out.push(cross(prev, cur))
+      out.push(cur)
+    } else if (inside(prev)) {
+      out.push(cross(prev, cur))
+    }
+    prev = cur
+  }
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Albers USA
+// ---------------------------------------------------------------------------
+
+interface Inset {
+  project: (lon: number, lat: number) => PlanarPoint
+  /** [x0, y0, x1, y1] — where this part of the composite may draw. */
+  extent: [number, number, number, number]
+}
+
+/**
+ * Conic equal-area on standard parallels `phi0`/`phi1`, with `rotate`
+ * added to longitudes, centred on `center` (in rotated degrees), scaled by
+ * `k` and moved to (tx, ty).
+ */
+function conicEqualArea(
+  phi0: number, phi1: number, rotate: number, center: GeoPosition,
+  k: number, tx: number, ty: number,
+): (lon: number, lat: number) => PlanarPoint {
+  const s0 = Math.sin(phi0 * RAD)
+  const n = (s0 + Math.sin(phi1 * RAD)) / 2
+  const c = 1 + s0 * (2 * n - s0)
+  const r0 = Math.sqrt(c) / n
+  const raw = (l: number, p: number): PlanarPoint => {
+    const r = Math.sqrt(Math.max(0, c - 2 * n * Math.sin(p))) / n
+    return [r * Math.sin(l * n), r0 - r * Math.cos(l * n)]
+  }
+  const [cx, cy] = raw(center[0] * RAD, center[1] * RAD)
+  return (lon, lat) => {
+    const [x, y] = raw(wrapLongitude(lon + rotate) * RAD, lat * RAD)
+    return [tx + k * (x - cx), ty - k * (y - cy)]
+  }
+}
+
+/** Lower 48 states with Alaska (at 0.35 scale) and Hawaii inset to the lower left, as in d3.geoAlbersUsa. */
+export function createAlbersUsa(): GeoProjection {
+  const insets: Inset[] = [
+    { project: conicEqualArea(29.5, 45.5, 96, [-0.6, 38.7], 1, 0, 0), extent: [-0.455, -0.238, 0.455, 0.238] },
+    { project: conicEqualArea(55, 65, 154, [-2, 58.5], 0.35, -0.307, 0.201), extent: [-0.425, 0.12, -0.214, 0.234] },
+    { project: conicEqualArea(8, 18, 157, [-3, 19.9], 1, -0.205, 0.212), extent: [-0.214, 0.166, -0.115, 0.234] },
+  ]
+  const within = ([x, y]: PlanarPoint, [x0, y0, x1, y1]: Inset['extent']): boolean =>
+    x >= x0 && x < x1 && y >= y0 && y < y1
+  const insetOf = (lon: number, lat: number): Inset | undefined =>
+    insets.find(inset => within(inset.project(lon, lat), inset.extent))
+
+  return {
+    point(lon, lat) {
+      return insetOf(lon, lat)?.project(lon, lat) ?? null
+    },
+    // A ring is drawn whole in the inset its first point falls in
+    ring(ring) {
+      const first = ring[0]
+      const inset = first && insetOf(first[0], first[1])
+      return inset ? [ring.map(([lon, lat]) => inset.project(lon, lat))] : []
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Orthographic
+// ---------------------------------------------------------------------------
+
+/** Points per half turn of horizon drawn where a clipped ring follows the edge of the globe. */
+const HORIZON_STEPS = 32
+
+export function createOrthographic(center: [number, number] = [0, 0]): GeoProjection {
+  const l0 = center[0] * RAD
+  const sinP0 = Math.sin(center[1] * RAD)
+  const cosP0 = Math.cos(center[1] * RAD)
+  // View coordinates: x east, y north, z toward the viewer
+  const view = (lon: number, lat: number): [number, number, number] => {
+    const l = lon * RAD - l0
+    const p = lat * RAD
+    const cosP = Math.cos(p)
+    return [
+      cosP * Math.sin(l),
+      cosP0 * Math.sin(p) - sinP0 * cosP * Math.cos(l),
+      sinP0 * Math.sin(p) + cosP0 * cosP * Math.cos(l),
+    ]
+  }
+  const onHorizon = (angle: number): PlanarPoint => [Math.cos(angle), -Math.sin(angle)]
+
+  return {
+    point(lon, lat) {
+      const [x, y, z] = view(lon, lat)
+      return z < 0 ? null : [x, -y]
+    },
+    ring(ring) {
+      const out = clipHemisphere(ring.map(([lon, lat]) => view(lon, lat)))
+      return out.length >= 3 ? [out] : []
+    },
+    outline: Array.from({ length: HORIZON_STEPS * 2 }, (_, i) => onHorizon((i / HORIZON_STEPS) * Math.PI)),
+  }
+}
+
+/**
+ * Sutherland–Hodgman against the visible hemisphere (z ≥ 0). Where the ring
+ * goes out of sight and comes back, it follows the horizon the short way.
+ */
+function clipHemisphere(points: [number, number, number][]): PlanarPoint[] {
+  const out: PlanarPoint[] = []
+  const cross = (a: [number, number, number], b: [number, number, number]): number => {
+    const t = a[2] / (a[2] - b[2])
+    return Math.atan2(a[1] + t * (b[1] - a[1]), a[0] + t * (b[0] - a[0]))
+  }
+  const arc = (from: number, to: number): void => {
+    let delta = to - from
+    if (delta > Math.PI) delta -= 2 * Math.PI
+    else if (delta < -Math.PI) delta += 2 * Math.PI
+    const steps = Math.ceil((Math.abs(delta) / Math.PI) * HORIZON_STEPS)
+    for (let i = 0; i <= steps; i++) {
+      const angle = from + (delta * i) / steps
+      out.push([Math.cos(angle), -Math.sin(angle)])
+    }
+  }
+
+  let exit: number | undefined
+  let firstEntry: number | undefined
+  let prev = points[points.length - 1]
+  for (const cur of points) {
+    if (!prev) break
+    const curIn = cur[2] >= 0
+    const prevIn = prev[2] >= 0
+    if (curIn && !prevIn) {
+      const entry = cross(prev, cur)
+      if (exit === undefined) firstEntry = entry
+      else arc(exit, entry)
+      exit = undefined
+    } else if (!curIn && prevIn) {
+      exit = cross(prev, cur)
+    }
+    if (curIn) out.push([cur[0], -cur[1]])
+    prev = cur
+  }
+  // The ring started out of sight: its last exit joins up with its first entry
+  if (exit !== undefined && firstEntry !== undefined) arc(exit, firstEntry)
+  return out
+}
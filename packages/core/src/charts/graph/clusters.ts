@@ -0,0 +1,184 @@
+import type { ChartInstance, ChartOptions, RenderNode } from '../../types'
+import type { GraphNode, GraphEdge, GraphOptions, GraphClusterOptions } from './types'
+import { rect } from '../../render/tree'
+import { louvain } from './louvain'
+
+/**
+ * Community clusters for graph charts.
+ *
+ * With `clusters` on, Louvain communities color the nodes. With
+ * `clusters.collapse`, each community of two or more nodes is drawn as
+ * one cluster node (labelled after its best-connected member) until it is
+ * listed in `clusters.expanded`; expanded communities get a dashed outline.
+ * enableGraphClusters() makes clicking a cluster expand it and clicking an
+ * outline collapse it again.
+ */
+
+/** `clusters` with defaults filled in, or null when off. */
+export function clusterSettings(option: GraphOptions['clusters']): Required<GraphClusterOptions> | null {
+  if (!option) return null
+  const settings = option === true ? {} : option
+  return {
+    resolution: settings.resolution ?? 1,
+    collapse: settings.collapse ?? false,
+    expanded: settings.expanded ?? [],
+  }
+}
+
+/**
+ * Tag each node with its community and collapse the communities that
+ * aren't expanded. Returns the graph to lay out and draw — nodes and
+ * edges are renumbered when anything collapsed.
+ */
+export function applyClusters(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  settings: Required<GraphClusterOptions>,
+): { graphNodes: GraphNode[]; graphEdges: GraphEdge[] } {
+  const community = louvain(nodes.length, edges, settings.resolution)
+  nodes.forEach((node, i) => { node.community = community[i]! })
+  if (!settings.collapse) return { graphNodes: nodes, graphEdges: edges }
+
+  const size = new Map<number, number>()
+  for (const c of community) size.set(c, (size.get(c) ?? 0) + 1)
+  const expanded = new Set(settings.expanded)
+  const collapsed = (c: number): boolean => size.get(c)! > 1 && !expanded.has(c)
+
+  // Best-connected member of each community names its cluster
+  const degree = new Array<number>(nodes.length).fill(0)
+  for (const e of edges) {
+    degree[e.source] = degree[e.source]! + e.weight
+    degree[e.target] = degree[e.target]! + e.weight
+  }
+  const hub = new Map<number, number>()
+  nodes.forEach((_, i) => {
+    const c = community[i]!
+    const best = hub.get(c)
+    if (best === undefined || degree[i]! > degree[best]!) hub.set(c, i)
+  })
+
+  // A collapsed community takes the place of its first member
+  const graphNodes: GraphNode[] = []
+  const mapped = new Array<number>(nodes.length)
+  const clusterIndex = new Map<number, number>()
+  nodes.forEach((node, i) => {
+    const c = community[i]!
+    if (!collapsed(c)) {
+      mapped[i] = graphNodes.length
+      graphNodes.push({ ...node, index: graphNodes.length })
+      return
+    }
+    let idx = clusterIndex.get(c)
+    if (idx === undefined) {
+      idx = graphNodes.length
+      clusterIndex.set(c, idx)
+      const count = size.get(c)!
+      graphNodes.push({
+        ...node,
+        id: `cluster-${c}`,
+        label: `${nodes[hub.get(c)!]!.label} +${count - 1}`,
+        index: idx,
+        value: count,
+        shape: 'circle',
+        color: null,
+        pin: null,
+        members: count,
+      })
+    }
+    mapped[i] = idx
+  })
+
+  // Edges into a cluster merge into one, weights summed; edges inside one disappear
+  const graphEdges: GraphEdge[] = []
+  const merged = new Map<string, GraphEdge>()
+  for (const e of edges) {
+    const source = mapped[e.source]!
+    const target = mapped[e.target]!
+    const touchesCluster = graphNodes[source]!.members > 0 || graphNodes[target]!.members > 0
+    if (!touchesCluster) {
+      graphEdges.push({ ...e, source, target })
+      continue
+    }
+    if (source === target) continue
+    const key = `${source}>${target}`
+    const edge = merged.get(key)
+    if (edge) {
+      edge.weight += e.weight
+    } else {
+      const fresh: GraphEdge = { source, target, weight: e.weight, label: null, style: 'solid', color: null }
+      merged.set(key, fresh)
+      graphEdges.push(fresh)
+    }
+  }
+
+  return { graphNodes, graphEdges }
+}
+
+/** Dashed outlines around the communities expanded out of collapsed mode. */
+export function renderClusterOutlines(
+  nodes: GraphNode[],
+  settings: Required<GraphClusterOptions>,
+  colorOf: (community: number) => string,
+): RenderNode[] {
+  if (!settings.collapse) return []
+  const result: RenderNode[] = []
+  for (const c of new Set(settings.expanded)) {
+    const members = nodes.filter(nd => nd.community === c && nd.members === 0)
+    if (members.length < 2) continue
+    const pad = 8
+    const x0 = Math.min(...members.map(nd => nd.x - nd.width / 2)) - pad
+    const y0 = Math.min(...members.map(nd => nd.y - nd.height / 2)) - pad
+    const x1 = Math.max(...members.map(nd => nd.x + nd.width / 2)) + pad
+    const y1 = Math.max(...members.map(nd => nd.y + nd.height / 2)) + pad
+    const color = colorOf(c)
+    result.push(rect(x0, y0, x1 - x0, y1 - y0, {
+      class: 'chartts-graph-cluster-outline',
+      rx: 16,
+      ry: 16,
+      fill: color,
+      fillOpacity: 0.06,
+      stroke: color,
+      strokeOpacity: 0.5,
+      strokeDasharray: '4 3',
+      'data-cluster': c,
+      role: 'button',
+      ariaLabel: `Collapse cluster of ${members.length} nodes`,
+    }))
+  }
+  return result
+}
+
+/**
+ * Expand a collapsed cluster when it is clicked, and collapse an expanded
+ * one when its outline is clicked (SVG renderer). Needs `clusters.collapse`.
+ *
+ * Returns a cleanup function to remove the event listener.
+ *
+ * Usage:
+ *   const cleanup = enableGraphClusters(chartInstance)
+ *   // later:
+ *   cleanup()
+ */
+export function enableGraphClusters(instance: ChartInstance): () => void {
+  const el = instance.element
+
+  function onClick(e: Event): void {
+    const target = (e.target as Element | null)?.closest?.('[data-cluster]')
+    const attr = target?.getAttribute('data-cluster')
+    if (attr == null) return
+    const cluster = parseInt(attr, 10)
+    const settings = clusterSettings((instance.getOptions() as GraphOptions).clusters)
+    if (isNaN(cluster) || !settings?.collapse) return
+
+    const expanded = new Set(settings.expanded)
+    const expand = !expanded.has(cluster)
+    if (expand) expanded.add(cluster)
+    else expanded.delete(cluster)
+
+    instance.setOptions({ clusters: { ...settings, expanded: [...expanded] } } as Partial<ChartOptions>)
+    instance._bus.emit('graph:cluster', { cluster, expanded: expand })
+  }
+
+  el.addEventListener('click', onClick)
+  return () => el.removeEventListener('click', onClick)
+}
@@ -1,6 +1,6 @@
-import type { RenderNode, ThemeConfig } from '../../types'
+import type { RenderNode, RenderAttrs, ThemeConfig } from '../../types'
 import type { GraphNode, GraphEdge, GraphOptions } from './types'
-import { path, rect, text, line } from '../../render/tree'
+import { path, rect, text, line, group } from '../../render/tree'
 import { PathBuilder } from '../../render/tree'
 import { clipToNodeBoundary } from './shapes'
 
@@ -43,23 +43,49 @@ function renderArrowhead(
   })
 }
 
+// ---------------------------------------------------------------------------
+// Edge labels
+// ---------------------------------------------------------------------------
+
+interface Box { x0: number; y0: number; x1: number; y1: number }
+
+/** Spots along an edge a label may take, best first (t = 0 at the source). */
+const LABEL_SPOTS = [0.5, 0.35, 0.65, 0.2, 0.8]
+
+function overlaps(a: Box, b: Box): boolean {
+  return a.x0 < b.x1 && b.x0 < a.x1 && a.y0 < b.y1 && b.y0 < a.y1
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+/**
+ * One `chartts-graph-link` group per edge, in edge order: the line or
+ * curve, its arrowhead and its label. `linkAttrs` adds attributes to an
+ * edge's group (e.g. `data-flow` tags).
+ *
+ * Labels go at the first spot along their edge clear of nodes and of the
+ * labels placed before them; a label with no clear spot is left out.
+ */
 export function renderEdges(
   nodes: GraphNode[],
   edges: GraphEdge[],
   options: GraphOptions,
   theme: ThemeConfig,
+  linkAttrs?: (index: number) => RenderAttrs,
 ): RenderNode[] {
-  const result: RenderNode[] = []
+  const links: RenderNode[][] = []
+  const labelled: { index: number; label: string; at: (t: number) => { x: number; y: number } }[] = []
 
   // Build a map of (source,target) pair counts so we can alternate curve
   // direction for multi-edges between the same pair.
   const pairIndex = new Map<string, number>()
 
-  for (const edge of edges) {
+  for (let ei = 0; ei < edges.length; ei++) {
+    const edge = edges[ei]!
+    const parts: RenderNode[] = []
+    links.push(parts)
     const src = nodes[edge.source]
     const tgt = nodes[edge.target]
     if (!src || !tgt) continue
@@ -87,12 +113,14 @@ export function renderEdges(
 
     // --- 2. Edge path ---------------------------------------------------
     let arrowAngle = angle // angle at the target end for the arrowhead
-    let labelX = (start.x + end.x) / 2
-    let labelY = (start.y + end.y) / 2
+    let at = (t: number): { x: number; y: number } => ({
+      x: start.x + (end.x - start.x) * t,
+      y: start.y + (end.y - start.y) * t,
+    })
 
     if (options.edgeStyle === 'straight' || options.edgeStyle === undefined) {
       // Default: straight line
-      result.push(line(start.x, start.y, end.x, end.y, edgeAttrs))
+      parts.push(line(start.x, start.y, end.x, end.y, edgeAttrs))
     } else {
       // Curved: quadratic bezier
       const pairKey =
@@ -118,54 +146,68 @@ export function renderEdges(
       const pb = new PathBuilder()
       pb.moveTo(start.x, start.y).quadTo(cx, cy, end.x, end.y)
 
-      result.push(path(pb.build(), edgeAttrs))
+      parts.push(path(pb.build(), edgeAttrs))
 
       // For curved edges the arrow should follow the last segment direction
       // (from control point to end point)
       arrowAngle = Math.atan2(end.y - cy, end.x - cx)
 
-      // Label at the midpoint of the quadratic bezier: Q(0.5) = 0.25*P0 + 0.5*CP + 0.25*P1
-      labelX = 0.25 * start.x + 0.5 * cx + 0.25 * end.x
-      labelY = 0.25 * start.y + 0.5 * cy + 0.25 * end.y
+      // Points along the quadratic bezier: Q(t) = (1-t)²·P0 + 2t(1-t)·CP + t²·P1
+      at = (t) => ({
+        x: (1 - t) * (1 - t) * start.x + 2 * t * (1 - t) * cx + t * t * end.x,
+        y: (1 - t) * (1 - t) * start.y + 2 * t * (1 - t) * cy + t * t * end.y,
+      })
     }
 
     // --- 3. Arrowhead ---------------------------------------------------
     if (options.arrows !== false) {
       const arrowSize = 8
-      result.push(renderArrowhead(end.x, end.y, arrowAngle, arrowSize, edgeColor))
+      parts.push(renderArrowhead(end.x, end.y, arrowAngle, arrowSize, edgeColor))
     }
 
-    // --- 4. Edge label --------------------------------------------------
-    if (edge.label != null) {
-      const lx = labelX
-      const ly = labelY
-
-      // Estimate label dimensions for background rect
-      const charWidth = (theme.fontSizeSmall - 1) * 0.6
-      const pw = edge.label.length * charWidth + 8
-      const ph = (theme.fontSizeSmall - 1) + 6
-
-      const bgFill =
-        theme.background === 'transparent' ? '#fff' : theme.background
+    if (edge.label != null) labelled.push({ index: ei, label: edge.label, at })
+  }
 
-      result.push(
-        rect(lx - pw / 2, ly - ph / 2, pw, ph, {
+  // --- 4. Edge labels ---------------------------------------------------
+  const taken: Box[] = nodes.map(nd => ({
+    x0: nd.x - nd.width / 2,
+    y0: nd.y - nd.height / 2,
+    x1: nd.x + nd.width / 2,
+    y1: nd.y + nd.height / 2,
+  }))
+  const fontSize = theme.fontSizeSmall - 1
+  const bgFill = theme.background === 'transparent' ? '#fff' : theme.background
+
+  for (const { index, label, at } of labelled) {
+    // Estimate label dimensions for background rect
+    const pw = label.length * fontSize * 0.6 + 8
+    const ph = fontSize + 6
+
+    for (const t of LABEL_SPOTS) {
+      const { x, y } = at(t)
+      const box = { x0: x - pw / 2, y0: y - ph / 2, x1: x + pw / 2, y1: y + ph / 2 }
+      if (taken.some(b => overlaps(box, b))) continue
+      taken.push(box)
+
+      links[index]!.push(
+        rect(box.x0, box.y0, pw, ph, {
           fill: bgFill,
           rx: 3,
         }),
-      )
-
-      result.push(
-        text(lx, ly, edge.label, {
+        text(x, y, label, {
+          class: 'chartts-graph-edge-label',
           fill: theme.textMuted,
           textAnchor: 'middle',
           dominantBaseline: 'central',
-          fontSize: theme.fontSizeSmall - 1,
+          fontSize,
           fontFamily: theme.fontFamily,
         }),
       )
+      break
     }
   }
 
-  return result
+  return links.flatMap((parts, ei) => parts.length > 0
+    ? [group(parts, { class: 'chartts-graph-link', ...linkAttrs?.(ei) })]
+    : [])
 }
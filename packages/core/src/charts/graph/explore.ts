@@ -0,0 +1,155 @@
+import type { ChartInstance, ChartOptions } from '../../types'
+import type { GraphNode, GraphEdge, GraphOptions } from './types'
+import { EMPTY_GRAPH_DATA, graphStructure } from './layout'
+
+/**
+ * Exploring a graph: neighborhoods, shortest paths, and picking a path's
+ * ends by clicking.
+ *
+ * Hover highlighting rides on `data-flow` tags (see applyDimming): a node
+ * lists every node whose neighborhood it is in, an edge every node whose
+ * neighborhood holds both its ends. Edges count as undirected throughout.
+ */
+
+/** Node indices 2-hop tags may list in all before falling back to 1 hop. */
+const FLOW_BUDGET = 200_000
+
+function adjacency(nodeCount: number, edges: readonly GraphEdge[]): number[][] {
+  const adj = Array.from({ length: nodeCount }, (): number[] => [])
+  for (const { source, target } of edges) {
+    if (source === target) continue
+    adj[source]!.push(target)
+    adj[target]!.push(source)
+  }
+  return adj
+}
+
+/**
+ * `data-flow` tags that keep a hovered node's neighborhood lit: one per
+ * node and one per edge. `hops` 0 lights the node alone.
+ */
+export function neighborhoodFlows(
+  nodeCount: number,
+  edges: readonly GraphEdge[],
+  hops: number,
+): { nodes: string[]; edges: string[] } {
+  const adj = adjacency(nodeCount, edges)
+
+  // Neighborhoods are symmetric: i is near a exactly when a is near i
+  const near: number[][] = []
+  const mark = new Int32Array(nodeCount).fill(-1)
+  let total = 0
+  for (let i = 0; i < nodeCount; i++) {
+    const ball = [i]
+    mark[i] = i
+    let frontier = ball
+    for (let h = 0; h < hops; h++) {
+      const next: number[] = []
+      for (const u of frontier) {
+        for (const v of adj[u]!) {
+          if (mark[v] === i) continue
+          mark[v] = i
+          next.push(v)
+        }
+      }
+      ball.push(...next)
+      frontier = next
+    }
+    total += ball.length
+    if (hops > 1 && total > FLOW_BUDGET) return neighborhoodFlows(nodeCount, edges, hops - 1)
+    near.push(ball)
+  }
+
+  const seen = new Int32Array(nodeCount).fill(-1)
+  const edgeFlows = edges.map((e, ei) => {
+    for (const v of near[e.target]!) seen[v] = ei
+    return near[e.source]!.filter(v => seen[v] === ei).join(' ')
+  })
+  return { nodes: near.map(ball => ball.join(' ')), edges: edgeFlows }
+}
+
+/**
+ * Fewest-hop path between two nodes, as node indices from `from` to `to`.
+ * Empty when they aren't connected.
+ */
+export function shortestPath(
+  nodeCount: number,
+  edges: readonly GraphEdge[],
+  from: number,
+  to: number,
+): number[] {
+  const adj = adjacency(nodeCount, edges)
+  const previous = new Int32Array(nodeCount).fill(-1)
+  previous[from] = from
+  const queue = [from]
+  for (let head = 0; head < queue.length && previous[to] === -1; head++) {
+    const u = queue[head]!
+    for (const v of adj[u]!) {
+      if (previous[v] !== -1) continue
+      previous[v] = u
+      queue.push(v)
+    }
+  }
+  if (previous[to] === -1) return []
+
+  const path = [to]
+  while (path[path.length - 1] !== from) path.push(previous[path[path.length - 1]!]!)
+  return path.reverse()
+}
+
+/**
+ * The `path` option resolved against the drawn graph: node indices along
+ * it. Just the start while only `from` is set; empty when an id isn't
+ * drawn (e.g. inside a collapsed cluster) or the ends aren't connected.
+ */
+export function resolvePath(
+  nodes: readonly GraphNode[],
+  edges: readonly GraphEdge[],
+  path: GraphOptions['path'],
+): number[] {
+  if (!path) return []
+  const from = nodes.findIndex(nd => nd.id === path[0])
+  if (from < 0) return []
+  if (path[1] === undefined) return [from]
+  const to = nodes.findIndex(nd => nd.id === path[1])
+  return to < 0 ? [] : shortestPath(nodes.length, edges, from, to)
+}
+
+/**
+ * Pick the ends of a highlighted shortest path by clicking nodes (SVG
+ * renderer, rich format). The first click marks the start, the second
+ * the end; clicking the start again clears it, and a third click starts
+ * over. Emits `graph:path`.
+ *
+ * Returns a cleanup function to remove the event listener.
+ *
+ * Usage:
+ *   const cleanup = enableGraphPaths(chartInstance)
+ *   // later:
+ *   cleanup()
+ */
+export function enableGraphPaths(instance: ChartInstance): () => void {
+  const el = instance.element
+
+  function onClick(e: Event): void {
+    const target = (e.target as Element | null)?.closest?.('[data-node]')
+    const id = target?.getAttribute('data-node')
+    if (id == null) return
+
+    const [from, to] = (instance.getOptions() as GraphOptions).path ?? []
+    const path: GraphOptions['path'] = from === undefined || to !== undefined
+      ? [id]
+      : from === id ? undefined : [from, id]
+    instance.setOptions({ path } as Partial<ChartOptions>)
+
+    let ids: string[] = []
+    if (path?.[1] !== undefined) {
+      const { graphNodes, graphEdges } = graphStructure(EMPTY_GRAPH_DATA, instance.getOptions())
+      ids = resolvePath(graphNodes, graphEdges, path).map(i => graphNodes[i]!.id)
+    }
+    instance._bus.emit('graph:path', { from: path?.[0] ?? null, to: path?.[1] ?? null, path: ids })
+  }
+
+  el.addEventListener('click', onClick)
+  return () => el.removeEventListener('click', onClick)
+}
@@ -4,15 +4,15 @@ import type {
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
-import { group, circle, text, line } from '../../render/tree'
-import type { GraphNode as RichGraphNode, GraphEdge as RichGraphEdge, GraphOptions, GraphLayout } from './types'
-import { parseGraphData } from './parse'
-import { measureNodeSize } from './text-measure'
+import { group, circle, text, line, rect } from '../../render/tree'
+import type { GraphNode as RichGraphNode, GraphEdge as RichGraphEdge, GraphOptions } from './types'
 import { renderNodeShape } from './shapes'
 import { renderEdges } from './edges'
-import { forceLayout as richForceLayout } from './layout-force'
-import { hierarchyLayout } from './layout-hierarchy'
-import { circularLayout } from './layout-circular'
+import { simulateForces } from './layout-force'
+import { EMPTY_GRAPH_DATA, buildGraph, graphStructure, runLayout } from './layout'
+import { clusterSettings, renderClusterOutlines } from './clusters'
+import { neighborhoodFlows, resolvePath } from './explore'
+import { defaultHighlightNodes } from '../../interaction/highlight'
 
 /**
  * Graph / Network chart — node-link diagram with force-directed layout.
@@ -29,12 +29,22 @@ import { circularLayout } from './layout-circular'
  * Rich format (via options):
  * - options.nodes: Array of { id, label, shape, color, pin }
  * - options.edges: Array of { source, target, label, style, color, weight }
- * - options.layout: 'force' | 'hierarchical' | 'circular'
+ * - options.layout: 'force' | 'hierarchical' | 'circular' | 'radial' | 'grid'
+ * - options.clusters: Louvain communities — colored, optionally collapsed
  *
  * Uses a simple force simulation (no external deps):
- * - Repulsion between all nodes (Coulomb's law)
+ * - Repulsion between all nodes (Coulomb's law, Barnes-Hut approximated)
  * - Attraction along edges (Hooke's law)
  * - Gravity toward center
+ *
+ * Layouts are cached per render, so hit testing doesn't re-run them.
+ * Zoom/pan spreads nodes apart without scaling them, so dense graphs open
+ * up while labels stay readable; focusNode() zooms onto one node.
+ *
+ * Exploring rich graphs:
+ * - Hovering a node dims all but its neighborhood (options.neighborhood hops)
+ * - options.path: the shortest path between two nodes, everything else faded
+ * - Edge labels move along their edge to stay clear of nodes and each other
  */
 
 interface GraphNode {
@@ -62,11 +72,17 @@ export const graphChartType = defineChartType({
     const opts = options as GraphOptions
     // Rich format: data lives in options.nodes/edges, not series
     if ((opts.nodes || opts.edges) && (!data.series.length || data.series.every(s => s.values.length === 0))) {
-      return {
-        series: [],
-        labels: [],
-        bounds: { xMin: 0, xMax: 1, yMin: 0, yMax: 1 },
-      }
+      // One series per drawn node, so hover, tooltips and keyboard focus have a point to report
+      const { graphNodes } = graphStructure(EMPTY_GRAPH_DATA, options)
+      if (graphNodes.length === 0) return EMPTY_GRAPH_DATA
+      return prepareNoAxes({
+        labels: [''],
+        series: graphNodes.map(node => ({
+          name: node.label,
+          values: [node.value],
+          color: node.color ?? options.colors[(node.community ?? node.index) % options.colors.length]!,
+        })),
+      }, options)
     }
     // Pad edge series to match label count so validation passes
     const labelLen = data.labels?.length ?? 0
@@ -82,7 +98,7 @@ export const graphChartType = defineChartType({
   },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, area, theme, options } = ctx
+    const { area, theme, options } = ctx
     const graphOpts = options as GraphOptions
 
     // Rich format — use the new modular pipeline
@@ -93,12 +109,9 @@ export const graphChartType = defineChartType({
     // Legacy format — original rendering pipeline
     const nodes: RenderNode[] = []
 
-    const { graphNodes, graphEdges } = parseLegacyGraphData(data, options)
+    const { graphNodes, graphEdges } = legacyView(ctx)
     if (graphNodes.length === 0) return nodes
 
-    // Run force simulation
-    forceLayout(graphNodes, graphEdges, area, 80)
-
     // Render edges
     for (let ei = 0; ei < graphEdges.length; ei++) {
       const edge = graphEdges[ei]!
@@ -158,7 +171,7 @@ export const graphChartType = defineChartType({
   },
 
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, area, options } = ctx
+    const { area, options } = ctx
     const graphOpts = options as GraphOptions
 
     // Rich format — use modular hit test
@@ -167,11 +180,9 @@ export const graphChartType = defineChartType({
     }
 
     // Legacy format — original hit test
-    const { graphNodes, graphEdges } = parseLegacyGraphData(data, options)
+    const { graphNodes } = legacyView(ctx)
     if (graphNodes.length === 0) return null
 
-    forceLayout(graphNodes, graphEdges, area, 80)
-
     const maxVal = Math.max(...graphNodes.map(n => n.value), 1)
     const minR = 5
     const maxR = Math.min(20, Math.min(area.width, area.height) * 0.06)
@@ -191,6 +202,32 @@ export const graphChartType = defineChartType({
 
     return best
   },
+
+  getHighlightNodes(ctx: RenderContext, hit: HitResult): RenderNode[] {
+    const graphOpts = ctx.options as GraphOptions
+    if (!graphOpts.nodes && !graphOpts.edges) return defaultHighlightNodes(hit, ctx)
+
+    const node = richView(ctx).graphNodes[hit.seriesIndex]
+    if (!node) return []
+    return [
+      rect(node.x - node.width / 2 - 4, node.y - node.height / 2 - 4, node.width + 8, node.height + 8, {
+        class: 'chartts-highlight-node',
+        fill: 'none',
+        stroke: ctx.data.series[hit.seriesIndex]?.color ?? ctx.theme.textColor,
+        strokeWidth: 2,
+        strokeOpacity: 0.8,
+        rx: 6,
+      }),
+    ]
+  },
+
+  locateNode(ctx: RenderContext, id: string): { x: number; y: number } | null {
+    const graphOpts = ctx.options as GraphOptions
+    const node = graphOpts.nodes || graphOpts.edges
+      ? richGraph(ctx).graphNodes.find(nd => nd.id === id)
+      : legacyGraph(ctx).graphNodes.find(nd => nd.name === id)
+    return node ? { x: node.x, y: node.y } : null
+  },
 })
 
 // ---------------------------------------------------------------------------
@@ -198,58 +235,88 @@ export const graphChartType = defineChartType({
 // ---------------------------------------------------------------------------
 
 function renderRichGraph(ctx: RenderContext): RenderNode[] {
-  const { data, area, theme, options } = ctx
+  const { theme, options } = ctx
   const graphOpts = options as GraphOptions
   const result: RenderNode[] = []
 
-  const { graphNodes, graphEdges } = parseGraphData(data, options)
+  const { graphNodes, graphEdges } = richView(ctx)
   if (graphNodes.length === 0) return result
 
-  // Measure text for each node
-  for (const node of graphNodes) {
-    const size = measureNodeSize(node.label, theme.fontSizeSmall, node.shape)
-    node.width = size.width
-    node.height = size.height
+  // Nodes take their community's color when clusters are on
+  const colorOf = (i: number): string => options.colors[i % options.colors.length]!
+  const settings = clusterSettings(graphOpts.clusters)
+  if (settings) {
+    result.push(...renderClusterOutlines(graphNodes, settings, colorOf))
   }
 
-  // Layout
-  runLayout(graphNodes, graphEdges, graphOpts, area)
+  // Hovering a node keeps its neighborhood lit
+  const flows = neighborhoodFlows(graphNodes.length, graphEdges, graphOpts.neighborhood ?? 1)
 
+  // A highlighted path fades everything off it
+  const onPath = resolvePath(graphNodes, graphEdges, graphOpts.path)
+  const pathEdges = new Set<number>()
+  for (let i = 1; i < onPath.length; i++) {
+    const a = onPath[i - 1]!
+    const b = onPath[i]!
+    pathEdges.add(graphEdges.findIndex(e => (e.source === a && e.target === b) || (e.source === b && e.target === a)))
+  }
+  const fade = onPath.length > 1
+  const pathNodes = new Set(onPath)
+  const ends = new Set([onPath[0], onPath[onPath.length - 1]])
 
   // Render edges first (behind nodes)
-  const edgeNodes = renderEdges(graphNodes, graphEdges, graphOpts, theme)
+  const shownEdges = fade
+    ? graphEdges.map((e, i) => pathEdges.has(i) ? { ...e, color: theme.textColor } : e)
+    : graphEdges
+  const edgeNodes = renderEdges(graphNodes, shownEdges, graphOpts, theme, i => ({
+    'data-flow': flows.edges[i],
+    ...(fade && !pathEdges.has(i) ? { opacity: 0.25 } : {}),
+  }))
   if (edgeNodes.length > 0) {
     result.push(group(edgeNodes, { class: 'chartts-graph-edges' }))
   }
 
   // Render node shapes
   for (const node of graphNodes) {
-    const color = node.color ?? options.colors[node.index % options.colors.length]!
+    const color = node.color ?? colorOf(node.community ?? node.index)
     const shapeNodes = renderNodeShape(node, color, theme)
+    if (ends.has(node.index)) {
+      shapeNodes.push(rect(node.x - node.width / 2 - 4, node.y - node.height / 2 - 4, node.width + 8, node.height + 8, {
+        class: 'chartts-graph-path-end',
+        fill: 'none',
+        stroke: theme.textColor,
+        strokeWidth: 2,
+        rx: 6,
+      }))
+    }
 
-    result.push(group(shapeNodes, {
-      class: `chartts-series chartts-series-${node.index}`,
+    const shared = {
       'data-series-name': node.label,
-    }))
+      'data-node': node.id,
+      'data-flow': flows.nodes[node.index],
+      ...(fade && !pathNodes.has(node.index) ? { opacity: 0.25 } : {}),
+    }
+    result.push(group(shapeNodes, node.members > 0
+      ? {
+          class: `chartts-series chartts-series-${node.index} chartts-graph-cluster`,
+          ...shared,
+          'data-cluster': node.community!,
+          role: 'button',
+          ariaLabel: `Expand cluster of ${node.members} nodes`,
+        }
+      : {
+          class: `chartts-series chartts-series-${node.index}`,
+          ...shared,
+        }))
   }
 
   return result
 }
 
 function richHitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-  const { data, area, theme, options } = ctx
-  const graphOpts = options as GraphOptions
-
-  const { graphNodes, graphEdges } = parseGraphData(data, options)
+  const { graphNodes } = richView(ctx)
   if (graphNodes.length === 0) return null
 
-  for (const node of graphNodes) {
-    const size = measureNodeSize(node.label, theme.fontSizeSmall, node.shape)
-    node.width = size.width
-    node.height = size.height
-  }
-  runLayout(graphNodes, graphEdges, graphOpts, area)
-
   let best: HitResult | null = null
   let bestDist = Infinity
 
@@ -265,37 +332,67 @@ function richHitTest(ctx: RenderContext, mx: number, my: number): HitResult | nu
 }
 
 // ---------------------------------------------------------------------------
-// Layout dispatcher
+// Layout cache — render and every hit test share one layout per scene
 // ---------------------------------------------------------------------------
 
-function runLayout(
-  nodes: RichGraphNode[],
-  edges: RichGraphEdge[],
-  opts: GraphOptions,
-  area: { x: number; y: number; width: number; height: number },
-): void {
-  const layout: GraphLayout = opts.layout ?? 'force'
-
-  switch (layout) {
-    case 'hierarchical':
-      hierarchyLayout(nodes, edges, {
-        area,
-        direction: opts.direction ?? 'TB',
-      })
-      break
-
-    case 'circular':
-      circularLayout(nodes, edges, { area })
-      break
-
-    case 'force':
-    default:
-      richForceLayout(nodes, edges, {
-        area,
-        iterations: opts.iterations ?? 120,
-      })
-      break
+const richCache = new WeakMap<PreparedData, { key: string; nodes: RichGraphNode[]; edges: RichGraphEdge[] }>()
+const legacyCache = new WeakMap<PreparedData, { key: string; nodes: GraphNode[]; edges: GraphEdge[] }>()
+
+function areaKey(ctx: RenderContext): string {
+  const { x, y, width, height } = ctx.area
+  return `${x},${y},${width},${height},${ctx.theme.fontSizeSmall}`
+}
+
+function richGraph(ctx: RenderContext): { graphNodes: RichGraphNode[]; graphEdges: RichGraphEdge[] } {
+  const key = areaKey(ctx)
+  let cached = richCache.get(ctx.data)
+  if (!cached || cached.key !== key) {
+    const { graphNodes, graphEdges } = buildGraph(ctx.data, ctx.options, ctx.theme.fontSizeSmall)
+    runLayout(graphNodes, graphEdges, ctx.options as GraphOptions, ctx.area)
+    cached = { key, nodes: graphNodes, edges: graphEdges }
+    richCache.set(ctx.data, cached)
+  }
+  return { graphNodes: cached.nodes, graphEdges: cached.edges }
+}
+
+function legacyGraph(ctx: RenderContext): { graphNodes: GraphNode[]; graphEdges: GraphEdge[] } {
+  const key = areaKey(ctx)
+  let cached = legacyCache.get(ctx.data)
+  if (!cached || cached.key !== key) {
+    const { graphNodes, graphEdges } = parseLegacyGraphData(ctx.data, ctx.options)
+    forceLayout(graphNodes, graphEdges, ctx.area, 80)
+    cached = { key, nodes: graphNodes, edges: graphEdges }
+    legacyCache.set(ctx.data, cached)
   }
+  return { graphNodes: cached.nodes, graphEdges: cached.edges }
+}
+
+// ---------------------------------------------------------------------------
+// Zoom/pan — nodes move apart, shapes keep their size
+// ---------------------------------------------------------------------------
+
+/** Where zoom/pan puts a laid-out point (the geo chart's pixel pan), or null when not zoomed. */
+function viewTransform(ctx: RenderContext): ((x: number, y: number) => { x: number; y: number }) | null {
+  const zp = ctx.zoomPan
+  if (!zp) return null
+  const zoom = Math.max(zp.zoomX, zp.zoomY)
+  if (zoom === 1 && zp.panX === 0 && zp.panY === 0) return null
+  const { x, y, width, height } = ctx.area
+  return (px, py) => ({ x: x + (px - x) * zoom + zp.panX * width, y: y + (py - y) * zoom + zp.panY * height })
+}
+
+function richView(ctx: RenderContext): { graphNodes: RichGraphNode[]; graphEdges: RichGraphEdge[] } {
+  const graph = richGraph(ctx)
+  const toView = viewTransform(ctx)
+  if (!toView) return graph
+  return { ...graph, graphNodes: graph.graphNodes.map(nd => ({ ...nd, ...toView(nd.x, nd.y) })) }
+}
+
+function legacyView(ctx: RenderContext): { graphNodes: GraphNode[]; graphEdges: GraphEdge[] } {
+  const graph = legacyGraph(ctx)
+  const toView = viewTransform(ctx)
+  if (!toView) return graph
+  return { ...graph, graphNodes: graph.graphNodes.map(nd => ({ ...nd, ...toView(nd.x, nd.y) })) }
 }
 
 // ---------------------------------------------------------------------------
@@ -402,7 +499,7 @@ function parseLegacyGraphData(
 }
 
 // ---------------------------------------------------------------------------
-// Legacy force-directed layout (original code, untouched)
+// Legacy force-directed layout (original constants, shared Barnes-Hut simulation)
 // ---------------------------------------------------------------------------
 
 function forceLayout(
@@ -418,80 +515,39 @@ function forceLayout(
   if (n === 0) return
 
   // Initialize positions in a circle
+  const x = new Float64Array(n)
+  const y = new Float64Array(n)
   for (let i = 0; i < n; i++) {
     const angle = (2 * Math.PI * i) / n
     const r = Math.min(area.width, area.height) * 0.3
-    nodes[i]!.x = cx + r * Math.cos(angle)
-    nodes[i]!.y = cy + r * Math.sin(angle)
-    nodes[i]!.vx = 0
-    nodes[i]!.vy = 0
+    x[i] = cx + r * Math.cos(angle)
+    y[i] = cy + r * Math.sin(angle)
   }
 
   const k = Math.sqrt((area.width * area.height) / Math.max(n, 1))
-  const repulsion = k * k
-
-  for (let iter = 0; iter < iterations; iter++) {
-    const temp = 0.1 * (1 - iter / iterations) * Math.min(area.width, area.height) * 0.5
-
-    // Reset velocities
-    for (const node of nodes) {
-      node.vx = 0
-      node.vy = 0
-    }
-
-    // Repulsion between all pairs
-    for (let i = 0; i < n; i++) {
-      for (let j = i + 1; j < n; j++) {
-        const dx = nodes[i]!.x - nodes[j]!.x
-        const dy = nodes[i]!.y - nodes[j]!.y
-        const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
-        const force = repulsion / (dist * dist)
-        const fx = (dx / dist) * force
-        const fy = (dy / dist) * force
-        nodes[i]!.vx += fx
-        nodes[i]!.vy += fy
-        nodes[j]!.vx -= fx
-        nodes[j]!.vy -= fy
-      }
-    }
-
-    // Attraction along edges
-    for (const edge of edges) {
-      const src = nodes[edge.source]!
-      const tgt = nodes[edge.target]!
-      const dx = tgt.x - src.x
-      const dy = tgt.y - src.y
-      const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
-      const force = (dist * dist) / k
-      const fx = (dx / dist) * force * 0.1
-      const fy = (dy / dist) * force * 0.1
-      src.vx += fx
-      src.vy += fy
-      tgt.vx -= fx
-      tgt.vy -= fy
-    }
-
-    // Gravity toward center
-    for (const node of nodes) {
-      const dx = cx - node.x
-      const dy = cy - node.y
-      node.vx += dx * 0.01
-      node.vy += dy * 0.01
-    }
-
-    // Apply velocities with temperature damping
-    for (const node of nodes) {
-      const speed = Math.sqrt(node.vx * node.vx + node.vy * node.vy)
-      if (speed > 0) {
-        const capped = Math.min(speed, temp)
-        node.x += (node.vx / speed) * capped
-        node.y += (node.vy / speed) * capped
-      }
+  const sim = {
+    x, y,
+    radius: new Float64Array(n),
+    marginX: new Float64Array(n).fill(20),
+    marginY: new Float64Array(n).fill(20),
+    pinned: new Uint8Array(n),
+    group: new Int32Array(n).fill(-1),
+    source: Int32Array.from(edges, e => e.source),
+    target: Int32Array.from(edges, e => e.target),
+    area,
+    iterations,
+    k,
+    repulsion: k * k,
+    attraction: 0.1,
+    groupPull: 0,
+    gap: 0,
+    damping: 1,
+    theta: 0.9,
+  }
+  simulateForces(sim)
 
-      // Constrain to area
-      const margin = 20
-      node.x = Math.max(area.x + margin, Math.min(area.x + area.width - margin, node.x))
-      node.y = Math.max(area.y + margin, Math.min(area.y + area.height - margin, node.y))
-    }
+  for (let i = 0; i < n; i++) {
+    nodes[i]!.x = x[i]!
+    nodes[i]!.y = y[i]!
   }
 }
@@ -89,7 +89,7 @@ export function circularLayout(
 // Connectivity-based ordering (BFS from most-connected node)
 // ---------------------------------------------------------------------------
 
-function connectivityOrder(nodes: GraphNode[], edges: GraphEdge[]): number[] {
+export function connectivityOrder(nodes: GraphNode[], edges: GraphEdge[]): number[] {
   const n = nodes.length
   if (n === 0) return []
 
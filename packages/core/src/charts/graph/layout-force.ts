@@ -3,14 +3,56 @@ import type { GraphNode, GraphEdge } from './types'
 /**
  * Force-directed layout (Fruchterman-Reingold style).
  *
+ * - Barnes-Hut repulsion: far-away groups of nodes repel as one body, so
+ *   a step costs O(n log n) instead of O(n²)
  * - Node-size-aware repulsion (prevents shape overlap)
  * - Pin support (pinned nodes keep position, still repel)
+ * - Community pull: nodes drift toward their community's centre
  * - Velocity damping (0.8x per iteration)
+ *
+ * The simulation itself (simulateForces) works on typed arrays and is
+ * self-contained, so layout-worker.ts can run it from its source text.
  */
 
 export interface ForceLayoutOpts {
   iterations: number
   area: { x: number; y: number; width: number; height: number }
+  /** Barnes-Hut accuracy: groups smaller than theta × their distance act as one body. Default 0.9. */
+  theta?: number
+  /** Community of each node (-1 for none) — when given, nodes are pulled together by community. */
+  groups?: readonly number[]
+}
+
+/** Everything simulateForces needs, in structured-clonable form. */
+export interface ForceSimulation {
+  /** Node positions, updated in place. */
+  x: Float64Array
+  y: Float64Array
+  /** Half-diagonal of each node's shape — repulsion acts from its edge. */
+  radius: Float64Array
+  /** Distance each node keeps from the area's edges, per axis. */
+  marginX: Float64Array
+  marginY: Float64Array
+  /** 1 for nodes that stay where they are. */
+  pinned: Uint8Array
+  /** Community of each node, -1 for none. */
+  group: Int32Array
+  source: Int32Array
+  target: Int32Array
+  area: { x: number; y: number; width: number; height: number }
+  iterations: number
+  /** Ideal edge length. */
+  k: number
+  repulsion: number
+  /** Spring strength along edges. */
+  attraction: number
+  /** Pull toward the centre of a node's community. */
+  groupPull: number
+  /** Space kept between node shapes. */
+  gap: number
+  /** Share of its velocity a node keeps each step. */
+  damping: number
+  theta: number
 }
 
 export function forceLayout(
@@ -18,28 +60,68 @@ export function forceLayout(
   edges: GraphEdge[],
   opts: ForceLayoutOpts,
 ): void {
+  if (nodes.length === 0) return
+  const sim = forceSimulation(nodes, edges, opts)
+  simulateForces(sim)
+  applySimulation(nodes, sim)
+  resolveOverlaps(nodes, opts.area)
+}
+
+/**
+ * Initial positions and parameters for a rich-graph simulation. Pinned
+ * nodes start at their pin; the rest on a sunflower spiral, which spreads
+ * thousands of nodes evenly.
+ */
+export function forceSimulation(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  opts: ForceLayoutOpts,
+): ForceSimulation {
   const { area, iterations } = opts
   const n = nodes.length
-  if (n === 0) return
 
   const cx = area.x + area.width / 2
   const cy = area.y + area.height / 2
+  const spread = Math.min(area.width, area.height) * 0.4
+  const golden = Math.PI * (3 - Math.sqrt(5))
+
+  const x = new Float64Array(n)
+  const y = new Float64Array(n)
+  const radius = new Float64Array(n)
+  const marginX = new Float64Array(n)
+  const marginY = new Float64Array(n)
+  const pinned = new Uint8Array(n)
+  const group = new Int32Array(n).fill(-1)
+
+  // With communities, each starts on its own small spiral, the spirals
+  // themselves spread over the disc — members begin next to each other
+  const groupOf = (i: number): number => opts.groups?.[i] ?? -1
+  const groupSize = new Map<number, number>()
+  for (let i = 0; i < n; i++) groupSize.set(groupOf(i), (groupSize.get(groupOf(i)) ?? 0) + 1)
+  const groupSlot = new Map([...groupSize.keys()].map((g, slot) => [g, slot]))
+  const seen = new Map<number, number>()
 
-  // Initialize positions: pinned nodes get their pin, others in a circle
-  // Use large initial spread so force simulation pushes nodes apart, not together
   for (let i = 0; i < n; i++) {
     const node = nodes[i]!
     if (node.pin) {
-      node.x = area.x + node.pin.x * area.width
-      node.y = area.y + node.pin.y * area.height
+      x[i] = area.x + node.pin.x * area.width
+      y[i] = area.y + node.pin.y * area.height
+      pinned[i] = 1
     } else {
-      const angle = (2 * Math.PI * i) / n
-      const r = Math.min(area.width, area.height) * 0.4
-      node.x = cx + r * Math.cos(angle)
-      node.y = cy + r * Math.sin(angle)
+      const g = groupOf(i)
+      const size = groupSize.get(g)!
+      const slot = groupSlot.get(g)!
+      const rank = seen.get(g) ?? 0
+      seen.set(g, rank + 1)
+      const centre = groupSize.size > 1 ? spread * Math.sqrt((slot + 0.5) / groupSize.size) : 0
+      const r = spread * Math.sqrt(size / n) * Math.sqrt((rank + 0.5) / size)
+      x[i] = cx + centre * Math.cos(slot * golden) + r * Math.cos(rank * golden)
+      y[i] = cy + centre * Math.sin(slot * golden) + r * Math.sin(rank * golden)
     }
-    node.vx = 0
-    node.vy = 0
+    radius[i] = Math.sqrt(node.width * node.width + node.height * node.height) / 2
+    marginX[i] = Math.max(20, node.width / 2 + 5)
+    marginY[i] = Math.max(20, node.height / 2 + 5)
+    if (opts.groups) group[i] = opts.groups[i] ?? -1
   }
 
   // k = ideal edge length, scaled up for node sizes
@@ -48,118 +130,322 @@ export function forceLayout(
     Math.sqrt((area.width * area.height) / Math.max(n, 1)),
     avgNodeSize * 2,
   )
-  const repulsion = k * k * 1.5
 
-  for (let iter = 0; iter < iterations; iter++) {
-    const temp = 0.1 * (1 - iter / iterations) * Math.min(area.width, area.height) * 0.5
+  return {
+    x, y, radius, marginX, marginY, pinned, group,
+    source: Int32Array.from(edges, e => e.source),
+    target: Int32Array.from(edges, e => e.target),
+    area,
+    iterations,
+    k,
+    repulsion: k * k * 1.5,
+    attraction: 0.08,
+    groupPull: opts.groups ? 0.02 : 0,
+    gap: 12,
+    damping: 0.8,
+    theta: opts.theta ?? 0.9,
+  }
+}
 
-    // Reset velocities
-    for (const node of nodes) {
-      node.vx = 0
-      node.vy = 0
+/** Copy simulated positions back onto the nodes. */
+export function applySimulation(nodes: GraphNode[], sim: ForceSimulation): void {
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i]!
+    node.x = sim.x[i]!
+    node.y = sim.y[i]!
+    node.vx = 0
+    node.vy = 0
+  }
+}
+
+/**
+ * Run the simulation, moving sim.x / sim.y in place.
+ *
+ * Must not reference anything outside its own body — the worker is built
+ * from this function's source.
+ */
+export function simulateForces(sim: ForceSimulation): void {
+  const { x, y, radius, marginX, marginY, pinned, group, source, target, area } = sim
+  const n = x.length
+  if (n === 0) return
+
+  const cx = area.x + area.width / 2
+  const cy = area.y + area.height / 2
+  const vx = new Float64Array(n)
+  const vy = new Float64Array(n)
+  const theta2 = sim.theta * sim.theta
+
+  // Quadtree, rebuilt each step. Cell c covers [x0, x0+size) × [y0, y0+size);
+  // a leaf holds a chain of points (more than one only where they coincide).
+  const MIN_CELL = 1e-3
+  let cellCount = 0
+  let cellX0: number[] = []
+  let cellY0: number[] = []
+  let cellSize: number[] = []
+  let firstChild: number[] = []
+  let firstPoint: number[] = []
+  let count: number[] = []
+  let sumX: number[] = []
+  let sumY: number[] = []
+  let sumR: number[] = []
+  const nextPoint = new Int32Array(n)
+
+  function addCell(x0: number, y0: number, size: number): number {
+    const c = cellCount++
+    cellX0[c] = x0
+    cellY0[c] = y0
+    cellSize[c] = size
+    firstChild[c] = -1
+    firstPoint[c] = -1
+    count[c] = 0
+    sumX[c] = 0
+    sumY[c] = 0
+    sumR[c] = 0
+    return c
+  }
+
+  function quadrant(c: number, i: number): number {
+    const half = cellSize[c]! / 2
+    const right = x[i]! >= cellX0[c]! + half ? 1 : 0
+    const below = y[i]! >= cellY0[c]! + half ? 2 : 0
+    return firstChild[c]! + right + below
+  }
+
+  function accumulate(c: number, i: number): void {
+    count[c]!++
+    sumX[c]! += x[i]!
+    sumY[c]! += y[i]!
+    sumR[c]! += radius[i]!
+  }
+
+  function insert(i: number): void {
+    let c = 0
+    for (;;) {
+      accumulate(c, i)
+      if (firstChild[c]! >= 0) {
+        c = quadrant(c, i)
+        continue
+      }
+      const resident = firstPoint[c]!
+      if (resident < 0) {
+        firstPoint[c] = i
+        nextPoint[i] = -1
+        return
+      }
+      if (cellSize[c]! < MIN_CELL) {
+        nextPoint[i] = resident
+        firstPoint[c] = i
+        return
+      }
+      // Split the leaf and move its point down
+      const half = cellSize[c]! / 2
+      firstChild[c] = cellCount
+      addCell(cellX0[c]!, cellY0[c]!, half)
+      addCell(cellX0[c]! + half, cellY0[c]!, half)
+      addCell(cellX0[c]!, cellY0[c]! + half, half)
+      addCell(cellX0[c]! + half, cellY0[c]! + half, half)
+      firstPoint[c] = -1
+      const q = quadrant(c, resident)
+      accumulate(q, resident)
+      firstPoint[q] = resident
+      nextPoint[resident] = -1
+      c = quadrant(c, i)
     }
+  }
 
-    // Repulsion between all pairs (node-size-aware)
+  function buildTree(): void {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
     for (let i = 0; i < n; i++) {
-      for (let j = i + 1; j < n; j++) {
-        const ni = nodes[i]!
-        const nj = nodes[j]!
-        const dx = ni.x - nj.x
-        const dy = ni.y - nj.y
-        const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
-
-        // Minimum separation = sum of half-diagonals + gap
-        const ri = Math.sqrt(ni.width * ni.width + ni.height * ni.height) / 2
-        const rj = Math.sqrt(nj.width * nj.width + nj.height * nj.height) / 2
-        const minDist = ri + rj + 12
-        const effectiveDist = Math.max(dist - minDist * 0.5, 1)
-
-        const force = repulsion / (effectiveDist * effectiveDist)
-        const fx = (dx / dist) * force
-        const fy = (dy / dist) * force
-
-        ni.vx += fx
-        ni.vy += fy
-        nj.vx -= fx
-        nj.vy -= fy
+      if (x[i]! < minX) minX = x[i]!
+      if (x[i]! > maxX) maxX = x[i]!
+      if (y[i]! < minY) minY = y[i]!
+      if (y[i]! > maxY) maxY = y[i]!
+    }
+    cellCount = 0
+    cellX0 = []
+    cellY0 = []
+    cellSize = []
+    firstChild = []
+    firstPoint = []
+    count = []
+    sumX = []
+    sumY = []
+    sumR = []
+    addCell(minX, minY, Math.max(maxX - minX, maxY - minY) * 1.0001 + MIN_CELL)
+    for (let i = 0; i < n; i++) insert(i)
+  }
+
+  /** Push on node i from `weight` nodes of mean radius `r` centred at (px, py). */
+  function repel(i: number, px: number, py: number, weight: number, r: number): void {
+    const dx = x[i]! - px
+    const dy = y[i]! - py
+    const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
+    // Minimum separation = sum of half-diagonals + gap
+    const effectiveDist = Math.max(dist - (radius[i]! + r + sim.gap) * 0.5, 1)
+    const force = (sim.repulsion * weight) / (effectiveDist * effectiveDist)
+    vx[i]! += (dx / dist) * force
+    vy[i]! += (dy / dist) * force
+  }
+
+  const stack: number[] = []
+
+  function repulse(i: number): void {
+    stack.length = 0
+    stack.push(0)
+    while (stack.length > 0) {
+      const c = stack.pop()!
+      if (count[c] === 0) continue
+      if (firstChild[c]! < 0) {
+        for (let j = firstPoint[c]!; j >= 0; j = nextPoint[j]!) {
+          if (j !== i) repel(i, x[j]!, y[j]!, 1, radius[j]!)
+        }
+        continue
+      }
+      const mx = sumX[c]! / count[c]!
+      const my = sumY[c]! / count[c]!
+      const dx = x[i]! - mx
+      const dy = y[i]! - my
+      const size = cellSize[c]!
+      const inside = x[i]! >= cellX0[c]! && x[i]! < cellX0[c]! + size && y[i]! >= cellY0[c]! && y[i]! < cellY0[c]! + size
+      if (!inside && size * size < theta2 * (dx * dx + dy * dy)) {
+        repel(i, mx, my, count[c]!, sumR[c]! / count[c]!)
+      } else {
+        const first = firstChild[c]!
+        stack.push(first, first + 1, first + 2, first + 3)
       }
     }
+  }
 
-    // Attraction along edges (weaker to let repulsion separate nodes)
-    for (const edge of edges) {
-      const src = nodes[edge.source]!
-      const tgt = nodes[edge.target]!
-      const dx = tgt.x - src.x
-      const dy = tgt.y - src.y
+  const groupCount = Math.max(0, ...group) + 1
+  const groupX = new Float64Array(groupCount)
+  const groupY = new Float64Array(groupCount)
+  const groupSize = new Float64Array(groupCount)
+
+  for (let iter = 0; iter < sim.iterations; iter++) {
+    const temp = 0.1 * (1 - iter / sim.iterations) * Math.min(area.width, area.height) * 0.5
+
+    vx.fill(0)
+    vy.fill(0)
+
+    // Repulsion between all nodes, through the quadtree
+    buildTree()
+    for (let i = 0; i < n; i++) repulse(i)
+
+    // Attraction along edges
+    for (let e = 0; e < source.length; e++) {
+      const s = source[e]!
+      const t = target[e]!
+      const dx = x[t]! - x[s]!
+      const dy = y[t]! - y[s]!
       const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
-      const force = (dist * dist) / k
-      const fx = (dx / dist) * force * 0.08
-      const fy = (dy / dist) * force * 0.08
-
-      src.vx += fx
-      src.vy += fy
-      tgt.vx -= fx
-      tgt.vy -= fy
+      const force = (dist * dist) / sim.k
+      const fx = (dx / dist) * force * sim.attraction
+      const fy = (dy / dist) * force * sim.attraction
+      vx[s]! += fx
+      vy[s]! += fy
+      vx[t]! -= fx
+      vy[t]! -= fy
+    }
+
+    // Pull toward the community's centre
+    if (sim.groupPull > 0 && groupCount > 0) {
+      groupX.fill(0)
+      groupY.fill(0)
+      groupSize.fill(0)
+      for (let i = 0; i < n; i++) {
+        const g = group[i]!
+        if (g < 0) continue
+        groupX[g]! += x[i]!
+        groupY[g]! += y[i]!
+        groupSize[g]!++
+      }
+      for (let i = 0; i < n; i++) {
+        const g = group[i]!
+        if (g < 0) continue
+        vx[i]! += (groupX[g]! / groupSize[g]! - x[i]!) * sim.groupPull
+        vy[i]! += (groupY[g]! / groupSize[g]! - y[i]!) * sim.groupPull
+      }
     }
 
     // Gravity toward center
-    for (const node of nodes) {
-      const dx = cx - node.x
-      const dy = cy - node.y
-      node.vx += dx * 0.01
-      node.vy += dy * 0.01
+    for (let i = 0; i < n; i++) {
+      vx[i]! += (cx - x[i]!) * 0.01
+      vy[i]! += (cy - y[i]!) * 0.01
     }
 
     // Apply velocities with temperature damping
-    for (const node of nodes) {
-      if (node.pin) continue
-
-      node.vx *= 0.8
-      node.vy *= 0.8
+    for (let i = 0; i < n; i++) {
+      if (pinned[i]) continue
 
-      const speed = Math.sqrt(node.vx * node.vx + node.vy * node.vy)
+      const fx = vx[i]! * sim.damping
+      const fy = vy[i]! * sim.damping
+      const speed = Math.sqrt(fx * fx + fy * fy)
       if (speed > 0) {
         const capped = Math.min(speed, temp)
-        node.x += (node.vx / speed) * capped
-        node.y += (node.vy / speed) * capped
+        x[i]! += (fx / speed) * capped
+        y[i]! += (fy / speed) * capped
       }
 
       // Constrain to area with margin for node size
-      const mx = Math.max(20, node.width / 2 + 5)
-      const my = Math.max(20, node.height / 2 + 5)
-      node.x = Math.max(area.x + mx, Math.min(area.x + area.width - mx, node.x))
-      node.y = Math.max(area.y + my, Math.min(area.y + area.height - my, node.y))
+      x[i] = Math.max(area.x + marginX[i]!, Math.min(area.x + area.width - marginX[i]!, x[i]!))
+      y[i] = Math.max(area.y + marginY[i]!, Math.min(area.y + area.height - marginY[i]!, y[i]!))
     }
   }
+}
+
+/**
+ * Push apart nodes whose shapes still overlap. Candidates come from a grid
+ * of cells the size of the largest node, so only neighbours are compared.
+ */
+export function resolveOverlaps(
+  nodes: GraphNode[],
+  area: { x: number; y: number; width: number; height: number },
+): void {
+  const n = nodes.length
+  const cell = Math.max(...nodes.map(nd => Math.max(nd.width, nd.height)), 1) + 8
 
-  // Post-layout overlap resolution: push apart any nodes that still overlap
   for (let pass = 0; pass < 10; pass++) {
+    const grid = new Map<string, number[]>()
+    for (let i = 0; i < n; i++) {
+      const key = `${Math.floor(nodes[i]!.x / cell)},${Math.floor(nodes[i]!.y / cell)}`
+      const bucket = grid.get(key)
+      if (bucket) bucket.push(i)
+      else grid.set(key, [i])
+    }
+
     let moved = false
     for (let i = 0; i < n; i++) {
-      for (let j = i + 1; j < n; j++) {
-        const ni = nodes[i]!
-        const nj = nodes[j]!
-        if (ni.pin && nj.pin) continue
-
-        // Axis-aligned overlap check
-        const overlapX = (ni.width + nj.width) / 2 + 8 - Math.abs(ni.x - nj.x)
-        const overlapY = (ni.height + nj.height) / 2 + 8 - Math.abs(ni.y - nj.y)
-        if (overlapX <= 0 || overlapY <= 0) continue
-
-        // Push apart along the axis with less overlap
-        const pushX = overlapX < overlapY
-        const push = (pushX ? overlapX : overlapY) / 2 + 1
-
-        if (pushX) {
-          const dir = ni.x >= nj.x ? 1 : -1
-          if (!ni.pin) ni.x += dir * push
-          if (!nj.pin) nj.x -= dir * push
-        } else {
-          const dir = ni.y >= nj.y ? 1 : -1
-          if (!ni.pin) ni.y += dir * push
-          if (!nj.pin) nj.y -= dir * push
+      const ni = nodes[i]!
+      const gx = Math.floor(ni.x / cell)
+      const gy = Math.floor(ni.y / cell)
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          for (const j of grid.get(`${gx + ox},${gy + oy}`) ?? []) {
+            if (j <= i) continue
+            const nj = nodes[j]!
+            if (ni.pin && nj.pin) continue
+
+            // Axis-aligned overlap check
+            const overlapX = (ni.width + nj.width) / 2 + 8 - Math.abs(ni.x - nj.x)
+            const overlapY = (ni.height + nj.height) / 2 + 8 - Math.abs(ni.y - nj.y)
+            if (overlapX <= 0 || overlapY <= 0) continue
+
+            // Push apart along the axis with less overlap
+            const pushX = overlapX < overlapY
+            const push = (pushX ? overlapX : overlapY) / 2 + 1
+
+            if (pushX) {
+              const dir = ni.x >= nj.x ? 1 : -1
+              if (!ni.pin) ni.x += dir * push
+              if (!nj.pin) nj.x -= dir * push
+            } else {
+              const dir = ni.y >= nj.y ? 1 : -1
+              if (!ni.pin) ni.y += dir * push
+              if (!nj.pin) nj.y -= dir * push
+            }
+            moved = true
+          }
         }
-        moved = true
       }
     }
     if (!moved) break
@@ -0,0 +1,57 @@
+import type { GraphNode, GraphEdge } from './types'
+import { connectivityOrder } from './layout-circular'
+
+/**
+ * Grid layout — nodes in rows of equal cells.
+ *
+ * Features:
+ * - Connectivity-based ordering keeps neighbours in nearby cells
+ * - With communities, each community fills consecutive cells
+ * - Column count follows the area's aspect ratio
+ * - Pin support: pinned nodes keep their position, others fill the grid
+ */
+
+export interface GridLayoutOpts {
+  area: { x: number; y: number; width: number; height: number }
+  /** Community of each node (-1 for none). */
+  groups?: readonly number[]
+}
+
+export function gridLayout(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  opts: GridLayoutOpts,
+): void {
+  if (nodes.length === 0) return
+
+  const { area, groups } = opts
+  let order = connectivityOrder(nodes, edges).filter(i => !nodes[i]!.pin)
+  if (groups) {
+    const rank = new Map(order.map((idx, i) => [idx, i]))
+    order = order.sort((a, b) => (groups[a] ?? -1) - (groups[b] ?? -1) || rank.get(a)! - rank.get(b)!)
+  }
+  const count = Math.max(order.length, 1)
+
+  // As many columns as keep cells in proportion to the largest node
+  const cellW = Math.max(...nodes.map(nd => nd.width), 40) + 16
+  const cellH = Math.max(...nodes.map(nd => nd.height), 28) + 16
+  const aspect = (area.width / cellW) / (area.height / cellH)
+  const cols = Math.max(1, Math.min(count, Math.round(Math.sqrt(count * aspect))))
+  const rows = Math.ceil(count / cols)
+  const stepX = area.width / cols
+  const stepY = area.height / rows
+
+  order.forEach((idx, i) => {
+    const node = nodes[idx]!
+    node.x = area.x + ((i % cols) + 0.5) * stepX
+    node.y = area.y + (Math.floor(i / cols) + 0.5) * stepY
+  })
+
+  // Apply pinned positions
+  for (const node of nodes) {
+    if (node.pin) {
+      node.x = area.x + node.pin.x * area.width
+      node.y = area.y + node.pin.y * area.height
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import type { GraphNode, GraphEdge } from './types'
+
+/**
+ * Radial layout — a breadth-first tree drawn as concentric rings.
+ *
+ * Features:
+ * - Root at the centre: the best-connected node, or `root` by id. With
+ *   several components, each component's root sits on the first ring
+ * - Each subtree gets a slice of the circle sized by its leaf count
+ * - Rings stretch into ellipses to fill non-square areas
+ * - Pin support: pinned nodes keep their position
+ */
+
+export interface RadialLayoutOpts {
+  area: { x: number; y: number; width: number; height: number }
+  /** Id of the node at the centre. */
+  root?: string
+}
+
+export function radialLayout(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  opts: RadialLayoutOpts,
+): void {
+  const n = nodes.length
+  if (n === 0) return
+
+  const { area } = opts
+  const cx = area.x + area.width / 2
+  const cy = area.y + area.height / 2
+
+  const adj = new Array<number[]>(n)
+  for (let i = 0; i < n; i++) adj[i] = []
+  for (const e of edges) {
+    if (e.source === e.target) continue
+    adj[e.source]!.push(e.target)
+    adj[e.target]!.push(e.source)
+  }
+
+  // Spanning forest, breadth first — best-connected roots first
+  const byDegree = nodes.map((_, i) => i).sort((a, b) => adj[b]!.length - adj[a]!.length || a - b)
+  const named = opts.root === undefined ? -1 : nodes.findIndex(nd => nd.id === opts.root)
+  if (named >= 0) byDegree.unshift(named)
+
+  const depth = new Array<number>(n).fill(-1)
+  const children = new Array<number[]>(n)
+  for (let i = 0; i < n; i++) children[i] = []
+  const roots: number[] = []
+  for (const start of byDegree) {
+    if (depth[start]! >= 0) continue
+    roots.push(start)
+    depth[start] = 0
+    const queue = [start]
+    for (let head = 0; head < queue.length; head++) {
+      const u = queue[head]!
+      for (const v of adj[u]!) {
+        if (depth[v]! >= 0) continue
+        depth[v] = depth[u]! + 1
+        children[u]!.push(v)
+        queue.push(v)
+      }
+    }
+  }
+
+  // Several components hang off an empty centre
+  const ringOffset = roots.length > 1 ? 1 : 0
+  const maxDepth = Math.max(...depth) + ringOffset
+
+  const leaves = new Array<number>(n).fill(0)
+  const countLeaves = (v: number): number => {
+    let sum = 0
+    for (const c of children[v]!) sum += countLeaves(c)
+    const count = Math.max(sum, 1)
+    leaves[v] = count
+    return count
+  }
+  for (const r of roots) countLeaves(r)
+
+  // Radii: fill the area minus room for the largest node
+  const maxNodeW = Math.max(...nodes.map(nd => nd.width), 40)
+  const maxNodeH = Math.max(...nodes.map(nd => nd.height), 40)
+  const margin = 10
+  const rx = Math.max(20, area.width / 2 - maxNodeW / 2 - margin)
+  const ry = Math.max(20, area.height / 2 - maxNodeH / 2 - margin)
+  const startAngle = -Math.PI / 2 // 12 o'clock
+
+  const place = (v: number, from: number, to: number): void => {
+    const ring = maxDepth > 0 ? (depth[v]! + ringOffset) / maxDepth : 0
+    const angle = startAngle + (from + to) / 2
+    nodes[v]!.x = cx + rx * ring * Math.cos(angle)
+    nodes[v]!.y = cy + ry * ring * Math.sin(angle)
+    slice(children[v]!, from, to)
+  }
+  const slice = (group: number[], from: number, to: number): void => {
+    const total = group.reduce((s, v) => s + leaves[v]!, 0)
+    let cursor = from
+    for (const v of group) {
+      const span = ((to - from) * leaves[v]!) / total
+      place(v, cursor, cursor + span)
+      cursor += span
+    }
+  }
+  slice(roots, 0, 2 * Math.PI)
+
+  // Apply pinned positions
+  for (const node of nodes) {
+    if (node.pin) {
+      node.x = area.x + node.pin.x * area.width
+      node.y = area.y + node.pin.y * area.height
+    }
+  }
+}
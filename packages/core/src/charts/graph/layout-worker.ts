@@ -0,0 +1,104 @@
+import type { ChartOptions } from '../../types'
+import type { GraphOptions } from './types'
+import { LIGHT_THEME, resolveOptions } from '../../constants'
+import { EMPTY_GRAPH_DATA, buildGraph, nodeGroups, runLayout } from './layout'
+import {
+  forceSimulation, simulateForces, applySimulation, resolveOverlaps,
+  type ForceSimulation,
+} from './layout-force'
+
+/**
+ * Graph layout ahead of rendering, optionally off the main thread.
+ *
+ * computeGraphLayout() lays out a rich graph and resolves to each node's
+ * position as a pin (0-1 across the area). Passing those back as the
+ * nodes' `pin`s draws the graph without re-running the layout:
+ *
+ *   const pins = await computeGraphLayout({ nodes, edges, width: 800, height: 600 })
+ *   chart.setOptions({ nodes: nodes.map(n => ({ ...n, pin: pins[n.id] })) })
+ *
+ * The force simulation runs in a Web Worker built from simulateForces'
+ * source. Where workers aren't available (SSR, strict CSP) or the worker
+ * fails, it runs inline instead.
+ */
+
+export interface GraphLayoutRequest extends Pick<GraphOptions,
+  'nodes' | 'edges' | 'layout' | 'direction' | 'nodeShape' | 'iterations' | 'theta' | 'radialRoot' | 'clusters'> {
+  /** Size of the area to lay the graph out in — the chart's plot area. */
+  width: number
+  height: number
+  /** Label font size the nodes are sized for. Default: the theme's small font size */
+  fontSize?: number
+  /** Run the force simulation in a Web Worker where the runtime has them. Default: true */
+  worker?: boolean
+}
+
+export async function computeGraphLayout(
+  request: GraphLayoutRequest,
+): Promise<Record<string, { x: number; y: number }>> {
+  const options = resolveOptions(request as ChartOptions, 0) as GraphOptions
+  const area = { x: 0, y: 0, width: request.width, height: request.height }
+  const { graphNodes, graphEdges } = buildGraph(EMPTY_GRAPH_DATA, options, request.fontSize ?? LIGHT_THEME.fontSizeSmall)
+
+  if ((options.layout ?? 'force') === 'force' && graphNodes.length > 0) {
+    const sim = forceSimulation(graphNodes, graphEdges, {
+      area,
+      iterations: options.iterations ?? 120,
+      theta: options.theta,
+      groups: nodeGroups(graphNodes),
+    })
+    if (request.worker !== false && typeof Worker !== 'undefined') await simulateInWorker(sim)
+    else simulateForces(sim)
+    applySimulation(graphNodes, sim)
+    resolveOverlaps(graphNodes, area)
+  } else {
+    runLayout(graphNodes, graphEdges, options, area)
+  }
+
+  const pins: Record<string, { x: number; y: number }> = {}
+  for (const node of graphNodes) {
+    pins[node.id] = { x: node.x / area.width, y: node.y / area.height }
+  }
+  return pins
+}
+
+/** Run simulateForces in a throwaway worker, falling back to the main thread. */
+function simulateInWorker(sim: ForceSimulation): Promise<void> {
+  const source = `const simulateForces = ${simulateForces.toString()}
+self.onmessage = (e) => {
+  simulateForces(e.data)
+  self.postMessage({ x: e.data.x, y: e.data.y })
+}`
+
+  return new Promise(resolve => {
+    let url: string | null = null
+    let worker: Worker | null = null
+    const finish = (): void => {
+      worker?.terminate()
+      if (url) URL.revokeObjectURL(url)
+      resolve()
+    }
+    const inline = (): void => {
+      simulateForces(sim)
+      finish()
+    }
+
+    try {
+      url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }))
+      worker = new Worker(url)
+    } catch {
+      inline()
+      return
+    }
+    worker.onmessage = (e: MessageEvent<{ x: Float64Array; y: Float64Array }>) => {
+      sim.x.set(e.data.x)
+      sim.y.set(e.data.y)
+      finish()
+    }
+    worker.onerror = (e) => {
+      e.preventDefault()
+      inline()
+    }
+    worker.postMessage(sim)
+  })
+}
@@ -0,0 +1,96 @@
+import type { PreparedData, ResolvedOptions } from '../../types'
+import type { GraphNode, GraphEdge, GraphOptions, GraphLayout } from './types'
+import { parseGraphData } from './parse'
+import { measureNodeSize } from './text-measure'
+import { clusterSettings, applyClusters } from './clusters'
+import { forceLayout } from './layout-force'
+import { hierarchyLayout } from './layout-hierarchy'
+import { circularLayout } from './layout-circular'
+import { radialLayout } from './layout-radial'
+import { gridLayout } from './layout-grid'
+
+/**
+ * Rich-graph pipeline up to drawing: parse, size each node for its label,
+ * apply clusters, lay out.
+ */
+
+/** Prepared data for rich graphs, whose nodes and edges live in the options. */
+export const EMPTY_GRAPH_DATA: PreparedData = {
+  series: [],
+  labels: [],
+  bounds: { xMin: 0, xMax: 1, yMin: 0, yMax: 1 },
+}
+
+/** Parsed and clustered nodes and edges, before sizing and layout. */
+export function graphStructure(
+  data: PreparedData,
+  options: ResolvedOptions,
+): { graphNodes: GraphNode[]; graphEdges: GraphEdge[] } {
+  const { graphNodes, graphEdges } = parseGraphData(data, options)
+  const settings = clusterSettings((options as GraphOptions).clusters)
+  return settings && graphNodes.length > 0
+    ? applyClusters(graphNodes, graphEdges, settings)
+    : { graphNodes, graphEdges }
+}
+
+/** Parsed nodes and edges, sized for their labels and clustered. Not yet positioned. */
+export function buildGraph(
+  data: PreparedData,
+  options: ResolvedOptions,
+  fontSize: number,
+): { graphNodes: GraphNode[]; graphEdges: GraphEdge[] } {
+  const graph = graphStructure(data, options)
+
+  // Measure text for each node
+  for (const node of graph.graphNodes) {
+    const size = measureNodeSize(node.label, fontSize, node.shape)
+    node.width = size.width
+    node.height = size.height
+  }
+  return graph
+}
+
+/** Community of each node (-1 for none), when clusters are on. */
+export function nodeGroups(nodes: GraphNode[]): number[] | undefined {
+  return nodes.some(nd => nd.community !== null) ? nodes.map(nd => nd.community ?? -1) : undefined
+}
+
+export function runLayout(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  opts: GraphOptions,
+  area: { x: number; y: number; width: number; height: number },
+): void {
+  const layout: GraphLayout = opts.layout ?? 'force'
+
+  switch (layout) {
+    case 'hierarchical':
+      hierarchyLayout(nodes, edges, {
+        area,
+        direction: opts.direction ?? 'TB',
+      })
+      break
+
+    case 'circular':
+      circularLayout(nodes, edges, { area })
+      break
+
+    case 'radial':
+      radialLayout(nodes, edges, { area, root: opts.radialRoot })
+      break
+
+    case 'grid':
+      gridLayout(nodes, edges, { area, groups: nodeGroups(nodes) })
+      break
+
+    case 'force':
+    default:
+      forceLayout(nodes, edges, {
+        area,
+        iterations: opts.iterations ?? 120,
+        theta: opts.theta,
+        groups: nodeGroups(nodes),
+      })
+      break
+  }
+}
@@ -0,0 +1,149 @@
+import type { GraphEdge } from './types'
+
+/**
+ * Louvain community detection.
+ *
+ * Edges count as undirected, weighted by `weight`. Each pass moves nodes
+ * to the neighbouring community that raises modularity most, then merges
+ * every community into one node and repeats on that smaller graph, until
+ * no move helps. Nodes are visited in index order, so the result is
+ * deterministic.
+ *
+ * Returns the community of each node, numbered from the largest community
+ * (ties: the one holding the lowest node index) — so colors and cluster
+ * ids stay put while the data stays the same.
+ */
+export function louvain(
+  nodeCount: number,
+  edges: readonly Pick<GraphEdge, 'source' | 'target' | 'weight'>[],
+  resolution = 1,
+): number[] {
+  // Level 0: every node alone
+  let adj = Array.from({ length: nodeCount }, () => new Map<number, number>())
+  let loops = new Array<number>(nodeCount).fill(0)
+  for (const { source, target, weight } of edges) {
+    if (!(weight > 0)) continue
+    if (source === target) {
+      loops[source] = loops[source]! + weight
+    } else {
+      adj[source]!.set(target, (adj[source]!.get(target) ?? 0) + weight)
+      adj[target]!.set(source, (adj[target]!.get(source) ?? 0) + weight)
+    }
+  }
+
+  // What each original node belongs to at the current level
+  let membership = Array.from({ length: nodeCount }, (_, i) => i)
+
+  for (;;) {
+    const community = moveNodes(adj, loops, resolution)
+    const count = Math.max(-1, ...community) + 1
+    if (count === adj.length) break
+
+    membership = membership.map(c => community[c]!)
+    const merged = aggregate(adj, loops, community, count)
+    adj = merged.adj
+    loops = merged.loops
+  }
+
+  return renumberBySize(membership)
+}
+
+/** One local-moving phase. Returns each node's community, numbered 0…k-1 in order of first appearance. */
+function moveNodes(adj: Map<number, number>[], loops: number[], resolution: number): number[] {
+  const n = adj.length
+  const degree = adj.map((links, i) => {
+    let k = 2 * loops[i]!
+    for (const w of links.values()) k += w
+    return k
+  })
+  const total = degree.reduce((s, k) => s + k, 0)
+  const community = Array.from({ length: n }, (_, i) => i)
+  if (total === 0) return community
+
+  // Sum of degrees in each community
+  const tot = degree.slice()
+  const weightTo = new Map<number, number>()
+
+  let moved = true
+  while (moved) {
+    moved = false
+    for (let i = 0; i < n; i++) {
+      const current = community[i]!
+      const k = degree[i]!
+      tot[current] = tot[current]! - k
+
+      weightTo.clear()
+      weightTo.set(current, 0)
+      for (const [j, w] of adj[i]!) {
+        const c = community[j]!
+        weightTo.set(c, (weightTo.get(c) ?? 0) + w)
+      }
+
+      // Modularity gain of joining c, up to a factor common to all c
+      const gain = (c: number): number => weightTo.get(c)! - (resolution * tot[c]! * k) / total
+      let best = current
+      let bestGain = gain(current)
+      for (const c of weightTo.keys()) {
+        const g = gain(c)
+        if (g > bestGain + 1e-12) {
+          best = c
+          bestGain = g
+        }
+      }
+
+      tot[best] = tot[best]! + k
+      if (best !== current) {
+        community[i] = best
+        moved = true
+      }
+    }
+  }
+
+  // Close the gaps left by emptied communities
+  const ids = new Map<number, number>()
+  return community.map(c => {
+    let id = ids.get(c)
+    if (id === undefined) {
+      id = ids.size
+      ids.set(c, id)
+    }
+    return id
+  })
+}
+
+/** Collapse each community into one node; edges inside a community become its self-loop. */
+function aggregate(
+  adj: Map<number, number>[],
+  loops: number[],
+  community: number[],
+  count: number,
+): { adj: Map<number, number>[]; loops: number[] } {
+  const next = Array.from({ length: count }, () => new Map<number, number>())
+  const nextLoops = new Array<number>(count).fill(0)
+  for (let i = 0; i < adj.length; i++) {
+    const ci = community[i]!
+    nextLoops[ci] = nextLoops[ci]! + loops[i]!
+    for (const [j, w] of adj[i]!) {
+      const cj = community[j]!
+      if (ci === cj) {
+        // Seen from both ends
+        nextLoops[ci] = nextLoops[ci] + w / 2
+      } else {
+        next[ci]!.set(cj, (next[ci]!.get(cj) ?? 0) + w)
+      }
+    }
+  }
+  return { adj: next, loops: nextLoops }
+}
+
+function renumberBySize(membership: number[]): number[] {
+  const size = new Map<number, number>()
+  const first = new Map<number, number>()
+  membership.forEach((c, i) => {
+    size.set(c, (size.get(c) ?? 0) + 1)
+    if (!first.has(c)) first.set(c, i)
+  })
+  const order = [...size.keys()].sort((a, b) => size.get(b)! - size.get(a)! || first.get(a)! - first.get(b)!)
+  const rank = new Map(order.map((c, i) => [c, i]))
+  return membership.map(c => rank.get(c)!)
+}
@@ -61,6 +61,8 @@ function makeNode(
     vy: 0,
     width: 0,
     height: 0,
+    community: null,
+    members: 0,
   }
 }
 
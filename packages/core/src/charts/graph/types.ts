@@ -4,7 +4,7 @@ import type { ResolvedOptions } from '../../types'
 export type NodeShape = 'rect' | 'circle' | 'diamond' | 'hexagon' | 'stadium'
 
 /** Layout algorithm */
-export type GraphLayout = 'force' | 'hierarchical' | 'circular'
+export type GraphLayout = 'force' | 'hierarchical' | 'circular' | 'radial' | 'grid'
 
 /** Direction for hierarchical layout */
 export type LayoutDirection = 'TB' | 'BT' | 'LR' | 'RL'
@@ -40,10 +40,32 @@ export interface GraphOptions extends ResolvedOptions {
   arrows?: boolean
   /** Force layout iteration count. Default: 120 */
   iterations?: number
+  /** Barnes-Hut accuracy of the force layout — lower is exact but slower. Default: 0.9 */
+  theta?: number
+  /** Id of the node at the centre of the radial layout. Default: the best-connected node */
+  radialRoot?: string
+  /** Detect communities (Louvain) and color nodes by community. Default: false */
+  clusters?: boolean | GraphClusterOptions
+  /** Hops around a hovered node that stay lit while the rest dims. Default: 1 */
+  neighborhood?: 0 | 1 | 2
+  /**
+   * Node ids to highlight the shortest path between (fewest hops, either
+   * direction). With only `from`, that node is marked as the start.
+   */
+  path?: [from: string, to?: string]
   /** Enable drag-to-pin interactivity. Default: false */
   draggable?: boolean
 }
 
+export interface GraphClusterOptions {
+  /** Louvain resolution — above 1 gives more, smaller communities. Default: 1 */
+  resolution?: number
+  /** Draw each community as a single node until it is expanded. Default: false */
+  collapse?: boolean
+  /** Communities drawn expanded while `collapse` is on. Community 0 is the largest. */
+  expanded?: number[]
+}
+
 /** Internal node representation after parsing */
 export interface GraphNode {
   id: string
@@ -59,6 +81,10 @@ export interface GraphNode {
   vy: number
   width: number
   height: number
+  /** Community, when clusters are on */
+  community: number | null
+  /** For a collapsed cluster: how many nodes it stands for. 0 for a plain node */
+  members: number
 }
 
 /** Internal edge representation */
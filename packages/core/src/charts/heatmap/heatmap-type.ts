@@ -1,18 +1,22 @@
 import type {
   ChartData, ResolvedOptions, PreparedData,
-  RenderContext, RenderNode, HitResult,
+  RenderContext, RenderNode, HitResult, ColorMapOptions,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
 import { group, rect, text } from '../../render/tree'
+import { layoutColorMap, type ColorMap } from '../../legend/color-legend'
 
 /**
  * Heatmap chart — displays a matrix of colored cells.
  *
  * Data format: each series is a row, each value is a cell.
  * Labels are column headers, series names are row headers.
- * Cell color intensity is proportional to value.
+ * Cell colors come from `colorScale` — by default the first color, fading
+ * out toward low values. `colorLegend` adds a legend for it.
  */
+export interface HeatmapOptions extends ResolvedOptions, ColorMapOptions {}
+
 export const heatmapChartType = defineChartType({
   type: 'heatmap',
   suppressAxes: true,
@@ -23,23 +27,14 @@ export const heatmapChartType = defineChartType({
   },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, area, theme, options } = ctx
+    const { data, theme } = ctx
     const nodes: RenderNode[] = []
 
     const rowCount = data.series.length
     const colCount = data.labels.length
     if (rowCount === 0 || colCount === 0) return nodes
 
-    // Find min/max values for color interpolation
-    let vMin = Infinity
-    let vMax = -Infinity
-    for (const s of data.series) {
-      for (const v of s.values) {
-        if (v < vMin) vMin = v
-        if (v > vMax) vMax = v
-      }
-    }
-    if (vMin === vMax) vMax = vMin + 1
+    const { scale, plot: area, legend } = colorMap(ctx)
 
     // Layout: leave space for labels
     const labelW = Math.min(60, area.width * 0.15)
@@ -84,8 +79,7 @@ export const heatmapChartType = defineChartType({
 
       for (let c = 0; c < colCount; c++) {
         const value = series.values[c] ?? 0
-        const t = (value - vMin) / (vMax - vMin)
-        const color = interpolateColor(options.colors[0]!, t)
+        const color = scale.map(value)
 
         cellNodes.push(rect(
           gridX + cellW * c + gap / 2,
@@ -112,15 +106,18 @@ export const heatmapChartType = defineChartType({
       }))
     }
 
+    if (legend) nodes.push(legend)
     return nodes
   },
 
   getHighlightNodes(ctx: RenderContext, hit: HitResult): RenderNode[] {
-    const { data, area, options } = ctx
+    const { data, options } = ctx
     const rowCount = data.series.length
     const colCount = data.labels.length
     if (rowCount === 0 || colCount === 0) return []
 
+    const area = colorMap(ctx).plot
+
     const labelW = Math.min(60, area.width * 0.15)
     const labelH = Math.min(24, area.height * 0.1)
     const gridX = area.x + labelW
@@ -145,11 +142,13 @@ export const heatmapChartType = defineChartType({
   },
 
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, area } = ctx
+    const { data } = ctx
     const rowCount = data.series.length
     const colCount = data.labels.length
     if (rowCount === 0 || colCount === 0) return null
 
+    const area = colorMap(ctx).plot
+
     const labelW = Math.min(60, area.width * 0.15)
     const labelH = Math.min(24, area.height * 0.1)
     const gridX = area.x + labelW
@@ -172,17 +171,11 @@ export const heatmapChartType = defineChartType({
   },
 })
 
-/** Interpolate from transparent to the given color based on t (0..1) */
-function interpolateColor(baseColor: string, t: number): string {
-  // Extract hex fallback from var(--color-xxx, #hex) format
-  const hexMatch = baseColor.match(/#([0-9a-fA-F]{6})/)
-  if (!hexMatch) return `rgba(59, 130, 246, ${(0.1 + t * 0.9).toFixed(2)})`
-
-  const hex = hexMatch[1]!
-  const r = parseInt(hex.slice(0, 2), 16)
-  const g = parseInt(hex.slice(2, 4), 16)
-  const b = parseInt(hex.slice(4, 6), 16)
-
-  const opacity = 0.1 + t * 0.9
-  return `rgba(${r}, ${g}, ${b}, ${opacity.toFixed(2)})`
+/** Cell colors over every value, and the area left beside the legend. */
+function colorMap(ctx: RenderContext): ColorMap {
+  const hOpts = ctx.options as HeatmapOptions
+  return layoutColorMap(ctx.data.series.flatMap(s => s.values), ctx.area, ctx, {
+    scale: hOpts.colorScale,
+    legend: hOpts.colorLegend,
+  })
 }
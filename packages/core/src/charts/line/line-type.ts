@@ -1,31 +1,37 @@
 import type {
-  RenderContext, RenderNode, HitResult,
+  RenderContext, RenderNode, HitResult, PreparedData, ScaleType,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { CSS_PREFIX } from '../../constants'
 import { group, path, circle } from '../../render/tree'
 import { buildLinePath, buildAreaPath } from '../../utils/curves'
 import { nearestPointHitTest } from '../../utils/hit-test'
+import { pointXScaleType, createIndexMapper, getSeriesYScale } from '../../utils/scale'
 
 export const lineChartType = defineChartType({
   type: 'line',
 
-
+  getScaleTypes(data?: PreparedData): { x: ScaleType; y: ScaleType } {
+    // Date labels and XY series go on a continuous axis so irregular x keeps its true spacing
+    return { x: pointXScaleType(data), y: 'linear' }
+  },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, options, area, xScale, yScale, theme } = ctx
+    const { data, options, area, theme } = ctx
     const nodes: RenderNode[] = []
 
     for (const series of data.series) {
       const seriesNodes: RenderNode[] = []
+      const xScale = createIndexMapper(ctx, series)
+      const yScale = getSeriesYScale(ctx, series)
 
       // Build line path
-      const linePath = buildLinePath(series.values, xScale, yScale, options.curve)
+      const linePath = buildLinePath(series.values, xScale, yScale, options.curve, series.gaps)
 
       // Area fill (if enabled) — use gradient for premium look
       if (series.fill) {
         const areaPath = buildAreaPath(
-          series.values, xScale, yScale, area, options.curve,
+          series.values, xScale, yScale, area, options.curve, series.gaps,
         )
         seriesNodes.push(path(areaPath, {
           class: 'chartts-area',
@@ -76,6 +82,7 @@ export const lineChartType = defineChartType({
       nodes.push(group(seriesNodes, {
         class: `chartts-series chartts-series-${series.index}`,
         'data-series-name': series.name,
+        key: series.name,
       }))
     }
 
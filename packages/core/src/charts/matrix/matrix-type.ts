@@ -1,10 +1,12 @@
 import type {
   ChartData, ResolvedOptions, PreparedData,
-  RenderContext, RenderNode, HitResult, ScaleType,
+  RenderContext, RenderNode, HitResult, ScaleType, ColorMapOptions, ColorScaleOptions,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
 import { rect, text, group } from '../../render/tree'
+import { layoutColorMap, type ColorMap } from '../../legend/color-legend'
+import { contrastText } from '../../color/color'
 
 /**
  * Matrix chart — grid layout with color-coded cells.
@@ -16,15 +18,14 @@ import { rect, text, group } from '../../render/tree'
  * Options:
  * - showValues: display values in cells (default true)
  * - cellRadius: border-radius for cells (default 2)
- * - colorScale: 'sequential' | 'diverging' (default 'sequential')
- * - minColor: color for minimum value
- * - maxColor: color for maximum value
+ * - colorScale: scale type or ColorScaleOptions (default 'sequential')
+ * - minColor / maxColor: ends of the palette, when colorScale names none
+ * - colorLegend: draw a color legend
  */
 
-export interface MatrixOptions extends ResolvedOptions {
+export interface MatrixOptions extends ResolvedOptions, ColorMapOptions {
   showValues?: boolean
   cellRadius?: number
-  colorScale?: 'sequential' | 'diverging'
   minColor?: string
   maxColor?: string
 }
@@ -42,29 +43,18 @@ export const matrixChartType = defineChartType({
   },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, area, theme, options } = ctx
+    const { data, theme, options } = ctx
     const nodes: RenderNode[] = []
 
     const mOpts = options as MatrixOptions
     const showValues = mOpts.showValues !== false
     const cellRadius = mOpts.cellRadius ?? 2
-    const colorScale = mOpts.colorScale ?? 'sequential'
 
     const rows = data.series.length
     const cols = data.labels.length
     if (rows === 0 || cols === 0) return nodes
 
-    // Gather all values for color scale
-    let allMin = Infinity, allMax = -Infinity
-    for (const s of data.series) {
-      for (const v of s.values) {
-        if (v < allMin) allMin = v
-        if (v > allMax) allMax = v
-      }
-    }
-    if (!isFinite(allMin)) allMin = 0
-    if (!isFinite(allMax)) allMax = 1
-    const valRange = allMax - allMin || 1
+    const { scale, plot: area, legend } = colorMap(ctx)
 
     // Layout
     const labelPadLeft = 60
@@ -110,9 +100,8 @@ export const matrixChartType = defineChartType({
         const val = series.values[c] ?? 0
         const cx = gridX + c * (cellW + gap)
 
-        // Color interpolation
-        const color = getCellColor(val, allMin, allMax, valRange, colorScale, options.colors)
-        const textColor = getContrastColor(val, allMin, allMax, valRange, colorScale)
+        const color = scale.map(val)
+        const textColor = contrastText(color)
 
         rowNodes.push(rect(cx, ry, cellW, cellH, {
           class: 'chartts-matrix-cell',
@@ -150,15 +139,18 @@ export const matrixChartType = defineChartType({
       }))
     }
 
+    if (legend) nodes.push(legend)
     return nodes
   },
 
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, area } = ctx
+    const { data } = ctx
     const rows = data.series.length
     const cols = data.labels.length
     if (rows === 0 || cols === 0) return null
 
+    const area = colorMap(ctx).plot
+
     const labelPadLeft = 60
     const labelPadTop = 30
     const gap = 2
@@ -179,47 +171,13 @@ export const matrixChartType = defineChartType({
   },
 })
 
-// ---------------------------------------------------------------------------
-// Color helpers
-// ---------------------------------------------------------------------------
-
-function getCellColor(
-  val: number, min: number, max: number, range: number,
-  scale: string, colors: readonly string[],
-): string {
-  if (scale === 'diverging') {
-    const mid = (min + max) / 2
-    if (val >= mid) {
-      const t = (val - mid) / ((max - mid) || 1)
-      return interpolateOpacity(colors[0] ?? '#3b82f6', 0.15 + t * 0.85)
-    } else {
-      const t = (mid - val) / ((mid - min) || 1)
-      return interpolateOpacity(colors[1] ?? '#ef4444', 0.15 + t * 0.85)
-    }
-  }
-  // Sequential
-  const t = (val - min) / range
-  return interpolateOpacity(colors[0] ?? '#3b82f6', 0.08 + t * 0.9)
-}
-
-function getContrastColor(
-  val: number, min: number, max: number, range: number, scale: string,
-): string {
-  if (scale === 'diverging') {
-    const mid = (min + max) / 2
-    const t = Math.abs(val - mid) / ((max - min) / 2 || 1)
-    return t > 0.5 ? '#ffffff' : '#1f2937'
-  }
-  const t = (val - min) / range
-  return t > 0.55 ? '#ffffff' : '#1f2937'
-}
-
-function interpolateOpacity(baseColor: string, opacity: number): string {
-  // For CSS var() colors, we use opacity approach
-  // Return as rgba-compatible format
-  const hex = baseColor.includes('#') ? baseColor : '#3b82f6'
-  const r = parseInt(hex.slice(1, 3), 16) || 59
-  const g = parseInt(hex.slice(3, 5), 16) || 130
-  const b = parseInt(hex.slice(5, 7), 16) || 246
-  return `rgba(${r},${g},${b},${opacity.toFixed(2)})`
+/** Cell colors over every value, and the area left beside the legend. `minColor`/`maxColor` stand in for a palette. */
+function colorMap(ctx: RenderContext): ColorMap {
+  const mOpts = ctx.options as MatrixOptions
+  const config: ColorScaleOptions = typeof mOpts.colorScale === 'string' ? { type: mOpts.colorScale } : mOpts.colorScale ?? {}
+  const ends = [mOpts.minColor, mOpts.maxColor].filter((c): c is string => c !== undefined)
+  return layoutColorMap(ctx.data.series.flatMap(s => s.values), ctx.area, ctx, {
+    scale: config.palette || ends.length < 2 ? config : { ...config, palette: ends },
+    legend: mOpts.colorLegend,
+  })
 }
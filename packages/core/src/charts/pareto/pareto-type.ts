@@ -4,6 +4,7 @@ import type {
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { prepareData } from '../../data/prepare'
+import { seriesValues } from '../../data/xy'
 import { group, rect, path, circle, text, line } from '../../render/tree'
 import { PathBuilder } from '../../render/tree'
 import { getBandwidth } from '../../utils/scale'
@@ -17,8 +18,12 @@ import { getBandwidth } from '../../utils/scale'
  * - Cumulative percentages are computed automatically.
  *
  * Renders: bars (primary color) + cumulative line (secondary) + 80% dashed line.
+ * The cumulative line sits on its own 0–100% axis on the right, so the bars
+ * keep the full height of the primary axis. Configure it via `yAxes` with id 'cumulative'.
  */
 
+const CUMULATIVE_AXIS = 'cumulative'
+
 export const paretoChartType = defineChartType({
   type: 'pareto',
   useBandScale: true,
@@ -29,11 +34,12 @@ export const paretoChartType = defineChartType({
     if (!series) return prepareData(data, options)
 
     const labels = data.labels ?? []
-    const indices = series.values.map((_, i) => i)
-    indices.sort((a, b) => (series.values[b] ?? 0) - (series.values[a] ?? 0))
+    const values = seriesValues(series)
+    const indices = values.map((_, i) => i)
+    indices.sort((a, b) => (values[b] ?? 0) - (values[a] ?? 0))
 
     const sortedLabels = indices.map(i => String(labels[i] ?? ''))
-    const sortedValues = indices.map(i => series.values[i] ?? 0)
+    const sortedValues = indices.map(i => values[i] ?? 0)
     const total = sortedValues.reduce((s, v) => s + v, 0)
 
     // Compute cumulative percentages for y-axis range
@@ -47,8 +53,8 @@ export const paretoChartType = defineChartType({
     const sortedData: ChartData = {
       labels: sortedLabels,
       series: [
-        { name: series.name, values: sortedValues },
-        { name: 'Cumulative %', values: cumValues },
+        { name: series.name, values: sortedValues, meta: series.meta && indices.map(i => series.meta![i]) },
+        { name: 'Cumulative %', values: cumValues, yAxis: CUMULATIVE_AXIS },
       ],
     }
 
@@ -59,11 +65,20 @@ export const paretoChartType = defineChartType({
       prepared.bounds.yMin = 0
     }
 
+    // Cumulative axis always spans 0–100% unless configured otherwise
+    const cumAxis = prepared.yAxes?.find(a => a.id === CUMULATIVE_AXIS)
+    if (cumAxis) {
+      cumAxis.yMin = cumAxis.min ?? 0
+      cumAxis.yMax = cumAxis.max ?? 100
+      cumAxis.format ??= (v) => `${Math.round(v)}%`
+    }
+
     return prepared
   },
 
   render(ctx: RenderContext): RenderNode[] {
     const { data, options, xScale, yScale, area, theme } = ctx
+    const cumScale = ctx.yScales?.[CUMULATIVE_AXIS] ?? yScale
     const nodes: RenderNode[] = []
 
     const barSeries = data.series[0]
@@ -106,20 +121,14 @@ export const paretoChartType = defineChartType({
 
     // Cumulative percentage line
     if (cumSeries && cumSeries.values.length > 0) {
-      const yDomain = yScale.getDomain()
-      const yMax = yDomain[1] as number
-
       const lineNodes: RenderNode[] = []
       const pb = new PathBuilder()
       let started = false
 
       for (let i = 0; i < cumSeries.values.length; i++) {
         const cumPct = cumSeries.values[i]!
-        // Map cumulative % (0-100) proportionally onto the y scale
-        // cumPct maps to (cumPct / 100) * yMax on the value scale
-        const mappedVal = (cumPct / 100) * yMax
         const px = xScale.map(i)
-        const py = yScale.map(mappedVal)
+        const py = cumScale.map(cumPct)
 
         if (!started) {
           pb.moveTo(px, py)
@@ -149,8 +158,7 @@ export const paretoChartType = defineChartType({
       }))
 
       // 80% threshold line
-      const threshold80Val = (80 / 100) * yMax
-      const threshold80Y = yScale.map(threshold80Val)
+      const threshold80Y = cumScale.map(80)
 
       lineNodes.push(line(area.x, threshold80Y, area.x + area.width, threshold80Y, {
         class: 'chartts-pareto-threshold',
@@ -159,11 +167,11 @@ export const paretoChartType = defineChartType({
         strokeDasharray: '6,3',
       }))
 
-      // 80% label on right side
-      lineNodes.push(text(area.x + area.width + 4, threshold80Y, '80%', {
+      // 80% label inside the plot — the cumulative axis occupies the right margin
+      lineNodes.push(text(area.x + area.width - 4, threshold80Y - 4, '80%', {
         fill: theme.textColor,
-        textAnchor: 'start',
-        dominantBaseline: 'central',
+        textAnchor: 'end',
+        dominantBaseline: 'auto',
         fontSize: theme.fontSizeSmall,
         fontFamily: theme.fontFamily,
       }))
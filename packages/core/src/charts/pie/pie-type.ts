@@ -5,7 +5,7 @@ import type {
 import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
 import { group, path, text } from '../../render/tree'
-import { roundedSlicePath } from '../../utils/slice-path'
+import { roundedSlicePath, slicePath } from '../../utils/slice-path'
 
 export interface PieOptions extends ResolvedOptions {
   /** Inner radius ratio (0 = pie, 0.5+ = donut). Default 0.08 (small center gap). */
@@ -74,16 +74,16 @@ export const pieChartType = defineChartType({
       // Per-slice clamp: inner pad must not exceed 15% of the slice angle
       const sliceInnerPad = Math.min(innerPadAngle, sliceAngle * 0.15)
 
-      const d = roundedSlicePath(
+      const shape = {
         cx, cy, outerR, innerR,
-        startAngle + outerPadAngle, endAngle - outerPadAngle,
-        startAngle + sliceInnerPad, endAngle - sliceInnerPad,
+        outerStart: startAngle + outerPadAngle, outerEnd: endAngle - outerPadAngle,
+        innerStart: startAngle + sliceInnerPad, innerEnd: endAngle - sliceInnerPad,
         cornerRadius,
-      )
+      }
 
       const colorIndex = i % ctx.options.colors.length
       const sliceNodes: RenderNode[] = [
-        path(d, {
+        slicePath(shape, {
           class: 'chartts-slice',
           fill: `url(#chartts-pie-${colorIndex})`,
           'data-series': 0,
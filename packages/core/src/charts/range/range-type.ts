@@ -41,7 +41,7 @@ export const rangeChartType = defineChartType({
 
     // Support range from options OR from 2 series
     const resolvedRange = range ?? (data.series.length >= 2
-      ? { lower: data.series[0]!.values, upper: data.series[1]!.values }
+      ? { lower: prepared.series[0]!.values, upper: prepared.series[1]!.values }
       : null)
 
     if (resolvedRange) {
@@ -0,0 +1,288 @@
+/**
+ * Sankey layout.
+ *
+ * Steps:
+ * 1. Cycle detection — links that close a cycle (retries, loops back to an
+ *    earlier stage) are marked circular and left out of column assignment
+ * 2. Columns from the longest path, then aligned (justify/left/right/center)
+ * 3. One value→px scale for every column, so a link is as wide at its
+ *    target as at its source
+ * 4. Iterative relaxation — nodes drift toward the weighted centre of their
+ *    neighbours, alternating directions, with collisions resolved per column
+ * 5. Links sorted at each node by the position of the other end, which
+ *    keeps bands from crossing where they leave and enter nodes
+ * 6. Circular links get their own lane below the nodes and are routed
+ *    around them
+ */
+
+export type SankeyAlign = 'justify' | 'left' | 'right' | 'center'
+
+export interface SankeyNode {
+  name: string
+  index: number
+  column: number
+  x: number
+  y: number
+  height: number
+  value: number
+  totalIn: number
+  totalOut: number
+}
+
+export interface SankeyLink {
+  source: number
+  target: number
+  value: number
+  /** Offset of the band's top edge from the source / target node's top. */
+  sy: number
+  ty: number
+  width: number
+  /** Closes a cycle — routed around the nodes through `laneY`. */
+  circular: boolean
+  /** Centre line of a circular link's lane below the nodes. */
+  laneY: number
+}
+
+export interface SankeyLayoutOpts {
+  area: { x: number; y: number; width: number; height: number }
+  nodeWidth: number
+  nodePadding: number
+  align: SankeyAlign
+  iterations: number
+}
+
+/** Gap between circular-link lanes, and between the nodes and the first lane. */
+const LANE_GAP = 4
+
+/** Room kept left and right of the nodes for circular links to turn in. */
+export const CIRCULAR_MARGIN = 24
+
+export function sankeyLayout(nodes: SankeyNode[], links: SankeyLink[], opts: SankeyLayoutOpts): void {
+  if (nodes.length === 0) return
+  const { nodeWidth, nodePadding } = opts
+
+  markCircular(nodes.length, links)
+  const flow = links.filter(l => !l.circular)
+  const circular = links.filter(l => l.circular)
+  const columnCount = assignColumns(nodes, flow, links, opts.align)
+
+  for (const node of nodes) node.value = Math.max(node.totalIn, node.totalOut)
+
+  const columns: SankeyNode[][] = Array.from({ length: columnCount }, () => [])
+  for (const node of nodes) columns[node.column]!.push(node)
+
+  // Circular links turn outside the outer columns and run in lanes below the
+  // nodes; scale everything to fit
+  const inset = circular.length ? Math.min(CIRCULAR_MARGIN, Math.max(0, (opts.area.width - nodeWidth) / 2)) : 0
+  const area = { ...opts.area, x: opts.area.x + inset, width: opts.area.width - 2 * inset }
+  const circularValue = circular.reduce((s, l) => s + l.value, 0)
+  const laneGaps = circular.length ? (circular.length + 1) * LANE_GAP : 0
+  let ky = Infinity
+  for (const column of columns) {
+    const total = column.reduce((s, n) => s + n.value, 0)
+    const room = area.height - laneGaps - Math.max(0, column.length - 1) * nodePadding
+    if (total > 0) ky = Math.min(ky, room / (total + circularValue))
+  }
+  if (!Number.isFinite(ky) || ky < 0) ky = 0
+  const nodesBottom = area.y + area.height - laneGaps - circularValue * ky
+
+  const span = Math.max(1, columnCount - 1)
+  for (const node of nodes) {
+    node.x = area.x + (columnCount === 1 ? 0 : (node.column / span) * (area.width - nodeWidth))
+    node.height = node.value * ky
+  }
+  for (const link of links) link.width = link.value * ky
+
+  // Initial placement: stacked from the top in input order
+  for (const column of columns) {
+    let y = area.y
+    for (const node of column) {
+      node.y = y
+      y += node.height + nodePadding
+    }
+    resolveCollisions(column, area.y, nodesBottom, nodePadding)
+  }
+
+  const incoming = nodes.map(() => [] as SankeyLink[])
+  const outgoing = nodes.map(() => [] as SankeyLink[])
+  for (const link of flow) {
+    outgoing[link.source]!.push(link)
+    incoming[link.target]!.push(link)
+  }
+
+  for (let i = 0; i < opts.iterations; i++) {
+    const alpha = 0.99 ** i
+    relax(columns.slice(0, -1).reverse(), outgoing, l => nodes[l.target]!, alpha, area.y, nodesBottom, nodePadding)
+    relax(columns.slice(1), incoming, l => nodes[l.source]!, alpha, area.y, nodesBottom, nodePadding)
+  }
+
+  orderLinks(nodes, links)
+
+  // Short loops take the lanes nearest the nodes, so longer ones wrap around them
+  const reach = (l: SankeyLink): number => Math.abs(nodes[l.source]!.column - nodes[l.target]!.column)
+  let laneY = nodesBottom + LANE_GAP
+  for (const link of circular.sort((a, b) => reach(a) - reach(b))) {
+    link.laneY = laneY + link.width / 2
+    laneY += link.width + LANE_GAP
+  }
+}
+
+/**
+ * Mark links that close a cycle. A depth-first walk from the sources (then
+ * any node not yet reached) flags each link back onto the current path;
+ * self-links are always circular.
+ */
+function markCircular(count: number, links: SankeyLink[]): void {
+  const out: SankeyLink[][] = Array.from({ length: count }, () => [])
+  const hasIncoming = new Array<boolean>(count).fill(false)
+  for (const link of links) {
+    link.circular = link.source === link.target
+    if (!link.circular) {
+      out[link.source]!.push(link)
+      hasIncoming[link.target] = true
+    }
+  }
+
+  const state = new Uint8Array(count) // 0 unvisited, 1 on path, 2 done
+  const visit = (start: number): void => {
+    const stack: { node: number; next: number }[] = [{ node: start, next: 0 }]
+    state[start] = 1
+    while (stack.length) {
+      const top = stack[stack.length - 1]!
+      const link = out[top.node]![top.next++]
+      if (!link) {
+        state[top.node] = 2
+        stack.pop()
+      } else if (state[link.target] === 1) {
+        link.circular = true
+      } else if (state[link.target] === 0) {
+        state[link.target] = 1
+        stack.push({ node: link.target, next: 0 })
+      }
+    }
+  }
+  for (let i = 0; i < count; i++) if (!hasIncoming[i] && !state[i]) visit(i)
+  for (let i = 0; i < count; i++) if (!state[i]) visit(i)
+}
+
+/**
+ * Longest-path columns, aligned. Only nodes without any outgoing link —
+ * circular ones included — count as sinks. Returns the column count.
+ */
+function assignColumns(nodes: SankeyNode[], flow: SankeyLink[], links: SankeyLink[], align: SankeyAlign): number {
+  const depth = longestPath(nodes.length, flow, l => l.source, l => l.target)
+  const height = longestPath(nodes.length, flow, l => l.target, l => l.source)
+  const maxDepth = Math.max(0, ...depth)
+
+  const hasIn = new Array<boolean>(nodes.length).fill(false)
+  const hasOut = new Array<boolean>(nodes.length).fill(false)
+  for (const l of links) {
+    hasOut[l.source] = true
+    if (!l.circular) hasIn[l.target] = true
+  }
+
+  for (const node of nodes) {
+    const i = node.index
+    switch (align) {
+      case 'left': node.column = depth[i]!; break
+      case 'right': node.column = maxDepth - height[i]!; break
+      case 'center':
+        node.column = hasIn[i] || !flow.some(l => l.source === i)
+          ? depth[i]!
+          : Math.min(...flow.filter(l => l.source === i).map(l => depth[l.target]!)) - 1
+        break
+      default: node.column = hasOut[i] ? depth[i]! : maxDepth
+    }
+  }
+  return maxDepth + 1
+}
+
+/** Length of the longest path reaching each node along `from` → `to` (Kahn order). */
+function longestPath(
+  count: number,
+  flow: SankeyLink[],
+  from: (l: SankeyLink) => number,
+  to: (l: SankeyLink) => number,
+): number[] {
+  const result = new Array<number>(count).fill(0)
+  const indegree = new Array<number>(count).fill(0)
+  const next: number[][] = Array.from({ length: count }, () => [])
+  for (const l of flow) {
+    next[from(l)]!.push(to(l))
+    indegree[to(l)]!++
+  }
+  const queue: number[] = []
+  for (let i = 0; i < count; i++) if (indegree[i] === 0) queue.push(i)
+  for (let q = 0; q < queue.length; q++) {
+    const i = queue[q]!
+    for (const j of next[i]!) {
+      result[j] = Math.max(result[j]!, result[i]! + 1)
+      if (--indegree[j]! === 0) queue.push(j)
+    }
+  }
+  return result
+}
+
+/** Move each node toward the value-weighted centre of its neighbours across `links`. */
+function relax(
+  columns: SankeyNode[][],
+  links: SankeyLink[][],
+  other: (l: SankeyLink) => SankeyNode,
+  alpha: number,
+  top: number,
+  bottom: number,
+  padding: number,
+): void {
+  for (const column of columns) {
+    for (const node of column) {
+      let weight = 0
+      let sum = 0
+      for (const link of links[node.index]!) {
+        const n = other(link)
+        sum += link.value * (n.y + n.height / 2)
+        weight += link.value
+      }
+      if (weight > 0) node.y += (sum / weight - (node.y + node.height / 2)) * alpha
+    }
+    resolveCollisions(column, top, bottom, padding)
+  }
+}
+
+/** Sort a column by position, then push overlapping nodes apart within [top, bottom]. */
+function resolveCollisions(column: SankeyNode[], top: number, bottom: number, padding: number): void {
+  column.sort((a, b) => a.y - b.y || a.index - b.index)
+  let y = top
+  for (const node of column) {
+    if (node.y < y) node.y = y
+    y = node.y + node.height + padding
+  }
+  let limit = bottom
+  for (let i = column.length - 1; i >= 0; i--) {
+    const node = column[i]!
+    if (node.y + node.height > limit) node.y = limit - node.height
+    limit = node.y - padding
+  }
+}
+
+/**
+ * Stack links at each node in the order of the node at their other end —
+ * circular links last, since they leave and enter from below.
+ */
+function orderLinks(nodes: SankeyNode[], links: SankeyLink[]): void {
+  const otherY = (link: SankeyLink, end: 'source' | 'target'): number =>
+    link.circular ? Infinity : nodes[link[end]]!.y
+
+  const bySource = [...links].sort((a, b) => otherY(a, 'target') - otherY(b, 'target') || a.target - b.target)
+  const sourceOffset = new Array<number>(nodes.length).fill(0)
+  for (const link of bySource) {
+    link.sy = sourceOffset[link.source]!
+    sourceOffset[link.source]! += link.width
+  }
+
+  const byTarget = [...links].sort((a, b) => otherY(a, 'source') - otherY(b, 'source') || a.source - b.source)
+  const targetOffset = new Array<number>(nodes.length).fill(0)
+  for (const link of byTarget) {
+    link.ty = targetOffset[link.target]!
+    targetOffset[link.target]! += link.width
+  }
+}
@@ -6,6 +6,7 @@ import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
 import { group, path, rect, text } from '../../render/tree'
 import { PathBuilder } from '../../render/tree'
+import { CIRCULAR_MARGIN, sankeyLayout, type SankeyAlign, type SankeyLink, type SankeyNode } from './layout'
 
 /**
  * Sankey / flow diagram.
@@ -22,25 +23,23 @@ import { PathBuilder } from '../../render/tree'
  * This implementation auto-detects the format:
  * If series names contain "→" or "->", parse as source→target flows.
  * Otherwise treat as adjacency: series[i] = from node i, values[j] = flow to node j.
+ *
+ * Links that loop back to an earlier node (retries) are routed below the
+ * nodes. Hovering a node highlights everything upstream and downstream of it:
+ * links and nodes carry the nodes whose flow they belong to in `data-flow`.
  */
 
-interface SankeyNode {
-  name: string
-  index: number
-  column: number
-  y: number
-  height: number
-  totalIn: number
-  totalOut: number
-}
-
-interface SankeyLink {
-  source: number
-  target: number
-  value: number
-  sy: number   // source y offset
-  ty: number   // target y offset
-  width: number
+export interface SankeyOptions extends ResolvedOptions {
+  /** Column placement: 'justify' (default) pushes sinks to the last column. */
+  nodeAlign?: SankeyAlign
+  /** Node width in px. Default min(20, 4% of the width). */
+  nodeWidth?: number
+  /** Vertical gap between nodes in px. Default 8. */
+  nodePadding?: number
+  /** Relaxation passes. Default 32. */
+  iterations?: number
+  /** Color links by their source or target node. Default 'source'. */
+  linkColor?: 'source' | 'target'
 }
 
 export const sankeyChartType = defineChartType({
@@ -53,42 +52,44 @@ export const sankeyChartType = defineChartType({
   },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, area, theme, options } = ctx
+    const { theme, options } = ctx
     const nodes: RenderNode[] = []
 
-    const { sankeyNodes, sankeyLinks } = parseSankeyData(data, options)
-    if (sankeyNodes.length === 0 || sankeyLinks.length === 0) return nodes
-
-    // Layout
-    const columns = layoutColumns(sankeyNodes, sankeyLinks, area)
-    const nodeWidth = Math.min(20, area.width * 0.04)
-    const nodePadding = 8
-
-    // Position nodes within columns
-    for (const col of columns) {
-      const colNodes = sankeyNodes.filter(n => n.column === col)
-      const totalHeight = colNodes.reduce((s, n) => s + n.height, 0)
-      const gaps = Math.max(0, colNodes.length - 1) * nodePadding
-      const scale = (area.height - gaps) / Math.max(totalHeight, 1)
-
-      let y = area.y
-      for (const node of colNodes) {
-        node.height = node.height * scale
-        node.y = y
-        y += node.height + nodePadding
-      }
-    }
-
-    // Compute link positions
-    computeLinkPositions(sankeyNodes, sankeyLinks)
+    const layout = buildSankey(ctx)
+    if (!layout) return nodes
+    const { sankeyNodes, sankeyLinks, nodeWidth } = layout
+    const { linkFlow, nodeFlow } = flowMembership(sankeyNodes, sankeyLinks)
+    const byTarget = (options as SankeyOptions).linkColor === 'target'
 
-    // Render links (curved bands)
+    // Render links (curved bands; loops as thick strokes routed below the nodes)
     for (let li = 0; li < sankeyLinks.length; li++) {
       const link = sankeyLinks[li]!
       const src = sankeyNodes[link.source]!
       const tgt = sankeyNodes[link.target]!
-      const x0 = src.y !== undefined ? getNodeX(src, columns, area, nodeWidth) + nodeWidth : 0
-      const x1 = tgt.y !== undefined ? getNodeX(tgt, columns, area, nodeWidth) : 0
+      const color = options.colors[(byTarget ? link.target : link.source) % options.colors.length]!
+      const attrs = {
+        'data-series': link.source,
+        'data-index': li,
+        'data-flow': linkFlow[li]!.join(' '),
+        tabindex: 0,
+        role: 'img',
+        ariaLabel: `${src.name} → ${tgt.name}: ${link.value}`,
+      }
+
+      if (link.circular) {
+        nodes.push(path(circularPath(link, src, tgt, nodeWidth), {
+          ...attrs,
+          class: 'chartts-sankey-link chartts-sankey-link-circular',
+          fill: 'none',
+          stroke: color,
+          strokeWidth: Math.max(link.width, 1),
+          strokeOpacity: 0.3,
+        }))
+        continue
+      }
+
+      const x0 = src.x + nodeWidth
+      const x1 = tgt.x
       const y0 = src.y + link.sy
       const y1 = tgt.y + link.ty
       const w = link.width
@@ -101,24 +102,19 @@ export const sankeyChartType = defineChartType({
       pb.curveTo(cx, y1 + w, cx, y0 + w, x0, y0 + w)
       pb.close()
 
-      const color = options.colors[link.source % options.colors.length]!
-
       nodes.push(path(pb.build(), {
+        ...attrs,
         class: 'chartts-sankey-link',
         fill: color,
         fillOpacity: 0.3,
-        'data-series': link.source,
-        'data-index': li,
-        tabindex: 0,
-        role: 'img',
-        ariaLabel: `${src.name} → ${tgt.name}: ${link.value}`,
       }))
     }
 
     // Render nodes (rectangles + labels)
+    const lastColumn = Math.max(...sankeyNodes.map(n => n.column))
     for (let ni = 0; ni < sankeyNodes.length; ni++) {
       const node = sankeyNodes[ni]!
-      const x = getNodeX(node, columns, area, nodeWidth)
+      const x = node.x
       const color = options.colors[ni % options.colors.length]!
       const nodeGroup: RenderNode[] = []
 
@@ -130,18 +126,18 @@ export const sankeyChartType = defineChartType({
         'data-index': 0,
         tabindex: 0,
         role: 'img',
-        ariaLabel: `${node.name}: ${Math.max(node.totalIn, node.totalOut)}`,
+        ariaLabel: `${node.name}: ${node.value}`,
       }))
 
       // Label
-      const isLeft = node.column < columns.length / 2
+      const isLeft = node.column < (lastColumn + 1) / 2
       const labelX = isLeft ? x + nodeWidth + 6 : x - 6
       const anchor = isLeft ? 'start' : 'end'
 
       nodeGroup.push(text(labelX, node.y + node.height / 2, node.name, {
         class: 'chartts-sankey-label',
         fill: theme.textColor,
-        textAnchor: anchor as 'start' | 'end',
+        textAnchor: anchor,
         dominantBaseline: 'central',
         fontSize: theme.fontSizeSmall,
         fontFamily: theme.fontFamily,
@@ -150,41 +146,38 @@ export const sankeyChartType = defineChartType({
       nodes.push(group(nodeGroup, {
         class: `chartts-series chartts-series-${ni}`,
         'data-series-name': node.name,
+        'data-flow': nodeFlow[ni]!.join(' '),
       }))
     }
 
     return nodes
   },
 
+  getHighlightNodes(ctx: RenderContext, hit: HitResult): RenderNode[] {
+    const layout = buildSankey(ctx)
+    const node = layout?.sankeyNodes[hit.seriesIndex]
+    if (!layout || !node) return []
+    return [
+      rect(node.x - 1, node.y - 1, layout.nodeWidth + 2, Math.max(node.height, 2) + 2, {
+        class: 'chartts-highlight-bar',
+        fill: 'none',
+        stroke: ctx.options.colors[node.index % ctx.options.colors.length]!,
+        strokeWidth: 2,
+        strokeOpacity: 0.8,
+      }),
+    ]
+  },
+
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, area, options } = ctx
-    const { sankeyNodes, sankeyLinks } = parseSankeyData(data, options)
-    if (sankeyNodes.length === 0) return null
-
-    const columns = layoutColumns(sankeyNodes, sankeyLinks, area)
-    const nodeWidth = Math.min(20, area.width * 0.04)
-    const nodePadding = 8
-
-    // Re-layout (same as render)
-    for (const col of columns) {
-      const colNodes = sankeyNodes.filter(n => n.column === col)
-      const totalHeight = colNodes.reduce((s, n) => s + n.height, 0)
-      const gaps = Math.max(0, colNodes.length - 1) * nodePadding
-      const scale = (area.height - gaps) / Math.max(totalHeight, 1)
-      let y = area.y
-      for (const node of colNodes) {
-        node.height = node.height * scale
-        node.y = y
-        y += node.height + nodePadding
-      }
-    }
+    const layout = buildSankey(ctx)
+    if (!layout) return null
+    const { sankeyNodes, nodeWidth } = layout
 
     // Check node hits
-    for (let ni = 0; ni < sankeyNodes.length; ni++) {
-      const node = sankeyNodes[ni]!
-      const x = getNodeX(node, columns, area, nodeWidth)
+    for (const node of sankeyNodes) {
+      const { x } = node
       if (mx >= x && mx <= x + nodeWidth && my >= node.y && my <= node.y + node.height) {
-        return { seriesIndex: ni, pointIndex: 0, distance: 0, x: x + nodeWidth / 2, y: node.y + node.height / 2 }
+        return { seriesIndex: node.index, pointIndex: 0, distance: 0, x: x + nodeWidth / 2, y: node.y + node.height / 2 }
       }
     }
 
@@ -192,6 +185,95 @@ export const sankeyChartType = defineChartType({
   },
 })
 
+/** Parse and lay out the diagram. Null when there is nothing to draw. */
+function buildSankey(ctx: RenderContext): { sankeyNodes: SankeyNode[]; sankeyLinks: SankeyLink[]; nodeWidth: number } | null {
+  const { data, area, options } = ctx
+  const { sankeyNodes, sankeyLinks } = parseSankeyData(data, options)
+  if (sankeyNodes.length === 0 || sankeyLinks.length === 0) return null
+
+  const sOpts = options as SankeyOptions
+  const nodeWidth = sOpts.nodeWidth ?? Math.min(20, area.width * 0.04)
+  sankeyLayout(sankeyNodes, sankeyLinks, {
+    area,
+    nodeWidth,
+    nodePadding: sOpts.nodePadding ?? 8,
+    align: sOpts.nodeAlign ?? 'justify',
+    iterations: sOpts.iterations ?? 32,
+  })
+  return { sankeyNodes, sankeyLinks, nodeWidth }
+}
+
+/**
+ * A circular link's centre line: out of the source's right edge, down to its
+ * lane below the nodes, back left past the target and up into its left edge.
+ * Drawn as a stroke as wide as the link.
+ */
+function circularPath(link: SankeyLink, src: SankeyNode, tgt: SankeyNode, nodeWidth: number): string {
+  const w = link.width
+  const ys = src.y + link.sy + w / 2
+  const yt = tgt.y + link.ty + w / 2
+  const lane = link.laneY
+  const ext = Math.min(CIRCULAR_MARGIN, 8 + w / 2)
+  const right = src.x + nodeWidth + ext
+  const left = tgt.x - ext
+  const r = Math.max(0, Math.min(ext, (lane - ys) / 2, (lane - yt) / 2))
+
+  return new PathBuilder()
+    .moveTo(src.x + nodeWidth, ys)
+    .hTo(right - r)
+    .quadTo(right, ys, right, ys + r)
+    .vTo(lane - r)
+    .quadTo(right, lane, right - r, lane)
+    .hTo(left + r)
+    .quadTo(left, lane, left, lane - r)
+    .vTo(yt + r)
+    .quadTo(left, yt, left + r, yt)
+    .hTo(tgt.x)
+    .build()
+}
+
+/**
+ * Which hovered nodes each link and node stays lit for: a node's flow is
+ * everything upstream and downstream of it along non-circular links, plus
+ * its own loops.
+ */
+function flowMembership(nodes: SankeyNode[], links: SankeyLink[]): { linkFlow: number[][]; nodeFlow: number[][] } {
+  const linkFlow = links.map(() => [] as number[])
+  const nodeFlow = nodes.map(() => [] as number[])
+  const out = nodes.map(() => [] as number[])
+  const into = nodes.map(() => [] as number[])
+  links.forEach((l, li) => {
+    if (l.circular) return
+    out[l.source]!.push(li)
+    into[l.target]!.push(li)
+  })
+
+  for (const node of nodes) {
+    const seenNodes = new Set([node.index])
+    const seenLinks = new Set<number>()
+    for (const [adjacent, end] of [[out, 'target'], [into, 'source']] as const) {
+      const stack = [node.index]
+      while (stack.length) {
+        for (const li of adjacent[stack.pop()!]!) {
+          if (seenLinks.has(li)) continue
+          seenLinks.add(li)
+          const next = links[li]![end]
+          if (!seenNodes.has(next)) {
+            seenNodes.add(next)
+            stack.push(next)
+          }
+        }
+      }
+    }
+    links.forEach((l, li) => {
+      if (l.circular && (l.source === node.index || l.target === node.index)) seenLinks.add(li)
+    })
+    for (const li of seenLinks) linkFlow[li]!.push(node.index)
+    for (const n of seenNodes) nodeFlow[n]!.push(node.index)
+  }
+  return { linkFlow, nodeFlow }
+}
+
 // ---------------------------------------------------------------------------
 // Parsing helpers
 // ---------------------------------------------------------------------------
@@ -211,9 +293,11 @@ function parseSankeyData(
     sankeyNodes.push({
       name,
       index: idx,
-      column: -1,
+      column: 0,
+      x: 0,
       y: 0,
       height: 0,
+      value: 0,
       totalIn: 0,
       totalOut: 0,
     })
@@ -231,11 +315,11 @@ function parseSankeyData(
       const srcName = parts[0]!.trim()
       const tgtName = parts[1]!.trim()
       const value = series.values[0] ?? 0
-      if (value <= 0) continue
+      if (!(value > 0)) continue
 
       const src = getOrCreateNode(srcName)
       const tgt = getOrCreateNode(tgtName)
-      sankeyLinks.push({ source: src, target: tgt, value, sy: 0, ty: 0, width: 0 })
+      sankeyLinks.push(newLink(src, tgt, value))
       sankeyNodes[src]!.totalOut += value
       sankeyNodes[tgt]!.totalIn += value
     }
@@ -247,9 +331,9 @@ function parseSankeyData(
     for (let si = 0; si < data.series.length; si++) {
       for (let j = 0; j < data.series[si]!.values.length; j++) {
         const value = data.series[si]!.values[j]!
-        if (value <= 0 || si === j) continue
+        if (!(value > 0) || si === j) continue
         if (si >= sankeyNodes.length || j >= sankeyNodes.length) continue
-        sankeyLinks.push({ source: si, target: j, value, sy: 0, ty: 0, width: 0 })
+        sankeyLinks.push(newLink(si, j, value))
         sankeyNodes[si]!.totalOut += value
         sankeyNodes[j]!.totalIn += value
       }
@@ -259,111 +343,6 @@ function parseSankeyData(
   return { sankeyNodes, sankeyLinks }
 }
 
-// ---------------------------------------------------------------------------
-// Layout
-// ---------------------------------------------------------------------------
-
-function layoutColumns(
-  nodes: SankeyNode[],
-  links: SankeyLink[],
-  _area: { width: number; height: number },
-): number[] {
-  // Assign columns via topological ordering (longest path from source)
-  const adj = new Map<number, number[]>()
-  const inDegree = new Map<number, number>()
-
-  for (const n of nodes) {
-    adj.set(n.index, [])
-    inDegree.set(n.index, 0)
-  }
-  for (const l of links) {
-    adj.get(l.source)!.push(l.target)
-    inDegree.set(l.target, (inDegree.get(l.target) ?? 0) + 1)
-  }
-
-  // BFS for column assignment
-  const queue: number[] = []
-  for (const n of nodes) {
-    if ((inDegree.get(n.index) ?? 0) === 0) {
-      n.column = 0
-      queue.push(n.index)
-    }
-  }
-
-  while (queue.length > 0) {
-    const idx = queue.shift()!
-    const node = nodes[idx]!
-    for (const tgt of adj.get(idx)!) {
-      const tgtNode = nodes[tgt]!
-      tgtNode.column = Math.max(tgtNode.column, node.column + 1)
-      // Only add to queue once all predecessors processed
-      const allPredsDone = links
-        .filter(l => l.target === tgt)
-        .every(l => nodes[l.source]!.column >= 0)
-      if (allPredsDone && !queue.includes(tgt)) {
-        queue.push(tgt)
-      }
-    }
-  }
-
-  // Handle any unassigned nodes (cycles or disconnected)
-  for (const n of nodes) {
-    if (n.column < 0) n.column = 0
-  }
-
-  // Set initial heights proportional to flow
-  for (const n of nodes) {
-    n.height = Math.max(n.totalIn, n.totalOut, 1)
-  }
-
-  // Get unique columns sorted
-  const cols = [...new Set(nodes.map(n => n.column))].sort((a, b) => a - b)
-  return cols
-}
-
-function getNodeX(
-  node: SankeyNode,
-  columns: number[],
-  area: { x: number; width: number },
-  nodeWidth: number,
-): number {
-  const maxCol = Math.max(...columns, 1)
-  if (maxCol === 0) return area.x
-  const usableWidth = area.width - nodeWidth
-  return area.x + (node.column / maxCol) * usableWidth
-}
-
-function computeLinkPositions(nodes: SankeyNode[], links: SankeyLink[]): void {
-  // Total flow for normalization
-  const sourceOffsets = new Map<number, number>()
-  const targetOffsets = new Map<number, number>()
-
-  for (const n of nodes) {
-    sourceOffsets.set(n.index, 0)
-    targetOffsets.set(n.index, 0)
-  }
-
-  // Sort links by target position for visual clarity
-  links.sort((a, b) => {
-    const na = nodes[a.target]!
-    const nb = nodes[b.target]!
-    return na.y - nb.y || na.column - nb.column
-  })
-
-  for (const link of links) {
-    const src = nodes[link.source]!
-    const tgt = nodes[link.target]!
-
-    const srcTotal = Math.max(src.totalOut, 1)
-    const tgtTotal = Math.max(tgt.totalIn, 1)
-
-    link.width = (link.value / srcTotal) * src.height
-    const tgtWidth = (link.value / tgtTotal) * tgt.height
-
-    link.sy = sourceOffsets.get(link.source)!
-    link.ty = targetOffsets.get(link.target)!
-
-    sourceOffsets.set(link.source, link.sy + link.width)
-    targetOffsets.set(link.target, link.ty + tgtWidth)
-  }
+function newLink(source: number, target: number, value: number): SankeyLink {
+  return { source, target, value, sy: 0, ty: 0, width: 0, circular: false, laneY: 0 }
 }
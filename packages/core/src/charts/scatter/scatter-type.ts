@@ -1,23 +1,29 @@
 import type {
-  RenderContext, RenderNode, HitResult,
+  RenderContext, RenderNode, HitResult, PreparedData, ScaleType,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { group, circle } from '../../render/tree'
 import { nearestPointHitTest } from '../../utils/hit-test'
+import { pointXScaleType, createIndexMapper, getSeriesYScale } from '../../utils/scale'
 
 export const scatterChartType = defineChartType({
   type: 'scatter',
 
-
+  getScaleTypes(data?: PreparedData): { x: ScaleType; y: ScaleType } {
+    return { x: pointXScaleType(data), y: 'linear' }
+  },
 
   render(ctx: RenderContext): RenderNode[] {
-    const { data, xScale, yScale, theme } = ctx
+    const { data, theme } = ctx
     const nodes: RenderNode[] = []
 
     for (const series of data.series) {
       const dots: RenderNode[] = []
+      const xScale = createIndexMapper(ctx, series)
+      const yScale = getSeriesYScale(ctx, series)
 
       for (let i = 0; i < series.values.length; i++) {
+        if (isNaN(series.values[i]!)) continue // skip missing data
         const x = xScale.map(i)
         const y = yScale.map(series.values[i]!)
 
@@ -44,6 +50,7 @@ export const scatterChartType = defineChartType({
       nodes.push(group(dots, {
         class: `chartts-series chartts-series-${series.index}`,
         'data-series-name': series.name,
+        key: series.name,
       }))
     }
 
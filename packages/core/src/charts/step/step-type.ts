@@ -1,6 +1,6 @@
 import type {
   ChartData, ResolvedOptions, PreparedData,
-  RenderContext, RenderNode, HitResult,
+  RenderContext, RenderNode, HitResult, ScaleType,
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { lineChartType } from '../line/line-type'
@@ -14,6 +14,9 @@ import { lineChartType } from '../line/line-type'
 export const stepChartType = defineChartType({
   type: 'step',
 
+  getScaleTypes(data?: PreparedData, options?: ResolvedOptions): { x: ScaleType; y: ScaleType } {
+    return lineChartType.getScaleTypes(data, options)
+  },
 
   prepareData(data: ChartData, options: ResolvedOptions): PreparedData {
     return lineChartType.prepareData(data, options)
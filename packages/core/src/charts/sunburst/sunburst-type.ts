@@ -4,8 +4,9 @@ import type {
 } from '../../types'
 import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
-import { path, text } from '../../render/tree'
-import { roundedSlicePath } from '../../utils/slice-path'
+import { text } from '../../render/tree'
+import { slicePath } from '../../utils/slice-path'
+import { labelSeparator } from '../../features/drilldown'
 
 /**
  * Sunburst chart — hierarchical radial visualization.
@@ -15,6 +16,7 @@ import { roundedSlicePath } from '../../utils/slice-path'
  * - series[0].values: leaf values (sizes)
  * - Hierarchy is encoded via label separators: "A/B/C" means root→A→B→C
  *   If no separators, falls back to flat ring layout (single ring).
+ *   With drill-down on, `drilldown.separator` replaces "/".
  *
  * The chart draws concentric rings from center outward, one ring per depth level.
  */
@@ -22,6 +24,8 @@ import { roundedSlicePath } from '../../utils/slice-path'
 interface SunburstNode {
   name: string
   fullPath: string
+  /** First label under this node. */
+  index: number
   value: number
   children: SunburstNode[]
   depth: number
@@ -34,6 +38,7 @@ interface SunburstNode {
 export const sunburstChartType = defineChartType({
   type: 'sunburst',
   suppressAxes: true,
+  hierarchical: true,
 
 
   prepareData(data: ChartData, options: ResolvedOptions): PreparedData {
@@ -48,7 +53,7 @@ export const sunburstChartType = defineChartType({
     if (!series || series.values.length === 0) return nodes
 
     // Build tree from labels
-    const root = buildTree(data.labels, series.values)
+    const root = buildTree(data.labels, series.values, labelSeparator(options))
     if (root.totalValue === 0) return nodes
 
     const cx = area.x + area.width / 2
@@ -92,16 +97,16 @@ export const sunburstChartType = defineChartType({
 
       const cr = Math.min(4, ringWidth * 0.2)
 
-      const d = roundedSlicePath(
-        cx, cy, r1, r0,
-        node.startAngle + outerPadAngle, node.endAngle - outerPadAngle,
-        node.startAngle + innerPadAngle, node.endAngle - innerPadAngle,
-        cr,
-      )
+      const shape = {
+        cx, cy, outerR: r1, innerR: r0,
+        outerStart: node.startAngle + outerPadAngle, outerEnd: node.endAngle - outerPadAngle,
+        innerStart: node.startAngle + innerPadAngle, innerEnd: node.endAngle - innerPadAngle,
+        cornerRadius: cr,
+      }
 
       const opacity = 1 - (node.depth - 1) * 0.15
 
-      nodes.push(path(d, {
+      nodes.push(slicePath(shape, {
         class: 'chartts-sunburst-sector',
         fill: color,
         fillOpacity: Math.max(0.4, opacity),
@@ -145,7 +150,7 @@ export const sunburstChartType = defineChartType({
   },
 
   hitTest(ctx: RenderContext, mx: number, my: number): HitResult | null {
-    const { data, area } = ctx
+    const { data, area, options } = ctx
     const series = data.series[0]
     if (!series || series.values.length === 0) return null
 
@@ -160,7 +165,8 @@ export const sunburstChartType = defineChartType({
 
     if (dist > maxRadius || dist < innerRadius) return null
 
-    const root = buildTree(data.labels, series.values)
+    const separator = labelSeparator(options)
+    const root = buildTree(data.labels, series.values, separator)
     const maxDepth = getMaxDepth(root)
     const ringWidth = (maxRadius - innerRadius) / Math.max(maxDepth, 1)
 
@@ -176,7 +182,7 @@ export const sunburstChartType = defineChartType({
     // Find sector at this depth and angle
     const hit = findSector(root, depth, angle)
     if (hit) {
-      return { seriesIndex: 0, pointIndex: hit, distance: 0, x: mx, y: my }
+      return { seriesIndex: 0, pointIndex: hit.index, distance: 0, x: mx, y: my, path: hit.fullPath.split(separator) }
     }
 
     return null
@@ -187,18 +193,18 @@ export const sunburstChartType = defineChartType({
 // Tree building
 // ---------------------------------------------------------------------------
 
-function buildTree(labels: (string | number | Date)[], values: number[]): SunburstNode {
+function buildTree(labels: (string | number | Date)[], values: number[], separator: string): SunburstNode {
   const root: SunburstNode = {
-    name: 'root', fullPath: '', value: 0,
+    name: 'root', fullPath: '', index: 0, value: 0,
     children: [], depth: 0, startAngle: 0, endAngle: 0, totalValue: 0,
   }
 
   for (let i = 0; i < labels.length; i++) {
     const label = String(labels[i] ?? `Item ${i}`)
     const value = Math.abs(values[i] ?? 0)
-    if (value <= 0) continue
+    if (!(value > 0)) continue // skip empty and missing values
 
-    const parts = label.includes('/') ? label.split('/') : [label]
+    const parts = label.includes(separator) ? label.split(separator) : [label]
     let current = root
 
     for (let p = 0; p < parts.length; p++) {
@@ -208,7 +214,8 @@ function buildTree(labels: (string | number | Date)[], values: number[]): Sunbur
       if (!child) {
         child = {
           name: part,
-          fullPath: parts.slice(0, p + 1).join('/'),
+          fullPath: parts.slice(0, p + 1).map(part => part.trim()).join(separator),
+          index: i,
           value: 0,
           children: [],
           depth: p + 1,
@@ -269,12 +276,9 @@ function getMaxDepth(node: SunburstNode): number {
   return max
 }
 
-function findSector(node: SunburstNode, targetDepth: number, angle: number): number | null {
+function findSector(node: SunburstNode, targetDepth: number, angle: number): SunburstNode | null {
   if (node.depth === targetDepth) {
-    if (angle >= node.startAngle && angle < node.endAngle) {
-      return node.depth // Return something non-null to indicate a hit
-    }
-    return null
+    return angle >= node.startAngle && angle < node.endAngle ? node : null
   }
 
   for (const child of node.children) {
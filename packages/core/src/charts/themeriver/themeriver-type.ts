@@ -41,7 +41,7 @@ export const themeRiverChartType = defineChartType({
     for (let t = 0; t < timeCount; t++) {
       const column: number[] = []
       for (let si = 0; si < seriesCount; si++) {
-        column.push(Math.abs(data.series[si]!.values[t] ?? 0))
+        column.push(thickness(data.series[si]!.values[t]))
       }
       stacks.push(column)
     }
@@ -172,7 +172,7 @@ export const themeRiverChartType = defineChartType({
     // Compute stacks at this time
     const column: number[] = []
     for (let si = 0; si < seriesCount; si++) {
-      column.push(Math.abs(data.series[si]!.values[t] ?? 0))
+      column.push(thickness(data.series[si]!.values[t]))
     }
     const total = column.reduce((s, v) => s + v, 0)
     const baseline = -total / 2
@@ -183,7 +183,7 @@ export const themeRiverChartType = defineChartType({
     for (let tt = 0; tt < timeCount; tt++) {
       let cum = 0
       for (let si = 0; si < seriesCount; si++) {
-        cum += Math.abs(data.series[si]!.values[tt] ?? 0)
+        cum += thickness(data.series[si]!.values[tt])
       }
       const bl = -cum / 2
       if (bl < yMin) yMin = bl
@@ -212,3 +212,8 @@ export const themeRiverChartType = defineChartType({
     return null
   },
 })
+
+/** Stream thickness at one time — missing values (NaN) leave no band. */
+function thickness(v: number | undefined): number {
+  return v === undefined || Number.isNaN(v) ? 0 : Math.abs(v)
+}
@@ -6,12 +6,14 @@ import { defineChartType } from '../../api/define'
 import { prepareNoAxes } from '../../utils/prepare'
 import { group, path, circle, text } from '../../render/tree'
 import { PathBuilder } from '../../render/tree'
+import { labelSeparator } from '../../features/drilldown'
 
 /**
  * Tree chart — hierarchical node-link diagram.
  *
  * Data convention:
- * - labels: node names. Hierarchy encoded via "Parent/Child/Grandchild" separators.
+ * - labels: node names. Hierarchy encoded via "Parent/Child/Grandchild" separators
+ *   (`drilldown.separator` when drill-down is on).
  * - series[0].values: node values (sizes for circles, optional).
  *
  * Layout: top-to-bottom by default. Configurable via treeLayout option.
@@ -23,6 +25,8 @@ interface TreeNode {
   children: TreeNode[]
   depth: number
   index: number
+  /** Names from the top level down to this node. */
+  path: string[]
   // Computed during layout
   x: number
   y: number
@@ -41,6 +45,7 @@ export interface TreeOptions extends ResolvedOptions {
 export const treeChartType = defineChartType({
   type: 'tree',
   suppressAxes: true,
+  hierarchical: true,
 
 
   prepareData(data: ChartData, options: ResolvedOptions): PreparedData {
@@ -60,7 +65,7 @@ export const treeChartType = defineChartType({
     const showLabels = treeOpts.showLabels ?? true
 
     // Build tree
-    const root = buildTree(data.labels, series.values)
+    const root = buildTree(data.labels, series.values, labelSeparator(options))
     if (!root) return nodes
 
     // Compute leaf counts for spacing
@@ -158,7 +163,7 @@ export const treeChartType = defineChartType({
     const nodeRadius = treeOpts.nodeRadius ?? 6
     const hitRadius = nodeRadius + 5
 
-    const root = buildTree(data.labels, series.values)
+    const root = buildTree(data.labels, series.values, labelSeparator(options))
     if (!root) return null
 
     computeLeafCounts(root)
@@ -181,7 +186,7 @@ export const treeChartType = defineChartType({
       const dist = Math.sqrt((mx - node.x) ** 2 + (my - node.y) ** 2)
       if (dist < bestDist && dist < hitRadius) {
         bestDist = dist
-        best = { seriesIndex: 0, pointIndex: idx, distance: dist, x: node.x, y: node.y }
+        best = { seriesIndex: 0, pointIndex: idx, distance: dist, x: node.x, y: node.y, path: node.path }
       }
       idx++
       for (const child of node.children) {
@@ -198,18 +203,18 @@ export const treeChartType = defineChartType({
 // Tree building
 // ---------------------------------------------------------------------------
 
-function buildTree(labels: (string | number | Date)[], values: number[]): TreeNode | null {
+function buildTree(labels: (string | number | Date)[], values: number[], separator: string): TreeNode | null {
   const root: TreeNode = {
-    name: 'Root', value: 0, children: [], depth: 0, index: 0,
+    name: 'Root', value: 0, children: [], depth: 0, index: 0, path: [],
     x: 0, y: 0, leafCount: 0,
   }
 
-  // Check if labels use "/" separators for hierarchy
-  const hasHierarchy = labels.some(l => String(l).includes('/'))
+  // Check if labels use separators for hierarchy
+  const hasHierarchy = labels.some(l => String(l).includes(separator))
 
   if (hasHierarchy) {
     for (let i = 0; i < labels.length; i++) {
-      const parts = String(labels[i] ?? '').split('/')
+      const parts = String(labels[i] ?? '').split(separator)
       const value = Math.abs(values[i] ?? 1)
       let current = root
 
@@ -221,7 +226,7 @@ function buildTree(labels: (string | number | Date)[], values: number[]): TreeNo
         if (!child) {
           child = {
             name: part, value: 0, children: [], depth: current.depth + 1,
-            index: i, x: 0, y: 0, leafCount: 0,
+            index: i, path: [...current.path, part], x: 0, y: 0, leafCount: 0,
           }
           current.children.push(child)
         }
@@ -237,12 +242,14 @@ function buildTree(labels: (string | number | Date)[], values: number[]): TreeNo
     root.value = Math.abs(values[0] ?? 1)
 
     for (let i = 1; i < labels.length; i++) {
+      const name = String(labels[i] ?? `Node ${i}`)
       root.children.push({
-        name: String(labels[i] ?? `Node ${i}`),
+        name,
         value: Math.abs(values[i] ?? 1),
         children: [],
         depth: 1,
         index: i,
+        path: [name],
         x: 0, y: 0, leafCount: 0,
       })
     }
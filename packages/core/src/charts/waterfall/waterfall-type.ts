@@ -34,7 +34,7 @@ export const waterfallChartType = defineChartType({
     const prepared = prepareData(data, options)
 
     const wOpts = options as WaterfallOptions
-    const series = data.series[0]
+    const series = prepared.series[0]
     if (!series) return prepared
 
     const totals = new Set(wOpts.totals ?? [series.values.length - 1])
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { parseColor, formatColor, colorRamp, contrastText } from '../color'
+import { createColorScale } from '../scale'
+import { heatmapChartType } from '../../charts/heatmap/heatmap-type'
+import { buildScene } from '../../render/scene'
+import type { RenderNode } from '../../types'
+
+const defaults = { colors: ['#3b82f6', '#ef4444'], unknown: '#eeeeee' }
+
+describe('colors', () => {
+  it('parse hex, rgb(), hsl(), names and CSS variable fallbacks', () => {
+    expect(parseColor('#f80')).toEqual([255, 136, 0, 1])
+    expect(parseColor('rgba(10, 20, 30, 0.5)')).toEqual([10, 20, 30, 0.5])
+    expect(parseColor('rgb(100% 0% 50%)')).toEqual([255, 0, 127.5, 1])
+    expect(parseColor('var(--chartts-color-1, #3b82f6)')).toEqual([59, 130, 246, 1])
+    expect(parseColor('Chartreuse')).toEqual([127, 255, 0, 1])
+    expect(formatColor(parseColor('hsl(220 90% 50%)'))).toBe('#0d59f2')
+    expect(formatColor(parseColor('hsla(0.5turn, 100%, 25%, 0.5)'))).toBe('rgba(0,128,128,0.5)')
+    expect(formatColor([59, 130, 246, 1])).toBe('#3b82f6')
+    expect(() => parseColor('var(--brand)')).toThrow('[chartts] Cannot parse color')
+  })
+
+  it('ramp through OKLab between the stops', () => {
+    const ramp = colorRamp(['#000000', '#ffffff'])
+    expect(ramp(0)).toBe('#000000')
+    expect(ramp(1)).toBe('#ffffff')
+    // Perceptual midpoint — darker than the sRGB average #808080
+    const [r, g, b] = parseColor(ramp(0.5))
+    expect(r).toBe(g)
+    expect(g).toBe(b)
+    expect(r).toBeLessThan(128)
+    expect(colorRamp(['#ff0000', 'rgba(255, 0, 0, 0)'])(0.5)).toBe('rgba(255,0,0,0.5)')
+  })
+
+  it('pick readable text for a background', () => {
+    expect(contrastText('#111827')).toBe('#ffffff')
+    expect(contrastText('#fde725')).toBe('#1f2937')
+  })
+})
+
+describe('color scales', () => {
+  it('split quantile classes evenly by count', () => {
+    const scale = createColorScale([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], { type: 'quantile', steps: 2, palette: 'Blues' }, defaults)
+    expect(scale.classes!.breaks).toEqual([5.5])
+    expect(scale.map(5)).toBe(scale.classes!.colors[0])
+    expect(scale.map(6)).toBe(scale.classes!.colors[1])
+    expect(scale.map(NaN)).toBe('#eeeeee')
+  })
+
+  it('puts threshold values in the class above', () => {
+    const scale = createColorScale([3], { type: 'threshold', thresholds: [10, 0] }, defaults)
+    expect(scale.domain).toEqual([0, 10])
+    expect(scale.classes!.breaks).toEqual([0, 10])
+    expect(scale.map(-1)).toBe(scale.classes!.colors[0])
+    expect(scale.map(10)).toBe(scale.classes!.colors[2])
+    expect(() => createColorScale([3], 'threshold', defaults)).toThrow('[chartts] A threshold color scale needs `thresholds`')
+  })
+
+  it('centres diverging scales on zero when the data spans it', () => {
+    const scale = createColorScale([-2, 8], 'diverging', defaults)
+    expect(scale.mid).toBe(0)
+    expect(scale.map(0)).toBe(scale.at(0.5))
+    expect(scale.map(-2)).toBe('#ef4444')
+    expect(scale.map(8)).toBe('#3b82f6')
+    expect(createColorScale([-2, 8], { type: 'diverging', domain: [-2, 5, 8] }, defaults).mid).toBe(5)
+  })
+
+  it('rejects an unknown palette', () => {
+    expect(() => createColorScale([1], { palette: 'Rainbow' as never }, defaults)).toThrow('[chartts] Unknown color palette')
+  })
+})
+
+describe('color legend', () => {
+  function flat(nodes: RenderNode[]): RenderNode[] {
+    return nodes.flatMap(n => n.type === 'group' ? [n, ...flat(n.children)] : [n])
+  }
+
+  it('takes a strip beside the heatmap and labels the class edges', () => {
+    const options = { animate: false, colorScale: { type: 'quantize', steps: 4 }, colorLegend: 'right' }
+    const { nodes } = buildScene(heatmapChartType, {
+      labels: ['Mon', 'Tue'],
+      series: [{ name: 'Week 1', values: [0, 40] }, { name: 'Week 2', values: [20, 10] }],
+    }, options, { width: 400, height: 300 })
+
+    const all = flat(nodes)
+    const legend = all.find(n => n.type === 'group' && n.attrs?.class === 'chartts-color-legend')
+    expect(legend).toBeDefined()
+    const swatches = all.flatMap(n => n.type === 'rect' && n.attrs?.class === 'chartts-color-legend-swatch' ? [n] : [])
+    expect(swatches).toHaveLength(4)
+
+    const cells = all.flatMap(n => n.type === 'rect' && n.attrs?.class === 'chartts-heatmap-cell' ? [n] : [])
+    const legendX = Math.min(...swatches.map(s => s.x))
+    for (const cell of cells) expect(cell.x + cell.width).toBeLessThan(legendX)
+
+    const labels = all.flatMap(n => n.type === 'text' && n.attrs?.class === 'chartts-color-legend-label' ? [n.content] : [])
+    expect(labels).toEqual(['0', '10', '20', '30', '40'])
+  })
+
+  it('renders named, hsl() and unresolvable colors', () => {
+    const data = { labels: ['Mon', 'Tue'], series: [{ name: 'Week 1', values: [0, 40] }] }
+    const fills = (color: string): unknown[] => {
+      const options = { animate: false, colors: [color], colorLegend: 'right' }
+      const { nodes } = buildScene(heatmapChartType, data, options, { width: 400, height: 300 })
+      return flat(nodes).flatMap(n => n.type === 'rect' && n.attrs?.class === 'chartts-heatmap-cell' ? [n.attrs.fill] : [])
+    }
+    expect(fills('red')[1]).toBe('#ff0000')
+    expect(fills('hsl(220 90% 50%)')[1]).toBe('#0d59f2')
+    // Only the browser knows --brand; the default blue stands in
+    expect(fills('var(--brand)')[1]).toBe('#3b82f6')
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * Color parsing and OKLab interpolation.
+ *
+ * Colors are interpolated in OKLab (Ottosson, 2020), where equal steps look
+ * like equal changes in lightness and hue — a blue→yellow ramp passes
+ * through green rather than a muddy gray. Alpha is interpolated linearly.
+ *
+ * CSS variables resolve to their fallback: `var(--brand, #3b82f6)` reads as
+ * #3b82f6, since the actual value is only known to the browser. Colors
+ * with nothing to go on (currentColor, var() without a fallback) render as
+ * the default blue instead of failing the chart.
+ */
+
+/** r, g, b in 0..255, alpha in 0..1. */
+export type RGBA = [number, number, number, number]
+
+/** A color for a position `t` in 0..1. */
+export type ColorInterpolator = (t: number) => string
+
+/** The CSS named colors, as `name:rrggbb` pairs. */
+const NAMED_HEX = `
+aliceblue:f0f8ff antiquewhite:faebd7 aqua:00ffff aquamarine:7fffd4 azure:f0ffff beige:f5f5dc
+bisque:ffe4c4 black:000000 blanchedalmond:ffebcd blue:0000ff blueviolet:8a2be2 brown:a52a2a
+burlywood:deb887 cadetblue:5f9ea0 chartreuse:7fff00 chocolate:d2691e coral:ff7f50
+cornflowerblue:6495ed cornsilk:fff8dc crimson:dc143c cyan:00ffff darkblue:00008b darkcyan:008b8b
+darkgoldenrod:b8860b darkgray:a9a9a9 darkgreen:006400 darkgrey:a9a9a9 darkkhaki:bdb76b
+darkmagenta:8b008b darkolivegreen:556b2f darkorange:ff8c00 darkorchid:9932cc darkred:8b0000
+darksalmon:e9967a darkseagreen:8fbc8f darkslateblue:483d8b darkslategray:2f4f4f darkslategrey:2f4f4f
+darkturquoise:00ced1 darkviolet:9400d3 deeppink:ff1493 deepskyblue:00bfff dimgray:696969
+dimgrey:696969 dodgerblue:1e90ff firebrick:b22222 floralwhite:fffaf0 forestgreen:228b22
+fuchsia:ff00ff gainsboro:dcdcdc ghostwhite:f8f8ff gold:ffd700 goldenrod:daa520 gray:808080
+green:008000 greenyellow:adff2f grey:808080 honeydew:f0fff0 hotpink:ff69b4 indianred:cd5c5c
+indigo:4b0082 ivory:fffff0 khaki:f0e68c lavender:e6e6fa lavenderblush:fff0f5 lawngreen:7cfc00
+lemonchiffon:fffacd lightblue:add8e6 lightcoral:f08080 lightcyan:e0ffff lightgoldenrodyellow:fafad2
+lightgray:d3d3d3 lightgreen:90ee90 lightgrey:d3d3d3 lightpink:ffb6c1 lightsalmon:ffa07a
+lightseagreen:20b2aa lightskyblue:87cefa lightslategray:778899 lightslategrey:778899
+lightsteelblue:b0c4de lightyellow:ffffe0 lime:00ff00 limegreen:32cd32 linen:faf0e6 magenta:ff00ff
+maroon:800000 mediumaquamarine:66cdaa mediumblue:0000cd mediumorchid:ba55d3 mediumpurple:9370db
+mediumseagreen:3cb371 mediumslateblue:7b68ee mediumspringgreen:00fa9a mediumturquoise:48d1cc
+mediumvioletred:c71585 midnightblue:191970 mintcream:f5fffa mistyrose:ffe4e1 moccasin:ffe4b5
+navajowhite:ffdead navy:000080 oldlace:fdf5e6 olive:808000 olivedrab:6b8e23 orange:ffa500
+orangered:ff4500 orchid:da70d6 palegoldenrod:eee8aa palegreen:98fb98 paleturquoise:afeeee
+palevioletred:db7093 papayawhip:ffefd5 peachpuff:ffdab9 peru:cd853f pink:ffc0cb plum:dda0dd
+powderblue:b0e0e6 purple:800080 rebeccapurple:663399 red:ff0000 rosybrown:bc8f8f royalblue:4169e1
+saddlebrown:8b4513 salmon:fa8072 sandybrown:f4a460 seagreen:2e8b57 seashell:fff5ee sienna:a0522d
+silver:c0c0c0 skyblue:87ceeb slateblue:6a5acd slategray:708090 slategrey:708090 snow:fffafa
+springgreen:00ff7f steelblue:4682b4 tan:d2b48c teal:008080 thistle:d8bfd8 tomato:ff6347
+turquoise:40e0d0 violet:ee82ee wheat:f5deb3 white:ffffff whitesmoke:f5f5f5 yellow:ffff00
+yellowgreen:9acd32
+`
+
+let named: Map<string, string> | null = null
+
+/** What colors only the browser can resolve (currentColor, var() without fallback) render as. */
+const DEFAULT_COLOR: RGBA = [59, 130, 246, 1]
+
+/**
+ * Parse hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba(), hsl()/hsla(),
+ * CSS named colors and var() fallbacks.
+ */
+export function parseColor(color: string): RGBA {
+  const rgba = readColor(color)
+  if (!rgba) throw new Error(`[chartts] Cannot parse color: "${color}"`)
+  return rgba
+}
+
+/** parseColor for rendering: the default blue rather than an error. */
+export function toRGBA(color: string): RGBA {
+  return readColor(color) ?? [...DEFAULT_COLOR]
+}
+
+function readColor(color: string): RGBA | null {
+  const value = color.trim()
+  const fallback = /^var\([^,]+,\s*(.+)\)$/.exec(value)
+  if (fallback) return readColor(fallback[1]!)
+
+  const name = value.toLowerCase()
+  if (name === 'transparent') return [0, 0, 0, 0]
+  named ??= new Map(NAMED_HEX.trim().split(/\s+/).map(pair => pair.split(':') as [string, string]))
+  const hex = /^#([0-9a-f]{3,8})$/i.exec(value)?.[1] ?? named.get(name)
+  if (hex && hex.length !== 5 && hex.length !== 7) {
+    const long = hex.length <= 4 ? hex.replace(/./g, c => c + c) : hex
+    const channel = (i: number): number => parseInt(long.slice(i * 2, i * 2 + 2), 16)
+    return [channel(0), channel(1), channel(2), long.length === 8 ? channel(3) / 255 : 1]
+  }
+
+  const fn = /^(rgb|hsl)a?\(([^)]+)\)$/i.exec(value)
+  if (!fn) return null
+  const parts = fn[2]!.split(/[\s,/]+/).filter(Boolean)
+  if (parts.length < 3) return null
+  const number = (p: string, percentOf: number): number => p.endsWith('%') ? parseFloat(p) / 100 * percentOf : parseFloat(p)
+  const alpha = parts[3] === undefined ? 1 : number(parts[3], 1)
+
+  let rgba: RGBA
+  if (fn[1]!.toLowerCase() === 'rgb') {
+    rgba = [number(parts[0]!, 255), number(parts[1]!, 255), number(parts[2]!, 255), alpha]
+  } else {
+    const hue = parts[0]!.endsWith('turn') ? parseFloat(parts[0]!) * 360 : parseFloat(parts[0]!)
+    const h = (hue % 360 + 360) % 360
+    // Bare saturation and lightness are percentages too
+    const sat = number(parts[1]!.endsWith('%') ? parts[1]! : parts[1] + '%', 1)
+    const light = number(parts[2]!.endsWith('%') ? parts[2]! : parts[2] + '%', 1)
+    const a = sat * Math.min(light, 1 - light)
+    const channel = (n: number): number => {
+      const k = (n + h / 30) % 12
+      return 255 * (light - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)))
+    }
+    rgba = [channel(0), channel(8), channel(4), alpha]
+  }
+  return rgba.every(n => !isNaN(n)) ? rgba : null
+}
+
+/** `#rrggbb`, or `rgba(…)` when not opaque. */
+export function formatColor([r, g, b, a]: RGBA): string {
+  const channel = (v: number): number => Math.max(0, Math.min(255, Math.round(v)))
+  if (a < 1) return `rgba(${channel(r)},${channel(g)},${channel(b)},${Math.round(Math.max(0, a) * 1000) / 1000})`
+  return '#' + [r, g, b].map(v => channel(v).toString(16).padStart(2, '0')).join('')
+}
+
+/** `color` with its alpha multiplied by `alpha`. */
+export function withAlpha(color: string, alpha: number): string {
+  const [r, g, b, a] = toRGBA(color)
+  return formatColor([r, g, b, a * alpha])
+}
+
+// ---------------------------------------------------------------------------
+// OKLab
+// ---------------------------------------------------------------------------
+
+type Lab = [number, number, number]
+
+function toLinear(c: number): number {
+  const v = c / 255
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4
+}
+
+function fromLinear(v: number): number {
+  return 255 * (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055)
+}
+
+function toOklab([r, g, b]: RGBA): Lab {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b)
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ]
+}
+
+function fromOklab([L, A, B]: Lab, alpha: number): RGBA {
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3
+  return [
+    fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+    alpha,
+  ]
+}
+
+/** Perceptual lightness in 0..1 (OKLab L). */
+export function lightness(color: string): number {
+  return toOklab(toRGBA(color))[0]
+}
+
+/**
+ * Interpolate through `colors`, evenly spaced from t = 0 to t = 1.
+ * A single color is returned as is.
+ */
+export function colorRamp(colors: readonly string[]): ColorInterpolator {
+  const stops = colors.map(toRGBA)
+  const labs = stops.map(toOklab)
+  const last = stops.length - 1
+  if (last < 0) throw new Error('[chartts] A color ramp needs at least one color')
+  return (t) => {
+    const x = Math.max(0, Math.min(1, isNaN(t) ? 0 : t)) * last
+    const i = Math.min(Math.floor(x), last - 1)
+    if (i < 0) return formatColor(stops[0]!)
+    const f = x - i
+    const [a, b] = [labs[i]!, labs[i + 1]!]
+    return formatColor(fromOklab(
+      [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f],
+      stops[i]![3] + (stops[i + 1]![3] - stops[i]![3]) * f,
+    ))
+  }
+}
+
+/** Readable text color on a `background` fill: dark on light, white on dark or faint fills. */
+export function contrastText(background: string, dark = '#1f2937', light = '#ffffff'): string {
+  const [, , , alpha] = toRGBA(background)
+  // A translucent fill mostly shows the (light) chart background through it
+  const l = alpha * lightness(background) + (1 - alpha)
+  return l > 0.65 ? dark : light
+}
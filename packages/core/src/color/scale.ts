@@ -0,0 +1,115 @@
+import type { ColorScale, ColorScaleOptions, ColorScaleType } from '../types'
+import { colorRamp, withAlpha, type ColorInterpolator } from './color'
+import { PALETTES } from './palettes'
+
+/** What a chart supplies for options the user left out. */
+export interface ColorScaleDefaults {
+  /** Chart colors — the default ramp fades the first (and for diverging, the second) toward low values. */
+  colors: readonly string[]
+  /** Opacity of the faded end of the default ramp. Default 0.1. */
+  fade?: number
+  /** Color of missing values. */
+  unknown: string
+}
+
+const DEFAULT_STEPS = 5
+
+/**
+ * A color scale over `values` (NaN entries are ignored). `config` may be
+ * just the scale type — `'diverging'` — or full ColorScaleOptions.
+ */
+export function createColorScale(
+  values: readonly number[],
+  config: ColorScaleOptions | ColorScaleType | undefined,
+  defaults: ColorScaleDefaults,
+): ColorScale {
+  const opts: ColorScaleOptions = typeof config === 'string' ? { type: config } : config ?? {}
+  const type = opts.type ?? 'sequential'
+  const unknown = opts.unknown ?? defaults.unknown
+
+  const finite = values.filter(v => Number.isFinite(v))
+  const domain = opts.domain ?? []
+  let lo = domain[0] ?? (finite.length ? Math.min(...finite) : 0)
+  let hi = domain[domain.length - 1] ?? (finite.length ? Math.max(...finite) : 1)
+  if (type === 'threshold' && opts.thresholds?.length) {
+    lo = Math.min(lo, ...opts.thresholds)
+    hi = Math.max(hi, ...opts.thresholds)
+  }
+  if (hi === lo) hi = lo + 1
+
+  const base = paletteInterpolator(opts, type, defaults)
+  const at: ColorInterpolator = opts.reverse ? t => base(1 - t) : base
+  const missing = (v: number): boolean => !Number.isFinite(v)
+
+  if (type === 'sequential') {
+    return {
+      type, domain: [lo, hi], at,
+      map: v => missing(v) ? unknown : at((v - lo) / (hi - lo)),
+    }
+  }
+
+  if (type === 'diverging') {
+    const mid = domain.length >= 3 ? domain[1]! : lo < 0 && hi > 0 ? 0 : (lo + hi) / 2
+    return {
+      type, domain: [lo, hi], mid, at,
+      map: v => missing(v) ? unknown : at(v < mid
+        ? 0.5 * (v - lo) / ((mid - lo) || 1)
+        : 0.5 + 0.5 * (v - mid) / ((hi - mid) || 1)),
+    }
+  }
+
+  const steps = Math.max(1, Math.round(opts.steps ?? DEFAULT_STEPS))
+  const breaks = type === 'quantize'
+    ? Array.from({ length: steps - 1 }, (_, i) => lo + ((hi - lo) * (i + 1)) / steps)
+    : type === 'quantile'
+      ? quantileBreaks(finite, steps)
+      : thresholdBreaks(opts.thresholds)
+  const colors = Array.from({ length: breaks.length + 1 }, (_, i) => at(breaks.length ? i / breaks.length : 1))
+  return {
+    type, domain: [lo, hi], at,
+    classes: { breaks, colors },
+    map: v => missing(v) ? unknown : colors[classIndex(breaks, v)]!,
+  }
+}
+
+function paletteInterpolator(opts: ColorScaleOptions, type: ColorScaleType, defaults: ColorScaleDefaults): ColorInterpolator {
+  const { palette } = opts
+  if (typeof palette === 'string') {
+    const stops = PALETTES[palette] as readonly string[] | undefined
+    if (!stops) throw new Error(`[chartts] Unknown color palette: "${palette}"`)
+    return colorRamp(stops)
+  }
+  if (palette?.length) return colorRamp(palette)
+
+  const fade = defaults.fade ?? 0.1
+  const high = defaults.colors[0] ?? '#3b82f6'
+  const up = colorRamp([withAlpha(high, fade), high])
+  if (type !== 'diverging') return up
+  const low = defaults.colors[1] ?? '#ef4444'
+  const down = colorRamp([low, withAlpha(low, fade)])
+  return t => t < 0.5 ? down(t * 2) : up(t * 2 - 1)
+}
+
+/** Inner boundaries splitting sorted `values` into `steps` equally full classes. */
+function quantileBreaks(values: number[], steps: number): number[] {
+  const sorted = [...values].sort((a, b) => a - b)
+  if (sorted.length === 0) return []
+  return Array.from({ length: steps - 1 }, (_, i) => {
+    const pos = ((i + 1) / steps) * (sorted.length - 1)
+    const below = Math.floor(pos)
+    const next = sorted[Math.min(below + 1, sorted.length - 1)]!
+    return sorted[below]! + (next - sorted[below]!) * (pos - below)
+  })
+}
+
+function thresholdBreaks(thresholds: number[] | undefined): number[] {
+  if (!thresholds?.length) throw new Error('[chartts] A threshold color scale needs `thresholds`')
+  return [...thresholds].sort((a, b) => a - b)
+}
+
+/** Number of breaks at or below `v` — values on a boundary belong to the class above it. */
+function classIndex(breaks: number[], v: number): number {
+  let i = 0
+  while (i < breaks.length && v >= breaks[i]!) i++
+  return i
+}
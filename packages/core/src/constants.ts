@@ -2,13 +2,15 @@
  * Chartts constants and default values.
  *
  * RULES:
- * - Imports ONLY from types.ts.
+ * - Imports ONLY from types.ts and the dependency-free format/ modules.
  * - Single source of truth for all default values.
  * - Colors use var(--color-*) with hex fallbacks — Tailwind-first.
  * - Every other module reads defaults from here. No duplicates.
  */
 
-import type { ThemeConfig, ResolvedOptions, ChartOptions } from './types'
+import type { ThemeConfig, ResolvedOptions, ChartOptions, YScaleOption, SonifyConfig, DrilldownConfig, FormatLocale } from './types'
+import { DEFAULT_LOCALE, getLocale } from './format/locale'
+import { createFormatter, localeFormats } from './format/formatter'
 
 // ---------------------------------------------------------------------------
 // CSS custom property prefix
@@ -92,6 +94,13 @@ export const DARK_THEME: ThemeConfig = {
   lineWidth: 2.5,
 }
 
+// ---------------------------------------------------------------------------
+// Axes
+// ---------------------------------------------------------------------------
+
+/** Reserved id of the primary y axis. Series without `yAxis` (or with this id) use it. */
+export const PRIMARY_Y_AXIS = 'y'
+
 // ---------------------------------------------------------------------------
 // Chart type classification sets
 // ---------------------------------------------------------------------------
@@ -128,6 +137,8 @@ export function resolveOptions(
   seriesCount: number,
 ): ResolvedOptions {
   const multi = seriesCount > 1
+  const locale = getLocale(opts.locale, opts.currency)
+  const formats = defaultFormats(locale)
 
   // Spread original opts first so chart-type-specific properties (ohlc, sizes,
   // totals, gaugeMin, etc.) survive into RenderContext.options.
@@ -141,8 +152,9 @@ export function resolveOptions(
 
     xLabel: opts.xLabel ?? '',
     yLabel: opts.yLabel ?? '',
-    xFormat: opts.xFormat ?? formatX,
-    yFormat: opts.yFormat ?? formatY,
+    xFormat: typeof opts.xFormat === 'string' ? createFormatter(opts.xFormat, locale) : opts.xFormat ?? formats.x,
+    yFormat: typeof opts.yFormat === 'string' ? createFormatter(opts.yFormat, locale) : opts.yFormat ?? formats.y,
+    locale,
     xGrid: opts.xGrid ?? false,
     yGrid: opts.yGrid ?? true,
     xAxis: opts.xAxis ?? true,
@@ -151,6 +163,8 @@ export function resolveOptions(
     yTicks: opts.yTicks ?? 5,
     yMin: opts.yMin,
     yMax: opts.yMax,
+    yScale: resolveYScale(opts.yScale),
+    yAxes: (opts.yAxes ?? []).filter(a => a.id !== PRIMARY_Y_AXIS),
 
     legend: opts.legend === undefined
       ? (multi ? 'top' : false)
@@ -180,6 +194,11 @@ export function resolveOptions(
 
     ariaLabel: opts.ariaLabel ?? 'Chart',
     ariaDescription: opts.ariaDescription ?? '',
+    keyboard: opts.keyboard ?? true,
+    dataTable: opts.dataTable ?? false,
+    sonify: resolveSonify(opts.sonify),
+    annotations: opts.annotations ?? [],
+    drilldown: resolveDrilldown(opts.drilldown),
 
     onClick: opts.onClick,
     onHover: opts.onHover,
@@ -192,12 +211,14 @@ export function resolveOptions(
 // Default formatters
 // ---------------------------------------------------------------------------
 
-function formatX(value: string | number | Date): string {
+/** Default x formatter. Exported so continuous scales can tell it apart from a user formatter. */
+export function formatX(value: string | number | Date): string {
   if (value instanceof Date) return value.toLocaleDateString()
   return String(value)
 }
 
-function formatY(value: number): string {
+/** Default y formatter. Exported so log scales can substitute their own decade labels. */
+export function formatY(value: number): string {
   const abs = Math.abs(value)
   if (abs >= 1e12) return trim(value / 1e12, 'T')
   if (abs >= 1e9) return trim(value / 1e9, 'B')
@@ -207,8 +228,53 @@ function formatY(value: number): string {
   return value.toFixed(1)
 }
 
+/**
+ * The default x/y formatters for a locale — formatX/formatY for the built-in
+ * one. Scales compare against these to tell defaults from user formatters.
+ */
+export function defaultFormats(locale: FormatLocale): {
+  x: (value: string | number | Date) => string
+  y: (value: number) => string
+} {
+  return locale === DEFAULT_LOCALE ? { x: formatX, y: formatY } : localeFormats(locale)
+}
+
 /** Format with suffix, dropping trailing .0 (e.g. 1.0K → 1K) */
 function trim(v: number, suffix: string): string {
   const s = v.toFixed(1)
   return (s.endsWith('.0') ? s.slice(0, -2) : s) + suffix
 }
+
+/** Normalize a `sonify` option. Off unless asked for. */
+export function resolveSonify(opt: boolean | SonifyConfig | undefined): ResolvedOptions['sonify'] {
+  if (!opt || (typeof opt === 'object' && opt.enabled === false)) return false
+  const cfg = opt === true ? {} : opt
+  return {
+    minFrequency: cfg.minFrequency ?? 220,
+    maxFrequency: cfg.maxFrequency ?? 880,
+    noteDuration: cfg.noteDuration ?? 150,
+    volume: cfg.volume ?? 0.3,
+    waveform: cfg.waveform ?? 'sine',
+    onPoint: cfg.onPoint ?? true,
+  }
+}
+
+/** Normalize a `drilldown` option. Off unless asked for. */
+export function resolveDrilldown(opt: boolean | DrilldownConfig | undefined): ResolvedOptions['drilldown'] {
+  if (!opt || (typeof opt === 'object' && opt.enabled === false)) return false
+  const cfg = opt === true ? {} : opt
+  return {
+    separator: cfg.separator ?? '/',
+    load: cfg.load,
+    breadcrumb: cfg.breadcrumb ?? true,
+    rootLabel: cfg.rootLabel ?? 'All',
+  }
+}
+
+/** Normalize a `yScale` option (shorthand string or object) with default base/constant. */
+export function resolveYScale(opt: YScaleOption | undefined): ResolvedOptions['yScale'] {
+  if (!opt) return undefined
+  return typeof opt === 'string'
+    ? { type: opt, base: 10, constant: 1 }
+    : { type: opt.type, base: opt.base ?? 10, constant: opt.constant ?? 1 }
+}
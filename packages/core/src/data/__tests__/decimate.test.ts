@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { decimateData, sourceIndices, windowIndices } from '../decimate'
+import { createMinMaxPyramid } from '../pyramid'
+import { seriesValues } from '../xy'
+import type { ChartData } from '../../types'
+
+function wave(n: number): number[] {
+  return Array.from({ length: n }, (_, i) => Math.sin(i / 7) * 10 + (i % 97 === 0 ? 50 : 0))
+}
+
+function chart(values: number[]): ChartData {
+  return { labels: values.map((_, i) => `p${i}`), series: [{ name: 'S', values }] }
+}
+
+describe('createMinMaxPyramid', () => {
+  it('finds the extremes of any range', () => {
+    const values = wave(300)
+    values[40] = NaN
+    const pyramid = createMinMaxPyramid(values)
+    for (const [start, end] of [[0, 300], [3, 4], [17, 129], [40, 41], [255, 300], [100, 257]] as const) {
+      const slice = values.slice(start, end).map(v => (Number.isFinite(v) ? v : null))
+      const finite = slice.filter((v): v is number => v !== null)
+      const result = pyramid.range(start, end)
+      if (!finite.length) {
+        expect(result).toBeNull()
+        continue
+      }
+      expect(values[result!.minIndex]).toBe(Math.min(...finite))
+      expect(values[result!.maxIndex]).toBe(Math.max(...finite))
+    }
+  })
+})
+
+describe('decimateData', () => {
+  it('keeps every spike with min-max and m4', () => {
+    const values = wave(5000)
+    for (const algorithm of ['min-max', 'm4'] as const) {
+      const out = decimateData(chart(values), { algorithm, threshold: 400 })
+      const kept = seriesValues(out.series[0]!)
+      expect(kept.length).toBeLessThanOrEqual(400)
+      expect(kept.filter(v => v !== null && v > 40)).toHaveLength(values.filter(v => v > 40).length)
+      expect(out.labels![0]).toBe('p0')
+      expect(out.labels![out.labels!.length - 1]).toBe('p4999')
+    }
+  })
+
+  it('keeps labels aligned across series', () => {
+    const data: ChartData = {
+      labels: Array.from({ length: 1000 }, (_, i) => i),
+      series: [
+        { name: 'A', values: Array.from({ length: 1000 }, (_, i) => i) },
+        { name: 'B', values: Array.from({ length: 1000 }, (_, i) => -i) },
+      ],
+    }
+    const out = decimateData(data, { algorithm: 'm4', threshold: 40 })
+    expect(out.series[0]!.values).toEqual(out.labels)
+    expect(out.series[1]!.values).toEqual(out.labels!.map(l => -(l as number)))
+  })
+
+  it('only decimates the window', () => {
+    const values = wave(10_000)
+    expect(windowIndices(10_000, { start: 0.5, end: 0.6 })).toEqual([4999, 6001])
+
+    const near = decimateData(chart(values), { threshold: 2000, window: { start: 0.5, end: 0.6 } })
+    expect(near.series[0]!.values).toEqual(values.slice(4999, 6001))
+    expect(sourceIndices(near.series[0]!)?.slice(0, 2)).toEqual([4999, 5000])
+
+    const far = decimateData(chart(values), { algorithm: 'min-max', threshold: 100, window: { start: 0.5, end: 0.6 } })
+    expect(far.labels![0]).toBe('p4999')
+    expect(far.labels![far.labels!.length - 1]).toBe('p6000')
+    expect(far.series[0]!.values.length).toBeLessThanOrEqual(100)
+
+    // LTTB over the window picks what it would from the slice alone
+    const lttb = decimateData(chart(values), { threshold: 100, window: { start: 0.5, end: 0.6 } })
+    expect(lttb.series[0]!.values).toEqual(decimateData(chart(values.slice(4999, 6001)), { threshold: 100 }).series[0]!.values)
+  })
+
+  it('cuts series with ascending x to the x range', () => {
+    const values = wave(10_000)
+    const xy: ChartData = { series: [{ name: 'S', values, x: values.map((_, i) => i * 10) }] }
+    const cut = decimateData(xy, { threshold: 2000, xRange: [50_000, 60_000] })
+    // x 50000..60000 plus a point either side
+    expect(cut.series[0]!.x![0]).toBe(49_990)
+    expect(cut.series[0]!.values).toEqual(values.slice(4999, 6002))
+
+    const dates = decimateData(
+      { labels: values.map((_, i) => new Date(i * 60_000)), series: [{ name: 'S', values }] },
+      { threshold: 100, xRange: [5000 * 60_000, 6000 * 60_000] },
+    )
+    expect(dates.labels![0]).toEqual(new Date(4999 * 60_000))
+    expect(dates.series[0]!.values.length).toBeLessThanOrEqual(100)
+
+    // Unsorted x can't be searched — decimated whole
+    const shuffled = { series: [{ name: 'S', values: [1, 2, 3], x: [2, 0, 1] }] }
+    expect(decimateData(shuffled, { threshold: 10, xRange: [0, 1] }).series[0]!.values).toEqual([1, 2, 3])
+  })
+
+  it('follows data streamed through the same array', () => {
+    const values = wave(5000)
+    const data = chart(values)
+    const spikes = (): number => decimateData(data, { algorithm: 'min-max', threshold: 400 }).series[0]!.values.filter(v => v !== null && v > 40).length
+    expect(spikes()).toBe(52)
+    // Every spike moves one index to the left
+    values.push(values.shift()!)
+    expect(spikes()).toBe(52)
+  })
+
+  it('reads point values once per points array until it changes', () => {
+    const points = wave(3000).map((y, x) => ({ x, y }))
+    const series = { name: 'S', values: [], points }
+    expect(seriesValues(series)).toBe(seriesValues(series))
+    points.push({ x: 3000, y: 1000 })
+    points.shift()
+    expect(seriesValues(series)[2999]).toBe(1000)
+  })
+})
@@ -87,4 +87,57 @@ describe('prepareData', () => {
     expect(result.series[0]!.fill).toBe(false)
     expect(result.series[0]!.showPoints).toBe(true)
   })
+
+  it('computes separate bounds for series bound to a secondary axis', () => {
+    const result = prepareData({
+      series: [
+        { name: 'Price', values: [10, 12, 11] },
+        { name: 'Volume', values: [5000, 9000, 7000], yAxis: 'volume' },
+      ],
+    }, resolveOptions({}, 2))
+
+    expect(result.bounds.yMin).toBe(10)
+    expect(result.bounds.yMax).toBe(12)
+    expect(result.series[1]!.yAxis).toBe('volume')
+    expect(result.yAxes).toHaveLength(1)
+    expect(result.yAxes![0]).toMatchObject({ id: 'volume', position: 'right', yMin: 5000, yMax: 9000 })
+  })
+
+  it('applies configured axis min/max and position', () => {
+    const opts = resolveOptions({ yAxes: [{ id: 'pct', position: 'left', min: 0, max: 100 }] }, 2)
+    const result = prepareData({
+      series: [
+        { name: 'A', values: [1, 2] },
+        { name: 'B', values: [30, 40], yAxis: 'pct' },
+      ],
+    }, opts)
+
+    expect(result.yAxes![0]).toMatchObject({ id: 'pct', position: 'left', yMin: 0, yMax: 100 })
+  })
+
+  it('treats the primary axis id as no binding', () => {
+    const result = prepareData({
+      series: [{ name: 'A', values: [1, 2], yAxis: 'y' }],
+    }, defaultOpts)
+
+    expect(result.series[0]!.yAxis).toBeUndefined()
+    expect(result.yAxes).toBeUndefined()
+  })
+
+  it('resolves missing values per gaps mode', () => {
+    const values = [null, 2, null, null, 8, null]
+    const result = prepareData({
+      series: [
+        { name: 'Break', values },
+        { name: 'Zero', values, gaps: 'zero' },
+        { name: 'Interpolate', values, gaps: 'interpolate' },
+      ],
+    }, resolveOptions({}, 3))
+
+    expect(result.series[0]!.values).toEqual([NaN, 2, NaN, NaN, 8, NaN])
+    expect(result.series[0]!.gaps).toBe('break')
+    expect(result.series[1]!.values).toEqual([0, 2, 0, 0, 8, 0])
+    expect(result.series[2]!.values).toEqual([NaN, 2, 4, 6, 8, NaN])
+    expect(result.bounds.yMin).toBe(0)
+  })
 })
@@ -50,6 +50,18 @@ describe('validateData', () => {
     })).toThrow('finite number')
   })
 
+  it('accepts null for missing values', () => {
+    expect(() => validateData({
+      series: [{ name: 'A', values: [1, null, 3], gaps: 'connect' }],
+    })).not.toThrow()
+  })
+
+  it('throws on an unknown gaps mode', () => {
+    expect(() => validateData({
+      series: [{ name: 'A', values: [1, null, 3], gaps: 'skip' as never }],
+    })).toThrow("gaps must be one of 'break'")
+  })
+
   it('throws on Infinity values', () => {
     expect(() => validateData({
       series: [{ name: 'A', values: [1, Infinity, 3] }],
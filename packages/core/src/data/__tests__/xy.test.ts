@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { prepareData } from '../prepare'
+import { validateData } from '../validate'
+import { decimateData } from '../decimate'
+import { resolveOptions } from '../../constants'
+import { buildScene } from '../../render/scene'
+import { lineChartType } from '../../charts/line/line-type'
+import { scatterChartType } from '../../charts/scatter/scatter-type'
+import { bubbleChartType } from '../../charts/bubble/bubble-type'
+import type { ChartData } from '../../types'
+
+const data: ChartData = {
+  series: [
+    { name: 'Sparse', x: [0, 10, 4], values: [1, 3, 2] },
+    { name: 'Dense', values: [], points: [{ x: 1, y: 5, size: 2, meta: 'a' }, { x: 2, y: null }, { x: 3, y: 4, size: 8 }, { x: 9, y: 6 }] },
+  ],
+}
+
+const size = { width: 600, height: 400 }
+
+describe('XY series', () => {
+  it('lets series differ in length but checks x', () => {
+    expect(() => validateData(data)).not.toThrow()
+    expect(() => validateData({ series: [{ name: 'A', x: [1, 2], values: [1, 2, 3] }] })).toThrow('one entry per value')
+    expect(() => validateData({ series: [{ name: 'A', values: [], points: [{ x: NaN, y: 1 }] }] })).toThrow('points[0].x must be a finite number')
+  })
+
+  it('prepares x sorted with sizes and meta alongside', () => {
+    const prepared = prepareData(data, resolveOptions({}, 2))
+    expect(prepared.series[0]).toMatchObject({ x: [0, 4, 10], values: [1, 2, 3] })
+    expect(prepared.series[1]!.x).toEqual([1, 2, 3, 9])
+    expect(prepared.series[1]!.values).toEqual([5, NaN, 4, 6])
+    expect(prepared.series[1]!.sizes).toEqual([2, NaN, 8, NaN])
+    expect(prepared.series[1]!.meta).toEqual(['a', undefined, undefined, undefined])
+  })
+
+  it('plots each series at its own x on a continuous scale', () => {
+    const { ctx } = buildScene(scatterChartType, data, {}, size)
+    expect(ctx!.scaleTypes?.x).toBe('linear')
+    expect(ctx!.xScale.getDomain()).toEqual([0, 10])
+    const hit = scatterChartType.hitTest(ctx!, ctx!.xScale.map(9), ctx!.yScale.map(6))
+    expect(hit).toMatchObject({ seriesIndex: 1, pointIndex: 3 })
+  })
+
+  it('uses a time axis for Date x', () => {
+    const days = [new Date(2024, 0, 1), new Date(2024, 0, 3), new Date(2024, 0, 10)]
+    const { ctx } = buildScene(lineChartType, { series: [{ name: 'A', x: days, values: [1, 2, 3] }] }, {}, size)
+    expect(ctx!.scaleTypes?.x).toBe('time')
+  })
+
+  it('sizes bubbles from point sizes', () => {
+    const { ctx } = buildScene(bubbleChartType, { series: [data.series[1]!] }, {}, size)
+    const hit = bubbleChartType.hitTest(ctx!, ctx!.xScale.map(3), ctx!.yScale.map(4))
+    expect(hit).toMatchObject({ seriesIndex: 0, pointIndex: 2 })
+  })
+})
+
+describe('per-point meta', () => {
+  const rows = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }]
+
+  it('must match the values in length', () => {
+    expect(() => validateData({ series: [{ name: 'A', values: [1, 2], meta: [1] }] })).toThrow('meta must be an array')
+  })
+
+  it('stays aligned with the values through prepare and decimation', () => {
+    const labelled: ChartData = { labels: ['w', 'x', 'y', 'z'], series: [{ name: 'A', values: [1, 9, 2, 3], meta: rows }] }
+    expect(prepareData(labelled, resolveOptions({}, 1)).series[0]!.meta).toEqual(rows)
+
+    const out = decimateData(labelled, { algorithm: 'min-max', threshold: 3 })
+    const values = out.series[0]!.values as number[]
+    expect(out.series[0]!.meta).toEqual(values.map(v => rows[[1, 9, 2, 3].indexOf(v)]))
+
+    const xy = prepareData({ series: [{ name: 'B', x: [3, 1, 2, 0], values: [1, 2, 3, 4], meta: rows }] }, resolveOptions({}, 1))
+    expect(xy.series[0]!.meta).toEqual([rows[3], rows[1], rows[2], rows[0]])
+  })
+})
@@ -6,17 +6,54 @@
  */
 
 import type { ChartData, Series } from '../types'
+import type { DataZoomRange } from '../features/datazoom'
+import { pyramidFor } from './pyramid'
+import { isXYSeries, seriesLength, seriesValues, xNumber } from './xy'
 
 export interface DecimateOptions {
-  /** Decimation algorithm. Default 'lttb'. */
-  algorithm?: 'lttb' | 'min-max'
-  /** Target number of output points. Default: 2x container pixel width. */
+  /**
+   * Decimation algorithm. Default 'lttb'.
+   * - 'lttb': keeps the points that best preserve the line's shape.
+   * - 'min-max': keeps each bucket's extremes, so no spike is lost.
+   * - 'm4': keeps each bucket's first, min, max and last point — an exact
+   *   raster of a line at one bucket per pixel column.
+   */
+  algorithm?: 'lttb' | 'min-max' | 'm4'
+  /** Target number of output points per series. Default: 2x container pixel width. */
   threshold?: number
+  /**
+   * Part of the data to keep, as fractions of the index range (e.g. the
+   * visible window while zoomed). Only this slice is decimated, so zooming
+   * in reveals the detail underneath. Default: everything.
+   */
+  window?: DataZoomRange
+  /**
+   * Part of the data to keep by x position (Dates as epoch milliseconds) —
+   * the visible window of a time or numeric x axis. Series whose x ascends
+   * are cut to it by binary search and only that slice is decimated; others
+   * are decimated whole. Takes precedence over `window`.
+   */
+  xRange?: [number, number]
 }
 
+const kept = new WeakMap<Series, number[]>()
+
 /**
- * Decimate chart data to `threshold` points per series.
- * Returns original data if already below threshold.
+ * Where each value of a series decimateData returned came from — its index
+ * in the series as given. Undefined for a series passed through untouched.
+ */
+export function sourceIndices(series: Series): number[] | undefined {
+  return kept.get(series)
+}
+
+/**
+ * Decimate chart data to about `threshold` points per series.
+ * For label-indexed series the kept indices are shared (the union of each
+ * series' picks), so labels and every series stay aligned. XY series carry
+ * their own x and are decimated on their own, over all their points or
+ * their part of `xRange`.
+ * Returns original data if already below threshold and not windowed.
+ * sourceIndices() maps the points that remain back to the input.
  */
 export function decimateData(
   data: ChartData,
@@ -25,83 +62,166 @@ export function decimateData(
   const threshold = opts.threshold ?? 1000
   const algo = opts.algorithm ?? 'lttb'
 
-  // Check if any series exceeds threshold
-  const needsDecimation = data.series.some(s => s.values.length > threshold)
-  if (!needsDecimation) return data
-
-  const decimated: Series[] = data.series.map(s => {
-    if (s.values.length <= threshold) return s
-
-    const values = algo === 'lttb'
-      ? lttb(s.values, threshold)
-      : minMax(s.values, threshold)
-
-    return { ...s, values: values.map(p => p.value) }
-  })
-
-  // Decimate labels to match
-  const primarySeries = data.series[0]
-  let labels = data.labels
-  if (labels && primarySeries && primarySeries.values.length > threshold) {
-    const indices = (decimated[0]!.values.length === threshold)
-      ? getDecimatedIndices(primarySeries.values, threshold, algo)
-      : undefined
-    if (indices) {
-      labels = indices.map(i => labels![i]!) as typeof labels
+  const indexed = data.series.filter(s => !isXYSeries(s))
+  const length = indexed.reduce((max, s) => Math.max(max, s.values.length), 0)
+  const labels = data.labels
+  const slice = opts.xRange
+    ? labels && xIndices(i => labelNumber(labels[i]), Math.min(length, labels.length), opts.xRange)
+    : opts.window && windowIndices(length, opts.window)
+  const [start, end] = slice || [0, length]
+
+  let indices: number[] | null = slice ? range(start, end) : null
+  if (end - start > threshold) {
+    const keep = new Uint8Array(end - start)
+    for (const s of indexed) {
+      const values = seriesValues(s)
+      for (const i of selectIndices(values, start, Math.min(end, values.length), threshold, algo)) {
+        keep[i - start] = 1
+      }
+    }
+    indices = []
+    for (let i = 0; i < keep.length; i++) {
+      if (keep[i]) indices.push(start + i)
     }
   }
 
-  return { labels, series: decimated }
+  const cutXY = data.series.some(s => isXYSeries(s) && (!!opts.xRange || seriesLength(s) > threshold))
+  if (!indices && !cutXY) return data
+
+  return {
+    ...data,
+    labels: indices && labels ? indices.map(i => labels[i]!) as typeof labels : labels,
+    series: data.series.map(s => {
+      if (isXYSeries(s)) return decimateXY(s, threshold, algo, opts.xRange)
+      if (!indices) return s
+      const values = seriesValues(s)
+      const meta = s.meta
+      return tagged({ ...s, values: indices.map(i => values[i] ?? null), meta: meta && indices.map(i => meta[i]) }, indices)
+    }),
+  }
+}
+
+/**
+ * An XY series cut to about `threshold` points (within `xRange`, if given),
+ * keeping x (and point objects) with their values.
+ */
+function decimateXY(s: Series, threshold: number, algo: DecimateOptions['algorithm'], xRange?: [number, number]): Series {
+  const length = seriesLength(s)
+  const points = s.points
+  const x = s.x!
+  const slice = xRange && xIndices(i => xNumber(points ? points[i]!.x : x[i]!), length, xRange)
+  const [start, end] = slice || [0, length]
+  if (end - start === length && length <= threshold) return s
+  const keep = selectIndices(seriesValues(s), start, end, threshold, algo)
+  const meta = s.meta && keep.map(i => s.meta![i])
+  if (points) return tagged({ ...s, points: keep.map(i => points[i]!), meta }, keep)
+  return tagged({ ...s, values: keep.map(i => s.values[i]!), x: keep.map(i => x[i]!), meta }, keep)
+}
+
+function tagged(series: Series, indices: number[]): Series {
+  kept.set(series, indices)
+  return series
+}
+
+/**
+ * Index range [start, end) covered by a window over `length` points. The
+ * points either side of the window are included so lines run to the edges.
+ */
+export function windowIndices(length: number, window: DataZoomRange): [number, number] {
+  if (length === 0) return [0, 0]
+  const last = length - 1
+  const start = Math.max(0, Math.floor(window.start * last))
+  const end = Math.min(length, Math.ceil(window.end * last) + 1)
+  return [start, Math.max(start + 1, end)]
+}
+
+/**
+ * Index range [start, end) of the first `length` points whose x falls in
+ * [lo, hi], found by binary search, with the points either side as in
+ * windowIndices. Null when x doesn't ascend.
+ */
+function xIndices(x: (i: number) => number, length: number, [lo, hi]: [number, number]): [number, number] | null {
+  if (length === 0) return [0, 0]
+  for (let i = 1; i < length; i++) {
+    if (!(x(i) >= x(i - 1))) return null
+  }
+  const start = Math.max(0, firstIndex(length, i => x(i) >= lo) - 1)
+  const end = Math.min(length, firstIndex(length, i => x(i) > hi) + 1)
+  return [start, Math.max(start + 1, end)]
+}
+
+/** First index in [0, length) passing `test`, which flips from false to true once — length if none does. */
+function firstIndex(length: number, test: (i: number) => boolean): number {
+  let lo = 0
+  let hi = length
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1
+    if (test(mid)) hi = mid
+    else lo = mid + 1
+  }
+  return lo
+}
+
+/** Numeric position of a label — NaN for a category name. */
+function labelNumber(label: string | number | Date | undefined): number {
+  return label === undefined || typeof label === 'string' ? NaN : xNumber(label)
+}
+
+function selectIndices(values: readonly (number | null)[], start: number, end: number, threshold: number, algo: DecimateOptions['algorithm']): number[] {
+  if (end - start <= threshold) return range(start, end)
+  if (algo === 'lttb') return lttb(values, start, end, threshold)
+  return algo === 'm4'
+    ? bucketExtremes(values, start, end, Math.max(1, Math.floor(threshold / 4)), true)
+    : bucketExtremes(values, start, end, Math.max(1, Math.floor(threshold / 2) - 1), false)
+}
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i)
 }
 
 // ---------------------------------------------------------------------------
 // LTTB — Largest Triangle Three Buckets
 // ---------------------------------------------------------------------------
 
-interface IndexedPoint {
-  index: number
-  value: number
-}
-
 /**
  * Largest Triangle Three Buckets algorithm.
  * Selects points that maximize the visual triangle area,
  * preserving the shape of the data while reducing point count.
+ * Runs over [start, end) of `values` in place: O(end - start) time, since
+ * every point is weighed, with nothing allocated but the picked indices.
  *
  * Reference: Sveinn Steinarsson, "Downsampling Time Series for Visual
  * Representation" (2013)
  */
-function lttb(values: number[], threshold: number): IndexedPoint[] {
-  const len = values.length
-  if (len <= threshold) {
-    return values.map((v, i) => ({ index: i, value: v }))
-  }
+function lttb(values: readonly (number | null)[], start: number, end: number, threshold: number): number[] {
+  const len = end - start
+  if (len <= threshold) return range(start, end)
 
-  const sampled: IndexedPoint[] = []
+  const at = (i: number): number => values[i] ?? NaN
 
   // Always keep first point
-  sampled.push({ index: 0, value: values[0]! })
+  const sampled = [start]
 
   // Bucket size (excluding first and last points)
   const bucketSize = (len - 2) / (threshold - 2)
 
-  let prevIndex = 0
+  let prevIndex = start
 
   for (let i = 1; i < threshold - 1; i++) {
     // Current bucket range
-    const bucketStart = Math.floor((i - 1) * bucketSize) + 1
-    const bucketEnd = Math.min(Math.floor(i * bucketSize) + 1, len - 1)
+    const bucketStart = start + Math.floor((i - 1) * bucketSize) + 1
+    const bucketEnd = start + Math.min(Math.floor(i * bucketSize) + 1, len - 1)
 
     // Next bucket average (for triangle computation)
-    const nextBucketStart = Math.floor(i * bucketSize) + 1
-    const nextBucketEnd = Math.min(Math.floor((i + 1) * bucketSize) + 1, len - 1)
+    const nextBucketStart = start + Math.floor(i * bucketSize) + 1
+    const nextBucketEnd = start + Math.min(Math.floor((i + 1) * bucketSize) + 1, len - 1)
 
     let avgX = 0
     let avgY = 0
     let avgCount = 0
     for (let j = nextBucketStart; j < nextBucketEnd; j++) {
       avgX += j
-      avgY += values[j]!
+      avgY += at(j)
       avgCount++
     }
     if (avgCount > 0) {
@@ -114,12 +234,12 @@ function lttb(values: number[], threshold: number): IndexedPoint[] {
     let bestIndex = bucketStart
 
     const px = prevIndex
-    const py = values[prevIndex]!
+    const py = at(prevIndex)
 
     for (let j = bucketStart; j < bucketEnd; j++) {
       // Triangle area = 0.5 * |x1(y2-y3) + x2(y3-y1) + x3(y1-y2)|
       const area = Math.abs(
-        (px - avgX) * (values[j]! - py) -
+        (px - avgX) * (at(j) - py) -
         (px - j) * (avgY - py),
       ) * 0.5
 
@@ -129,74 +249,45 @@ function lttb(values: number[], threshold: number): IndexedPoint[] {
       }
     }
 
-    sampled.push({ index: bestIndex, value: values[bestIndex]! })
+    sampled.push(bestIndex)
     prevIndex = bestIndex
   }
 
   // Always keep last point
-  sampled.push({ index: len - 1, value: values[len - 1]! })
+  sampled.push(end - 1)
 
   return sampled
 }
 
 // ---------------------------------------------------------------------------
-// Min-Max — preserves peaks and valleys
+// Min-Max / M4 — bucket extremes from the min/max pyramid
 // ---------------------------------------------------------------------------
 
 /**
- * Min-Max decimation. Each bucket keeps both the minimum and maximum values,
- * ensuring peaks and valleys are always visible.
+ * Each of `buckets` equal index ranges keeps its minimum and maximum (and,
+ * for M4, its first and last point), so peaks and valleys always survive.
+ * Extremes come from the series' pyramid: cost follows the bucket count,
+ * not the number of points in the window. The window's ends are always kept.
  */
-function minMax(values: number[], threshold: number): IndexedPoint[] {
-  const len = values.length
-  if (len <= threshold) {
-    return values.map((v, i) => ({ index: i, value: v }))
-  }
-
-  const sampled: IndexedPoint[] = []
-  const bucketSize = len / (threshold / 2)
-
-  // Always keep first
-  sampled.push({ index: 0, value: values[0]! })
-
-  for (let i = 0; i < threshold / 2 - 1; i++) {
-    const start = Math.floor(i * bucketSize)
-    const end = Math.min(Math.floor((i + 1) * bucketSize), len)
-
-    let minVal = Infinity
-    let maxVal = -Infinity
-    let minIdx = start
-    let maxIdx = start
-
-    for (let j = start; j < end; j++) {
-      const v = values[j]!
-      if (v < minVal) { minVal = v; minIdx = j }
-      if (v > maxVal) { maxVal = v; maxIdx = j }
-    }
-
-    // Add in index order so line doesn't cross itself
-    if (minIdx < maxIdx) {
-      sampled.push({ index: minIdx, value: minVal })
-      sampled.push({ index: maxIdx, value: maxVal })
-    } else {
-      sampled.push({ index: maxIdx, value: maxVal })
-      sampled.push({ index: minIdx, value: minVal })
+function bucketExtremes(values: readonly (number | null)[], start: number, end: number, buckets: number, withEnds: boolean): number[] {
+  const pyramid = pyramidFor(values)
+  const count = end - start
+  const out: number[] = [start]
+
+  for (let b = 0; b < buckets; b++) {
+    const lo = start + Math.floor((b * count) / buckets)
+    const hi = start + Math.floor(((b + 1) * count) / buckets)
+    if (hi <= lo) continue
+    const extremes = pyramid.range(lo, hi)
+    const picks = withEnds ? [lo, hi - 1] : []
+    if (extremes) picks.push(extremes.minIndex, extremes.maxIndex)
+    // Add in index order so the line doesn't cross itself
+    picks.sort((a, b) => a - b)
+    for (const i of picks) {
+      if (i !== out[out.length - 1]) out.push(i)
     }
   }
 
-  // Always keep last
-  sampled.push({ index: len - 1, value: values[len - 1]! })
-
-  return sampled
-}
-
-// ---------------------------------------------------------------------------
-// Helper: get decimated indices (for label mapping)
-// ---------------------------------------------------------------------------
-
-function getDecimatedIndices(values: number[], threshold: number, algo: string): number[] {
-  if (algo === 'lttb') {
-    return lttb(values, threshold).map(p => p.index)
-  }
-  return minMax(values, threshold).map(p => p.index)
+  if (out[out.length - 1] !== end - 1) out.push(end - 1)
+  return out
 }
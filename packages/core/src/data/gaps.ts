@@ -0,0 +1,27 @@
+import type { GapMode } from '../types'
+
+/**
+ * Resolve a series' missing values for its gap mode. 'zero' and
+ * 'interpolate' fill them in; 'break' and 'connect' keep them as NaN and
+ * leave the gap to the renderer. Interpolation only fills gaps between two
+ * known values — leading and trailing gaps stay NaN. `positions` (an XY
+ * series' x) weights the interpolation; by default points are evenly spaced.
+ */
+export function fillGaps(values: readonly (number | null)[], mode: GapMode, positions?: readonly number[]): number[] {
+  const out = values.map(v => v ?? NaN)
+  if (mode === 'zero') return out.map(v => (Number.isNaN(v) ? 0 : v))
+  if (mode !== 'interpolate') return out
+
+  let prev = -1
+  for (let i = 0; i < out.length; i++) {
+    if (Number.isNaN(out[i])) continue
+    if (prev >= 0 && i - prev > 1) {
+      const from = out[prev]!
+      const at = (k: number): number => positions?.[k] ?? k
+      const slope = (out[i]! - from) / (at(i) - at(prev))
+      for (let j = prev + 1; j < i; j++) out[j] = from + slope * (at(j) - at(prev))
+    }
+    prev = i
+  }
+  return out
+}
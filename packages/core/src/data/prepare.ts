@@ -1,5 +1,11 @@
-import type { ChartData, PreparedData, PreparedSeries, DataBounds, ResolvedOptions } from '../types'
+import type {
+  ChartData, PreparedData, PreparedSeries, PreparedYAxis, DataBounds, ResolvedOptions, Series,
+} from '../types'
+import { PRIMARY_Y_AXIS } from '../constants'
 import { validateData } from './validate'
+import { fillGaps } from './gaps'
+import { isXYSeries, seriesValues, seriesX, xNumber } from './xy'
+import { sourceIndices } from './decimate'
 
 /**
  * Validate, normalize, and compute bounds for chart data.
@@ -8,26 +14,98 @@ import { validateData } from './validate'
 export function prepareData(data: ChartData, options: ResolvedOptions): PreparedData {
   validateData(data)
 
-  const count = data.series[0]!.values.length
+  const count = data.series.find(s => !isXYSeries(s))?.values.length ?? 0
   const labels = data.labels ?? Array.from({ length: count }, (_, i) => i)
 
   const series: PreparedSeries[] = data.series.map((s, i) => ({
     name: s.name,
-    values: s.values,
+    ...prepareSamples(s),
     color: s.color ?? options.colors[i % options.colors.length]!,
     style: s.style ?? 'solid',
     fill: s.fill ?? false,
     fillOpacity: s.fillOpacity ?? 0.15,
     showPoints: s.showPoints ?? true,
     index: i,
+    yAxis: s.yAxis && s.yAxis !== PRIMARY_Y_AXIS ? s.yAxis : undefined,
+    gaps: s.gaps ?? 'break',
   }))
 
-  const bounds = computeBounds(series, options)
+  const yAxes = prepareYAxes(series, options)
+  // If every series sits on a secondary axis, the primary mirrors all of them
+  const primary = series.filter(s => !s.yAxis)
+  const bounds = computeBounds(primary.length ? primary : series, options)
 
-  return { labels, series, bounds }
+  return yAxes.length ? { labels, series, bounds, yAxes } : { labels, series, bounds }
+}
+
+/**
+ * A series' values with gaps resolved and its per-point meta — plus, for an
+ * XY series, its x positions (with sizes from point objects) sorted by x, so
+ * lines run left to right. Decimated series keep their source indices.
+ */
+function prepareSamples(s: Series): Pick<PreparedSeries, 'values' | 'x' | 'sizes' | 'meta' | 'sourceIndex'> {
+  const gaps = s.gaps ?? 'break'
+  const ys = seriesValues(s)
+  const xs = seriesX(s)
+  const source = sourceIndices(s)
+  if (!xs) return { values: fillGaps(ys, gaps), meta: s.meta, sourceIndex: source }
+
+  const order = xs.map((_, i) => i).sort((a, b) => xNumber(xs[a]!) - xNumber(xs[b]!))
+  const x = order.map(i => xs[i]!)
+  const points = s.points
+  return {
+    values: fillGaps(order.map(i => ys[i]!), gaps, x.map(xNumber)),
+    x,
+    sizes: points?.some(p => p.size !== undefined) ? order.map(i => points[i]!.size ?? NaN) : undefined,
+    meta: s.meta || points?.some(p => p.meta !== undefined)
+      ? order.map(i => points?.[i]!.meta ?? s.meta?.[i])
+      : undefined,
+    sourceIndex: source
+      ? order.map(i => source[i]!)
+      : order.some((i, k) => i !== k) ? order : undefined,
+  }
+}
+
+/**
+ * Resolve secondary y axes: every configured axis plus any id a series
+ * references without config (defaults to the right side).
+ */
+function prepareYAxes(series: PreparedSeries[], options: ResolvedOptions): PreparedYAxis[] {
+  const configs = [...options.yAxes]
+  for (const s of series) {
+    if (s.yAxis && !configs.some(c => c.id === s.yAxis)) configs.push({ id: s.yAxis })
+  }
+
+  return configs.map(cfg => {
+    const bound = series.filter(s => s.yAxis === cfg.id)
+    const { yMin, yMax } = valueExtent(bound.length ? bound : series)
+    return {
+      ...cfg,
+      position: cfg.position ?? 'right',
+      yMin: cfg.min ?? yMin,
+      yMax: cfg.max ?? yMax,
+    }
+  })
 }
 
 function computeBounds(series: PreparedSeries[], options: ResolvedOptions): DataBounds {
+  let { yMin, yMax } = valueExtent(series)
+
+  // Apply forced bounds
+  if (options.yMin !== undefined) yMin = options.yMin
+  if (options.yMax !== undefined) yMax = options.yMax
+
+  const count = series.find(s => !s.x)?.values.length ?? 0
+
+  return {
+    xMin: 0,
+    xMax: Math.max(0, count - 1),
+    yMin,
+    yMax,
+  }
+}
+
+function valueExtent(series: PreparedSeries[]): { yMin: number; yMax: number } {
   let yMin = Infinity
   let yMax = -Infinity
 
@@ -45,16 +123,5 @@ function computeBounds(series: PreparedSeries[], options: ResolvedOptions): Data
     yMax = yMax === 0 ? 1 : yMax + Math.abs(yMax) * 0.1
   }
 
-  // Apply forced bounds
-  if (options.yMin !== undefined) yMin = options.yMin
-  if (options.yMax !== undefined) yMax = options.yMax
-
-  const count = series[0]?.values.length ?? 0
-
-  return {
-    xMin: 0,
-    xMax: Math.max(0, count - 1),
-    yMin,
-    yMax,
-  }
+  return { yMin, yMax }
 }
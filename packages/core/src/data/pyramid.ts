@@ -0,0 +1,134 @@
+/**
+ * Multi-resolution min/max pyramid over a series' values.
+ *
+ * Level k holds the min and max (with their indices) of each aligned block
+ * of 2^k points, so the extremes of any index range come from O(log n)
+ * blocks. Decimating a window into B buckets then costs O(B log n) no
+ * matter how many raw points the window spans. Non-finite values (gaps)
+ * are skipped.
+ */
+
+export interface MinMax {
+  minIndex: number
+  maxIndex: number
+}
+
+export interface MinMaxPyramid {
+  readonly length: number
+  /** Indices of the smallest and largest finite values in [start, end), or null if there are none. */
+  range(start: number, end: number): MinMax | null
+}
+
+interface Level {
+  minIndex: Int32Array
+  maxIndex: Int32Array
+}
+
+export function createMinMaxPyramid(values: readonly (number | null)[]): MinMaxPyramid {
+  const n = values.length
+  const levels: Level[] = []
+
+  // Level 1 from raw values; -1 marks a block with no finite value
+  let size = Math.ceil(n / 2)
+  let prev: Level | null = null
+  while (n > 1 && size >= 1) {
+    const level: Level = { minIndex: new Int32Array(size), maxIndex: new Int32Array(size) }
+    for (let b = 0; b < size; b++) {
+      const a = prev ? pick(prev.minIndex, 2 * b) : rawIndex(2 * b)
+      const c = prev ? pick(prev.minIndex, 2 * b + 1) : rawIndex(2 * b + 1)
+      level.minIndex[b] = lower(a, c)
+      const d = prev ? pick(prev.maxIndex, 2 * b) : rawIndex(2 * b)
+      const e = prev ? pick(prev.maxIndex, 2 * b + 1) : rawIndex(2 * b + 1)
+      level.maxIndex[b] = higher(d, e)
+    }
+    levels.push(level)
+    prev = level
+    if (size === 1) break
+    size = Math.ceil(size / 2)
+  }
+
+  function rawIndex(i: number): number {
+    return i < n && Number.isFinite(values[i]) ? i : -1
+  }
+
+  function pick(arr: Int32Array, i: number): number {
+    return i < arr.length ? arr[i]! : -1
+  }
+
+  function lower(a: number, b: number): number {
+    if (a < 0) return b
+    if (b < 0) return a
+    return values[b]! < values[a]! ? b : a
+  }
+
+  function higher(a: number, b: number): number {
+    if (a < 0) return b
+    if (b < 0) return a
+    return values[b]! > values[a]! ? b : a
+  }
+
+  return {
+    length: n,
+
+    range(start, end) {
+      let lo = Math.max(0, start)
+      const hi = Math.min(n, end)
+      let minIndex = -1
+      let maxIndex = -1
+      // Greedily take the largest aligned block that starts at lo and fits
+      while (lo < hi) {
+        let k = 0
+        while (k < levels.length && lo % (2 << k) === 0 && lo + (2 << k) <= hi) k++
+        if (k === 0) {
+          const i = rawIndex(lo)
+          minIndex = lower(minIndex, i)
+          maxIndex = higher(maxIndex, i)
+          lo += 1
+        } else {
+          const level = levels[k - 1]!
+          const block = lo >> k
+          minIndex = lower(minIndex, level.minIndex[block]!)
+          maxIndex = higher(maxIndex, level.maxIndex[block]!)
+          lo += 1 << k
+        }
+      }
+      return minIndex < 0 ? null : { minIndex, maxIndex }
+    },
+  }
+}
+
+/** Evenly spaced points checked on each use, besides the length. */
+const SAMPLES = 16
+
+/**
+ * Indices that tell whether an array's contents changed since it was last
+ * seen: both ends and evenly spaced points between. Appending, streaming
+ * through the same array (push + shift) or rewriting it all move them.
+ */
+export function sampleIndices(length: number): number[] {
+  if (length === 0) return []
+  return Array.from({ length: SAMPLES + 1 }, (_, k) => Math.round((k * (length - 1)) / SAMPLES))
+}
+
+interface CacheEntry {
+  pyramid: MinMaxPyramid
+  sample: (number | null)[]
+}
+
+const cache = new WeakMap<readonly (number | null)[], CacheEntry>()
+
+/**
+ * The pyramid for a values array, kept while the array lives and its
+ * contents look unchanged (see sampleIndices), so re-rendering the same
+ * data — e.g. while zooming — doesn't rebuild it.
+ */
+export function pyramidFor(values: readonly (number | null)[]): MinMaxPyramid {
+  const indices = sampleIndices(values.length)
+  const entry = cache.get(values)
+  if (entry && entry.pyramid.length === values.length && indices.every((i, k) => Object.is(values[i], entry.sample[k]))) {
+    return entry.pyramid
+  }
+  const pyramid = createMinMaxPyramid(values)
+  cache.set(values, { pyramid, sample: indices.map(i => values[i]!) })
+  return pyramid
+}
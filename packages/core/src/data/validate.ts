@@ -1,4 +1,7 @@
-import type { ChartData } from '../types'
+import type { ChartData, GapMode } from '../types'
+import { isXYSeries, seriesLength, seriesValues } from './xy'
+
+const GAP_MODES: GapMode[] = ['break', 'connect', 'zero', 'interpolate']
 
 export class CharttsError extends Error {
   constructor(message: string) {
@@ -16,7 +19,10 @@ export function validateData(data: ChartData): void {
     throw new CharttsError('data.series must be a non-empty array.')
   }
 
-  const len = data.series[0]!.values.length
+  // Label-indexed series share the labels, so they must match in length;
+  // XY series carry their own x and are exempt
+  const first = data.series.find(s => Array.isArray(s?.values) && !isXYSeries(s))
+  const len = first?.values.length ?? 0
 
   for (let i = 0; i < data.series.length; i++) {
     const s = data.series[i]!
@@ -25,32 +31,65 @@ export function validateData(data: ChartData): void {
       throw new CharttsError(`series[${i}].name must be a non-empty string.`)
     }
 
-    if (!Array.isArray(s.values)) {
+    if (s.points !== undefined) {
+      if (!Array.isArray(s.points)) {
+        throw new CharttsError(`series[${i}] ("${s.name}").points must be an array.`)
+      }
+    } else if (!Array.isArray(s.values)) {
       throw new CharttsError(`series[${i}] ("${s.name}").values must be an array.`)
     }
 
-    if (s.values.length !== len) {
+    if (s.gaps !== undefined && !GAP_MODES.includes(s.gaps)) {
+      throw new CharttsError(
+        `series[${i}] ("${s.name}").gaps must be one of ${GAP_MODES.map(m => `'${m}'`).join(', ')}. Got: ${JSON.stringify(s.gaps)}`,
+      )
+    }
+
+    if (s.points) {
+      s.points.forEach((p, j) => validateX(p?.x, `series[${i}] ("${s.name}").points[${j}].x`))
+    } else if (s.x !== undefined) {
+      if (!Array.isArray(s.x) || s.x.length !== s.values.length) {
+        throw new CharttsError(
+          `series[${i}] ("${s.name}").x must be an array with one entry per value (${s.values.length}).`,
+        )
+      }
+      s.x.forEach((x, j) => validateX(x, `series[${i}] ("${s.name}").x[${j}]`))
+    } else if (s.values.length !== len) {
       throw new CharttsError(
-        `Series length mismatch: "${data.series[0]!.name}" has ${len} values ` +
+        `Series length mismatch: "${first!.name}" has ${len} values ` +
         `but "${s.name}" has ${s.values.length}. All series must have equal length.`,
       )
     }
 
-    for (let j = 0; j < s.values.length; j++) {
-      const v = s.values[j]
-      // Allow NaN (used for missing data / indicator warmup periods)
-      if (typeof v !== 'number' || (!Number.isFinite(v) && !Number.isNaN(v))) {
+    if (s.meta !== undefined && (!Array.isArray(s.meta) || s.meta.length !== seriesLength(s))) {
+      throw new CharttsError(
+        `series[${i}] ("${s.name}").meta must be an array with one entry per value (${seriesLength(s)}).`,
+      )
+    }
+
+    const values = seriesValues(s)
+    for (let j = 0; j < values.length; j++) {
+      const v = values[j]
+      // Allow null and NaN (missing data / indicator warmup periods)
+      if (v !== null && (typeof v !== 'number' || (!Number.isFinite(v) && !Number.isNaN(v)))) {
         throw new CharttsError(
-          `series[${i}] ("${s.name}").values[${j}] must be a finite number (or NaN for missing data). ` +
+          `series[${i}] ("${s.name}").values[${j}] must be a finite number (or null for missing data). ` +
           `Got: ${JSON.stringify(v)}`,
         )
       }
     }
   }
 
-  if (data.labels && data.labels.length > 0 && data.labels.length !== len) {
+  if (first && data.labels && data.labels.length > 0 && data.labels.length !== len) {
     throw new CharttsError(
       `labels has ${data.labels.length} entries but series have ${len} values. They must match.`,
     )
   }
 }
+
+function validateX(x: unknown, where: string): void {
+  const valid = x instanceof Date ? !isNaN(x.getTime()) : typeof x === 'number' && Number.isFinite(x)
+  if (!valid) {
+    throw new CharttsError(`${where} must be a finite number or a valid Date. Got: ${JSON.stringify(x)}`)
+  }
+}
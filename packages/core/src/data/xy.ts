@@ -0,0 +1,78 @@
+import type { ChartData, Series, XYPoint } from '../types'
+import { sampleIndices } from './pyramid'
+
+/**
+ * XY series — series sampled at their own x positions, given either as
+ * `Series.x` next to the values or as `Series.points` objects. Label-indexed
+ * series share `ChartData.labels`; XY series carry their own x and may differ
+ * in length.
+ */
+
+/** True for a series with its own x positions. */
+export function isXYSeries(series: Series): boolean {
+  return !!series.x || !!series.points
+}
+
+/** Number of values (or points) in the series. */
+export function seriesLength(series: Series): number {
+  return series.points?.length ?? series.values.length
+}
+
+const pointValues = new WeakMap<XYPoint[], (number | null)[]>()
+
+/**
+ * The series' y values, whichever form it was given in. Values read from
+ * points are kept per points array while it looks unchanged (see
+ * sampleIndices), so the decimation pyramid over them survives re-renders.
+ */
+export function seriesValues(series: Series): (number | null)[] {
+  const points = series.points
+  if (!points) return series.values
+  const cached = pointValues.get(points)
+  if (cached?.length === points.length && sampleIndices(points.length).every(i => Object.is(cached[i], points[i]!.y))) {
+    return cached
+  }
+  const values = points.map(p => p.y)
+  pointValues.set(points, values)
+  return values
+}
+
+/** The series' own x positions, or undefined for a label-indexed series. */
+export function seriesX(series: Series): (number | Date)[] | undefined {
+  return series.points ? series.points.map(p => p.x) : series.x
+}
+
+/** The series' per-point meta — from its points, else `Series.meta`. */
+export function seriesMeta(series: Series): unknown[] | undefined {
+  const points = series.points
+  if (points?.some(p => p.meta !== undefined)) {
+    return points.map((p, i) => p.meta ?? series.meta?.[i])
+  }
+  return series.meta
+}
+
+/** Numeric position of an x value — Dates as epoch milliseconds. */
+export function xNumber(x: number | Date): number {
+  return x instanceof Date ? x.getTime() : x
+}
+
+/**
+ * Extent of the x positions — numeric or Date labels and XY series' own x —
+ * or null when there are none (category labels only).
+ */
+export function xExtent(data: ChartData): [number, number] | null {
+  let min = Infinity
+  let max = -Infinity
+  const include = (x: string | number | Date): void => {
+    if (typeof x === 'string') return
+    const v = xNumber(x)
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  data.labels?.forEach(include)
+  for (const s of data.series) {
+    if (s.points) s.points.forEach(p => include(p.x))
+    else s.x?.forEach(include)
+  }
+  return min <= max ? [min, max] : null
+}
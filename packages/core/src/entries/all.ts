@@ -39,6 +39,21 @@ export {
 // Geo data
 export { WORLD_SIMPLE } from '../charts/geo/geo-type'
 export { WORLD_REGIONS } from '../charts/geo/world-regions'
+export {
+  createProjection, createMercator, createEqualEarth, createAlbersUsa, createOrthographic,
+} from '../charts/geo/projection'
+export type { GeoProjection, GeoProjectionName } from '../charts/geo/projection'
+export { toFeatures, topoFeatures } from '../charts/geo/geojson'
+export type { GeoSource, GeoFeature, GeoFeatureCollection, GeoGeometry, Topology } from '../charts/geo/geojson'
+export type { GeoOptions, GeoRegion } from '../charts/geo/geo-type'
+
+// Graph layout, clustering and exploration
+export { enableGraphClusters } from '../charts/graph/clusters'
+export { enableGraphPaths, shortestPath } from '../charts/graph/explore'
+export { computeGraphLayout } from '../charts/graph/layout-worker'
+export type { GraphLayoutRequest } from '../charts/graph/layout-worker'
+export { louvain } from '../charts/graph/louvain'
+export type { GraphOptions, GraphLayout, GraphClusterOptions } from '../charts/graph/types'
 
 // Financial analysis utilities
 export {
@@ -3,4 +3,11 @@ import { geoChartType } from '../charts/geo/geo-type'
 
 export const Geo = createConvenience(geoChartType)
 export { geoChartType }
+export {
+  createProjection, createMercator, createEqualEarth, createAlbersUsa, createOrthographic,
+} from '../charts/geo/projection'
+export type { GeoProjection, GeoProjectionName } from '../charts/geo/projection'
+export { toFeatures, topoFeatures } from '../charts/geo/geojson'
+export type { GeoSource, GeoFeature, GeoFeatureCollection, GeoGeometry, Topology } from '../charts/geo/geojson'
+export type { GeoOptions, GeoRegion } from '../charts/geo/geo-type'
 export * from './shared'
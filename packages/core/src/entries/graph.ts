@@ -3,4 +3,10 @@ import { graphChartType } from '../charts/graph/graph-type'
 
 export const Graph = createConvenience(graphChartType)
 export { graphChartType }
+export { enableGraphClusters } from '../charts/graph/clusters'
+export { enableGraphPaths, shortestPath } from '../charts/graph/explore'
+export { computeGraphLayout } from '../charts/graph/layout-worker'
+export type { GraphLayoutRequest } from '../charts/graph/layout-worker'
+export { louvain } from '../charts/graph/louvain'
+export type { GraphOptions, GraphLayout, GraphClusterOptions } from '../charts/graph/types'
 export * from './shared'
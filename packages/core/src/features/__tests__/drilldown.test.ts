@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { drillInto, rollupLevel } from '../drilldown'
+import { buildScene } from '../../render/scene'
+import { createChart } from '../../api/create'
+import { treemapChartType } from '../../charts/treemap/treemap-type'
+import { sunburstChartType } from '../../charts/sunburst/sunburst-type'
+import { barChartType } from '../../charts/bar/bar-type'
+import type { ChartData, ChartEvents } from '../../types'
+
+const data: ChartData = {
+  labels: ['Europe/France/Paris', 'Europe/France/Lyon', 'Europe/Spain', 'Asia/Japan', 'Oceania'],
+  series: [{ name: 'Sales', values: [5, 3, 4, null, 2], meta: ['p', 'l', 's', 'j', 'o'] }],
+}
+
+const size = { width: 400, height: 300 }
+
+describe('drill-down data', () => {
+  it('re-roots the data under a node', () => {
+    expect(drillInto(data, ['Europe'], '/')).toMatchObject({
+      labels: ['France/Paris', 'France/Lyon', 'Spain'],
+      series: [{ values: [5, 3, 4], meta: ['p', 'l', 's'] }],
+    })
+    expect(drillInto(data, ['Europe', 'France'], '/')!.labels).toEqual(['Paris', 'Lyon'])
+    expect(drillInto(data, ['Oceania'], '/')).toBeNull()
+  })
+
+  it('sums a level into its top nodes', () => {
+    expect(rollupLevel(data, '/')).toMatchObject({
+      labels: ['Europe', 'Asia', 'Oceania'],
+      series: [{ values: [12, null, 2] }],
+    })
+    const flat: ChartData = { labels: ['a', 'b'], series: [{ name: 'S', values: [1, 2] }] }
+    expect(rollupLevel(flat, '/')).toBe(flat)
+  })
+})
+
+describe('drill-down in the scene', () => {
+  it('shows one level with a breadcrumb back up', () => {
+    const top = buildScene(treemapChartType, data, { drilldown: true }, size)
+    expect(top.ctx!.data.labels).toEqual(['Europe', 'Asia', 'Oceania'])
+    expect(top.nodes.some(n => n.type === 'group' && n.attrs?.class === 'chartts-breadcrumb')).toBe(false)
+
+    const europe = drillInto(data, ['Europe'], '/')!
+    const scene = buildScene(treemapChartType, europe, { drilldown: true }, size, { drillPath: ['Europe'] })
+    expect(scene.ctx!.data.labels).toEqual(['France', 'Spain'])
+    const crumbs = scene.nodes.find(n => n.type === 'group' && n.attrs?.class === 'chartts-breadcrumb')
+    expect(crumbs?.type === 'group' && crumbs.children.map(c => ('attrs' in c ? c.attrs?.['data-drill-depth'] : undefined))).toEqual([0, undefined, undefined])
+    expect(scene.ctx!.area.y).toBeGreaterThan(top.ctx!.area.y)
+  })
+
+  it('hit-tests sunburst sectors with their path', () => {
+    const { ctx } = buildScene(sunburstChartType, data, { drilldown: true }, size)
+    const { area } = ctx!
+    // Just right of the center hole, 12 o'clock is where Europe starts
+    const cx = area.x + area.width / 2
+    const cy = area.y + area.height / 2
+    const radius = Math.min(area.width, area.height) / 2 - 4
+    const hit = sunburstChartType.hitTest(ctx!, cx + 2, cy - radius * 0.3)
+    expect(hit?.path).toEqual(['Europe'])
+    expect(hit?.pointIndex).toBe(0)
+  })
+})
+
+describe('drill-down on a chart', () => {
+  it('loads child datasets and walks back up', async () => {
+    const el = document.createElement('div')
+    document.body.appendChild(el)
+    const children: Record<string, ChartData> = {
+      Q1: { labels: ['Jan', 'Feb'], series: [{ name: 'Sales', values: [1, 2] }] },
+    }
+    const chart = createChart(el, barChartType, { labels: ['Q1', 'Q2'], series: [{ name: 'Sales', values: [3, 4] }] }, {
+      width: 400,
+      height: 300,
+      animate: false,
+      drilldown: { load: (path) => children[path.join('/')] ?? null },
+    })
+    const changes: ChartEvents['drill:change'][] = []
+    chart.on('drill:change', (e) => changes.push(e as ChartEvents['drill:change']))
+
+    await chart.drillDown('Q1')
+    expect(chart.getDrillPath()).toEqual(['Q1'])
+    expect(chart.element.querySelector('.chartts-breadcrumb')?.textContent).toContain('Q1')
+
+    // A leaf leaves the chart where it is
+    await chart.drillDown('Jan')
+    expect(chart.getDrillPath()).toEqual(['Q1'])
+
+    chart.drillUp()
+    expect(chart.getDrillPath()).toEqual([])
+    expect(changes).toEqual([{ path: ['Q1'], previous: [] }, { path: [], previous: ['Q1'] }])
+    chart.destroy()
+  })
+
+  it('reports a failing load and stays on the current level', async () => {
+    const el = document.createElement('div')
+    const failure = new Error('offline')
+    const chart = createChart(el, barChartType, { labels: ['Q1', 'Q2'], series: [{ name: 'Sales', values: [3, 4] }] }, {
+      width: 400,
+      height: 300,
+      animate: false,
+      drilldown: { load: () => Promise.reject(failure) },
+    })
+    const errors: ChartEvents['drill:error'][] = []
+    chart.on('drill:error', (e) => errors.push(e as ChartEvents['drill:error']))
+
+    await expect(chart.drillDown('Q1')).resolves.toBeUndefined()
+    expect(errors).toEqual([{ path: ['Q1'], error: failure }])
+    expect(chart.getDrillPath()).toEqual([])
+    chart.destroy()
+  })
+})
@@ -1,8 +1,12 @@
 import type { ChartData, Series } from '../types'
+import { seriesMeta, seriesValues } from '../data/xy'
 
 /**
  * Dataset — data transformation utilities for filtering, sorting, and
  * aggregating chart data before rendering.
+ *
+ * Transforms work by label index. XY series take part through their y
+ * values and come out label-indexed.
  */
 
 type Labels = ChartData['labels']
@@ -11,6 +15,23 @@ function getLabels(data: ChartData): NonNullable<Labels> {
   return data.labels ?? []
 }
 
+/** The series' values (and meta) at `indices`, label-indexed. */
+function pickValues(s: Series, indices: number[]): Series {
+  const values = seriesValues(s)
+  const meta = seriesMeta(s)
+  return {
+    ...s,
+    x: undefined,
+    points: undefined,
+    values: indices.map(i => values[i] ?? null),
+    meta: meta && indices.map(i => meta[i]),
+  }
+}
+
+function valueIndices(s: Series): number[] {
+  return s.values.map((_, i) => i)
+}
+
 // ---------------------------------------------------------------------------
 // Filter
 // ---------------------------------------------------------------------------
@@ -23,16 +44,16 @@ export function filterData(
   const labels = getLabels(data)
   const keepIndices = labels
     .map((_: unknown, i: number) =>
-      data.series.some((s, si) => predicate(s.values[i] ?? 0, i, si)) ? i : -1,
+      data.series.some((s, si) => predicate(seriesValues(s)[i] ?? NaN, i, si)) ? i : -1,
     )
     .filter((i: number) => i >= 0)
 
   return {
     ...data,
-    series: data.series.map((s, si) => ({
-      ...s,
-      values: s.values.filter((v, i) => predicate(v, i, si)),
-    })),
+    series: data.series.map((s, si) => {
+      const values = seriesValues(s)
+      return pickValues(s, valueIndices(s).filter(i => predicate(values[i] ?? NaN, i, si)))
+    }),
     labels: keepIndices.map((i: number) => (labels as unknown[])[i]) as Labels,
   }
 }
@@ -64,10 +85,7 @@ export function filterLabels(
   return {
     ...data,
     labels: indices.map(i => (labels as unknown[])[i]) as Labels,
-    series: data.series.map(s => ({
-      ...s,
-      values: indices.map(i => s.values[i] ?? 0),
-    })),
+    series: data.series.map(s => pickValues(s, indices)),
   }
 }
 
@@ -90,17 +108,15 @@ export function sortData(
   } else {
     const series = data.series[by]
     if (series) {
-      indices.sort((a, b) => dir * ((series.values[a] ?? 0) - (series.values[b] ?? 0)))
+      const values = seriesValues(series)
+      indices.sort((a, b) => dir * ((values[a] ?? 0) - (values[b] ?? 0)))
     }
   }
 
   return {
     ...data,
     labels: indices.map(i => (labels as unknown[])[i]) as Labels,
-    series: data.series.map(s => ({
-      ...s,
-      values: indices.map(i => s.values[i] ?? 0),
-    })),
+    series: data.series.map(s => pickValues(s, indices)),
   }
 }
 
@@ -118,7 +134,7 @@ export function aggregateData(
   const labels = getLabels(data)
   const agg = getAggFn(fn)
   const values = (labels as unknown[]).map((_: unknown, i: number) => {
-    const vals = data.series.map(s => s.values[i] ?? 0)
+    const vals = data.series.map(s => seriesValues(s)[i] ?? 0)
     return agg(vals)
   })
 
@@ -159,7 +175,7 @@ export function pivotData(data: ChartData): ChartData {
   const newLabels = data.series.map(s => s.name) as string[]
   const newSeries: Series[] = (labels as unknown[]).map((label: unknown, i: number) => ({
     name: String(label),
-    values: data.series.map(s => s.values[i] ?? 0),
+    values: data.series.map(s => seriesValues(s)[i] ?? 0),
   }))
 
   return { labels: newLabels, series: newSeries }
@@ -175,9 +191,6 @@ export function sliceData(data: ChartData, start: number, end?: number): ChartDa
   return {
     ...data,
     labels: (labels as unknown[]).slice(start, end) as Labels,
-    series: data.series.map(s => ({
-      ...s,
-      values: s.values.slice(start, end),
-    })),
+    series: data.series.map(s => pickValues(s, valueIndices(s).slice(start, end))),
   }
 }
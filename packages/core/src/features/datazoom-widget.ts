@@ -18,6 +18,7 @@
 
 import type { ChartData } from '../types'
 import { createDataZoomState, type DataZoomState, type DataZoomRange } from './datazoom'
+import { seriesValues } from '../data/xy'
 
 export interface DataZoomWidgetOptions {
   /** Chart data (first series used for minimap sparkline). */
@@ -157,7 +158,8 @@ export function createDataZoomWidget(options: DataZoomWidgetOptions): DataZoomWi
     const series = currentData.series[0]
     if (!series || series.values.length === 0) return
 
-    const values = series.values.filter(v => !isNaN(v))
+    const ys = seriesValues(series)
+    const values = ys.filter((v): v is number => v !== null && !isNaN(v))
     if (values.length === 0) return
 
     const max = Math.max(...values)
@@ -171,10 +173,10 @@ export function createDataZoomWidget(options: DataZoomWidgetOptions): DataZoomWi
     ctx.globalAlpha = 0.5
 
     let started = false
-    for (let i = 0; i < series.values.length; i++) {
-      const v = series.values[i]!
-      if (isNaN(v)) continue
-      const x = (i / Math.max(series.values.length - 1, 1)) * w
+    for (let i = 0; i < ys.length; i++) {
+      const v = ys[i]
+      if (v == null || isNaN(v)) continue
+      const x = (i / Math.max(ys.length - 1, 1)) * w
       const y = h - pad - ((v - min) / range) * (h - pad * 2)
       if (!started) { ctx.moveTo(x, y); started = true }
       else ctx.lineTo(x, y)
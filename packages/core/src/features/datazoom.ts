@@ -1,6 +1,7 @@
 import type { ChartData, RenderNode } from '../types'
 import { rect, path, text } from '../render/tree'
 import { PathBuilder } from '../render/tree'
+import { seriesValues } from '../data/xy'
 
 /**
  * DataZoom — interactive data range selection and filtering.
@@ -137,13 +138,13 @@ export function renderDataZoomSlider(
 
   // Minimap sparkline
   if (opts.showMinimap !== false && data.series[0]) {
-    const values = data.series[0].values
-    const max = Math.max(...values.map(Math.abs), 1)
+    const values = seriesValues(data.series[0])
+    const max = Math.max(...values.map(v => Math.abs(v ?? 0)), 1)
     const pb = new PathBuilder()
 
     for (let i = 0; i < values.length; i++) {
       const x = opts.x + (i / Math.max(values.length - 1, 1)) * opts.width
-      const y = opts.y + h - (Math.abs(values[i]!) / max) * (h - 4) - 2
+      const y = opts.y + h - (Math.abs(values[i] ?? 0) / max) * (h - 4) - 2
       if (i === 0) pb.moveTo(x, y)
       else pb.lineTo(x, y)
     }
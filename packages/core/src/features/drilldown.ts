@@ -0,0 +1,203 @@
+import type { ChartData, RenderNode, ResolvedOptions, ThemeConfig } from '../types'
+import { CSS_PREFIX } from '../constants'
+import { group, rect, text } from '../render/tree'
+import { measureText } from '../utils/text-measure'
+import { isXYSeries, seriesValues } from '../data/xy'
+import { legendItemAt } from '../legend/interactive'
+import { filterLabels } from './dataset'
+
+/**
+ * Drill-down — navigating hierarchical data one level at a time.
+ *
+ * The hierarchy comes from labels ("Europe/France/Paris"). drillInto()
+ * re-roots the data under a node; rollupLevel() sums a level into its top
+ * nodes for charts that draw one level at a time. The breadcrumb trail marks
+ * its crumbs with `data-drill-depth`, so the breadcrumb control finds them by
+ * DOM event on SVG and by geometry on canvas.
+ */
+
+/** Height reserved above the chart for the breadcrumb trail. */
+export const BREADCRUMB_HEIGHT = 22
+
+const CRUMB_GAP = 6
+const CRUMB_SEPARATOR = '›'
+
+/** Separator between hierarchy levels in labels — '/' unless drilldown sets one. */
+export function labelSeparator(options: ResolvedOptions): string {
+  return options.drilldown ? options.drilldown.separator : '/'
+}
+
+function splitLabel(label: string | number | Date, separator: string): string[] {
+  return String(label).split(separator).map(p => p.trim()).filter(Boolean)
+}
+
+/**
+ * The data below the node at `path`: labels under it, with the path
+ * stripped. Null when nothing lies below (a leaf or an unknown node).
+ */
+export function drillInto(data: ChartData, path: string[], separator: string): ChartData | null {
+  const labels = data.labels ?? []
+  const below = labels.filter(label => {
+    const parts = splitLabel(label, separator)
+    return parts.length > path.length && path.every((name, k) => parts[k] === name)
+  })
+  if (!below.length) return null
+
+  const kept = filterLabels(data, below)
+  return {
+    ...kept,
+    labels: (kept.labels ?? []).map(label => splitLabel(label, separator).slice(path.length).join(separator)),
+  }
+}
+
+/**
+ * Sum hierarchical labels into their top-level nodes ("A/x", "A/y" → "A").
+ * Missing values are skipped; a node with none stays missing. Flat labels
+ * and XY series pass through unchanged.
+ */
+export function rollupLevel(data: ChartData, separator: string): ChartData {
+  const labels = data.labels ?? []
+  if (!labels.some(label => String(label).includes(separator))) return data
+
+  const groups = new Map<string, number[]>()
+  labels.forEach((label, i) => {
+    const top = splitLabel(label, separator)[0] ?? String(label)
+    const members = groups.get(top)
+    if (members) members.push(i)
+    else groups.set(top, [i])
+  })
+  const members = [...groups.values()]
+
+  return {
+    ...data,
+    labels: [...groups.keys()],
+    series: data.series.map(s => {
+      if (isXYSeries(s)) return s
+      const values = seriesValues(s)
+      return { ...s, meta: undefined, values: members.map(indices => sumAt(values, indices)) }
+    }),
+  }
+}
+
+function sumAt(values: (number | null)[], indices: number[]): number | null {
+  let sum: number | null = null
+  for (const i of indices) {
+    const v = values[i]
+    if (v !== null && v !== undefined && !Number.isNaN(v)) sum = (sum ?? 0) + v
+  }
+  return sum
+}
+
+/**
+ * Breadcrumb trail: the top level, then each node drilled into. Every crumb
+ * but the current one is a focusable button carrying its depth (0 is the
+ * top level) on `data-drill-depth`. (x, y) is the trail's top-left corner.
+ */
+export function renderBreadcrumb(crumbs: string[], x: number, y: number, theme: ThemeConfig): RenderNode {
+  const fontSize = theme.fontSizeSmall
+  const cy = y + BREADCRUMB_HEIGHT / 2
+  const textAttrs = {
+    dominantBaseline: 'central' as const,
+    fontSize,
+    fontFamily: `var(${CSS_PREFIX}-font-family)`,
+  }
+
+  const items: RenderNode[] = []
+  let cx = x
+  crumbs.forEach((name, depth) => {
+    const width = measureText(name, fontSize)
+    if (depth === crumbs.length - 1) {
+      items.push(text(cx, cy, name, {
+        ...textAttrs,
+        class: 'chartts-breadcrumb-item chartts-breadcrumb-current',
+        key: depth,
+        fill: `var(${CSS_PREFIX}-text)`,
+        fontWeight: 600,
+      }))
+      return
+    }
+
+    items.push(group([
+      rect(cx - 2, y + 3, width + 4, BREADCRUMB_HEIGHT - 6, {
+        class: 'chartts-breadcrumb-hit',
+        fill: 'transparent',
+        'data-drill-depth': depth,
+      }),
+      text(cx, cy, name, { ...textAttrs, class: 'chartts-breadcrumb-text', fill: `var(${CSS_PREFIX}-text-muted)` }),
+    ], {
+      class: 'chartts-breadcrumb-item',
+      key: depth,
+      role: 'button',
+      tabindex: 0,
+      ariaLabel: `Back to ${name}`,
+      'data-drill-depth': depth,
+    }))
+    cx += width + CRUMB_GAP
+    items.push(text(cx, cy, CRUMB_SEPARATOR, {
+      ...textAttrs,
+      class: 'chartts-breadcrumb-separator',
+      key: `separator-${depth}`,
+      fill: `var(${CSS_PREFIX}-text-muted)`,
+    }))
+    cx += measureText(CRUMB_SEPARATOR, fontSize) + CRUMB_GAP
+  })
+
+  return group(items, { class: 'chartts-breadcrumb', role: 'navigation', ariaLabel: 'Drill-down path' })
+}
+
+// ---------------------------------------------------------------------------
+// Breadcrumb control
+// ---------------------------------------------------------------------------
+
+export interface BreadcrumbHandlers {
+  /** A crumb was clicked or activated from the keyboard. 0 is the top level. */
+  onNavigate(depth: number): void
+  /** Last rendered nodes — used to hit-test the breadcrumb on canvas. */
+  getNodes(): RenderNode[]
+}
+
+export interface BreadcrumbInstance {
+  attach(el: SVGElement | HTMLCanvasElement): void
+  destroy(): void
+}
+
+export function createBreadcrumbControl(handlers: BreadcrumbHandlers): BreadcrumbInstance {
+  let target: SVGElement | HTMLCanvasElement | null = null
+
+  function depthAt(e: MouseEvent): string | null {
+    if (!target) return null
+    if (target instanceof HTMLCanvasElement) {
+      const r = target.getBoundingClientRect()
+      return legendItemAt(handlers.getNodes(), e.clientX - r.left, e.clientY - r.top, 'data-drill-depth')
+    }
+    return (e.target as Element | null)?.closest?.('[data-drill-depth]')?.getAttribute('data-drill-depth') ?? null
+  }
+
+  function onClick(e: MouseEvent): void {
+    const depth = depthAt(e)
+    if (depth !== null) handlers.onNavigate(Number(depth))
+  }
+
+  function onKeyDown(e: KeyboardEvent): void {
+    if (e.key !== 'Enter' && e.key !== ' ') return
+    const depth = (e.target as Element | null)?.closest?.('.chartts-breadcrumb-item')?.getAttribute('data-drill-depth')
+    if (depth == null) return
+    e.preventDefault()
+    handlers.onNavigate(Number(depth))
+  }
+
+  return {
+    attach(el) {
+      target = el
+      el.addEventListener('click', onClick as EventListener)
+      el.addEventListener('keydown', onKeyDown as EventListener)
+    },
+
+    destroy() {
+      if (!target) return
+      target.removeEventListener('click', onClick as EventListener)
+      target.removeEventListener('keydown', onKeyDown as EventListener)
+      target = null
+    },
+  }
+}
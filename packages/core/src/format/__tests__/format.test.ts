@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { formatNumber, formatDuration, numberFormat } from '../number'
+import { formatDate, timeTickLabels } from '../time'
+import { getLocale, DEFAULT_LOCALE } from '../locale'
+import { createFormatter } from '../formatter'
+import { resolveOptions, formatX, formatY } from '../../constants'
+import { createTimeScale } from '../../scales/time'
+
+const de = getLocale('de-DE', 'EUR')
+
+describe('locales', () => {
+  it('reads separators, currency and names from Intl', () => {
+    expect(de).toMatchObject({ decimal: ',', thousands: '.', currency: ['', ' €'] })
+    expect(de.months[2]).toBe('März')
+    expect(getLocale('de-DE', 'EUR')).toBe(de)
+    expect(getLocale()).toBe(DEFAULT_LOCALE)
+  })
+
+  it('rejects an unknown tag', () => {
+    expect(() => getLocale('not a locale!')).toThrow('[chartts] Unknown locale')
+  })
+})
+
+describe('number formats', () => {
+  it('write specifiers with the locale', () => {
+    expect(formatNumber(1234.567, '$,.2f', de)).toBe('1.234,57 €')
+    expect(formatNumber(0.123, '.1%', de)).toBe('12,3%')
+    expect(formatNumber(1234.567, '$,.2f')).toBe('$1,234.57')
+    expect(numberFormat('$,.2s')(1_250_000)).toBe('$1.3M')
+  })
+
+  it('format durations', () => {
+    expect(formatDuration(3_900_000)).toBe('1h 5m')
+    expect(formatDuration(90_061_000)).toBe('1d 1h')
+    expect(formatDuration(-250)).toBe('-250ms')
+    expect(formatDuration(0)).toBe('0s')
+    expect(numberFormat('duration')(45_000)).toBe('45s')
+  })
+})
+
+describe('time formats', () => {
+  const d = new Date(2024, 0, 5, 14, 7, 9, 42)
+
+  it('expands strftime directives', () => {
+    expect(formatDate(d, '%a %-d %B %Y, %H:%M:%S.%L')).toBe('Fri 5 January 2024, 14:07:09.042')
+    expect(formatDate(d, '%d/%m/%y %I%p %j %e|%_m|%%')).toBe('05/01/24 02PM 005  5| 1|%')
+    expect(formatDate(d, '%B', de)).toBe('Januar')
+  })
+
+  it('names the larger period on the first tick of each', () => {
+    const months = [new Date(2024, 10, 1), new Date(2024, 11, 1), new Date(2025, 0, 1)]
+    expect(timeTickLabels(months, 'month')).toEqual(['Nov 2024', 'Dec', 'Jan 2025'])
+    const hours = [new Date(2024, 0, 5, 12), new Date(2024, 0, 5, 18), new Date(2024, 0, 6, 0)]
+    expect(timeTickLabels(hours, 'hour')).toEqual(['Jan 5 12:00', '18:00', 'Jan 6 00:00'])
+    expect(timeTickLabels(hours, 'hour', de)).toEqual(['5. Jan 12:00', '18:00', '6. Jan 00:00'])
+  })
+
+  it('labels time scale ticks in the locale', () => {
+    const scale = createTimeScale({ domain: [new Date(2024, 0, 15), new Date(2024, 5, 15)], range: [0, 100], locale: de })
+    expect(scale.ticks().map(t => t.label)).toEqual(['Feb 2024', 'Mär', 'Apr', 'Mai', 'Jun'])
+  })
+})
+
+describe('format options', () => {
+  it('resolves specifier strings to formatters', () => {
+    const opts = resolveOptions({ xFormat: '%B %Y', yFormat: '$,.0f', locale: 'de-DE', currency: 'EUR' }, 1)
+    expect(opts.xFormat(new Date(2024, 2, 1))).toBe('März 2024')
+    expect(opts.yFormat(1500)).toBe('1.500 €')
+    expect(createFormatter(',.1f', DEFAULT_LOCALE)('Q1')).toBe('Q1')
+  })
+
+  it('keeps the built-in defaults without a locale', () => {
+    const opts = resolveOptions({}, 1)
+    expect(opts.xFormat).toBe(formatX)
+    expect(opts.yFormat).toBe(formatY)
+    expect(resolveOptions({ locale: 'de-DE' }, 1).yFormat(2_500_000)).toBe('2,5 Mio.')
+  })
+})
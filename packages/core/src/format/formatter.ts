@@ -0,0 +1,46 @@
+import type { FormatLocale } from '../types'
+import { formatCompact, formatNumber, numberFormat } from './number'
+import { formatDate, isTimeSpecifier } from './time'
+
+/**
+ * Label formatters from specifier strings — what `xFormat: '%b %Y'` or
+ * `yFormat: '$,.2s'` resolve to.
+ */
+
+type Formatter = (value: string | number | Date) => string
+
+/**
+ * A formatter for a time specifier (dates, and numbers as epoch ms) or a
+ * number specifier (numbers; other values pass through as text).
+ */
+export function createFormatter(specifier: string, locale: FormatLocale): Formatter {
+  if (isTimeSpecifier(specifier)) {
+    return (value) => {
+      const date = value instanceof Date ? value : new Date(value)
+      return Number.isNaN(date.getTime()) ? String(value) : formatDate(date, specifier, locale)
+    }
+  }
+  const format = numberFormat(specifier, locale)
+  return (value) => typeof value === 'number' ? format(value) : String(value)
+}
+
+const defaults = new WeakMap<FormatLocale, { x: Formatter; y: (value: number) => string }>()
+
+/**
+ * Default x and y formatters under a locale: dates as its short date,
+ * numbers with its separators, y values compact ("1,5 Mio.").
+ * Cached per locale, so callers can recognize them by identity.
+ */
+export function localeFormats(locale: FormatLocale): { x: Formatter; y: (value: number) => string } {
+  let formats = defaults.get(locale)
+  if (!formats) {
+    formats = {
+      x: (value) => value instanceof Date
+        ? formatDate(value, locale.date, locale)
+        : typeof value === 'number' ? formatNumber(value, '', locale) : value,
+      y: (value) => formatCompact(value, locale),
+    }
+    defaults.set(locale, formats)
+  }
+  return formats
+}
@@ -0,0 +1,108 @@
+import type { FormatLocale } from '../types'
+
+/**
+ * Formatting locales — the separators, currency, month and day names and
+ * date patterns that number and time formats read.
+ *
+ * DEFAULT_LOCALE is built in and matches Chartts' historical English output
+ * (24-hour clock, "Jan 5", "Feb 2024"). getLocale() derives any other locale
+ * from Intl, once per tag and currency.
+ */
+
+export const DEFAULT_LOCALE: FormatLocale = {
+  tag: '',
+  decimal: '.',
+  thousands: ',',
+  currency: ['$', ''],
+  months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+  shortMonths: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  days: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  shortDays: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+  periods: ['AM', 'PM'],
+  time: '%H:%M',
+  timeSeconds: '%H:%M:%S',
+  monthDay: '%b %-d',
+  monthYear: '%b %Y',
+  date: '%b %-d, %Y',
+}
+
+const cache = new Map<string, FormatLocale>()
+
+/**
+ * The locale for a BCP 47 tag, with `currency` (ISO 4217, default USD)
+ * for `$` in number formats. No tag gives DEFAULT_LOCALE.
+ */
+export function getLocale(tag?: string, currency = 'USD'): FormatLocale {
+  if (!tag) return DEFAULT_LOCALE
+  const key = `${tag}|${currency}`
+  let locale = cache.get(key)
+  if (!locale) {
+    locale = buildLocale(tag, currency)
+    cache.set(key, locale)
+  }
+  return locale
+}
+
+function buildLocale(tag: string, currency: string): FormatLocale {
+  let number: Intl.NumberFormat
+  try {
+    number = new Intl.NumberFormat(tag)
+  } catch {
+    throw new Error(`[chartts] Unknown locale: "${tag}"`)
+  }
+  const numberParts = number.formatToParts(1234567.5)
+  const money = new Intl.NumberFormat(tag, { style: 'currency', currency }).formatToParts(1)
+  const firstDigit = money.findIndex(p => p.type === 'integer')
+  const lastDigit = money.map(p => p.type).lastIndexOf(money.some(p => p.type === 'fraction') ? 'fraction' : 'integer')
+
+  const names = (opts: Intl.DateTimeFormatOptions, count: number, at: (i: number) => Date): string[] => {
+    const fmt = new Intl.DateTimeFormat(tag, opts)
+    return Array.from({ length: count }, (_, i) => fmt.format(at(i)))
+  }
+  const month = (i: number): Date => new Date(2000, i, 1)
+  // 2000-01-02 was a Sunday
+  const day = (i: number): Date => new Date(2000, 0, 2 + i)
+  const period = (hour: number): string =>
+    new Intl.DateTimeFormat(tag, { hour: 'numeric', hour12: true })
+      .formatToParts(new Date(2000, 0, 1, hour))
+      .find(p => p.type === 'dayPeriod')?.value ?? (hour < 12 ? 'AM' : 'PM')
+
+  return {
+    tag,
+    decimal: numberParts.find(p => p.type === 'decimal')?.value ?? '.',
+    thousands: numberParts.find(p => p.type === 'group')?.value ?? ',',
+    currency: [
+      money.slice(0, firstDigit).map(p => p.value).join(''),
+      money.slice(lastDigit + 1).map(p => p.value).join(''),
+    ],
+    months: names({ month: 'long' }, 12, month),
+    shortMonths: names({ month: 'short' }, 12, month),
+    days: names({ weekday: 'long' }, 7, day),
+    shortDays: names({ weekday: 'short' }, 7, day),
+    periods: [period(1), period(13)],
+    time: pattern(tag, { hour: 'numeric', minute: '2-digit' }),
+    timeSeconds: pattern(tag, { hour: 'numeric', minute: '2-digit', second: '2-digit' }),
+    monthDay: pattern(tag, { month: 'short', day: 'numeric' }),
+    monthYear: pattern(tag, { month: 'short', year: 'numeric' }),
+    date: pattern(tag, { month: 'short', day: 'numeric', year: 'numeric' }),
+  }
+}
+
+/** A strftime-style pattern with the field order and punctuation Intl uses for `opts`. */
+function pattern(tag: string, opts: Intl.DateTimeFormatOptions): string {
+  const fmt = new Intl.DateTimeFormat(tag, opts)
+  const twelveHour = fmt.resolvedOptions().hour12 === true
+  return fmt.formatToParts(new Date(2000, 0, 5, 14, 7, 9)).map(part => {
+    switch (part.type) {
+      case 'year': return '%Y'
+      case 'month': return /^\d+$/.test(part.value) ? '%-m' : '%b'
+      case 'day': return '%-d'
+      case 'hour': return twelveHour ? '%-I' : '%H'
+      case 'minute': return '%M'
+      case 'second': return '%S'
+      case 'dayPeriod': return '%p'
+      case 'literal': return part.value.replace(/%/g, '%%')
+      default: return ''
+    }
+  }).join('')
+}
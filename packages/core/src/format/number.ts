@@ -0,0 +1,192 @@
+import type { FormatLocale } from '../types'
+import { DEFAULT_LOCALE } from './locale'
+
+/**
+ * Number formatting — d3-format specifiers, durations and compact numbers,
+ * written with a locale's decimal and thousands separators and currency.
+ */
+
+/** A parsed `[[fill]align][sign][symbol][0][width][,][.precision][~][type]` specifier. */
+export interface FormatSpecifier {
+  fill: string
+  align: '<' | '>' | '^' | '='
+  sign: '-' | '+' | ' ' | '('
+  symbol: '' | '$' | '#'
+  zero: boolean
+  width: number | undefined
+  comma: boolean
+  precision: number | undefined
+  trim: boolean
+  type: '' | 'e' | 'f' | 'g' | 'r' | 's' | '%' | 'd' | 'x' | 'o' | 'b'
+}
+
+const SPECIFIER = /^(?:(.)?([<>=^]))?([+\-( ])?([$#])?(0)?(\d+)?(,)?(\.\d+)?(~)?([efgrs%dxob])?$/
+
+const SI_PREFIXES = ['y', 'z', 'a', 'f', 'p', 'n', 'µ', 'm', '', 'k', 'M', 'G', 'T', 'P', 'E', 'Z', 'Y']
+
+/** Parse a d3-format specifier such as `$,.2f` or `.1%`. Throws on an invalid one. */
+export function parseSpecifier(specifier: string): FormatSpecifier {
+  const match = SPECIFIER.exec(specifier)
+  if (!match) throw new Error(`[chartts] Invalid format specifier: "${specifier}"`)
+  const [, fill, align, sign, symbol, zero, width, comma, precision, trim, type] = match
+  return {
+    fill: fill ?? (zero && !align ? '0' : ' '),
+    align: (align ?? (zero ? '=' : '>')) as FormatSpecifier['align'],
+    sign: (sign ?? '-') as FormatSpecifier['sign'],
+    symbol: (symbol ?? '') as FormatSpecifier['symbol'],
+    zero: !!zero,
+    width: width === undefined ? undefined : Number(width),
+    comma: !!comma,
+    precision: precision === undefined ? undefined : Number(precision.slice(1)),
+    trim: !!trim,
+    type: (type ?? '') as FormatSpecifier['type'],
+  }
+}
+
+/**
+ * Format a number with a d3-format specifier: `,.2f` → "1,234.57",
+ * `$.3s` → "$1.23k", `.1%` → "12.3%", `+d` → "+42". An empty specifier
+ * gives the shortest round-tripping form.
+ */
+export function formatNumber(
+  value: number,
+  specifier: string | FormatSpecifier,
+  locale: FormatLocale = DEFAULT_LOCALE,
+): string {
+  const spec = typeof specifier === 'string' ? parseSpecifier(specifier) : specifier
+  if (!Number.isFinite(value)) return String(value)
+
+  const negative = value < 0 || Object.is(value, -0)
+  let digits = formatDigits(Math.abs(value), spec)
+  if (spec.trim) digits = trimZeros(digits)
+  if (locale.decimal !== '.') digits = digits.replace('.', locale.decimal)
+  if (spec.comma) digits = groupThousands(digits, locale.thousands)
+
+  // "-0.00" reads as a bug: drop the sign when nothing but zeros is left
+  const showNegative = negative && /[1-9]/.test(digits)
+  const prefix = (showNegative
+    ? spec.sign === '(' ? '(' : '-'
+    : spec.sign === '+' ? '+' : spec.sign === ' ' ? ' ' : '') +
+    (spec.symbol === '$' ? locale.currency[0] : spec.symbol === '#' ? ({ x: '0x', o: '0o', b: '0b' } as Record<string, string>)[spec.type] ?? '' : '')
+  const suffix = (spec.symbol === '$' ? locale.currency[1] : '') + (showNegative && spec.sign === '(' ? ')' : '')
+
+  return pad(prefix, digits, suffix, spec)
+}
+
+function formatDigits(abs: number, spec: FormatSpecifier): string {
+  const p = spec.precision
+  switch (spec.type) {
+    case 'f': return abs.toFixed(p ?? 6)
+    case '%': return (abs * 100).toFixed(p ?? 6) + '%'
+    case 'e': return abs.toExponential(p ?? 6)
+    case 'g': return abs.toPrecision(Math.max(1, p ?? 6))
+    case 'r': return String(Number(abs.toPrecision(Math.max(1, p ?? 12))))
+    case 'd': return Math.round(abs).toString()
+    case 'x': return Math.round(abs).toString(16)
+    case 'o': return Math.round(abs).toString(8)
+    case 'b': return Math.round(abs).toString(2)
+    case 's': {
+      const exponent = abs === 0 ? 0 : Math.floor(Math.log10(Number(abs.toPrecision(Math.max(1, p ?? 6)))))
+      const tier = Math.max(-8, Math.min(8, Math.floor(exponent / 3)))
+      const scaled = abs / 10 ** (tier * 3)
+      const body = p === undefined ? String(Number(scaled.toPrecision(6))) : toSignificant(scaled, Math.max(1, p))
+      return body + SI_PREFIXES[tier + 8]
+    }
+    default:
+      // No type: shortest form, or `p` significant digits with trailing zeros trimmed
+      return p === undefined ? String(abs) : trimZeros(abs.toPrecision(Math.max(1, p)))
+  }
+}
+
+/** `p` significant digits in fixed notation: 120 at 2 digits is "120", not "1.2e+2". */
+function toSignificant(x: number, p: number): string {
+  const rounded = Number(x.toPrecision(p))
+  const exponent = rounded === 0 ? 0 : Math.floor(Math.log10(rounded))
+  return rounded.toFixed(Math.max(0, p - 1 - exponent))
+}
+
+/** Drop insignificant trailing zeros: "1.500" → "1.5", "2.000k" → "2k". */
+function trimZeros(digits: string): string {
+  return digits.replace(/\.(\d*?)0+(?=\D*$)/, (_, kept: string) => (kept ? `.${kept}` : ''))
+}
+
+/** Insert thousands separators into the integer part. */
+function groupThousands(digits: string, separator: string): string {
+  const match = /^(\d+)(.*)$/.exec(digits)
+  if (!match) return digits
+  return match[1]!.replace(/\B(?=(\d{3})+$)/g, separator) + match[2]
+}
+
+function pad(prefix: string, digits: string, suffix: string, spec: FormatSpecifier): string {
+  const body = prefix + digits + suffix
+  const padding = spec.width === undefined ? 0 : spec.width - body.length
+  if (padding <= 0) return body
+  const fill = spec.fill.repeat(padding)
+  switch (spec.align) {
+    case '<': return body + fill
+    case '^': return fill.slice(0, padding >> 1) + body + fill.slice(padding >> 1)
+    case '=': return prefix + fill + digits + suffix
+    default: return fill + body
+  }
+}
+
+/**
+ * A formatter for one specifier, parsed once. `'duration'` reads values as
+ * milliseconds (see formatDuration).
+ */
+export function numberFormat(specifier: string, locale: FormatLocale = DEFAULT_LOCALE): (value: number) => string {
+  if (specifier === 'duration') return (value) => formatDuration(value, locale)
+  const spec = parseSpecifier(specifier)
+  return (value) => formatNumber(value, spec, locale)
+}
+
+// ---------------------------------------------------------------------------
+// Compact numbers and durations
+// ---------------------------------------------------------------------------
+
+const compactCache = new Map<string, Intl.NumberFormat>()
+
+/** Compact form in the locale's words: 1500 → "1.5K" in en-US, 2_500_000 → "2,5 Mio." in de-DE. */
+export function formatCompact(value: number, locale: FormatLocale = DEFAULT_LOCALE): string {
+  const tag = locale.tag || 'en-US'
+  let fmt = compactCache.get(tag)
+  if (!fmt) {
+    fmt = new Intl.NumberFormat(tag, { notation: 'compact', maximumFractionDigits: 1 })
+    compactCache.set(tag, fmt)
+  }
+  return fmt.format(value)
+}
+
+const DURATION_UNITS: { unit: 'day' | 'hour' | 'minute' | 'second' | 'millisecond'; ms: number; short: string }[] = [
+  { unit: 'day', ms: 86_400_000, short: 'd' },
+  { unit: 'hour', ms: 3_600_000, short: 'h' },
+  { unit: 'minute', ms: 60_000, short: 'm' },
+  { unit: 'second', ms: 1000, short: 's' },
+  { unit: 'millisecond', ms: 1, short: 'ms' },
+]
+
+/**
+ * Milliseconds as the two largest whole units: 3_900_000 → "1h 5m",
+ * 45_000 → "45s", 250 → "250ms". Non-default locales name units through Intl.
+ */
+export function formatDuration(ms: number, locale: FormatLocale = DEFAULT_LOCALE): string {
+  if (!Number.isFinite(ms)) return String(ms)
+  const sign = ms < 0 ? '-' : ''
+  let rest = Math.round(Math.abs(ms))
+
+  const parts: string[] = []
+  for (const { unit, ms: size, short } of DURATION_UNITS) {
+    const count = Math.floor(rest / size)
+    if (!count) {
+      if (parts.length) break
+      continue
+    }
+    rest -= count * size
+    parts.push(locale.tag
+      ? new Intl.NumberFormat(locale.tag, { style: 'unit', unit, unitDisplay: 'narrow' }).format(count)
+      : `${count}${short}`)
+    if (parts.length === 2) break
+  }
+  if (!parts.length) return locale.tag ? new Intl.NumberFormat(locale.tag, { style: 'unit', unit: 'second', unitDisplay: 'narrow' }).format(0) : '0s'
+  return sign + parts.join(' ')
+}
@@ -0,0 +1,108 @@
+import type { FormatLocale } from '../types'
+import { DEFAULT_LOCALE } from './locale'
+
+/**
+ * Date formatting with strftime-style directives, as in d3-time-format:
+ * `%b %Y` → "Feb 2024", `%-d/%m %H:%M` → "5/01 14:07".
+ *
+ *   %a %A  weekday, short / long      %H  hour 00–23
+ *   %b %B  month, short / long        %I  hour 01–12
+ *   %d     day 01–31                  %M  minute
+ *   %e     day, space-padded          %S  second
+ *   %m     month 01–12                %L  milliseconds
+ *   %y %Y  year, 2 / 4 digits         %p  AM / PM
+ *   %j     day of the year            %%  a literal percent sign
+ *
+ * A `-` after the `%` drops padding (`%-d` → "5"), `_` pads with spaces,
+ * `0` with zeros. Local time throughout.
+ */
+
+const DIRECTIVE = /%([-_0]?)([a-zA-Z%])/g
+
+/** True when `specifier` has a time directive — `%b` is a date, `.1%` is a number. */
+export function isTimeSpecifier(specifier: string): boolean {
+  return /%[-_0]?[aAbBdeHIjLmMpSyY]/.test(specifier)
+}
+
+export function formatDate(date: Date, specifier: string, locale: FormatLocale = DEFAULT_LOCALE): string {
+  return specifier.replace(DIRECTIVE, (match, flag: string, directive: string) => {
+    const field = dateField(date, directive, locale)
+    if (field === undefined) return match
+    const [value, width, fill] = field
+    if (typeof value === 'string') return value
+    if (flag === '-') return String(value)
+    return String(value).padStart(width, flag === '_' ? ' ' : flag === '0' ? '0' : fill)
+  })
+}
+
+/** A formatter for one specifier. */
+export function timeFormat(specifier: string, locale: FormatLocale = DEFAULT_LOCALE): (date: Date) => string {
+  return (date) => formatDate(date, specifier, locale)
+}
+
+/** A directive's value — text as is, numbers with their padded width and fill. */
+function dateField(d: Date, directive: string, locale: FormatLocale): [string | number, number, string] | undefined {
+  switch (directive) {
+    case 'a': return [locale.shortDays[d.getDay()]!, 0, '']
+    case 'A': return [locale.days[d.getDay()]!, 0, '']
+    case 'b': return [locale.shortMonths[d.getMonth()]!, 0, '']
+    case 'B': return [locale.months[d.getMonth()]!, 0, '']
+    case 'd': return [d.getDate(), 2, '0']
+    case 'e': return [d.getDate(), 2, ' ']
+    case 'H': return [d.getHours(), 2, '0']
+    case 'I': return [d.getHours() % 12 || 12, 2, '0']
+    case 'j': return [dayOfYear(d), 3, '0']
+    case 'L': return [d.getMilliseconds(), 3, '0']
+    case 'm': return [d.getMonth() + 1, 2, '0']
+    case 'M': return [d.getMinutes(), 2, '0']
+    case 'p': return [locale.periods[d.getHours() < 12 ? 0 : 1], 0, '']
+    case 'S': return [d.getSeconds(), 2, '0']
+    case 'y': return [d.getFullYear() % 100, 2, '0']
+    case 'Y': return [d.getFullYear(), 4, '0']
+    case '%': return ['%', 0, '']
+    default: return undefined
+  }
+}
+
+function dayOfYear(d: Date): number {
+  const start = new Date(d.getFullYear(), 0, 1)
+  return Math.round((new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() - start.getTime()) / 86_400_000) + 1
+}
+
+// ---------------------------------------------------------------------------
+// Multi-level tick labels
+// ---------------------------------------------------------------------------
+
+export type TimeUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year'
+
+/**
+ * Tick labels for ticks stepped by `unit`. Each label is short ("Mar",
+ * "14:00"); the first tick, and the first tick in each new day / year, also
+ * names the larger period ("Jan 2025", "Jan 6 00:00") so the axis reads
+ * without repeating it everywhere.
+ */
+export function timeTickLabels(dates: Date[], unit: TimeUnit, locale: FormatLocale = DEFAULT_LOCALE): string[] {
+  const { base, context, period } = tickLevels(unit, locale)
+  return dates.map((d, i) => {
+    const first = i === 0 || (period !== undefined && period(d) !== period(dates[i - 1]!))
+    return formatDate(d, first && context ? context : base, locale)
+  })
+}
+
+function tickLevels(unit: TimeUnit, locale: FormatLocale): {
+  base: string
+  context?: string
+  period?: (d: Date) => number
+} {
+  const day = (d: Date): number => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+  const year = (d: Date): number => d.getFullYear()
+  switch (unit) {
+    case 'second': return { base: locale.timeSeconds, context: `${locale.monthDay} ${locale.timeSeconds}`, period: day }
+    case 'minute':
+    case 'hour': return { base: locale.time, context: `${locale.monthDay} ${locale.time}`, period: day }
+    case 'day':
+    case 'week': return { base: locale.monthDay, context: locale.date, period: year }
+    case 'month': return { base: '%b', context: locale.monthYear, period: year }
+    case 'year': return { base: '%Y' }
+  }
+}
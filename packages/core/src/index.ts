@@ -1,5 +1,6 @@
 // Core API
 export { createChart } from './api/create'
+export { hydrateChart } from './api/hydrate'
 export { defineChartType } from './api/define'
 export { createConvenience } from './api/factory'
 export type { ChartConfig } from './api/factory'
@@ -7,6 +8,10 @@ export type { ChartConfig } from './api/factory'
 // SSR — render to SVG string without DOM
 export { renderToString } from './render/string'
 
+// Headless render pipeline (shared by createChart, SSR and test-utils)
+export { buildScene, PLOT_CLIP_ID } from './render/scene'
+export type { Scene, SceneSize, SceneState } from './render/scene'
+
 // Renderers (SVG only — Canvas/WebGL loaded lazily when requested)
 export { createSVGRenderer } from './render/svg'
 
@@ -14,10 +19,14 @@ export { createSVGRenderer } from './render/svg'
 export { path, rect, circle, line, text, group, defs, clipPathDef } from './render/tree'
 
 // Data decimation
-export { decimateData } from './data/decimate'
+export { decimateData, windowIndices } from './data/decimate'
+export type { DecimateOptions } from './data/decimate'
+export { createMinMaxPyramid } from './data/pyramid'
+export type { MinMaxPyramid, MinMax } from './data/pyramid'
+export { fillGaps } from './data/gaps'
 
 // Zoom & Pan
-export { createZoomPan } from './interaction/zoom-pan'
+export { createZoomPan, visibleWindow } from './interaction/zoom-pan'
 export type { ZoomPanConfig, ZoomPanState, ZoomPanInstance } from './interaction/zoom-pan'
 
 // Linked Charts
@@ -35,6 +44,7 @@ export type { StreamingConfig, StreamingInstance } from './data/streaming'
 export { filterData, filterSeries, filterLabels, sortData, aggregateData, transformData, pivotData, sliceData } from './features/dataset'
 export { createDataZoomState, applyDataZoom, renderDataZoomSlider } from './features/datazoom'
 export type { DataZoomRange, DataZoomState, DataZoomSliderOptions } from './features/datazoom'
+export { drillInto, rollupLevel } from './features/drilldown'
 export { createDataZoomWidget } from './features/datazoom-widget'
 export type { DataZoomWidgetOptions, DataZoomWidget } from './features/datazoom-widget'
 export { createGraphicElements, horizontalLine, verticalLine, annotation } from './features/graphic'
@@ -42,6 +52,15 @@ export type { GraphicElement, GraphicArea } from './features/graphic'
 export { parseRichText, richLabel } from './features/richtext'
 export type { RichTextStyle, RichTextOptions } from './features/richtext'
 
+// Annotations
+export { annotationNodes, renderAnnotations, moveAnnotation } from './annotation/annotation'
+
+// Accessibility
+export { sonifySeries, pointNote, valueToFrequency, seriesPan } from './a11y/sonify'
+export type { NoteEvent, SonifyOptions } from './a11y/sonify'
+export { dataTableModel } from './a11y/data-table'
+export type { DataTableModel } from './a11y/data-table'
+
 // Registry
 export { registerChart, getChart, registerScale, getScaleFactory, clearRegistry } from './registry/registry'
 
@@ -49,6 +68,17 @@ export { registerChart, getChart, registerScale, getScaleFactory, clearRegistry
 export { createLinearScale } from './scales/linear'
 export { createCategoricalScale } from './scales/categorical'
 export { createTimeScale } from './scales/time'
+export { createLogScale, createSymlogScale } from './scales/log'
+export type { LogScaleOpts, SymlogScaleOpts } from './scales/log'
+
+// Color scales
+export { createColorScale } from './color/scale'
+export type { ColorScaleDefaults } from './color/scale'
+export { parseColor, formatColor, colorRamp, contrastText } from './color/color'
+export type { RGBA, ColorInterpolator } from './color/color'
+export { PALETTES } from './color/palettes'
+export { layoutColorMap, renderColorLegend } from './legend/color-legend'
+export type { ColorMap, ColorLegendConfig, ColorLegendPosition } from './legend/color-legend'
 
 // Theme
 export { resolveTheme, applyTheme } from './theme/engine'
@@ -57,6 +87,11 @@ export { THEME_PRESETS, CORPORATE_THEME, SAAS_THEME, STARTUP_THEME, EDITORIAL_TH
 
 // Formatters
 export { formatValue, formatPercent } from './utils/format'
+export { formatNumber, parseSpecifier, numberFormat, formatDuration, formatCompact } from './format/number'
+export type { FormatSpecifier } from './format/number'
+export { formatDate, timeFormat, timeTickLabels } from './format/time'
+export { getLocale, DEFAULT_LOCALE } from './format/locale'
+export { createFormatter } from './format/formatter'
 
 // Curve utilities
 export { buildLinePath, buildAreaPath, buildLinearPath, buildMonotonePath, buildStepPath } from './utils/curves'
@@ -73,11 +108,13 @@ export { createDebugPanel } from './debug/debug'
 
 // Types
 export type {
-  Series, ChartData, DataPoint, PreparedData, PreparedSeries, DataBounds,
-  ChartOptions, ResolvedOptions, TooltipConfig, CrosshairConfig, LegendPosition, CurveType,
+  Series, XYPoint, GapMode, ChartData, DataPoint, PreparedData, PreparedSeries, DataBounds,
+  ChartOptions, ResolvedOptions, TooltipConfig, CrosshairConfig, LegendPosition, CurveType, YScaleOption, YAxisConfig, SonifyConfig, DrilldownConfig, FormatLocale,
+  Annotation, AnnotationBase, LineAnnotation, AreaAnnotation, LabelAnnotation, ThresholdAnnotation,
   ThemeConfig,
   Scale, Tick, ScaleType, ScaleFactory,
-  RenderNode, RenderAttrs, Renderer, RendererRoot,
+  ColorScale, ColorScaleType, ColorScaleOptions, ColorPaletteName, ColorMapOptions,
+  RenderNode, RenderAttrs, ArcShape, Renderer, RendererRoot,
   ChartArea, RenderContext, ChartTypePlugin, HitResult, ChartInstance,
   ChartEvents, EventBus, EventHandler, Unsubscribe,
 } from './types'
@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { createChart } from '../../api/create'
+import { lineChartType } from '../../charts/line/line-type'
+import type { ChartData, ChartEvents, DataPoint } from '../../types'
+
+describe('point:click', () => {
+  it('reports the source index of a decimated point while zoomed', () => {
+    const values = Array.from({ length: 20_000 }, (_, i) => i)
+    const labels = values.map(i => `p${i}`)
+    const meta = values.map(i => ({ id: i }))
+    const data: ChartData = { labels, series: [{ name: 'Ramp', values, meta }] }
+    const el = document.createElement('div')
+    const chart = createChart(el, lineChartType, data, {
+      width: 600, height: 400, animate: false, zoom: true, decimate: { threshold: 500 },
+    })
+    // jsdom has no layout — the chart fills its box one to one
+    const svg = chart.element
+    svg.getBoundingClientRect = () => ({ left: 0, top: 0, width: 600, height: 400 }) as DOMRect
+    const clicks: DataPoint[] = []
+    chart.on('point:click', (e) => clicks.push((e as ChartEvents['point:click']).point))
+
+    // Zoom in about 10x around the middle, then click the middle of the plot
+    for (let i = 0; i < 25; i++) svg.dispatchEvent(new WheelEvent('wheel', { deltaY: -1, clientX: 300, clientY: 200 }))
+    svg.dispatchEvent(new MouseEvent('click', { clientX: 300, clientY: 200 }))
+
+    const [point] = clicks
+    expect(point!.index).toBeGreaterThan(5000)
+    expect(point!.label).toBe(labels[point!.index])
+    expect(point!.value).toBe(values[point!.index])
+    expect(point!.meta).toBe(meta[point!.index])
+    chart.destroy()
+  })
+})
@@ -28,13 +28,25 @@ export function defaultHighlightNodes(hit: HitResult, ctx: RenderContext): Rende
 
 /**
  * Walk a RenderNode tree and dim all series groups except the active one.
+ * Nodes tagged with `data-flow` (space-separated series indices, e.g. sankey
+ * flows) stay lit when the active series is among them.
  * Returns a new tree (immutable).
  */
 export function applyDimming(nodes: RenderNode[], hit: HitResult): RenderNode[] {
   return nodes.map(node => dimNode(node, hit.seriesIndex))
 }
 
+/** True when a `data-flow` tag lists the series. */
+export function inFlow(flow: string | number, seriesIndex: number): boolean {
+  return String(flow).split(' ').includes(String(seriesIndex))
+}
+
 function dimNode(node: RenderNode, activeSeriesIndex: number): RenderNode {
+  if ('attrs' in node && node.attrs?.['data-flow'] !== undefined) {
+    const { attrs } = node
+    if (inFlow(attrs['data-flow']!, activeSeriesIndex)) return node
+    return { ...node, attrs: { ...attrs, class: `${attrs.class ?? ''} chartts-dimmed`, opacity: 0.3 } }
+  }
   if (node.type === 'group') {
     const cls = node.attrs?.class ?? ''
     // Match chartts-series-N pattern
@@ -44,7 +56,7 @@ function dimNode(node: RenderNode, activeSeriesIndex: number): RenderNode {
       if (idx !== activeSeriesIndex) {
         return {
           ...node,
-          attrs: { ...node.attrs, opacity: 0.3 },
+          attrs: { ...node.attrs, class: `${cls} chartts-dimmed`, opacity: 0.3 },
           children: node.children,
         }
       }
@@ -3,9 +3,13 @@ import type {
   PreparedData, TooltipConfig, ThemeConfig, CrosshairConfig,
   Renderer, RendererRoot, RenderNode, HitResult,
 } from '../types'
-import { createTooltip, type TooltipInstance } from '../tooltip/tooltip'
+import {
+  createTooltip, fillTooltip, arrangeItems, placeTooltip, tooltipBounds,
+  type TooltipInstance, type TooltipItem, type TooltipFormats,
+} from '../tooltip/tooltip'
 import { CSS_PREFIX } from '../constants'
-import { defaultHighlightNodes, applyDimming } from './highlight'
+import { defaultHighlightNodes, applyDimming, inFlow } from './highlight'
+import { getSeriesYScale } from '../utils/scale'
 
 export interface CanvasHighlightConfig {
   renderer: Renderer
@@ -15,6 +19,10 @@ export interface CanvasHighlightConfig {
 
 export interface InteractionLayer {
   attach(svg: SVGElement | HTMLCanvasElement, container: HTMLElement): void
+  /** Highlight a point and show its tooltip without a pointer (keyboard focus). Null clears. */
+  focusPoint(hit: HitResult | null): void
+  /** Select a point from the keyboard — fires `point:activate`. */
+  activatePoint(hit: HitResult, event: KeyboardEvent): void
   detach(): void
   destroy(): void
 }
@@ -24,6 +32,8 @@ const SVG_NS = 'http://www.w3.org/2000/svg'
 /**
  * Interaction layer — handles mouse/touch events on the chart.
  * Provides: hover highlights, tooltips, crosshair (vertical/horizontal/both), click events.
+ * Tooltips list the hovered point, its label or its series (`tooltip.mode`);
+ * with `tooltip.pin` a click pins them until the next click or Escape.
  *
  * For SVG renderer, interaction elements are appended directly to the SVG.
  * For Canvas renderer, a transparent SVG overlay is created on top of the
@@ -57,12 +67,15 @@ export function createInteractionLayer(
   let overlayEl: SVGSVGElement | null = null
   let isCanvas = false
 
+  const tipConfig: TooltipConfig = typeof tooltipConfig === 'object' ? tooltipConfig : { enabled: true }
+
   // Create tooltip if configured
   if (tooltipConfig) {
-    tooltip = createTooltip(
-      typeof tooltipConfig === 'object' ? tooltipConfig : { enabled: true },
-      theme,
-    )
+    tooltip = createTooltip(tipConfig, theme, tooltipFormats)
+  }
+
+  function tooltipFormats(): TooltipFormats {
+    return { label: formatLabel, value: formatValue, locale: getContext().options.locale }
   }
 
   /** Get the SVG element where interaction visuals should be drawn */
@@ -186,7 +199,9 @@ export function createInteractionLayer(
     if (!chConfig) return
     const mode = chConfig.mode ?? 'vertical'
 
-    const label = data.labels[pointIndex]!
+    // The crosshair walks the shared labels; XY-only data has none
+    const label = data.labels[pointIndex]
+    if (label === undefined) return
     const xPos = xScale.map(label)
 
     // Vertical line
@@ -229,8 +244,8 @@ export function createInteractionLayer(
       clearCrosshairDots()
       for (const series of data.series) {
         const val = series.values[pointIndex]
-        if (val == null || isNaN(val)) continue
-        const yPos = ctx.yScale.map(val)
+        if (val == null || isNaN(val) || series.x) continue
+        const yPos = getSeriesYScale(ctx, series).map(val)
         const dot = document.createElementNS(SVG_NS, 'circle')
         dot.setAttribute('cx', String(xPos))
         dot.setAttribute('cy', String(yPos))
@@ -247,17 +262,10 @@ export function createInteractionLayer(
 
     // Multi-series tooltip
     const tip = ensureCrosshairTip()
-    let html = `<div style="font-weight:600;margin-bottom:6px;letter-spacing:-0.01em;">${formatLabel(label)}</div>`
-    for (const series of data.series) {
-      const val = series.values[pointIndex]
-      if (val == null || isNaN(val)) continue
-      html += `<div style="display:flex;align-items:center;gap:8px;margin-top:3px;">
-        <span style="width:8px;height:8px;border-radius:50%;background:${series.color};display:inline-block;box-shadow:0 0 6px ${series.color};flex-shrink:0;"></span>
-        <span style="flex:1;color:var(${CSS_PREFIX}-text-muted, #6b7280);">${series.name}</span>
-        <span style="font-weight:700;font-variant-numeric:tabular-nums;margin-left:12px;">${ctx.options.yFormat(val)}</span>
-      </div>`
+    const items = labelItems(pointIndex)
+    if (items.length) {
+      fillTooltip(tip, items[0]!, arrangeItems(items, tipConfig), tipConfig, tooltipFormats(), formatLabel(label))
     }
-    tip.innerHTML = html
     if (!tip.parentElement) {
       container.style.position = 'relative'
       container.appendChild(tip)
@@ -265,16 +273,8 @@ export function createInteractionLayer(
 
     // Position tooltip
     requestAnimationFrame(() => {
-      if (!tip.parentElement || !container) return
-      const tipRect = tip.getBoundingClientRect()
-      const containerRect = container.getBoundingClientRect()
-      let left = mouseX + 16
-      let top = mouseY - tipRect.height / 2
-      if (left + tipRect.width > containerRect.width) left = mouseX - tipRect.width - 16
-      if (top < 0) top = 4
-      if (top + tipRect.height > containerRect.height) top = containerRect.height - tipRect.height - 4
-      tip.style.left = `${left}px`
-      tip.style.top = `${top}px`
+      if (!tip.parentElement) return
+      placeCrosshairTip(mouseX, mouseY)
       tip.style.opacity = '1'
       tip.style.transform = 'translateY(0)'
     })
@@ -299,10 +299,63 @@ export function createInteractionLayer(
     bus.emit('crosshair:hide', undefined as never)
   }
 
+  /** Keep the crosshair tooltip beside the pointer, flipping away from edges. */
+  function placeCrosshairTip(mouseX: number, mouseY: number): void {
+    if (!crosshairTipEl || !container) return
+    const { width, height } = crosshairTipEl.getBoundingClientRect()
+    const { left, top } = placeTooltip(mouseX, mouseY, width, height, tooltipBounds(container, width, height), 'side')
+    crosshairTipEl.style.left = `${left}px`
+    crosshairTipEl.style.top = `${top}px`
+  }
+
   function formatLabel(label: string | number | Date): string {
     try { return getContext().options.xFormat(label) } catch { return String(label) }
   }
 
+  function formatValue(value: number): string {
+    try { return getContext().options.yFormat(value) } catch { return String(value) }
+  }
+
+  function toItem(hit: Pick<HitResult, 'seriesIndex' | 'pointIndex' | 'path'>): TooltipItem {
+    return { ...hitToPoint(hit), color: getData().series[hit.seriesIndex]!.color }
+  }
+
+  /** One row per label-indexed series at a label index. */
+  function labelItems(pointIndex: number): TooltipItem[] {
+    const items: TooltipItem[] = []
+    getData().series.forEach((series, seriesIndex) => {
+      if (series.x || pointIndex >= series.values.length) return
+      items.push(toItem({ seriesIndex, pointIndex }))
+    })
+    return items
+  }
+
+  /** The hovered point and the rows `tooltip.mode` lists for it. */
+  function tooltipContent(hit: HitResult): { point: TooltipItem; items: TooltipItem[]; title?: string } {
+    const point = toItem(hit)
+    const series = getData().series[hit.seriesIndex]!
+    switch (tipConfig.mode) {
+      case 'index':
+        // XY series have no shared label to line up on
+        if (series.x) break
+        return { point, items: arrangeItems(labelItems(hit.pointIndex), tipConfig), title: formatLabel(point.label) }
+      case 'series':
+        return {
+          point,
+          items: arrangeItems(series.values.map((_, pointIndex) => toItem({ seriesIndex: hit.seriesIndex, pointIndex })), tipConfig),
+          title: series.name,
+        }
+    }
+    return { point, items: [point] }
+  }
+
+  /** Show the tooltip for `hit` at (x, y), px relative to the container. */
+  function showTooltip(hit: HitResult, x: number, y: number): void {
+    if (!tooltip || !container) return
+    const { point, items, title } = tooltipContent(hit)
+    tooltip.show(point, items, x, y, container, title)
+  }
+
   /** Find nearest label index given an svgX coordinate */
   function nearestLabelIndex(svgX: number): number {
     const data = getData()
@@ -337,6 +390,31 @@ export function createInteractionLayer(
     return { x, y, svgX: x * scaleX, svgY: y * scaleY }
   }
 
+  /** Inverse of toChartCoords: chart coordinates to px relative to the element. */
+  function toElementCoords(el: SVGElement | HTMLCanvasElement, svgX: number, svgY: number): { x: number; y: number } {
+    if (el instanceof HTMLCanvasElement) return { x: svgX, y: svgY }
+    const r = el.getBoundingClientRect()
+    const viewBox = el.getAttribute('viewBox')?.split(' ').map(Number) ?? [0, 0, r.width, r.height]
+    return {
+      x: r.width ? svgX * r.width / viewBox[2]! : svgX,
+      y: r.height ? svgY * r.height / viewBox[3]! : svgY,
+    }
+  }
+
+  function hitToPoint(hit: Pick<HitResult, 'seriesIndex' | 'pointIndex' | 'path'>): DataPoint {
+    const data = getData()
+    const series = data.series[hit.seriesIndex]!
+    return {
+      label: series.x?.[hit.pointIndex] ?? data.labels[hit.pointIndex]!,
+      value: series.values[hit.pointIndex]!,
+      index: series.sourceIndex?.[hit.pointIndex] ?? hit.pointIndex,
+      seriesIndex: hit.seriesIndex,
+      seriesName: series.name,
+      meta: series.meta?.[hit.pointIndex],
+      path: hit.path,
+    }
+  }
+
   function onMouseMove(e: MouseEvent): void {
     if (!targetEl || !container) return
     // Skip tooltip/crosshair updates during active pan drag
@@ -367,17 +445,7 @@ export function createInteractionLayer(
               crosshairYTipEl.style.top = `${y - 10}px`
             }
           }
-          if (crosshairTipEl) {
-            const tipRect = crosshairTipEl.getBoundingClientRect()
-            const containerRect = container.getBoundingClientRect()
-            let left = x + 16
-            let top = y - tipRect.height / 2
-            if (left + tipRect.width > containerRect.width) left = x - tipRect.width - 16
-            if (top < 0) top = 4
-            if (top + tipRect.height > containerRect.height) top = containerRect.height - tipRect.height - 4
-            crosshairTipEl.style.left = `${left}px`
-            crosshairTipEl.style.top = `${top}px`
-          }
+          placeCrosshairTip(x, y)
         }
       } else {
         hideCrosshair()
@@ -390,15 +458,7 @@ export function createInteractionLayer(
     const hit = chartType.hitTest(ctx, svgX, svgY)
 
     if (hit) {
-      const data = getData()
-      const series = data.series[hit.seriesIndex]!
-      const point: DataPoint = {
-        label: data.labels[hit.pointIndex]!,
-        value: series.values[hit.pointIndex]!,
-        index: hit.pointIndex,
-        seriesIndex: hit.seriesIndex,
-        seriesName: series.name,
-      }
+      const point = hitToPoint(hit)
 
       // Update hover highlights
       if (!activePoint || activePoint.seriesIndex !== hit.seriesIndex || activePoint.pointIndex !== hit.pointIndex) {
@@ -411,8 +471,8 @@ export function createInteractionLayer(
       }
 
       // Show tooltip
-      if (tooltip) {
-        tooltip.show(point, series.color, x, y, container)
+      if (tooltip && !tooltip.pinned) {
+        showTooltip(hit, x, y)
         bus.emit('tooltip:show', { point, x: svgX, y: svgY })
       }
     } else {
@@ -422,13 +482,21 @@ export function createInteractionLayer(
         bus.emit('point:leave', { event: e })
         onHover?.(null, e)
       }
-      if (tooltip) {
+      if (tooltip && !tooltip.pinned) {
         tooltip.hide()
         bus.emit('tooltip:hide', undefined as never)
       }
     }
   }
 
+  /** Escape releases a pinned tooltip. */
+  function onKeyDown(e: KeyboardEvent): void {
+    if (e.key !== 'Escape' || !tooltip?.pinned) return
+    tooltip.unpin()
+    tooltip.hide()
+    bus.emit('tooltip:hide', undefined as never)
+  }
+
   function onMouseLeave(e: MouseEvent): void {
     clearHighlights()
     activePoint = null
@@ -439,24 +507,27 @@ export function createInteractionLayer(
   }
 
   function onClickHandler(e: MouseEvent): void {
-    if (!targetEl || !onClick) return
+    if (!targetEl) return
 
-    const { svgX, svgY } = toChartCoords(targetEl, e.clientX, e.clientY)
+    const { x, y, svgX, svgY } = toChartCoords(targetEl, e.clientX, e.clientY)
 
     const ctx = getContext()
     const hit = chartType.hitTest(ctx, svgX, svgY)
 
-    if (hit) {
-      const data = getData()
-      const series = data.series[hit.seriesIndex]!
-      const point: DataPoint = {
-        label: data.labels[hit.pointIndex]!,
-        value: series.values[hit.pointIndex]!,
-        index: hit.pointIndex,
-        seriesIndex: hit.seriesIndex,
-        seriesName: series.name,
+    // A click releases a pinned tooltip, and pins a new one on a point
+    if (tooltip && tipConfig.pin) {
+      tooltip.unpin()
+      if (hit) {
+        showTooltip(hit, x, y)
+        tooltip.pin()
+      } else {
+        tooltip.hide()
       }
-      onClick(point, e)
+    }
+
+    if (hit) {
+      const point = hitToPoint(hit)
+      onClick?.(point, e)
       bus.emit('point:click', { point, event: e })
     }
   }
@@ -524,11 +595,17 @@ export function createInteractionLayer(
 
     const targetGroup = target?.closest('.chartts-series')
     svg.querySelectorAll('.chartts-series').forEach((el) => {
-      if (el !== targetGroup) {
+      if (el !== targetGroup && !el.hasAttribute('data-flow')) {
         ;(el as SVGElement).style.opacity = '0.3'
         ;(el as SVGElement).style.transition = 'opacity 0.15s ease'
       }
     })
+    // Linked marks (sankey flows) stay lit along the hovered series' flow
+    svg.querySelectorAll('[data-flow]').forEach((el) => {
+      const svgEl = el as SVGElement
+      svgEl.style.opacity = inFlow(el.getAttribute('data-flow')!, hit.seriesIndex) ? '' : '0.3'
+      svgEl.style.transition = 'opacity 0.15s ease'
+    })
   }
 
   function clearHighlights(): void {
@@ -552,7 +629,7 @@ export function createInteractionLayer(
       el.setAttribute('stroke-width', '2')
     })
 
-    svg.querySelectorAll('.chartts-series').forEach((el) => {
+    svg.querySelectorAll('.chartts-series, [data-flow]').forEach((el) => {
       ;(el as SVGElement).style.opacity = ''
     })
   }
@@ -583,17 +660,45 @@ export function createInteractionLayer(
       el.addEventListener('mousemove', onMouseMove as EventListener)
       el.addEventListener('mouseleave', onMouseLeave as EventListener)
       el.addEventListener('click', onClickHandler as EventListener)
+      if (tipConfig.pin) document.addEventListener('keydown', onKeyDown)
 
       // Set up linked chart crosshair listener
       setupLinkedCrosshair()
     },
 
+    focusPoint(hit: HitResult | null): void {
+      clearHighlights()
+      if (!hit) {
+        activePoint = null
+        if (tooltip) {
+          tooltip.hide()
+          bus.emit('tooltip:hide', undefined as never)
+        }
+        return
+      }
+
+      highlightPoint(hit)
+      activePoint = { seriesIndex: hit.seriesIndex, pointIndex: hit.pointIndex }
+      const point = hitToPoint(hit)
+      bus.emit('point:focus', { point })
+      if (tooltip && !tooltip.pinned && targetEl && container) {
+        const { x, y } = toElementCoords(targetEl, hit.x, hit.y)
+        showTooltip(hit, x, y)
+        bus.emit('tooltip:show', { point, x: hit.x, y: hit.y })
+      }
+    },
+
+    activatePoint(hit: HitResult, event: KeyboardEvent): void {
+      bus.emit('point:activate', { point: hitToPoint(hit), event })
+    },
+
     detach(): void {
       if (!targetEl) return
       const el = targetEl as unknown as HTMLElement
       el.removeEventListener('mousemove', onMouseMove as EventListener)
       el.removeEventListener('mouseleave', onMouseLeave as EventListener)
       el.removeEventListener('click', onClickHandler as EventListener)
+      document.removeEventListener('keydown', onKeyDown)
       for (const unsub of linkedUnsubs) unsub()
       linkedUnsubs = []
     },
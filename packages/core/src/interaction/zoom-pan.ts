@@ -6,6 +6,7 @@
  */
 
 import type { Scale, ChartArea } from '../types'
+import type { DataZoomRange } from '../features/datazoom'
 
 export interface ZoomPanConfig {
   /** Enable x-axis zoom. Default true. */
@@ -38,11 +39,41 @@ export interface ZoomPanState {
 export interface ZoomPanInstance {
   attach(el: HTMLElement | SVGElement, getArea: () => ChartArea, getScales: () => { xScale: Scale; yScale: Scale }): void
   reset(): void
+  /** Zoom to `zoom` with content fraction (relX, relY) of the plot at its centre. */
+  focus(relX: number, relY: number, zoom: number): void
   getState(): ZoomPanState
-  applyToScales(xScale: Scale, yScale: Scale, area: ChartArea): void
+  /** Apply zoom/pan to the scales; `axes` limits it to one axis (default: both). */
+  applyToScales(xScale: Scale, yScale: Scale, area: ChartArea, axes?: 'x' | 'y'): void
   destroy(): void
 }
 
+/**
+ * Fraction of the x content currently in view, for axis charts
+ * (normalized pan). The same window applyToScales shows, so data can be
+ * sliced or decimated to it.
+ */
+export function visibleWindow(state: ZoomPanState): DataZoomRange {
+  return axisWindow(state.zoomX, -state.panX)
+}
+
+/** Visible [start, end) fraction for one axis; `shift` moves the window toward the end. */
+function axisWindow(zoom: number, shift: number): DataZoomRange {
+  const span = 1 / zoom
+  const start = Math.min(Math.max((1 - span) / 2 + shift, 0), 1 - span)
+  return { start, end: start + span }
+}
+
+/**
+ * Pan that keeps content fraction `rel` (of the visible window) fixed on
+ * screen while zooming from `zoom` to `next`. `shift` is the axis' pan
+ * expressed as axisWindow's shift.
+ */
+function zoomAround(rel: number, zoom: number, next: number, shift: number): number {
+  const start = (1 - 1 / zoom) / 2 + shift
+  const anchor = start + rel / zoom
+  return anchor - rel / next - (1 - 1 / next) / 2
+}
+
 /**
  * Create a zoom & pan controller.
  *
@@ -104,22 +135,9 @@ export function createZoomPan(
     // Zoom factor
     const delta = e.deltaY > 0 ? 0.9 : 1.1
 
-    if (cfg.x) {
-      const newZoom = clamp(state.zoomX * delta, cfg.minZoom, cfg.maxZoom)
-      // Adjust pan to zoom around cursor position
-      const zoomRatio = newZoom / state.zoomX
-      state.panX = relX - (relX - state.panX) * zoomRatio
-      state.zoomX = newZoom
-    }
-
-    if (cfg.y) {
-      const mouseY = e.clientY - rect.top
-      const relY = (mouseY - area.y) / area.height
-      const newZoomY = clamp(state.zoomY * delta, cfg.minZoom, cfg.maxZoom)
-      const zoomRatioY = newZoomY / state.zoomY
-      state.panY = relY - (relY - state.panY) * zoomRatioY
-      state.zoomY = newZoomY
-    }
+    const mouseY = e.clientY - rect.top
+    const relY = (mouseY - area.y) / area.height
+    zoomToward(relX, relY, delta)
 
     clampPan()
     onUpdate()
@@ -200,19 +218,8 @@ export function createZoomPan(
     lastPinchCenterX = (e.touches[0]!.clientX + e.touches[1]!.clientX) / 2
     lastPinchCenterY = (e.touches[0]!.clientY + e.touches[1]!.clientY) / 2
 
-    // Zoom toward pinch center (same formula as wheel zoom)
-    if (cfg.x) {
-      const newZoom = clamp(state.zoomX * scaleFactor, cfg.minZoom, cfg.maxZoom)
-      const ratio = newZoom / state.zoomX
-      state.panX = cx - (cx - state.panX) * ratio
-      state.zoomX = newZoom
-    }
-    if (cfg.y) {
-      const newZoom = clamp(state.zoomY * scaleFactor, cfg.minZoom, cfg.maxZoom)
-      const ratio = newZoom / state.zoomY
-      state.panY = cy - (cy - state.panY) * ratio
-      state.zoomY = newZoom
-    }
+    // Zoom toward pinch center (same as wheel zoom)
+    zoomToward(cx, cy, scaleFactor)
 
     clampPan()
     onUpdate()
@@ -222,6 +229,25 @@ export function createZoomPan(
   // Helpers
   // -----------------------------------------------------------------------
 
+  /** Zoom by `factor`, keeping the point at (relX, relY) of the plot under the pointer. */
+  function zoomToward(relX: number, relY: number, factor: number): void {
+    if (cfg.x) {
+      const newZoom = clamp(state.zoomX * factor, cfg.minZoom, cfg.maxZoom)
+      state.panX = cfg.normalizedPan
+        ? -zoomAround(relX, state.zoomX, newZoom, -state.panX)
+        : relX - (relX - state.panX) * (newZoom / state.zoomX)
+      state.zoomX = newZoom
+    }
+    if (cfg.y) {
+      const newZoom = clamp(state.zoomY * factor, cfg.minZoom, cfg.maxZoom)
+      // y content runs bottom-up, so measure from the bottom edge
+      state.panY = cfg.normalizedPan
+        ? zoomAround(1 - relY, state.zoomY, newZoom, state.panY)
+        : relY - (relY - state.panY) * (newZoom / state.zoomY)
+      state.zoomY = newZoom
+    }
+  }
+
   function clampPan(): void {
     // Keep visible window within bounds.
     // With normalizedPan (axis charts): pan is fraction of content, range ±(1-1/zoom)/2
@@ -276,31 +302,45 @@ export function createZoomPan(
       onUpdate()
     },
 
+    focus(relX, relY, zoom) {
+      if (cfg.x) {
+        state.zoomX = clamp(zoom, cfg.minZoom, cfg.maxZoom)
+        state.panX = cfg.normalizedPan ? 0.5 - relX : 0.5 - relX * state.zoomX
+      }
+      if (cfg.y) {
+        state.zoomY = clamp(zoom, cfg.minZoom, cfg.maxZoom)
+        // y content runs bottom-up, so measure from the bottom edge
+        state.panY = cfg.normalizedPan ? (1 - relY) - 0.5 : 0.5 - relY * state.zoomY
+      }
+      clampPan()
+      onUpdate()
+    },
+
     getState() {
       return { ...state }
     },
 
     /**
-     * Apply current zoom/pan to scales by adjusting their domains.
+     * Apply current zoom/pan to scales: the x range stretches so the
+     * visible window fills the plot, the y domain narrows to it.
      * Call this at the start of each render, after creating scales.
      */
-    applyToScales(xScale, yScale, area) {
+    applyToScales(xScale, yScale, area, axes) {
       if (state.zoomX === 1 && state.zoomY === 1 && state.panX === 0 && state.panY === 0) return
 
-      if (cfg.x && state.zoomX !== 1) {
+      if (cfg.x && state.zoomX !== 1 && axes !== 'y') {
         const [xMin, xMax] = xScale.getRange()
-        const fullWidth = xMax - xMin
-        const visibleWidth = fullWidth / state.zoomX
-        const offset = -state.panX * fullWidth
-        xScale.setRange(area.x + offset, area.x + offset + visibleWidth)
+        const contentWidth = (xMax - xMin) * state.zoomX
+        const { start } = visibleWindow(state)
+        const x0 = area.x - start * contentWidth
+        xScale.setRange(x0, x0 + contentWidth)
       }
 
-      if (cfg.y && state.zoomY !== 1) {
+      if (cfg.y && state.zoomY !== 1 && axes !== 'x') {
         const [yMin, yMax] = yScale.getDomain() as [number, number]
         const fullRange = yMax - yMin
-        const visibleRange = fullRange / state.zoomY
-        const offset = -state.panY * fullRange
-        yScale.setDomain(yMin + offset, yMin + offset + visibleRange)
+        const { start, end } = axisWindow(state.zoomY, state.panY)
+        yScale.setDomain(yMin + start * fullRange, yMin + end * fullRange)
       }
     },
 
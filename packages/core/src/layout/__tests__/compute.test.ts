@@ -48,6 +48,21 @@ describe('computeLayout', () => {
     expect(withLegend.y).toBeGreaterThan(noLegend.y)
   })
 
+  it('reserves the measured legend size', () => {
+    const opts = resolveOptions({ legend: 'top' }, 2)
+    const data = makeData([10, 20, 30])
+    const { area: oneRow } = computeLayout(600, 400, opts, data, { width: 200, height: 18 })
+    const { area: threeRows } = computeLayout(600, 400, opts, data, { width: 200, height: 54 })
+    const { area: none } = computeLayout(600, 400, opts, data, null)
+    expect(threeRows.y - oneRow.y).toBe(36)
+    expect(none.y).toBeLessThan(oneRow.y)
+
+    const side = resolveOptions({ legend: 'right' }, 2)
+    const { area: narrow } = computeLayout(600, 400, side, data, { width: 60, height: 36 })
+    const { area: wide } = computeLayout(600, 400, side, data, { width: 160, height: 36 })
+    expect(narrow.width - wide.width).toBe(100)
+  })
+
   it('reserves space for axis labels', () => {
     const optsLabel = resolveOptions({ xLabel: 'Time', yLabel: 'Value' }, 1)
     const optsNoLabel = resolveOptions({}, 1)
@@ -64,4 +79,37 @@ describe('computeLayout', () => {
     expect(area.width).toBeGreaterThanOrEqual(0)
     expect(area.height).toBeGreaterThanOrEqual(0)
   })
+
+  it('reserves space for secondary y axes on both sides', () => {
+    const opts = resolveOptions({
+      yAxes: [
+        { id: 'r1' },
+        { id: 'r2', label: 'Volume' },
+        { id: 'l1', position: 'left' },
+      ],
+    }, 4)
+    const data = prepareData({
+      labels: ['a', 'b'],
+      series: [
+        { name: 'A', values: [1, 2] },
+        { name: 'B', values: [100, 200], yAxis: 'r1' },
+        { name: 'C', values: [1000, 2000], yAxis: 'r2' },
+        { name: 'D', values: [5, 6], yAxis: 'l1' },
+      ],
+    }, opts)
+    const single = computeLayout(600, 400, resolveOptions({}, 1), makeData([1, 2]))
+    const { area, yAxes } = computeLayout(600, 400, opts, data)
+
+    expect(yAxes.map(a => a.id)).toEqual(['y', 'r1', 'r2', 'l1'])
+    expect(area.x).toBeGreaterThan(single.area.x)
+    expect(area.x + area.width).toBeLessThan(single.area.x + single.area.width)
+
+    const [primary, r1, r2, l1] = yAxes
+    expect(primary!.offset).toBe(0)
+    expect(r1!.offset).toBe(0)
+    // Axes on the same side stack outward without overlapping
+    expect(r2!.offset).toBeGreaterThan(r1!.offset + r1!.width)
+    expect(l1!.offset).toBeGreaterThan(primary!.width)
+    expect(area.x - l1!.offset - l1!.width).toBeGreaterThanOrEqual(0)
+  })
 })
@@ -1,4 +1,7 @@
-import type { ChartArea, ResolvedOptions, PreparedData } from '../types'
+import type { ChartArea, ResolvedOptions, PreparedData, PreparedYAxis } from '../types'
+import { PRIMARY_Y_AXIS } from '../constants'
+import { LEGEND_GAP, LEGEND_SIDE_GAP } from '../legend/layout'
+import { horizontalLabelHeight, layoutXLabels, tickSpacing, type XLabelLayout } from '../axis/labels'
 
 /** Margins around the chart drawing area */
 export interface Margins {
@@ -8,16 +11,50 @@ export interface Margins {
   left: number
 }
 
+/** Placement of a y axis outside the chart area. */
+export interface YAxisSlot {
+  id: string
+  position: 'left' | 'right'
+  /** Distance from the chart area edge to the axis line, in px. */
+  offset: number
+  /** Width reserved for ticks, labels and axis title, in px. */
+  width: number
+  /** Secondary axis config. Absent for the primary axis. */
+  axis?: PreparedYAxis
+}
+
+/** Gap between stacked y axes on the same side */
+const AXIS_GAP = 8
+
+/** Share of the chart height rotated x labels may take before they're truncated. */
+const MAX_X_LABEL_SHARE = 0.3
+
+/** The x tick labels to fit below the chart, as the axis will draw them. */
+export interface XTickLabels {
+  /** Labeled ticks of the x scale once it spans [x, x + width]. */
+  ticks(x: number, width: number): { label: string; position: number }[]
+  /** Font size the labels are drawn at. */
+  fontSize: number
+}
+
 /**
  * Compute the chart drawing area given container dimensions,
  * padding, axis labels, and legend position.
+ * `legend` is the measured legend size from layoutLegend() (null when no
+ * legend is drawn); without it a fixed legend allowance is reserved.
+ * `xLabels` are the x tick labels of a categorical axis: they're skipped,
+ * rotated or truncated to fit their tick spacing, the height that takes is
+ * reserved below the chart, and the result is returned as `xLabels` for
+ * renderXAxis() to draw.
  */
 export function computeLayout(
   width: number,
   height: number,
   options: ResolvedOptions,
   data: PreparedData,
-): { area: ChartArea; margins: Margins } {
+  legend?: { width: number; height: number } | null,
+  xTicks?: XTickLabels,
+): { area: ChartArea; margins: Margins; yAxes: YAxisSlot[]; xLabels?: XLabelLayout } {
   const [pt, pr, pb, pl] = options.padding
 
   // Base margins from padding
@@ -37,9 +74,27 @@ export function computeLayout(
     left += options.fontSize + 4
   }
 
-  // Reserve space for x-axis labels + ticks
-  if (options.xAxis) {
-    bottom += options.fontSize + 8 // font height + tick mark + gap
+  // Primary axis hugs the left edge; secondary axes stack outward on their side
+  const yAxes: YAxisSlot[] = [{ id: PRIMARY_Y_AXIS, position: 'left', offset: 0, width: left - pl }]
+  if (options.yAxis) {
+    let leftOffset = left - pl
+    let rightOffset = 0
+    for (const axis of data.yAxes ?? []) {
+      const format = axis.format ?? options.yFormat
+      const labelWidth = Math.max(format(axis.yMin).length, format(axis.yMax).length) * (options.fontSize * 0.55)
+      const width = labelWidth + 10 + (axis.label ? options.fontSize + 4 : 0)
+      if (axis.position === 'left') {
+        leftOffset += AXIS_GAP
+        yAxes.push({ id: axis.id, position: 'left', offset: leftOffset, width, axis })
+        leftOffset += width
+      } else {
+        if (rightOffset) rightOffset += AXIS_GAP
+        yAxes.push({ id: axis.id, position: 'right', offset: rightOffset, width, axis })
+        rightOffset += width
+      }
+    }
+    left = pl + leftOffset
+    right += rightOffset
   }
 
   // Reserve space for x-axis label text
@@ -48,7 +103,14 @@ export function computeLayout(
   }
 
   // Reserve space for legend
-  if (options.legend) {
+  if (options.legend && legend) {
+    switch (options.legend) {
+      case 'top':    top += legend.height + LEGEND_GAP; break
+      case 'bottom': bottom += legend.height + LEGEND_GAP; break
+      case 'left':   left += legend.width + LEGEND_SIDE_GAP; break
+      case 'right':  right += legend.width + LEGEND_SIDE_GAP; break
+    }
+  } else if (options.legend && legend === undefined) {
     switch (options.legend) {
       case 'top':    top += 20; break
       case 'bottom': bottom += 20; break
@@ -57,6 +119,22 @@ export function computeLayout(
     }
   }
 
+  // Reserve space for x-axis labels + ticks — more when long labels rotate
+  let xLabels: XLabelLayout | undefined
+  if (options.xAxis) {
+    const areaWidth = Math.max(0, width - left - right)
+    const ticks = xTicks?.ticks(left, areaWidth)
+    if (ticks?.length) {
+      xLabels = layoutXLabels(
+        ticks.map(tick => tick.label),
+        tickSpacing(ticks, areaWidth),
+        xTicks!.fontSize,
+        height * MAX_X_LABEL_SHARE,
+      )
+    }
+    bottom += Math.max(horizontalLabelHeight(options.fontSize), xLabels?.height ?? 0)
+  }
+
   const area: ChartArea = {
     x: left,
     y: top,
@@ -64,7 +142,16 @@ export function computeLayout(
     height: Math.max(0, height - top - bottom),
   }
 
-  return { area, margins: { top, right, bottom, left } }
+  return { area, margins: { top, right, bottom, left }, yAxes, xLabels }
+}
+
+/** Total width taken by right-side y axes, measured from the chart area edge. */
+export function rightAxesWidth(slots: YAxisSlot[]): number {
+  let w = 0
+  for (const s of slots) {
+    if (s.position === 'right') w = Math.max(w, s.offset + s.width)
+  }
+  return w
 }
 
 /** Estimate the pixel width of the widest y-axis label */
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { layoutLegend, LEGEND_ROW_HEIGHT } from '../layout'
+import { renderLegend, type LegendEntry } from '../legend'
+import { legendItemAt } from '../interactive'
+import { measureText, truncateText } from '../../utils/text-measure'
+import { resolveOptions } from '../../constants'
+import { resolveTheme } from '../../theme/engine'
+import type { RenderNode } from '../../types'
+
+const theme = resolveTheme('light')
+
+function entries(names: string[]): LegendEntry[] {
+  return names.map(name => ({ name, color: '#000' }))
+}
+
+function many(n: number): LegendEntry[] {
+  return entries(Array.from({ length: n }, (_, i) => `Series ${i + 1}`))
+}
+
+describe('measureText', () => {
+  it('scales with font size and glyph width', () => {
+    expect(measureText('abc', 20)).toBeCloseTo(measureText('abc', 10) * 2)
+    expect(measureText('MMM', 12)).toBeGreaterThan(measureText('iii', 12))
+  })
+
+  it('truncates with an ellipsis to fit', () => {
+    const long = 'Quarterly revenue from international markets'
+    const short = truncateText(long, 12, 100)
+    expect(short.endsWith('…')).toBe(true)
+    expect(measureText(short, 12)).toBeLessThanOrEqual(100)
+    expect(truncateText('Revenue', 12, 100)).toBe('Revenue')
+  })
+})
+
+describe('layoutLegend', () => {
+  it('fits a few series in one row', () => {
+    const layout = layoutLegend(entries(['A', 'B', 'C']), resolveOptions({ legend: 'top' }, 3), theme, 600, 400)!
+    expect(layout.height).toBe(LEGEND_ROW_HEIGHT)
+    expect(new Set(layout.items.map(i => i.y)).size).toBe(1)
+    expect(layout.pager).toBeNull()
+  })
+
+  it('wraps into rows within the chart width', () => {
+    const options = resolveOptions({ legend: 'bottom' }, 12)
+    const layout = layoutLegend(many(12), options, theme, 400, 400)!
+    expect(layout.height).toBeGreaterThan(LEGEND_ROW_HEIGHT)
+    expect(layout.width).toBeLessThanOrEqual(400 - options.padding[1] - options.padding[3])
+    for (const item of layout.items) expect(item.x + item.width).toBeLessThanOrEqual(layout.width)
+  })
+
+  it('pages when rows run out', () => {
+    const layout = layoutLegend(many(40), resolveOptions({ legend: 'top' }, 40), theme, 400, 400)!
+    expect(layout.pageCount).toBeGreaterThan(1)
+    expect(layout.height).toBe(3 * LEGEND_ROW_HEIGHT)
+    expect(layout.pager).not.toBeNull()
+
+    const last = layoutLegend(many(40), resolveOptions({ legend: 'top' }, 40), theme, 400, 400, 99)!
+    expect(last.page).toBe(last.pageCount - 1)
+    expect(last.items.at(-1)!.entry.name).toBe('Series 40')
+  })
+
+  it('pages a side legend taller than the chart', () => {
+    const layout = layoutLegend(many(30), resolveOptions({ legend: 'right' }, 30), theme, 600, 200)!
+    expect(layout.pageCount).toBeGreaterThan(1)
+    expect(layout.height).toBeLessThanOrEqual(200)
+    expect(layout.items.every(i => i.x === 0)).toBe(true)
+  })
+
+  it('truncates long names', () => {
+    const name = 'A remarkably long series name that would never fit in a legend'
+    const layout = layoutLegend(entries([name, 'B']), resolveOptions({ legend: 'left' }, 2), theme, 600, 400)!
+    expect(layout.items[0]!.truncated).toBe(true)
+    expect(layout.items[0]!.label).not.toBe(name)
+  })
+
+  it('returns null without a legend', () => {
+    expect(layoutLegend(entries(['A']), resolveOptions({ legend: 'top' }, 1), theme, 600, 400)).toBeNull()
+  })
+})
+
+describe('renderLegend with a layout', () => {
+  it('adds a tooltip to truncated items and a pager', () => {
+    const options = resolveOptions({ legend: 'top' }, 40)
+    const list = [{ name: 'A remarkably long series name that would never fit', color: '#000' }, ...many(39)]
+    const layout = layoutLegend(list, options, theme, 400, 400)!
+    const legend = renderLegend(list, { x: 40, y: 70, width: 340, height: 300 }, options, theme, 0, layout)!
+    const children = legend.type === 'group' ? legend.children : []
+
+    expect(children[0]).toMatchObject({ attrs: { title: list[0]!.name } })
+    const pager = children.at(-1) as RenderNode
+    expect(pager).toMatchObject({ type: 'group', attrs: { class: 'chartts-legend-pager' } })
+
+    const next = pager.type === 'group' ? pager.children[2]! : pager
+    const hit = next.type === 'group' ? next.children[0]! : next
+    if (hit.type !== 'rect') throw new Error('expected hit rect')
+    expect(legendItemAt([legend], hit.x + 1, hit.y + 1, 'data-legend-page')).toBe('next')
+  })
+})
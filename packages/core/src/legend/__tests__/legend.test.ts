@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { renderLegend, legendEntries } from '../legend'
+import { legendItemAt, withoutHiddenSeries } from '../interactive'
+import { resolveOptions } from '../../constants'
+import { resolveTheme } from '../../theme/engine'
+import type { RenderNode } from '../../types'
+
+const data = {
+  labels: ['a', 'b'],
+  series: [
+    { name: 'Revenue', values: [1, 2] },
+    { name: 'Cost', values: [3, 4] },
+    { name: 'Profit', values: [5, 6], color: '#123456' },
+  ],
+}
+const options = resolveOptions({ legend: 'top' }, 3)
+const theme = resolveTheme('light')
+const area = { x: 50, y: 40, width: 400, height: 200 }
+
+function items(node: RenderNode | null): RenderNode[] {
+  return node?.type === 'group' ? node.children : []
+}
+
+describe('renderLegend', () => {
+  it('renders one focusable toggle per series', () => {
+    const legend = renderLegend(legendEntries(data, options.colors, new Set()), area, options, theme)
+    const rows = items(legend)
+    expect(rows).toHaveLength(3)
+    expect(rows[0]).toMatchObject({
+      type: 'group',
+      attrs: { role: 'button', tabindex: 0, ariaPressed: 'true', 'data-legend-series': 'Revenue' },
+    })
+  })
+
+  it('marks hidden series', () => {
+    const legend = renderLegend(legendEntries(data, options.colors, new Set(['Cost'])), area, options, theme)
+    const cost = items(legend)[1]!
+    expect(cost.type === 'group' && cost.attrs?.class).toContain('chartts-legend-item-hidden')
+    expect(cost.type === 'group' && cost.attrs?.ariaPressed).toBe('false')
+  })
+
+  it('hit-tests items through their hit rects', () => {
+    const legend = renderLegend(legendEntries(data, options.colors, new Set()), area, options, theme)!
+    const second = items(legend)[1]!
+    const hit = second.type === 'group' ? second.children[0]! : second
+    if (hit.type !== 'rect') throw new Error('expected hit rect')
+
+    expect(legendItemAt([legend], hit.x + 2, hit.y + 2)).toBe('Cost')
+    expect(legendItemAt([legend], 0, 0)).toBeNull()
+  })
+})
+
+describe('withoutHiddenSeries', () => {
+  it('drops hidden series and pins palette colors', () => {
+    const result = withoutHiddenSeries(data, new Set(['Revenue']), options.colors)
+    expect(result.series.map(s => s.name)).toEqual(['Cost', 'Profit'])
+    expect(result.series[0]!.color).toBe(options.colors[1])
+    expect(result.series[1]!.color).toBe('#123456')
+  })
+
+  it('returns the data untouched when nothing is hidden', () => {
+    expect(withoutHiddenSeries(data, new Set(), options.colors)).toBe(data)
+  })
+})
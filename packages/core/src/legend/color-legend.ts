@@ -0,0 +1,216 @@
+import type {
+  ChartArea, ColorMapOptions, ColorScale, ColorScaleOptions, ColorScaleType,
+  RenderContext, RenderNode, ThemeConfig,
+} from '../types'
+import { group, rect, text } from '../render/tree'
+import { measureText } from '../utils/text-measure'
+import { createColorScale } from '../color/scale'
+import { toRGBA } from '../color/color'
+import { formatCompact } from '../format/number'
+
+/**
+ * Color legend for value-colored charts (heatmap, matrix, calendar, geo):
+ * a gradient bar for continuous scales, one swatch per class for stepped
+ * ones, with the values at the ends, the diverging midpoint and the class
+ * boundaries. The chart takes the legend's strip off its own area with
+ * splitColorLegend() and draws it there.
+ */
+
+export type ColorLegendPosition = Exclude<ColorMapOptions['colorLegend'], boolean | undefined>
+
+export interface ColorLegendConfig {
+  position: ColorLegendPosition
+  format: (value: number) => string
+  title?: string
+}
+
+/** Distance between the plot and the legend. */
+const GAP = 10
+/** Bar thickness. */
+const BAR = 8
+/** Space between the bar and its labels, and under the title. */
+const LABEL_GAP = 4
+/** Bar length cap along the plot's edge. */
+const MAX_LENGTH = 240
+/** Slices drawn for a continuous gradient. */
+const SLICES = 48
+
+export interface ColorMap {
+  scale: ColorScale
+  /** What is left of the area for the chart itself. */
+  plot: ChartArea
+  legend: RenderNode | null
+}
+
+export interface ColorMapSettings {
+  /** The chart's color scale option, with any chart-specific defaults filled in. */
+  scale: ColorScaleOptions | ColorScaleType | undefined
+  /** The chart's `colorLegend` option. */
+  legend: ColorMapOptions['colorLegend']
+  /** Show the legend when `legend` is unset. Default false. */
+  legendByDefault?: boolean
+  /** Opacity of the faded end of the default ramp. */
+  fade?: number
+  title?: string
+}
+
+/**
+ * Color scale and legend for a value-colored chart: the scale over
+ * `values`, and the legend — if shown — in a strip taken off `area`.
+ * Calling it again with the same input (from hitTest) gives the same plot.
+ */
+export function layoutColorMap(
+  values: readonly number[],
+  area: ChartArea,
+  ctx: Pick<RenderContext, 'options' | 'theme'>,
+  settings: ColorMapSettings,
+): ColorMap {
+  const { options, theme } = ctx
+  const scale = createColorScale(values, settings.scale, {
+    colors: options.colors,
+    fade: settings.fade,
+    unknown: theme.gridColor,
+  })
+  const position = colorLegendPosition(settings.legend, settings.legendByDefault ?? false)
+  if (!position) return { scale, plot: area, legend: null }
+
+  const config: ColorLegendConfig = {
+    position,
+    format: v => formatCompact(v, options.locale),
+    title: settings.title,
+  }
+  const { plot, legend } = splitColorLegend(scale, area, theme, config)
+  return { scale, plot, legend: renderColorLegend(scale, legend, theme, config) }
+}
+
+/** The `colorLegend` option as a position — `true` is bottom, undefined is `byDefault`. */
+export function colorLegendPosition(
+  option: boolean | ColorLegendPosition | undefined,
+  byDefault: boolean,
+): ColorLegendPosition | null {
+  const value = option ?? byDefault
+  return value === true ? 'bottom' : value === false ? null : value
+}
+
+/** Split `area` into the plot and the strip along its bottom or right edge that the legend needs. */
+export function splitColorLegend(
+  scale: ColorScale,
+  area: ChartArea,
+  theme: ThemeConfig,
+  config: ColorLegendConfig,
+): { plot: ChartArea; legend: ChartArea } {
+  const size = theme.fontSizeSmall
+  const titleSpace = config.title ? size + LABEL_GAP : 0
+  if (config.position === 'bottom') {
+    const height = Math.min(area.height / 2, GAP + titleSpace + BAR + LABEL_GAP + size)
+    return {
+      plot: { ...area, height: area.height - height },
+      legend: { ...area, y: area.y + area.height - height, height },
+    }
+  }
+  const labelWidth = Math.max(0, ...legendStops(scale).map(s => measureText(config.format(s.value), size)))
+  const titleWidth = config.title ? measureText(config.title, size) : 0
+  const width = Math.min(area.width / 3, GAP + Math.max(BAR + LABEL_GAP + labelWidth, titleWidth))
+  return {
+    plot: { ...area, width: area.width - width },
+    legend: { ...area, x: area.x + area.width - width, width },
+  }
+}
+
+export function renderColorLegend(
+  scale: ColorScale,
+  box: ChartArea,
+  theme: ThemeConfig,
+  config: ColorLegendConfig,
+): RenderNode {
+  const size = theme.fontSizeSmall
+  const horizontal = config.position === 'bottom'
+  const titleSpace = config.title ? size + LABEL_GAP : 0
+  const nodes: RenderNode[] = []
+
+  // The bar in legend coordinates: `t` runs from low values to high — left
+  // to right at the bottom, bottom to top at the right
+  const length = Math.min(MAX_LENGTH, horizontal ? box.width * 0.6 : (box.height - titleSpace) * 0.8)
+  const x0 = horizontal ? box.x + (box.width - length) / 2 : box.x + GAP
+  const y0 = horizontal ? box.y + GAP + titleSpace : box.y + titleSpace + (box.height - titleSpace - length) / 2
+  const segment = (t0: number, t1: number, fill: string, cls: string): RenderNode => horizontal
+    ? rect(x0 + t0 * length, y0, (t1 - t0) * length, BAR, { class: cls, fill, stroke: 'none' })
+    : rect(x0, y0 + (1 - t1) * length, BAR, (t1 - t0) * length, { class: cls, fill, stroke: 'none' })
+
+  if (config.title) {
+    nodes.push(text(horizontal ? box.x + box.width / 2 : x0, y0 - LABEL_GAP, config.title, {
+      class: 'chartts-color-legend-title',
+      fill: theme.textColor,
+      textAnchor: horizontal ? 'middle' : 'start',
+      fontSize: size,
+      fontFamily: theme.fontFamily,
+      fontWeight: 600,
+    }))
+  }
+
+  const classes = scale.classes
+  if (classes) {
+    const n = classes.colors.length
+    classes.colors.forEach((fill, i) => nodes.push(segment(i / n, (i + 1) / n, fill, 'chartts-color-legend-swatch')))
+  } else {
+    // Opaque slices overlap by half a pixel so no seams show between them;
+    // translucent ones can't, or the overlaps would show as stripes
+    for (let i = 0; i < SLICES; i++) {
+      const fill = scale.at((i + 0.5) / SLICES)
+      const overlap = toRGBA(fill)[3] < 1 ? 0 : 0.5 / length
+      nodes.push(segment(i / SLICES, Math.min(1, (i + 1) / SLICES + overlap), fill, 'chartts-color-legend-slice'))
+    }
+  }
+  nodes.push(horizontal
+    ? rect(x0, y0, length, BAR, { fill: 'none', stroke: theme.textMuted, strokeWidth: 0.5, rx: 2 })
+    : rect(x0, y0, BAR, length, { fill: 'none', stroke: theme.textMuted, strokeWidth: 0.5, rx: 2 }))
+
+  // Labels, thinned out when they would collide
+  const stops = legendStops(scale)
+  const labels = stops.map(s => config.format(s.value))
+  const spacing = (length / Math.max(1, stops.length - 1)) || length
+  const extent = horizontal ? Math.max(...labels.map(l => measureText(l, size))) : size
+  const every = Math.max(1, Math.ceil((extent + LABEL_GAP) / spacing))
+  const last = stops.length - 1
+  stops.forEach((stop, i) => {
+    if (i !== last && (i % every !== 0 || last - i < every)) return
+    const anchor = last > 0 && i === 0 ? 'start' : last > 0 && i === last ? 'end' : 'middle'
+    nodes.push(horizontal
+      ? text(x0 + stop.t * length, y0 + BAR + LABEL_GAP, labels[i]!, {
+        class: 'chartts-color-legend-label',
+        fill: theme.textMuted,
+        textAnchor: anchor,
+        dominantBaseline: 'hanging',
+        fontSize: size,
+        fontFamily: theme.fontFamily,
+      })
+      : text(x0 + BAR + LABEL_GAP, y0 + (1 - stop.t) * length, labels[i]!, {
+        class: 'chartts-color-legend-label',
+        fill: theme.textMuted,
+        textAnchor: 'start',
+        dominantBaseline: 'central',
+        fontSize: size,
+        fontFamily: theme.fontFamily,
+      }))
+  })
+
+  return group(nodes, { class: 'chartts-color-legend', role: 'img', ariaLabel: legendLabel(scale, labels, config.title) })
+}
+
+/** Labelled positions along the bar: the ends, a diverging midpoint, class boundaries. */
+function legendStops(scale: ColorScale): { t: number; value: number }[] {
+  const [lo, hi] = scale.domain
+  if (scale.classes) {
+    const edges = [lo, ...scale.classes.breaks, hi]
+    return edges.map((value, i) => ({ t: i / (edges.length - 1), value }))
+  }
+  return scale.mid !== undefined
+    ? [{ t: 0, value: lo }, { t: 0.5, value: scale.mid }, { t: 1, value: hi }]
+    : [{ t: 0, value: lo }, { t: 1, value: hi }]
+}
+
+function legendLabel(scale: ColorScale, labels: string[], title?: string): string {
+  const range = `${labels[0]} to ${labels[labels.length - 1]}`
+  const what = scale.classes ? `${scale.classes.colors.length} color classes` : 'color scale'
+  return `${title ? `${title}: ` : ''}${what}, ${range}`
+}
@@ -0,0 +1,132 @@
+import type { ChartData, RenderNode } from '../types'
+
+/**
+ * Interactive legend — click/keyboard toggling, hover-to-isolate and paging.
+ *
+ * Legend items are found through their `data-legend-series` attribute
+ * (pager buttons through `data-legend-page`): SVG uses the DOM event
+ * target, canvas hit-tests the legend hit rects in the last rendered tree.
+ */
+
+export interface InteractiveLegendHandlers {
+  /** A legend item was clicked or activated from the keyboard. */
+  onToggle(series: string): void
+  /** Pointer entered a legend item (`null` when it left). */
+  onHover(series: string | null): void
+  /** A pager arrow was clicked or activated: -1 for previous, 1 for next. */
+  onPage(delta: number): void
+  /** Last rendered nodes — used to hit-test the legend on canvas. */
+  getNodes(): RenderNode[]
+}
+
+export interface InteractiveLegendInstance {
+  attach(el: SVGElement | HTMLCanvasElement): void
+  destroy(): void
+}
+
+export function createInteractiveLegend(handlers: InteractiveLegendHandlers): InteractiveLegendInstance {
+  let target: SVGElement | HTMLCanvasElement | null = null
+  let hovered: string | null = null
+
+  function itemAt(e: MouseEvent, attr = 'data-legend-series'): string | null {
+    if (!target) return null
+    if (target instanceof HTMLCanvasElement) {
+      const r = target.getBoundingClientRect()
+      return legendItemAt(handlers.getNodes(), e.clientX - r.left, e.clientY - r.top, attr)
+    }
+    const item = (e.target as Element | null)?.closest?.(`[${attr}]`)
+    return item?.getAttribute(attr) ?? null
+  }
+
+  function page(dir: string): void {
+    handlers.onPage(dir === 'prev' ? -1 : 1)
+  }
+
+  function onClick(e: MouseEvent): void {
+    const dir = itemAt(e, 'data-legend-page')
+    if (dir !== null) return page(dir)
+    const series = itemAt(e)
+    if (series === null) return
+    handlers.onToggle(series)
+  }
+
+  function onKeyDown(e: KeyboardEvent): void {
+    if (e.key !== 'Enter' && e.key !== ' ') return
+    const el = e.target as Element | null
+    const dir = el?.closest?.('.chartts-legend-page-button')?.getAttribute('data-legend-page')
+    if (dir != null) {
+      e.preventDefault()
+      return page(dir)
+    }
+    const series = el?.closest?.('.chartts-legend-item')?.getAttribute('data-legend-series')
+    if (series == null) return
+    e.preventDefault()
+    handlers.onToggle(series)
+  }
+
+  function onMouseMove(e: MouseEvent): void {
+    const series = itemAt(e)
+    if (series === hovered) return
+    hovered = series
+    handlers.onHover(series)
+  }
+
+  function onMouseLeave(): void {
+    if (hovered === null) return
+    hovered = null
+    handlers.onHover(null)
+  }
+
+  return {
+    attach(el) {
+      target = el
+      el.addEventListener('click', onClick as EventListener)
+      el.addEventListener('keydown', onKeyDown as EventListener)
+      el.addEventListener('mousemove', onMouseMove as EventListener)
+      el.addEventListener('mouseleave', onMouseLeave)
+    },
+
+    destroy() {
+      if (!target) return
+      target.removeEventListener('click', onClick as EventListener)
+      target.removeEventListener('keydown', onKeyDown as EventListener)
+      target.removeEventListener('mousemove', onMouseMove as EventListener)
+      target.removeEventListener('mouseleave', onMouseLeave)
+      target = null
+    },
+  }
+}
+
+/**
+ * Value of `attr` on the legend hit rect under (x, y), searching a render
+ * tree — the series name by default, or 'prev'/'next' for pager buttons.
+ */
+export function legendItemAt(nodes: RenderNode[], x: number, y: number, attr = 'data-legend-series'): string | null {
+  for (const node of nodes) {
+    if (node.type === 'group') {
+      const found = legendItemAt(node.children, x, y, attr)
+      if (found !== null) return found
+    } else if (node.type === 'rect') {
+      const series = node.attrs?.[attr as `data-${string}`]
+      if (series === undefined) continue
+      if (x >= node.x && x <= node.x + node.width && y >= node.y && y <= node.y + node.height) {
+        return String(series)
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Drop hidden series from chart data. Colors are pinned first so the
+ * remaining series keep the palette slot they had with everything visible.
+ */
+export function withoutHiddenSeries(data: ChartData, hidden: ReadonlySet<string>, colors: string[]): ChartData {
+  if (!hidden.size) return data
+  return {
+    ...data,
+    series: data.series
+      .map((s, i) => ({ ...s, color: s.color ?? colors[i % colors.length] }))
+      .filter(s => !hidden.has(s.name)),
+  }
+}
@@ -0,0 +1,201 @@
+import type { ResolvedOptions, ThemeConfig } from '../types'
+import { measureText, truncateText } from '../utils/text-measure'
+import type { LegendEntry } from './legend'
+
+/**
+ * Legend layout engine.
+ *
+ * Measures every label, wraps items into rows (top/bottom) or a column
+ * (left/right), truncates long names and splits into pages when the items
+ * don't fit. Coordinates are relative to the legend box; renderLegend()
+ * places the box and computeLayout() reserves its `width`/`height`.
+ */
+
+export interface LegendItemLayout {
+  entry: LegendEntry
+  /** Left edge of the item. */
+  x: number
+  /** Center line of the item's row. */
+  y: number
+  /** Width of dot + label. */
+  width: number
+  /** Label as drawn — the series name, or an ellipsized prefix of it. */
+  label: string
+  truncated: boolean
+}
+
+export interface LegendLayout {
+  position: 'top' | 'bottom' | 'left' | 'right'
+  width: number
+  height: number
+  /** Items on the current page. */
+  items: LegendItemLayout[]
+  page: number
+  pageCount: number
+  /** Pager (prev / page count / next), present when there's more than one page. */
+  pager: { x: number; y: number; width: number; height: number } | null
+}
+
+/** Height of one legend row */
+export const LEGEND_ROW_HEIGHT = 18
+/** Dot + gap before the label */
+const DOT_WIDTH = 12
+/** Gap between items in a row */
+const ITEM_GAP = 14
+/** Labels longer than this are truncated (top/bottom legends) */
+const MAX_LABEL_WIDTH = 150
+/** Labels longer than this are truncated (left/right legends) */
+const MAX_SIDE_LABEL_WIDTH = 120
+/** Rows shown per page before a top/bottom legend starts paging */
+const MAX_ROWS = 3
+/** Width taken by the pager: arrow, "10/12", arrow */
+export const LEGEND_PAGER_WIDTH = 56
+/** Space between a top/bottom legend and the plot (or x axis) */
+export const LEGEND_GAP = 6
+/** Space between a left/right legend and the plot (or y axes) */
+export const LEGEND_SIDE_GAP = 16
+
+/**
+ * Lay out legend `entries` for a chart of `width` × `height`.
+ * `page` is clamped to the available pages. Returns null when no legend is shown.
+ */
+export function layoutLegend(
+  entries: LegendEntry[],
+  options: ResolvedOptions,
+  theme: ThemeConfig,
+  width: number,
+  height: number,
+  page = 0,
+): LegendLayout | null {
+  if (!options.legend || entries.length <= 1) return null
+  const [pt, pr, pb, pl] = options.padding
+
+  if (options.legend === 'top' || options.legend === 'bottom') {
+    return layoutRows(entries, options.legend, theme.fontSizeSmall, Math.max(0, width - pl - pr), page)
+  }
+  return layoutColumn(entries, options.legend, theme.fontSizeSmall, Math.max(0, height - pt - pb), page)
+}
+
+type Measured = Omit<LegendItemLayout, 'x' | 'y'>
+
+function measureEntry(entry: LegendEntry, fontSize: number, maxLabel: number): Measured {
+  const label = truncateText(entry.name, fontSize, maxLabel)
+  return {
+    entry,
+    width: DOT_WIDTH + measureText(label, fontSize),
+    label,
+    truncated: label !== entry.name,
+  }
+}
+
+/** Horizontal legend: greedy row wrapping, centered rows, paging past MAX_ROWS. */
+function layoutRows(
+  entries: LegendEntry[],
+  position: 'top' | 'bottom',
+  fontSize: number,
+  available: number,
+  page: number,
+): LegendLayout {
+  const maxLabel = Math.max(0, Math.min(MAX_LABEL_WIDTH, available - DOT_WIDTH))
+  const measured = entries.map(e => measureEntry(e, fontSize, maxLabel))
+
+  let rows = wrapRows(measured, available)
+  const paged = rows.length > MAX_ROWS
+  // Paging needs room for the pager at the end of each row
+  if (paged) rows = wrapRows(measured, available - LEGEND_PAGER_WIDTH)
+
+  const pageCount = paged ? Math.ceil(rows.length / MAX_ROWS) : 1
+  const current = clampPage(page, pageCount)
+  const shown = paged ? rows.slice(current * MAX_ROWS, (current + 1) * MAX_ROWS) : rows
+  const rowCount = paged ? MAX_ROWS : rows.length
+
+  const rowsWidth = Math.max(...rows.map(rowWidth))
+  const width = rowsWidth + (paged ? LEGEND_PAGER_WIDTH : 0)
+  const height = rowCount * LEGEND_ROW_HEIGHT
+
+  const items: LegendItemLayout[] = []
+  shown.forEach((row, r) => {
+    let x = (rowsWidth - rowWidth(row)) / 2
+    const y = r * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2
+    for (const item of row) {
+      items.push({ ...item, x, y })
+      x += item.width + ITEM_GAP
+    }
+  })
+
+  return {
+    position,
+    width,
+    height,
+    items,
+    page: current,
+    pageCount,
+    pager: paged
+      ? { x: rowsWidth, y: (height - LEGEND_ROW_HEIGHT) / 2, width: LEGEND_PAGER_WIDTH, height: LEGEND_ROW_HEIGHT }
+      : null,
+  }
+}
+
+/** Vertical legend: one item per row, paging when the column is taller than the chart. */
+function layoutColumn(
+  entries: LegendEntry[],
+  position: 'left' | 'right',
+  fontSize: number,
+  available: number,
+  page: number,
+): LegendLayout {
+  const measured = entries.map(e => measureEntry(e, fontSize, MAX_SIDE_LABEL_WIDTH))
+
+  const fits = Math.max(1, Math.floor(available / LEGEND_ROW_HEIGHT))
+  const paged = measured.length > fits
+  // The pager takes the last row
+  const perPage = paged ? Math.max(1, fits - 1) : measured.length
+  const pageCount = Math.ceil(measured.length / perPage)
+  const current = clampPage(page, pageCount)
+  const shown = measured.slice(current * perPage, (current + 1) * perPage)
+
+  const itemsWidth = Math.max(...measured.map(m => m.width))
+  const width = paged ? Math.max(itemsWidth, LEGEND_PAGER_WIDTH) : itemsWidth
+  const height = (paged ? perPage + 1 : perPage) * LEGEND_ROW_HEIGHT
+
+  return {
+    position,
+    width,
+    height,
+    items: shown.map((item, i) => ({ ...item, x: 0, y: i * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2 })),
+    page: current,
+    pageCount,
+    pager: paged
+      ? { x: 0, y: perPage * LEGEND_ROW_HEIGHT, width: LEGEND_PAGER_WIDTH, height: LEGEND_ROW_HEIGHT }
+      : null,
+  }
+}
+
+function wrapRows(items: Measured[], available: number): Measured[][] {
+  const rows: Measured[][] = []
+  let row: Measured[] = []
+  let width = 0
+  for (const item of items) {
+    const next = row.length ? width + ITEM_GAP + item.width : item.width
+    if (row.length && next > available) {
+      rows.push(row)
+      row = [item]
+      width = item.width
+    } else {
+      row.push(item)
+      width = next
+    }
+  }
+  if (row.length) rows.push(row)
+  return rows
+}
+
+function rowWidth(row: Measured[]): number {
+  let w = 0
+  for (const item of row) w += item.width
+  return w + ITEM_GAP * Math.max(0, row.length - 1)
+}
+
+function clampPage(page: number, pageCount: number): number {
+  return Math.max(0, Math.min(pageCount - 1, Math.floor(page)))
+}
@@ -1,81 +1,153 @@
-import type { RenderNode, PreparedData, ResolvedOptions, ChartArea, ThemeConfig } from '../types'
+import type { ChartData, RenderNode, ResolvedOptions, ChartArea, ThemeConfig } from '../types'
 import { CSS_PREFIX } from '../constants'
-import { group, circle, text } from '../render/tree'
+import { group, circle, rect, text, path } from '../render/tree'
+import {
+  layoutLegend, LEGEND_GAP, LEGEND_SIDE_GAP, LEGEND_ROW_HEIGHT, LEGEND_PAGER_WIDTH,
+  type LegendLayout,
+} from './layout'
+
+/** One legend row. PreparedSeries satisfies this; `hidden` marks a toggled-off series. */
+export interface LegendEntry {
+  name: string
+  color: string
+  hidden?: boolean
+}
+
+/** Legend rows for every series in the data, visible or not. Colors match prepareData(). */
+export function legendEntries(data: ChartData, colors: string[], hidden: ReadonlySet<string>): LegendEntry[] {
+  return data.series.map((s, i) => ({
+    name: s.name,
+    color: s.color ?? colors[i % colors.length]!,
+    hidden: hidden.has(s.name),
+  }))
+}
 
 /**
  * Render legend — series names with color indicators.
  * Positioned based on options.legend (top, bottom, left, right).
+ * `rightInset` is the width taken by right-side y axes, which a right legend must clear.
+ * `layout` is the legend's layoutLegend() result — the same one computeLayout()
+ * reserved space for; without it the legend is laid out against `area`.
+ *
+ * Each item is a focusable toggle button (`data-legend-series` carries the
+ * series name) with a transparent hit rect, so the interactive legend can
+ * find it by DOM event or by geometry on canvas. Truncated names carry the
+ * full name as a tooltip; paged legends get prev/next buttons
+ * (`data-legend-page`).
  */
 export function renderLegend(
-  data: PreparedData,
+  entries: LegendEntry[],
   area: ChartArea,
   options: ResolvedOptions,
   theme: ThemeConfig,
+  rightInset = 0,
+  layout?: LegendLayout | null,
 ): RenderNode | null {
-  if (!options.legend || data.series.length <= 1) return null
-
-  const items: RenderNode[] = []
-  const pos = options.legend
-
-  if (pos === 'top' || pos === 'bottom') {
-    // Horizontal layout — centered above or below chart area
-    const totalWidth = estimateLegendWidth(data, theme)
-    let x = area.x + Math.max(0, (area.width - totalWidth) / 2)
-    const y = pos === 'top' ? area.y - 10 : area.y + area.height + 32
-
-    for (const series of data.series) {
-      // Color dot
-      items.push(circle(x + 4, y, 3.5, {
-        class: 'chartts-legend-dot',
-        fill: series.color,
-      }))
-
-      // Series name
-      items.push(text(x + 12, y, series.name, {
-        class: 'chartts-legend-text',
-        fill: `var(${CSS_PREFIX}-text-muted)`,
-        dominantBaseline: 'central',
-        fontSize: theme.fontSizeSmall,
-        fontFamily: `var(${CSS_PREFIX}-font-family)`,
-      }))
-
-      // Advance x position (estimate width from name length)
-      x += 12 + series.name.length * (theme.fontSizeSmall * 0.58) + 14
-    }
-  } else {
-    // Vertical layout (left or right)
-    const x = pos === 'left' ? 8 : area.x + area.width + 16
-    let y = area.y + 4
-
-    for (const series of data.series) {
-      items.push(circle(x + 4, y + 5, 3.5, {
-        class: 'chartts-legend-dot',
-        fill: series.color,
-      }))
-
-      items.push(text(x + 12, y + 5, series.name, {
-        class: 'chartts-legend-text',
-        fill: `var(${CSS_PREFIX}-text-muted)`,
-        dominantBaseline: 'central',
-        fontSize: theme.fontSizeSmall,
-        fontFamily: `var(${CSS_PREFIX}-font-family)`,
-      }))
+  const [pt, pr, pb, pl] = options.padding
+  layout ??= layoutLegend(entries, options, theme, area.width + pl + pr, area.height + pt + pb)
+  if (!layout) return null
 
-      y += 18
-    }
+  const { x, y } = legendOrigin(layout, area, options, rightInset)
+  const items: RenderNode[] = layout.items.map(item =>
+    legendItem(item.entry, x + item.x, y + item.y, item.width, item.truncated ? item.label : undefined, theme),
+  )
+  if (layout.pager) {
+    items.push(legendPager(layout, x + layout.pager.x, y + layout.pager.y, theme))
   }
 
   return group(items, {
     class: 'chartts-legend',
-    role: 'list',
+    role: 'group',
     ariaLabel: 'Chart legend',
   })
 }
 
-function estimateLegendWidth(data: PreparedData, theme: ThemeConfig): number {
-  let width = 0
-  for (const series of data.series) {
-    width += 12 + series.name.length * (theme.fontSizeSmall * 0.58) + 14
+/** Top-left corner of the legend box in chart coordinates. */
+function legendOrigin(layout: LegendLayout, area: ChartArea, options: ResolvedOptions, rightInset: number): { x: number; y: number } {
+  switch (layout.position) {
+    case 'top':
+    case 'bottom': {
+      // Centered over the plot, but kept inside the padding box
+      const centered = area.x + (area.width - layout.width) / 2
+      const x = Math.max(options.padding[3], Math.min(centered, area.x + area.width + rightInset - layout.width))
+      if (layout.position === 'top') return { x, y: area.y - layout.height - LEGEND_GAP }
+      const axisSpace = (options.xAxis ? options.fontSize + 8 : 0) + (options.xLabel ? options.fontSize + 4 : 0)
+      return { x, y: area.y + area.height + axisSpace + LEGEND_GAP }
+    }
+    case 'left':
+      return { x: options.padding[3], y: area.y }
+    case 'right':
+      return { x: area.x + area.width + rightInset + LEGEND_SIDE_GAP, y: area.y }
   }
-  return width
+}
+
+/**
+ * A single legend toggle: hit rect, color dot, name. `y` is the row's center line.
+ * `label` replaces the name when it was truncated; the full name becomes the tooltip.
+ */
+function legendItem(entry: LegendEntry, x: number, y: number, width: number, label: string | undefined, theme: ThemeConfig): RenderNode {
+  const hidden = !!entry.hidden
+  return group([
+    rect(x - 2, y - 8, width + 4, 16, {
+      class: 'chartts-legend-hit',
+      fill: 'transparent',
+      'data-legend-series': entry.name,
+    }),
+    // Hidden series show a hollow dot
+    circle(x + 4, y, 3.5, hidden
+      ? { class: 'chartts-legend-dot', fill: 'none', stroke: entry.color, strokeWidth: 1.5 }
+      : { class: 'chartts-legend-dot', fill: entry.color }),
+    text(x + 12, y, label ?? entry.name, {
+      class: 'chartts-legend-text',
+      fill: `var(${CSS_PREFIX}-text-muted)`,
+      dominantBaseline: 'central',
+      fontSize: theme.fontSizeSmall,
+      fontFamily: `var(${CSS_PREFIX}-font-family)`,
+    }),
+  ], {
+    class: hidden ? 'chartts-legend-item chartts-legend-item-hidden' : 'chartts-legend-item',
+    key: entry.name,
+    opacity: hidden ? 0.45 : undefined,
+    role: 'button',
+    tabindex: 0,
+    ariaLabel: `${entry.name}: ${hidden ? 'hidden' : 'visible'}. Toggle series`,
+    ariaPressed: hidden ? 'false' : 'true',
+    title: label === undefined ? undefined : entry.name,
+    'data-legend-series': entry.name,
+  })
+}
+
+/** Prev arrow, "page/count", next arrow. (x, y) is the pager's top-left corner. */
+function legendPager(layout: LegendLayout, x: number, y: number, theme: ThemeConfig): RenderNode {
+  const cy = y + LEGEND_ROW_HEIGHT / 2
+  const w = LEGEND_PAGER_WIDTH
+  const atStart = layout.page === 0
+  const atEnd = layout.page === layout.pageCount - 1
+
+  const button = (dir: 'prev' | 'next', bx: number, d: string, disabled: boolean): RenderNode =>
+    group([
+      rect(bx, y, 14, LEGEND_ROW_HEIGHT, { class: 'chartts-legend-hit', fill: 'transparent', 'data-legend-page': dir }),
+      path(d, { class: 'chartts-legend-arrow', fill: `var(${CSS_PREFIX}-text-muted)` }),
+    ], {
+      class: disabled ? 'chartts-legend-page-button chartts-legend-page-disabled' : 'chartts-legend-page-button',
+      key: dir,
+      opacity: disabled ? 0.3 : undefined,
+      role: 'button',
+      tabindex: disabled ? -1 : 0,
+      ariaLabel: dir === 'prev' ? 'Previous legend page' : 'Next legend page',
+      'data-legend-page': dir,
+    })
+
+  return group([
+    button('prev', x, `M${x + 10},${cy - 4}L${x + 4},${cy}L${x + 10},${cy + 4}Z`, atStart),
+    text(x + w / 2, cy, `${layout.page + 1}/${layout.pageCount}`, {
+      class: 'chartts-legend-page-label',
+      fill: `var(${CSS_PREFIX}-text-muted)`,
+      textAnchor: 'middle',
+      dominantBaseline: 'central',
+      fontSize: theme.fontSizeSmall,
+      fontFamily: `var(${CSS_PREFIX}-font-family)`,
+    }),
+    button('next', x + w - 14, `M${x + w - 10},${cy - 4}L${x + w - 4},${cy}L${x + w - 10},${cy + 4}Z`, atEnd),
+  ], { class: 'chartts-legend-pager', key: 'pager' })
 }
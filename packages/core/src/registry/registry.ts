@@ -1,13 +1,60 @@
 import type { ChartTypePlugin, ScaleFactory, ScaleType } from '../types'
+import { createLinearScale } from '../scales/linear'
+import { createCategoricalScale } from '../scales/categorical'
+import { createTimeScale } from '../scales/time'
+import { createLogScale, createSymlogScale } from '../scales/log'
 
 /**
- * @deprecated Use the `CHART_TYPES` map from `@chartts/core` instead.
- * This registry is unused internally and will be removed in a future version.
+ * Chart registry is deprecated — use the `CHART_TYPES` map from `@chartts/core`.
+ *
+ * The scale registry is live: createChart and renderToString resolve every
+ * axis scale through getScaleFactory(), so a registered factory replaces the
+ * built-in one for that ScaleType.
  */
 
 const charts = new Map<string, ChartTypePlugin>()
 const scales = new Map<ScaleType, ScaleFactory>()
 
+/** Built-in scale factories — used when no user factory is registered. */
+const BUILTIN_SCALES: Partial<Record<ScaleType, ScaleFactory>> = {
+  linear: (cfg) => createLinearScale({
+    domain: cfg?.domain as [number, number] | undefined,
+    range: cfg?.range,
+    nice: cfg?.nice,
+    clamp: cfg?.clamp,
+    format: cfg?.format,
+  }),
+  categorical: (cfg) => createCategoricalScale({
+    categories: cfg?.categories,
+    range: cfg?.range,
+    format: cfg?.format,
+    band: cfg?.band,
+  }),
+  time: (cfg) => createTimeScale({
+    domain: cfg?.domain?.map(toTime) as [number, number] | undefined,
+    range: cfg?.range,
+    format: cfg?.format,
+    locale: cfg?.locale,
+  }),
+  log: (cfg) => createLogScale({
+    domain: cfg?.domain as [number, number] | undefined,
+    range: cfg?.range,
+    base: cfg?.base,
+    nice: cfg?.nice,
+    clamp: cfg?.clamp,
+    format: cfg?.format,
+  }),
+  symlog: (cfg) => createSymlogScale({
+    domain: cfg?.domain as [number, number] | undefined,
+    range: cfg?.range,
+    base: cfg?.base,
+    constant: cfg?.constant,
+    nice: cfg?.nice,
+    clamp: cfg?.clamp,
+    format: cfg?.format,
+  }),
+}
+
 /** @deprecated Use `CHART_TYPES` map instead. */
 export function registerChart(plugin: ChartTypePlugin): void {
   if (charts.has(plugin.type)) {
@@ -26,22 +73,26 @@ export function getChart(type: string): ChartTypePlugin {
   return plugin
 }
 
-/** @deprecated */
+/** Register a scale factory. Overrides the built-in factory for `type`. */
 export function registerScale(type: ScaleType, factory: ScaleFactory): void {
   scales.set(type, factory)
 }
 
-/** @deprecated */
+/** Get the factory for a scale type — user-registered first, then built-in. */
 export function getScaleFactory(type: ScaleType): ScaleFactory {
-  const factory = scales.get(type)
+  const factory = scales.get(type) ?? BUILTIN_SCALES[type]
   if (!factory) {
     throw new Error(`[chartts] Unknown scale type "${type}".`)
   }
   return factory
 }
 
-/** @deprecated */
+/** Remove all registered charts and scale factories. Built-in scales remain available. */
 export function clearRegistry(): void {
   charts.clear()
   scales.clear()
 }
+
+function toTime(v: number | string | Date): number {
+  return v instanceof Date ? v.getTime() : typeof v === 'string' ? new Date(v).getTime() : v
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { buildScene, PLOT_CLIP_ID } from '../scene'
+import { renderToString } from '../string'
+import { lineChartType } from '../../charts/line/line-type'
+import { createZoomPan } from '../../interaction/zoom-pan'
+import type { ChartData, RenderNode, Scale } from '../../types'
+
+const data: ChartData = {
+  labels: ['A', 'B', 'C', 'D'],
+  series: [
+    { name: 'North', values: [10, 20, 15, 30] },
+    { name: 'South', values: [5, 25, 10, 20] },
+  ],
+}
+
+const size = { width: 600, height: 400 }
+
+function classes(nodes: RenderNode[]): string[] {
+  return nodes.map(n => ('attrs' in n ? n.attrs?.class : undefined) ?? n.type)
+}
+
+describe('buildScene', () => {
+  it('returns the layered tree with its context', () => {
+    const scene = buildScene(lineChartType, data, {}, size)
+    expect(classes(scene.nodes)).toEqual([
+      'defs', 'chartts-grid-group', 'chartts-x-axis-group', 'chartts-y-axis-group', 'chartts-content', 'chartts-legend',
+    ])
+    expect(scene.ctx?.data.series).toHaveLength(2)
+    expect(scene.legend?.items).toHaveLength(2)
+    const content = scene.nodes[4]!
+    expect(content.type === 'group' && content.attrs?.clipPath).toBe(PLOT_CLIP_ID)
+  })
+
+  it('leaves hidden series out of the plot but not the legend', () => {
+    const scene = buildScene(lineChartType, data, {}, size, { hiddenSeries: new Set(['North']) })
+    expect(scene.ctx?.data.series.map(s => s.name)).toEqual(['South'])
+    expect(scene.legend?.items.map(i => i.entry.hidden)).toEqual([true, false])
+  })
+
+  it('applies zoom state to the scales', () => {
+    const zoom = {
+      applyToScales: (xScale: { setRange(a: number, b: number): void; getRange(): [number, number] }) => {
+        const [a, b] = xScale.getRange()
+        xScale.setRange(a, a + (b - a) * 2)
+      },
+      getState: () => ({ zoomX: 2, zoomY: 1, panX: 0, panY: 0 }),
+    }
+    const plain = buildScene(lineChartType, data, {}, size).ctx!
+    const zoomed = buildScene(lineChartType, data, {}, size, { zoom }).ctx!
+    expect(zoomed.xScale.map('D') - zoomed.xScale.map('A')).toBeCloseTo(2 * (plain.xScale.map('D') - plain.xScale.map('A')))
+    expect(zoomed.zoomPan).toMatchObject({ zoomX: 2 })
+  })
+
+  it('zooms secondary y axes with the primary one', () => {
+    const dual: ChartData = { ...data, series: [data.series[0]!, { ...data.series[1]!, yAxis: 'right' }] }
+    const plain = buildScene(lineChartType, dual, {}, size).ctx!
+    const zoom = createZoomPan({ x: true, y: true }, () => {})
+    zoom.focus(0.5, 0.5, 2)
+    const zoomed = buildScene(lineChartType, dual, {}, size, { zoom }).ctx!
+    const span = (scale: Scale): number => {
+      const [min, max] = scale.getDomain() as [number, number]
+      return max - min
+    }
+    expect(span(zoomed.yScale)).toBeCloseTo(span(plain.yScale) / 2)
+    expect(span(zoomed.yScales!.right!)).toBeCloseTo(span(plain.yScales!.right!) / 2)
+  })
+
+  it('decimates when asked, for every renderer', () => {
+    const values = Array.from({ length: 2000 }, (_, i) => Math.sin(i / 50))
+    const big: ChartData = { labels: values.map((_, i) => String(i)), series: [{ name: 'Wave', values }] }
+    const scene = buildScene(lineChartType, big, { decimate: { threshold: 200 } }, size)
+    expect(scene.ctx?.data.series[0]!.values).toHaveLength(200)
+  })
+
+  it('decimates only the visible window while zoomed', () => {
+    const values = Array.from({ length: 20_000 }, (_, i) => Math.sin(i / 50))
+    const big: ChartData = { labels: values.map((_, i) => String(i)), series: [{ name: 'Wave', values }] }
+    const zoomPan = createZoomPan({}, () => {})
+    const zoom = { ...zoomPan, getState: () => ({ zoomX: 20, zoomY: 1, panX: 0, panY: 0 }) }
+    const full = buildScene(lineChartType, big, { decimate: { threshold: 200 } }, size).ctx!
+    const scene = buildScene(lineChartType, big, { decimate: { threshold: 2000 } }, size, { zoom }).ctx!
+
+    // 20x zoom at the center: indices 9500..10500, all kept
+    expect(scene.data.labels[0]).toBe('9499')
+    expect(scene.data.series[0]!.values).toHaveLength(1002)
+    // Points land where the zoomed full scale would put them
+    const step = (full.area.width * 20) / (values.length - 1)
+    const origin = full.area.x - 0.475 * full.area.width * 20
+    expect(scene.xScale.map(0)).toBeCloseTo(origin + 9499 * step, 1)
+  })
+
+  it('decimates only the visible time range while zoomed', () => {
+    const values = Array.from({ length: 20_000 }, (_, i) => Math.sin(i / 50))
+    const minute = 60_000
+    const big: ChartData = { labels: values.map((_, i) => new Date(i * minute)), series: [{ name: 'Wave', values }] }
+    const zoom = createZoomPan({}, () => {})
+    const full = buildScene(lineChartType, big, { decimate: { threshold: 200 } }, size).ctx!
+    zoom.focus(0.5, 0.5, 20)
+    const scene = buildScene(lineChartType, big, { decimate: { threshold: 2000 } }, size, { zoom }).ctx!
+
+    // 20x zoom at the center: minutes 9499.5..10499.5, all kept with a point either side
+    expect(scene.scaleTypes?.x).toBe('time')
+    expect(scene.data.labels[0]).toEqual(new Date(9499 * minute))
+    expect(scene.data.series[0]!.values).toHaveLength(1002)
+    // The scale still spans all the data, stretched by the zoom
+    zoom.applyToScales(full.xScale, full.yScale, full.area)
+    expect(scene.xScale.map(new Date(10_000 * minute))).toBeCloseTo(full.xScale.map(new Date(10_000 * minute)))
+  })
+
+  it('draws the empty state without a context', () => {
+    const scene = buildScene(lineChartType, { series: [] }, {}, size)
+    expect(scene.ctx).toBeNull()
+    expect(scene.nodes.length).toBeGreaterThan(0)
+  })
+
+  it('is what renderToString serializes', () => {
+    const svg = renderToString(lineChartType, data, size)
+    const scene = buildScene(lineChartType, data, size, size)
+    const count = (nodes: RenderNode[]): number =>
+      nodes.reduce((n, node) => n + 1 + ('children' in node ? count(node.children) : 0), 0)
+    const tags = svg.match(/<(g|path|rect|circle|line|text|clipPath|defs)[\s>/]/g) ?? []
+    // +1 for the effect defs renderToString adds around the scene
+    expect(tags.length).toBe(count(scene.nodes) + 1)
+  })
+})
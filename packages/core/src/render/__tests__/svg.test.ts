@@ -0,0 +1,153 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createSVGRenderer } from '../svg'
+import { group, circle, rect, text } from '../tree'
+import { renderToString } from '../string'
+import { buildScene } from '../scene'
+import { lineChartType } from '../../charts/line/line-type'
+import { hydrateChart } from '../../api/hydrate'
+import type { ChartEvents, DataPoint, RendererRoot } from '../../types'
+
+describe('createSVGRenderer', () => {
+  const renderer = createSVGRenderer()
+  let root: RendererRoot
+
+  beforeEach(() => {
+    document.body.innerHTML = ''
+    root = renderer.createRoot(document.body, 100, 100)
+  })
+
+  it('reuses elements by position and patches attributes in place', () => {
+    renderer.render(root, [circle(10, 10, 4, { class: 'chartts-point', fill: 'red' })])
+    const before = root.element.querySelector('circle')!
+
+    renderer.update(root, [circle(20, 30, 4, { class: 'chartts-point' })])
+    const after = root.element.querySelector('circle')!
+
+    expect(after).toBe(before)
+    expect(after.getAttribute('cx')).toBe('20')
+    expect(after.getAttribute('cy')).toBe('30')
+    expect(after.hasAttribute('fill')).toBe(false)
+  })
+
+  it('matches keyed nodes across reorders', () => {
+    renderer.render(root, [
+      group([rect(0, 0, 1, 1)], { key: 'a' }),
+      group([rect(0, 0, 2, 2)], { key: 'b' }),
+    ])
+    const [a, b] = Array.from(root.element.querySelectorAll('g'))
+
+    renderer.update(root, [
+      group([rect(0, 0, 2, 2)], { key: 'b' }),
+      group([rect(0, 0, 1, 1)], { key: 'a' }),
+    ])
+    const groups = Array.from(root.element.querySelectorAll('g'))
+
+    expect(groups).toEqual([b, a])
+    expect(groups[0]!.hasAttribute('key')).toBe(false)
+  })
+
+  it('adds and removes elements to match the node list', () => {
+    renderer.render(root, [text(0, 0, 'one'), text(0, 10, 'two')])
+    renderer.update(root, [text(0, 0, 'uno')])
+
+    const texts = root.element.querySelectorAll('text')
+    expect(texts).toHaveLength(1)
+    expect(texts[0]!.textContent).toBe('uno')
+  })
+
+  it('leaves elements it did not create in place', () => {
+    renderer.render(root, [circle(1, 1, 1)])
+    const overlay = document.createElementNS('http://www.w3.org/2000/svg', 'g')
+    root.element.appendChild(overlay)
+
+    renderer.update(root, [circle(1, 1, 1), circle(2, 2, 2)])
+
+    expect(root.element.querySelector('style')).not.toBeNull()
+    expect(root.element.lastElementChild).toBe(overlay)
+    expect(root.element.querySelectorAll('circle')).toHaveLength(2)
+  })
+})
+
+describe('adoptRoot', () => {
+  const renderer = createSVGRenderer()
+  const data = { labels: ['A', 'B', 'C'], series: [{ name: 'Sales', values: [10, 20, 15] }] }
+  const size = { width: 600, height: 400 }
+
+  beforeEach(() => {
+    document.body.innerHTML = renderToString(lineChartType, data, size)
+  })
+
+  it('takes over server-rendered markup without replacing it', () => {
+    const svg = document.body.querySelector('svg')!
+    const points = Array.from(svg.querySelectorAll('.chartts-point'))
+    const root = renderer.adoptRoot!(svg, 600, 400)
+
+    renderer.render(root, buildScene(lineChartType, data, size, size).nodes)
+
+    expect(root.element).toBe(svg)
+    expect(svg.querySelectorAll('style')).toHaveLength(1)
+    expect(svg.querySelector('defs.chartts-fx')).not.toBeNull()
+    const after = Array.from(svg.querySelectorAll('.chartts-point'))
+    expect(after.every((p, i) => p === points[i])).toBe(true)
+  })
+
+  it('patches only what differs on the client', () => {
+    const svg = document.body.querySelector('svg')!
+    const points = Array.from(svg.querySelectorAll('.chartts-point'))
+    const cy = points[1]!.getAttribute('cy')
+    const root = renderer.adoptRoot!(svg, 600, 400)
+
+    const changed = { ...data, series: [{ name: 'Sales', values: [10, 5, 15] }] }
+    renderer.render(root, buildScene(lineChartType, changed, size, size).nodes)
+
+    const after = Array.from(svg.querySelectorAll('.chartts-point'))
+    expect(after.every((p, i) => p === points[i])).toBe(true)
+    expect(after[1]!.getAttribute('cy')).not.toBe(cy)
+  })
+
+  it('drops stray markup that does not match the scene', () => {
+    const svg = document.body.querySelector('svg')!
+    svg.appendChild(document.createElementNS('http://www.w3.org/2000/svg', 'circle'))
+    const root = renderer.adoptRoot!(svg, 600, 400)
+
+    const nodes = [rect(0, 0, 10, 10)]
+    renderer.render(root, nodes)
+
+    expect(Array.from(svg.children).map(c => c.tagName)).toEqual(['style', 'defs', 'rect'])
+  })
+})
+
+describe('hydrateChart', () => {
+  const data = { labels: ['A', 'B', 'C'], series: [{ name: 'Sales', values: [10, 20, 15] }] }
+  const options = { width: 600, height: 400 }
+
+  it('keeps the server-rendered elements and makes them interactive', () => {
+    const container = document.createElement('div')
+    container.innerHTML = renderToString(lineChartType, data, options)
+    document.body.appendChild(container)
+    const svg = container.querySelector('svg')!
+    const elements = Array.from(svg.querySelectorAll('*'))
+    const points = Array.from(svg.querySelectorAll('.chartts-point'))
+
+    const chart = hydrateChart(container, lineChartType, data, options)
+
+    expect(chart.element).toBe(svg)
+    expect(container.querySelectorAll('svg.chartts')).toHaveLength(1)
+    expect(elements.every(el => svg.contains(el))).toBe(true)
+    expect(Array.from(svg.querySelectorAll('.chartts-point')).every((p, i) => p === points[i])).toBe(true)
+
+    // Interaction attached to the adopted element — jsdom has no layout, so
+    // the chart fills its box one to one
+    expect(svg.getAttribute('tabindex')).toBe('0')
+    svg.getBoundingClientRect = () => ({ left: 0, top: 0, width: 600, height: 400 }) as DOMRect
+    const clicks: DataPoint[] = []
+    chart.on('point:click', (e) => clicks.push((e as ChartEvents['point:click']).point))
+    const b = points[1]!
+    svg.dispatchEvent(new MouseEvent('click', { clientX: Number(b.getAttribute('cx')), clientY: Number(b.getAttribute('cy')) }))
+    expect(clicks.map(p => [p.label, p.value])).toEqual([['B', 20]])
+
+    chart.destroy()
+    container.remove()
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { interpolateNodes, morphPath } from '../transition'
+import { group, rect, circle, path } from '../tree'
+import { slicePath } from '../../utils/slice-path'
+
+describe('interpolateNodes', () => {
+  it('tweens rect geometry', () => {
+    const [mid] = interpolateNodes([rect(0, 100, 10, 0)], [rect(20, 0, 10, 100)], 0.5)
+    expect(mid).toMatchObject({ type: 'rect', x: 10, y: 50, width: 10, height: 50 })
+  })
+
+  it('returns the target tree at t = 1', () => {
+    const to = [group([circle(5, 5, 3, { fill: 'red' })])]
+    const [g] = interpolateNodes([group([circle(0, 0, 3)])], to, 1)
+    expect(g).toEqual(to[0])
+  })
+
+  it('matches keyed nodes regardless of order', () => {
+    const from = [rect(0, 0, 1, 1, { key: 'a' }), rect(100, 0, 1, 1, { key: 'b' })]
+    const to = [rect(100, 0, 1, 1, { key: 'b' }), rect(0, 0, 1, 1, { key: 'a' })]
+    const frame = interpolateNodes(from, to, 0.5)
+    expect(frame.map(n => n.type === 'rect' && n.x)).toEqual([100, 0])
+  })
+
+  it('grows entering circles and fades exiting nodes', () => {
+    const frame = interpolateNodes([rect(0, 0, 1, 1)], [circle(0, 0, 4)], 0.25)
+    expect(frame[0]).toMatchObject({ type: 'circle', r: 1, attrs: { opacity: 0.25 } })
+    expect(frame[1]).toMatchObject({ type: 'rect', attrs: { opacity: 0.75 } })
+  })
+
+  it('tweens slice angles', () => {
+    const shape = { cx: 50, cy: 50, outerR: 40, innerR: 0, outerStart: 0, outerEnd: 1, innerStart: 0, innerEnd: 1, cornerRadius: 0 }
+    const [mid] = interpolateNodes(
+      [slicePath(shape)],
+      [slicePath({ ...shape, outerEnd: 2, innerEnd: 2 })],
+      0.5,
+    )
+    expect(mid).toMatchObject({ arc: { outerEnd: 1.5, innerEnd: 1.5 } })
+    expect(mid).toMatchObject({ d: (slicePath({ ...shape, outerEnd: 1.5, innerEnd: 1.5 }) as { d: string }).d })
+  })
+
+  it('tweens numeric attrs and snaps the rest', () => {
+    const [mid] = interpolateNodes(
+      [path('M0,0L10,10', { opacity: 0, stroke: 'red' })],
+      [path('M0,0L10,10', { opacity: 1, stroke: 'blue' })],
+      0.5,
+    )
+    expect(mid!.type === 'path' && mid!.attrs).toMatchObject({ opacity: 0.5, stroke: 'blue' })
+  })
+})
+
+describe('morphPath', () => {
+  it('interpolates matching command sequences', () => {
+    expect(morphPath('M0,0L10,10', 'M10,10L20,30', 0.5)).toBe('M5,5L15,20')
+  })
+
+  it('grows extra points out of the last shared point', () => {
+    expect(morphPath('M0,0L10,0', 'M0,0L10,0L20,0', 0)).toBe('M0,0L10,0L10,0')
+    expect(morphPath('M0,0L10,0', 'M0,0L10,0L20,0', 1)).toBe('M0,0L10,0L20,0')
+  })
+
+  it('pads a curve run in the middle of an area path', () => {
+    const a = 'M0,0C1,1,2,2,10,0L10,50L0,50Z'
+    const b = 'M0,0C1,1,2,2,10,0C11,1,12,2,20,0L20,50L0,50Z'
+    expect(morphPath(a, b, 0.5)).toBe('M0,0C1,1,2,2,10,0C10.50,0.50,11,1,15,0L15,50L0,50Z')
+  })
+
+  it('snaps when structures are incompatible', () => {
+    expect(morphPath('M0,0C1,1,2,2,3,3', 'M0,0L5,5', 0.5)).toBe('M0,0L5,5')
+  })
+})
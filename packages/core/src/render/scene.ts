@@ -0,0 +1,236 @@
+import type {
+  Annotation, ChartArea, ChartData, ChartOptions, ChartTypePlugin, PreparedData, RenderContext, RenderNode, Scale, ThemeConfig,
+} from '../types'
+import { resolveOptions } from '../constants'
+import { resolveTheme } from '../theme/engine'
+import { computeLayout, rightAxesWidth, type XTickLabels, type YAxisSlot } from '../layout/compute'
+import { renderXAxis, renderYAxis, renderGrid, xAxisTicks } from '../axis/axis'
+import { renderLegend, legendEntries } from '../legend/legend'
+import { withoutHiddenSeries } from '../legend/interactive'
+import { layoutLegend, type LegendLayout } from '../legend/layout'
+import { createChartScales, type ChartScales } from '../scales/resolve'
+import { renderAnnotations } from '../annotation/annotation'
+import { decimateData, windowIndices, type DecimateOptions } from '../data/decimate'
+import { seriesLength, xExtent } from '../data/xy'
+import { visibleWindow, type ZoomPanInstance, type ZoomPanState } from '../interaction/zoom-pan'
+import { BREADCRUMB_HEIGHT, renderBreadcrumb, rollupLevel } from '../features/drilldown'
+import { renderEmptyState } from './states'
+import { group, defs, clipPathDef, rect } from './tree'
+
+/**
+ * The headless render pipeline — data and options in, render tree out.
+ *
+ * createChart, renderToString and @chartts/test-utils all draw through
+ * buildScene(), so a server-rendered SVG matches what the browser draws.
+ * Everything interactive (hidden series, legend page, zoom, an annotation
+ * being dragged, the drill-down path) comes in through SceneState; nothing
+ * here touches the DOM.
+ */
+
+export interface SceneSize {
+  width: number
+  height: number
+}
+
+/** Interactive state the DOM chart layers on top of the options. */
+export interface SceneState {
+  /** Pre-resolved theme. Default: resolved from options.theme. */
+  theme?: ThemeConfig
+  /** Series toggled off, by name. */
+  hiddenSeries?: ReadonlySet<string>
+  /** Requested legend page — clamped by the layout. */
+  legendPage?: number
+  /** Zoom/pan applied to the scales after they are built. */
+  zoom?: Pick<ZoomPanInstance, 'applyToScales' | 'getState'>
+  /** Annotations to draw instead of options.annotations (e.g. mid-drag). */
+  annotations?: Annotation[]
+  /**
+   * Nodes drilled into, for the breadcrumb. `data` is already the level
+   * being shown.
+   */
+  drillPath?: string[]
+}
+
+export interface Scene {
+  /** Full render tree, defs first. */
+  nodes: RenderNode[]
+  /** Context the chart rendered with — null when there was nothing to plot. */
+  ctx: RenderContext | null
+  legend: LegendLayout | null
+  yAxes: YAxisSlot[]
+}
+
+/** Id of the clip path around the plot area. */
+export const PLOT_CLIP_ID = 'chartts-clip'
+
+export function buildScene(
+  chartType: ChartTypePlugin,
+  levelData: ChartData,
+  options: ChartOptions,
+  size: SceneSize,
+  state: SceneState = {},
+): Scene {
+  const { width, height } = size
+  const resolved = resolveOptions(options, levelData.series.length)
+  const theme = state.theme ?? resolveTheme(resolved.theme)
+  const hidden = state.hiddenSeries ?? new Set<string>()
+  const drill = resolved.drilldown
+
+  // With drill-down on, charts that draw one level get hierarchical labels
+  // summed into their top-level nodes
+  const data = drill && !chartType.hierarchical ? rollupLevel(levelData, drill.separator) : levelData
+
+  const hasRichGraphData = chartType.type === 'graph' &&
+    ((options as Record<string, unknown>).nodes || (options as Record<string, unknown>).edges)
+  const isEmpty = !hasRichGraphData && (
+    !data.series.length ||
+    data.series.every(s => seriesLength(s) === 0)
+  )
+  if (isEmpty) {
+    return { nodes: renderEmptyState(width, height, theme), ctx: null, legend: null, yAxes: [] }
+  }
+
+  // Decimate large datasets before preparing. While zoomed in on x, only
+  // the visible window is decimated, so each zoom level reveals more detail.
+  const decimateOpt = options.decimate
+  const decimate: DecimateOptions | null = decimateOpt
+    ? typeof decimateOpt === 'object' ? decimateOpt : { threshold: Math.max(width * 2, 500) }
+    : null
+  const zoomState = state.zoom?.getState()
+  const visible = decimate && zoomState && zoomState.zoomX !== 1 ? visibleWindow(zoomState) : undefined
+
+  const shown = withoutHiddenSeries(data, hidden, resolved.colors)
+  const prepare = (opts: DecimateOptions | null): PreparedData => chartType.prepareData(
+    opts ? decimateData(shown, opts) : shown,
+    resolved,
+  )
+  let prepared = prepare(decimate && { ...decimate, window: visible })
+  // Index windows only line up with a categorical x axis. A time or numeric
+  // one keeps the points inside the visible x range instead, and its scale
+  // still spans all of the data so the zoom stretches it as usual
+  const categoricalX = chartType.getScaleTypes(prepared, resolved).x === 'categorical'
+  const windowed = !!visible && categoricalX
+  const xDomain = visible && !windowed ? xExtent(data) : null
+  if (visible && !windowed) {
+    const xRange = xDomain && [visible.start, visible.end].map(f => xDomain[0] + f * (xDomain[1] - xDomain[0])) as [number, number]
+    prepared = prepare(xRange ? { ...decimate, xRange } : decimate)
+  }
+
+  // Chart types that suppress axes/grid don't need axis margins
+  const suppressAxes = !!chartType.suppressAxes
+  let layoutOpts = suppressAxes
+    ? { ...resolved, xAxis: false, yAxis: false, xLabel: '', yLabel: '', legend: false as const, padding: [4, 4, 4, 4] as [number, number, number, number] }
+    : resolved
+  // The breadcrumb sits in the top padding, above any legend
+  const crumbs = drill && drill.breadcrumb && state.drillPath?.length ? [drill.rootLabel, ...state.drillPath] : null
+  const [padTop, padRight, padBottom, padLeft] = layoutOpts.padding
+  if (crumbs) layoutOpts = { ...layoutOpts, padding: [padTop + BREADCRUMB_HEIGHT, padRight, padBottom, padLeft] }
+  const entries = legendEntries(data, resolved.colors, hidden)
+  const legend = suppressAxes ? null : layoutLegend(entries, resolved, theme, width, height, state.legendPage ?? 0)
+  // Scales over an area, with the zoom/pan state applied
+  const placeScales = (area: ChartArea): ChartScales => {
+    const scales = createChartScales(chartType, prepared, area, resolved)
+    if (windowed) {
+      const total = maxLength(data)
+      placeWindow(scales.xScale, area, zoomState!, total, windowIndices(total, visible), !!chartType.useBandScale)
+      state.zoom?.applyToScales(scales.xScale, scales.yScale, area, 'y')
+    } else {
+      if (xDomain) scales.xScale.setDomain(xDomain[0], xDomain[1])
+      state.zoom?.applyToScales(scales.xScale, scales.yScale, area)
+    }
+    // Secondary y axes zoom with the primary one
+    for (const yScale of Object.values(scales.yScales ?? {})) {
+      state.zoom?.applyToScales(scales.xScale, yScale, area, 'y')
+    }
+    return scales
+  }
+
+  // Category labels are known up front, so their fit decides the x-axis height.
+  // x ticks depend only on the area's horizontal extent, which the layout
+  // settles before it reserves room below the chart
+  const xTicks: XTickLabels | undefined = categoricalX
+    ? {
+        ticks: (x, areaWidth) => {
+          const span = { x, y: 0, width: areaWidth, height }
+          return xAxisTicks(placeScales(span).xScale, span, resolved).filter(tick => !tick.minor)
+        },
+        fontSize: theme.fontSizeSmall,
+      }
+    : undefined
+  const { area, yAxes, xLabels } = computeLayout(width, height, layoutOpts, prepared, legend, xTicks)
+
+  const { xScale, yScale, scaleTypes, yScales } = placeScales(area)
+
+  const ctx: RenderContext = {
+    data: prepared,
+    options: resolved,
+    area,
+    xScale,
+    yScale,
+    yScales,
+    scaleTypes,
+    theme,
+    zoomPan: zoomState,
+  }
+
+  const nodes: RenderNode[] = []
+
+  nodes.push(defs([
+    clipPathDef(PLOT_CLIP_ID, [rect(area.x, area.y, area.width, area.height)]),
+  ]))
+
+  if (!suppressAxes) {
+    nodes.push(renderGrid(xScale, yScale, area, resolved, theme))
+    nodes.push(renderXAxis(xScale, area, resolved, theme, xLabels))
+    for (const slot of yAxes) {
+      const scale = slot.axis ? yScales?.[slot.id] : yScale
+      if (scale) nodes.push(renderYAxis(scale, area, resolved, theme, slot.axis ? slot : undefined))
+    }
+  }
+
+  const annotations = state.annotations ?? resolved.annotations
+  const below = renderAnnotations(annotations, ctx, 'below', PLOT_CLIP_ID)
+  if (below) nodes.push(below)
+
+  const chartNodes = chartType.render(ctx)
+  nodes.push(group(chartNodes, { class: 'chartts-content', clipPath: PLOT_CLIP_ID }))
+
+  const above = renderAnnotations(annotations, ctx, 'above', PLOT_CLIP_ID)
+  if (above) nodes.push(above)
+
+  if (legend) {
+    nodes.push(renderLegend(entries, area, resolved, theme, rightAxesWidth(yAxes), legend)!)
+  }
+
+  if (crumbs) nodes.push(renderBreadcrumb(crumbs, padLeft, padTop, theme))
+
+  return { nodes, ctx, legend, yAxes }
+}
+
+function maxLength(data: ChartData): number {
+  return data.series.reduce((max, s) => Math.max(max, seriesLength(s)), 0)
+}
+
+/**
+ * Set the range of an x scale built over the slice [start, end) of `total`
+ * points so the slice lands exactly where the zoomed full dataset would
+ * put it.
+ */
+function placeWindow(
+  xScale: Scale,
+  area: ChartArea,
+  zoom: ZoomPanState,
+  total: number,
+  [start, end]: [number, number],
+  band: boolean,
+): void {
+  const content = area.width * zoom.zoomX
+  const origin = area.x - visibleWindow(zoom).start * content
+  if (band) {
+    const slot = content / total
+    xScale.setRange(origin + start * slot, origin + end * slot)
+  } else if (total > 1) {
+    const step = content / (total - 1)
+    xScale.setRange(origin + start * step, origin + (end - 1) * step)
+  }
+}
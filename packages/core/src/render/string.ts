@@ -1,17 +1,11 @@
 import type {
   ChartData, ChartOptions, ChartTypePlugin,
-  RenderNode, RenderContext, RenderAttrs,
+  RenderNode, RenderAttrs,
 } from '../types'
 import { CHART_CSS } from '../styles/chart'
 import { createEffectDefs } from './effects'
 import { resolveOptions } from '../constants'
-import { resolveTheme } from '../theme/engine'
-import { computeLayout } from '../layout/compute'
-import { renderXAxis, renderYAxis, renderGrid } from '../axis/axis'
-import { renderLegend } from '../legend/legend'
-import { createLinearScale } from '../scales/linear'
-import { createCategoricalScale } from '../scales/categorical'
-import { group, defs, clipPathDef, rect } from './tree'
+import { buildScene } from './scene'
 
 /**
  * Render a chart to an SVG string. No DOM required — works in Node.js / SSR.
@@ -35,53 +29,9 @@ export function renderToString(
 ): string {
   const width = options.width ?? 600
   const height = options.height ?? 400
-  const resolved = resolveOptions({ ...options, width, height }, data.series.length)
-  const theme = resolveTheme(resolved.theme)
-  const prepared = chartType.prepareData(data, resolved)
-
-  // Chart types that suppress axes don't need axis margins
-  const suppressAxes = !!chartType.suppressAxes
-  const layoutOpts = suppressAxes
-    ? { ...resolved, xAxis: false, yAxis: false, xLabel: '', yLabel: '', legend: false as const, padding: [4, 4, 4, 4] as [number, number, number, number] }
-    : resolved
-  const { area } = computeLayout(width, height, layoutOpts, prepared)
-
-  const useBand = !!chartType.useBandScale
-  const xScale = createCategoricalScale({
-    categories: prepared.labels,
-    range: [area.x, area.x + area.width],
-    format: resolved.xFormat,
-    band: useBand,
-  })
-
-  const yScale = createLinearScale({
-    domain: [prepared.bounds.yMin, prepared.bounds.yMax],
-    range: [area.y + area.height, area.y],
-    nice: true,
-    format: resolved.yFormat,
-  })
-
-  const ctx: RenderContext = { data: prepared, options: resolved, area, xScale, yScale, theme }
-
-  const clipId = 'chartts-clip'
-  const nodes: RenderNode[] = []
-
-  nodes.push(defs([
-    clipPathDef(clipId, [rect(area.x, area.y, area.width, area.height)]),
-  ]))
-  if (!suppressAxes) {
-    nodes.push(renderGrid(xScale, yScale, area, resolved, theme))
-    nodes.push(renderXAxis(xScale, area, resolved, theme))
-    nodes.push(renderYAxis(yScale, area, resolved, theme))
-  }
-
-  const chartNodes = chartType.render(ctx)
-  nodes.push(group(chartNodes, { class: 'chartts-content', clipPath: clipId }))
-
-  if (!suppressAxes) {
-    const legend = renderLegend(prepared, area, resolved, theme)
-    if (legend) nodes.push(legend)
-  }
+  const opts = { ...options, width, height }
+  const { nodes, ctx } = buildScene(chartType, data, opts, { width, height })
+  const resolved = ctx?.options ?? resolveOptions(opts, data.series.length)
 
   const childrenStr = nodes.map(nodeToString).join('')
   const styleStr = `<style>${CHART_CSS}</style>`
@@ -98,8 +48,9 @@ function nodeToString(node: RenderNode): string {
   switch (node.type) {
     case 'group': {
       const attrs = renderAttrs(node.attrs)
+      const title = node.attrs?.title ? `<title>${escapeAttr(node.attrs.title)}</title>` : ''
       const children = node.children.map(nodeToString).join('')
-      return `<g${attrs}>${children}</g>`
+      return `<g${attrs}>${title}${children}</g>`
     }
 
     case 'path': {
@@ -156,17 +107,19 @@ const ATTR_MAP: Record<string, string> = {
   stroke: 'stroke',
   strokeWidth: 'stroke-width',
   strokeDasharray: 'stroke-dasharray',
+  strokeOpacity: 'stroke-opacity',
   fill: 'fill',
   fillOpacity: 'fill-opacity',
   opacity: 'opacity',
   transform: 'transform',
   role: 'role',
   ariaLabel: 'aria-label',
+  ariaPressed: 'aria-pressed',
   tabindex: 'tabindex',
 }
 
 const SKIP_KEYS = new Set([
-  'textAnchor', 'dominantBaseline', 'fontSize', 'fontFamily', 'fontWeight', 'rx', 'ry',
+  'textAnchor', 'dominantBaseline', 'fontSize', 'fontFamily', 'fontWeight', 'rx', 'ry', 'title',
 ])
 
 function renderAttrs(attrs?: RenderAttrs): string {
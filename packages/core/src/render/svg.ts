@@ -31,25 +31,38 @@ export function createSVGRenderer(): Renderer {
       return { element: svg }
     },
 
+    adoptRoot(element, width, height, attrs) {
+      const svg = element as SVGElement
+      svg.setAttribute('width', '100%')
+      svg.setAttribute('height', '100%')
+      svg.setAttribute('viewBox', `0 0 ${width} ${height}`)
+      svg.setAttribute('preserveAspectRatio', 'xMidYMid meet')
+      svg.classList.add('chartts')
+      if (attrs) applyAttrs(svg, attrs)
+
+      if (!Array.from(svg.children).some(c => c.tagName === 'style')) {
+        const styleEl = document.createElementNS(NS, 'style')
+        styleEl.textContent = CHART_CSS
+        svg.insertBefore(styleEl, svg.firstChild)
+      }
+      return { element: svg }
+    },
+
     render(root, nodes) {
-      // Keep the <style> element, clear everything else
-      const styleEl = root.element.querySelector('style')
-      clear(root.element)
-      if (styleEl) root.element.appendChild(styleEl)
-      appendNodes(root.element, nodes)
+      // First render into an adopted root: take over the matching markup
+      if (!mounted.has(root.element)) claimChildren(root.element, nodes)
+      patchChildren(root.element, nodes)
       applyEntryAnimations(root.element)
     },
 
     update(root, nodes) {
-      const styleEl = root.element.querySelector('style')
-      clear(root.element)
-      if (styleEl) root.element.appendChild(styleEl)
-      appendNodes(root.element, nodes)
+      patchChildren(root.element, nodes)
       applyEntryAnimations(root.element)
     },
 
     clear(root) {
       clear(root.element)
+      mounted.delete(root.element)
     },
 
     destroy(root) {
@@ -62,111 +75,230 @@ function clear(el: Element): void {
   while (el.firstChild) el.removeChild(el.firstChild)
 }
 
-function appendNodes(parent: Element, nodes: RenderNode[]): void {
+// ---------------------------------------------------------------------------
+// Keyed diffing
+// ---------------------------------------------------------------------------
+
+/** Bookkeeping for an element the renderer created from a RenderNode. */
+interface Mounted {
+  key: string | undefined
+  /** Attributes set from the node last time — anything not in here isn't ours to remove. */
+  attrs: Record<string, string>
+  /** Managed child elements, in render order. */
+  children: SVGElement[]
+}
+
+const mounted = new WeakMap<Element, Mounted>()
+
+/**
+ * Reconcile `parent`'s managed children with `nodes`.
+ * Elements are reused by key (same tag), then by position among unkeyed
+ * siblings of the same tag; only changed attributes are written. Elements
+ * the renderer didn't create (the <style> tag, effect defs, interaction
+ * overlays) are left where they are.
+ */
+function patchChildren(parent: Element, nodes: RenderNode[]): void {
+  const state = mounted.get(parent)
+  const old = state?.children ?? []
+  // Anything after our last element (e.g. an overlay) stays after the new content
+  const tail = old.length ? old[old.length - 1]!.nextSibling : null
+
+  const byKey = new Map<string, SVGElement>()
+  const unkeyed = new Map<string, SVGElement[]>()
+  for (const child of old) {
+    const key = mounted.get(child)?.key
+    if (key !== undefined) {
+      byKey.set(`${child.tagName}:${key}`, child)
+    } else {
+      const list = unkeyed.get(child.tagName) ?? []
+      list.push(child)
+      unkeyed.set(child.tagName, list)
+    }
+  }
+
+  const next: SVGElement[] = []
   for (const node of nodes) {
-    const el = createNode(node)
-    if (el) parent.appendChild(el)
+    const tag = TAGS[node.type]
+    if (!tag) continue
+    const key = nodeKey(node)
+    const reuse = key !== undefined
+      ? byKey.get(`${tag}:${key}`)
+      : unkeyed.get(tag)?.shift()
+    if (reuse && key !== undefined) byKey.delete(`${tag}:${key}`)
+
+    const elem = reuse ?? el(tag)
+    patchNode(elem, node, key)
+    next.push(elem)
+  }
+
+  // Drop elements that weren't reused
+  const kept = new Set(next)
+  for (const child of old) {
+    if (!kept.has(child)) child.remove()
+  }
+
+  // Place in order, walking backwards so each element lands before its successor
+  let ref: ChildNode | null = tail
+  for (let i = next.length - 1; i >= 0; i--) {
+    const elem = next[i]!
+    if (elem.parentNode !== parent || elem.nextSibling !== ref) parent.insertBefore(elem, ref)
+    ref = elem
   }
+
+  if (state) state.children = next
+  else mounted.set(parent, { key: undefined, attrs: {}, children: next })
 }
 
-function createNode(node: RenderNode): SVGElement | null {
-  switch (node.type) {
-    case 'group': {
-      const g = el('g')
-      if (node.attrs) applyAttrs(g, node.attrs)
-      for (const child of node.children) {
-        const c = createNode(child)
-        if (c) g.appendChild(c)
-      }
-      return g
-    }
+/**
+ * Register existing markup (server-rendered SVG) as if this renderer had
+ * created it from `nodes`, so the next patch only touches what differs.
+ * Children are matched in order by tag; markup that doesn't line up with a
+ * node is removed. <style>, <title> and the effect defs stay unmanaged.
+ */
+function claimChildren(parent: Element, nodes: RenderNode[]): void {
+  const candidates = Array.from(parent.children).filter(c =>
+    c.tagName !== 'style' && c.tagName !== 'title' && !c.classList.contains('chartts-fx'),
+  ) as SVGElement[]
 
-    case 'path': {
-      const p = el('path')
-      p.setAttribute('d', node.d)
-      if (!node.attrs?.fill) p.setAttribute('fill', 'none')
-      if (node.attrs) applyAttrs(p, node.attrs)
-      return p
-    }
+  const claimed: SVGElement[] = []
+  let i = 0
+  for (const node of nodes) {
+    const tag = TAGS[node.type]
+    while (i < candidates.length && candidates[i]!.tagName !== tag) candidates[i++]!.remove()
+    const elem = candidates[i++]
+    if (!elem) break
 
-    case 'rect': {
-      const r = el('rect')
-      setNum(r, 'x', node.x)
-      setNum(r, 'y', node.y)
-      setNum(r, 'width', node.width)
-      setNum(r, 'height', node.height)
-      if (node.rx != null) setNum(r, 'rx', node.rx)
-      if (node.ry != null) setNum(r, 'ry', node.ry)
-      if (node.attrs) applyAttrs(r, node.attrs)
-      return r
+    const attrs: Record<string, string> = {}
+    for (const attr of Array.from(elem.attributes)) attrs[attr.name] = attr.value
+    mounted.set(elem, { key: nodeKey(node), attrs, children: [] })
+    claimed.push(elem)
+    if (node.type === 'group' || node.type === 'clipPath' || node.type === 'defs') {
+      claimChildren(elem, node.children)
     }
+  }
+  for (; i < candidates.length; i++) candidates[i]!.remove()
 
-    case 'circle': {
-      const c = el('circle')
-      setNum(c, 'cx', node.cx)
-      setNum(c, 'cy', node.cy)
-      setNum(c, 'r', node.r)
-      if (node.attrs) applyAttrs(c, node.attrs)
-      return c
-    }
+  const state = mounted.get(parent)
+  if (state) state.children = claimed
+  else mounted.set(parent, { key: undefined, attrs: {}, children: claimed })
+}
 
-    case 'line': {
-      const l = el('line')
-      setNum(l, 'x1', node.x1)
-      setNum(l, 'y1', node.y1)
-      setNum(l, 'x2', node.x2)
-      setNum(l, 'y2', node.y2)
-      if (node.attrs) applyAttrs(l, node.attrs)
-      return l
-    }
+/** Bring one element in line with its node: attributes, text, children. */
+function patchNode(elem: SVGElement, node: RenderNode, key: string | undefined): void {
+  const state = mounted.get(elem) ?? { key, attrs: {}, children: [] }
+  state.key = key
+  const attrs = nodeAttrs(node)
 
-    case 'text': {
-      const t = el('text')
-      setNum(t, 'x', node.x)
-      setNum(t, 'y', node.y)
-      t.textContent = node.content
-      if (node.attrs) {
-        const a = node.attrs
-        if ('textAnchor' in a && a.textAnchor) t.setAttribute('text-anchor', a.textAnchor)
-        if ('dominantBaseline' in a && a.dominantBaseline) t.setAttribute('dominant-baseline', a.dominantBaseline)
-        if ('fontSize' in a && a.fontSize) t.setAttribute('font-size', String(a.fontSize))
-        if ('fontFamily' in a && a.fontFamily) t.setAttribute('font-family', a.fontFamily as string)
-        if ('fontWeight' in a && a.fontWeight) t.setAttribute('font-weight', String(a.fontWeight))
-        applyAttrs(t, a)
-      }
-      return t
-    }
+  // A new path geometry invalidates the line-draw dash set by entry animations
+  if (node.type === 'path' && state.attrs.d !== undefined && state.attrs.d !== attrs.d) {
+    elem.removeAttribute('stroke-dashoffset')
+    elem.removeAttribute('stroke-dasharray')
+    elem.style.removeProperty('--chartts-path-len')
+  }
 
-    case 'clipPath': {
-      const cp = el('clipPath')
-      cp.setAttribute('id', node.id)
-      for (const child of node.children) {
-        const c = createNode(child)
-        if (c) cp.appendChild(c)
-      }
-      return cp
-    }
+  for (const name of Object.keys(state.attrs)) {
+    if (!(name in attrs)) elem.removeAttribute(name)
+  }
+  for (const [name, value] of Object.entries(attrs)) {
+    if (elem.getAttribute(name) !== value) elem.setAttribute(name, value)
+  }
+  state.attrs = attrs
+  mounted.set(elem, state)
 
-    case 'defs': {
-      const d = el('defs')
-      for (const child of node.children) {
-        const c = createNode(child)
-        if (c) d.appendChild(c)
-      }
-      return d
-    }
+  if (node.type === 'text') {
+    if (elem.textContent !== node.content) elem.textContent = node.content
+  } else if (node.type === 'group' || node.type === 'clipPath' || node.type === 'defs') {
+    if (node.type === 'group') syncTitle(elem, node.attrs?.title)
+    patchChildren(elem, node.children)
+  }
+}
 
-    default:
-      return null
+/**
+ * Keep a group's <title> (native tooltip) in line with `attrs.title`.
+ * The <title> is unmanaged, so patchChildren leaves it first in place.
+ */
+function syncTitle(elem: SVGElement, title: string | undefined): void {
+  let titleEl: Element | null = null
+  for (const child of Array.from(elem.children)) {
+    if (child.tagName === 'title') { titleEl = child; break }
   }
+  if (title === undefined) {
+    titleEl?.remove()
+    return
+  }
+  if (!titleEl) {
+    titleEl = el('title')
+    elem.insertBefore(titleEl, elem.firstChild)
+  }
+  if (titleEl.textContent !== title) titleEl.textContent = title
 }
 
-function el(tag: string): SVGElement {
-  return document.createElementNS(NS, tag)
+const TAGS: Record<RenderNode['type'], string> = {
+  group: 'g',
+  path: 'path',
+  rect: 'rect',
+  circle: 'circle',
+  line: 'line',
+  text: 'text',
+  clipPath: 'clipPath',
+  defs: 'defs',
 }
 
-function setNum(el: SVGElement, attr: string, val: number): void {
-  el.setAttribute(attr, String(val))
+function nodeKey(node: RenderNode): string | undefined {
+  const key = 'attrs' in node ? node.attrs?.key : undefined
+  return key == null ? undefined : String(key)
+}
+
+/** Full attribute set an element should carry for a node (SVG attribute names). */
+function nodeAttrs(node: RenderNode): Record<string, string> {
+  const out: Record<string, string> = {}
+  switch (node.type) {
+    case 'path':
+      out.d = node.d
+      if (!node.attrs?.fill) out.fill = 'none'
+      break
+    case 'rect':
+      out.x = String(node.x)
+      out.y = String(node.y)
+      out.width = String(node.width)
+      out.height = String(node.height)
+      if (node.rx != null) out.rx = String(node.rx)
+      if (node.ry != null) out.ry = String(node.ry)
+      break
+    case 'circle':
+      out.cx = String(node.cx)
+      out.cy = String(node.cy)
+      out.r = String(node.r)
+      break
+    case 'line':
+      out.x1 = String(node.x1)
+      out.y1 = String(node.y1)
+      out.x2 = String(node.x2)
+      out.y2 = String(node.y2)
+      break
+    case 'text': {
+      out.x = String(node.x)
+      out.y = String(node.y)
+      const a = node.attrs
+      if (a?.textAnchor) out['text-anchor'] = a.textAnchor
+      if (a?.dominantBaseline) out['dominant-baseline'] = a.dominantBaseline
+      if (a?.fontSize) out['font-size'] = String(a.fontSize)
+      if (a?.fontFamily) out['font-family'] = a.fontFamily
+      if (a?.fontWeight) out['font-weight'] = String(a.fontWeight)
+      break
+    }
+    case 'clipPath':
+      out.id = node.id
+      return out
+    case 'defs':
+      return out
+  }
+  if (node.attrs) collectAttrs(out, node.attrs)
+  return out
+}
+
+function el(tag: string): SVGElement {
+  return document.createElementNS(NS, tag)
 }
 
 /** Static attribute name mapping — RenderAttrs keys to SVG attribute names */
@@ -188,24 +320,33 @@ const ATTR_MAP: Record<string, string> = {
   pointerEvents: 'pointer-events',
   role: 'role',
   ariaLabel: 'aria-label',
+  ariaPressed: 'aria-pressed',
   tabindex: 'tabindex',
 }
 
 /** Map RenderAttrs to SVG DOM attributes */
 function applyAttrs(el: SVGElement, attrs: RenderAttrs): void {
+  for (const [name, value] of Object.entries(collectAttrs({}, attrs))) {
+    el.setAttribute(name, value)
+  }
+}
+
+/** Translate RenderAttrs into SVG attribute names/values on `out`. */
+function collectAttrs(out: Record<string, string>, attrs: RenderAttrs): Record<string, string> {
   for (const [key, value] of Object.entries(attrs)) {
     if (value == null) continue
     // Skip non-SVG attrs handled elsewhere
-    if (['textAnchor', 'dominantBaseline', 'fontSize', 'fontFamily', 'fontWeight', 'rx', 'ry'].includes(key)) continue
+    if (['textAnchor', 'dominantBaseline', 'fontSize', 'fontFamily', 'fontWeight', 'rx', 'ry', 'key', 'title'].includes(key)) continue
 
     if (key === 'clipPath') {
-      el.setAttribute('clip-path', `url(#${value as string})`)
+      out['clip-path'] = `url(#${value as string})`
     } else if (key.startsWith('data-')) {
-      el.setAttribute(key, String(value))
+      out[key] = String(value)
     } else if (ATTR_MAP[key]) {
-      el.setAttribute(ATTR_MAP[key]!, String(value))
+      out[ATTR_MAP[key]!] = String(value)
     }
   }
+  return out
 }
 
 /**
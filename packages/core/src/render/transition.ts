@@ -0,0 +1,322 @@
+import type { ArcShape, RenderAttrs, RenderNode } from '../types'
+import { roundedSlicePath } from '../utils/slice-path'
+
+/**
+ * Data-driven transitions between two render trees.
+ *
+ * Nodes are matched the same way the SVG renderer diffs them — by `attrs.key`,
+ * else by position among siblings of the same type — and every frame is a
+ * plain RenderNode tree, so any renderer (SVG, canvas) can draw it.
+ *
+ * - rect/circle/line/text geometry is tweened
+ * - paths morph when their command structure lines up (extra trailing
+ *   points are grown out of the last point); otherwise they snap
+ * - slices built with slicePath() tween their angles
+ * - unmatched nodes enter/exit with a fade (circles also grow/shrink)
+ */
+
+export interface Transitioner {
+  /** Animate from `from` to `to`. Cancels any transition in progress. */
+  run(from: RenderNode[], to: RenderNode[], duration: number): void
+  /** Stop the current transition. Returns the last frame drawn, or null if idle. */
+  stop(): RenderNode[] | null
+  readonly active: boolean
+}
+
+/** True when the user asked the OS for reduced motion. */
+export function prefersReducedMotion(): boolean {
+  if (typeof window === 'undefined' || !window.matchMedia) return false
+  return window.matchMedia('(prefers-reduced-motion: reduce)').matches
+}
+
+/**
+ * Drive a transition with requestAnimationFrame. `draw` receives each
+ * interpolated frame, ending with `to` itself.
+ */
+export function createTransitioner(draw: (nodes: RenderNode[]) => void): Transitioner {
+  let rafId = 0
+  let frame: RenderNode[] | null = null
+
+  function stop(): RenderNode[] | null {
+    if (rafId) cancelAnimationFrame(rafId)
+    rafId = 0
+    const last = frame
+    frame = null
+    return last
+  }
+
+  return {
+    run(from, to, duration) {
+      stop()
+      const start = performance.now()
+      const tick = (now: number): void => {
+        const t = duration > 0 ? Math.min(1, (now - start) / duration) : 1
+        if (t >= 1) {
+          rafId = 0
+          frame = null
+          draw(to)
+          return
+        }
+        frame = interpolateNodes(from, to, easeCubicInOut(t))
+        draw(frame)
+        rafId = requestAnimationFrame(tick)
+      }
+      tick(start)
+    },
+
+    stop,
+
+    get active() { return rafId !== 0 },
+  }
+}
+
+function easeCubicInOut(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+}
+
+/**
+ * Interpolate between two render trees at `t` (0 → `from`, 1 → `to`).
+ * Exiting nodes are kept (fading out) after the entering/updating ones.
+ */
+export function interpolateNodes(from: RenderNode[], to: RenderNode[], t: number): RenderNode[] {
+  const byKey = new Map<string, RenderNode>()
+  const unkeyed = new Map<string, RenderNode[]>()
+  for (const node of from) {
+    const key = nodeKey(node)
+    if (key !== undefined) {
+      byKey.set(`${node.type}:${key}`, node)
+    } else {
+      const list = unkeyed.get(node.type) ?? []
+      list.push(node)
+      unkeyed.set(node.type, list)
+    }
+  }
+
+  const out: RenderNode[] = []
+  for (const node of to) {
+    const key = nodeKey(node)
+    const match = key !== undefined
+      ? byKey.get(`${node.type}:${key}`)
+      : unkeyed.get(node.type)?.shift()
+    if (match && key !== undefined) byKey.delete(`${node.type}:${key}`)
+    out.push(match ? tween(match, node, t) : enter(node, t))
+  }
+
+  // Whatever wasn't matched is leaving
+  for (const node of byKey.values()) out.push(enter(node, 1 - t))
+  for (const list of unkeyed.values()) {
+    for (const node of list) out.push(enter(node, 1 - t))
+  }
+  return out
+}
+
+function nodeKey(node: RenderNode): string | undefined {
+  const key = 'attrs' in node ? node.attrs?.key : undefined
+  return key == null ? undefined : String(key)
+}
+
+/** Tween a matched pair. Both nodes have the same type. */
+function tween(a: RenderNode, b: RenderNode, t: number): RenderNode {
+  switch (b.type) {
+    case 'group': {
+      const prev = a as typeof b
+      return { ...b, children: interpolateNodes(prev.children, b.children, t), attrs: tweenAttrs(prev.attrs, b.attrs, t) }
+    }
+    case 'clipPath':
+    case 'defs':
+      return { ...b, children: interpolateNodes((a as typeof b).children, b.children, t) }
+    case 'rect': {
+      const prev = a as typeof b
+      return {
+        ...b,
+        x: lerp(prev.x, b.x, t),
+        y: lerp(prev.y, b.y, t),
+        width: lerp(prev.width, b.width, t),
+        height: lerp(prev.height, b.height, t),
+        attrs: tweenAttrs(prev.attrs, b.attrs, t),
+      }
+    }
+    case 'circle': {
+      const prev = a as typeof b
+      return {
+        ...b,
+        cx: lerp(prev.cx, b.cx, t),
+        cy: lerp(prev.cy, b.cy, t),
+        r: lerp(prev.r, b.r, t),
+        attrs: tweenAttrs(prev.attrs, b.attrs, t),
+      }
+    }
+    case 'line': {
+      const prev = a as typeof b
+      return {
+        ...b,
+        x1: lerp(prev.x1, b.x1, t),
+        y1: lerp(prev.y1, b.y1, t),
+        x2: lerp(prev.x2, b.x2, t),
+        y2: lerp(prev.y2, b.y2, t),
+        attrs: tweenAttrs(prev.attrs, b.attrs, t),
+      }
+    }
+    case 'text': {
+      const prev = a as typeof b
+      return { ...b, x: lerp(prev.x, b.x, t), y: lerp(prev.y, b.y, t), attrs: tweenAttrs(prev.attrs, b.attrs, t) }
+    }
+    case 'path': {
+      const prev = a as typeof b
+      const attrs = tweenAttrs(prev.attrs, b.attrs, t)
+      if (prev.arc && b.arc) {
+        const arc = tweenArc(prev.arc, b.arc, t)
+        return { ...b, d: arcD(arc), arc, attrs }
+      }
+      return { ...b, d: morphPath(prev.d, b.d, t), attrs }
+    }
+  }
+}
+
+/** Entering node at progress `t` (also used with 1 - t for exits). */
+function enter(node: RenderNode, t: number): RenderNode {
+  switch (node.type) {
+    case 'clipPath':
+    case 'defs':
+      return node
+    case 'circle':
+      return { ...node, r: node.r * t, attrs: fade(node.attrs, t) }
+    case 'path':
+      if (node.arc) {
+        // Slices sweep open from their start angle
+        const arc = { ...node.arc, outerEnd: lerp(node.arc.outerStart, node.arc.outerEnd, t), innerEnd: lerp(node.arc.innerStart, node.arc.innerEnd, t) }
+        return { ...node, d: arcD(arc), arc, attrs: fade(node.attrs, t) }
+      }
+      return { ...node, attrs: fade(node.attrs, t) }
+    default:
+      return { ...node, attrs: fade(node.attrs, t) } as RenderNode
+  }
+}
+
+function fade(attrs: RenderAttrs | undefined, t: number): RenderAttrs {
+  return { ...attrs, opacity: (attrs?.opacity ?? 1) * t }
+}
+
+/** Numeric presentation attrs tween; everything else takes the target value. */
+const NUMERIC_ATTRS = ['opacity', 'fillOpacity', 'strokeOpacity', 'strokeWidth'] as const
+
+function tweenAttrs(a: RenderAttrs | undefined, b: RenderAttrs | undefined, t: number): RenderAttrs | undefined {
+  if (!a || !b) return b
+  let out: RenderAttrs | undefined
+  for (const name of NUMERIC_ATTRS) {
+    const from = a[name] ?? (name === 'strokeWidth' ? undefined : 1)
+    const target = b[name] ?? (name === 'strokeWidth' ? undefined : 1)
+    if (from === undefined || target === undefined || from === target) continue
+    out ??= { ...b }
+    out[name] = lerp(from, target, t)
+  }
+  return out ?? b
+}
+
+function tweenArc(a: ArcShape, b: ArcShape, t: number): ArcShape {
+  return {
+    cx: lerp(a.cx, b.cx, t),
+    cy: lerp(a.cy, b.cy, t),
+    outerR: lerp(a.outerR, b.outerR, t),
+    innerR: lerp(a.innerR, b.innerR, t),
+    outerStart: lerp(a.outerStart, b.outerStart, t),
+    outerEnd: lerp(a.outerEnd, b.outerEnd, t),
+    innerStart: lerp(a.innerStart, b.innerStart, t),
+    innerEnd: lerp(a.innerEnd, b.innerEnd, t),
+    cornerRadius: lerp(a.cornerRadius, b.cornerRadius, t),
+  }
+}
+
+function arcD(s: ArcShape): string {
+  return roundedSlicePath(s.cx, s.cy, s.outerR, s.innerR, s.outerStart, s.outerEnd, s.innerStart, s.innerEnd, s.cornerRadius)
+}
+
+// ---------------------------------------------------------------------------
+// Path morphing
+// ---------------------------------------------------------------------------
+
+interface PathCommand {
+  op: string
+  args: number[]
+}
+
+const CMD_RE = /([MLHVCSQTAZ])([^MLHVCSQTAZ]*)/gi
+const NUM_RE = /-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi
+
+/**
+ * Morph path `a` into `b`. Command sequences must match, except `b` may
+ * insert extra commands of the same kind where `a` has a run of them (a line
+ * that gained points) — and vice versa. Anything else snaps to `b`.
+ */
+export function morphPath(a: string, b: string, t: number): string {
+  if (a === b) return b
+  let from = parsePath(a)
+  let to = parsePath(b)
+  if (!from.length || !to.length) return b
+
+  if (from.length < to.length) from = padPath(from, to) ?? []
+  else if (to.length < from.length) to = padPath(to, from) ?? []
+  if (from.length !== to.length || from.length === 0) return b
+
+  let d = ''
+  for (let i = 0; i < to.length; i++) {
+    const p = from[i]!
+    const q = to[i]!
+    if (p.op !== q.op || p.args.length !== q.args.length) return b
+    const args = q.args.map((v, j) =>
+      // Arc flags (large-arc, sweep) can't be interpolated
+      q.op === 'A' && (j % 7 === 3 || j % 7 === 4) ? v : lerp(p.args[j]!, v, t),
+    )
+    d += q.op + args.map(fmt).join(',')
+  }
+  return d
+}
+
+function parsePath(d: string): PathCommand[] {
+  const cmds: PathCommand[] = []
+  for (const m of d.matchAll(CMD_RE)) {
+    const op = m[1]!
+    // Relative commands would need resolving first — not produced by our builders
+    if (op !== op.toUpperCase()) return []
+    cmds.push({ op, args: (m[2]!.match(NUM_RE) ?? []).map(Number) })
+  }
+  return cmds
+}
+
+/**
+ * Pad `short` to `long`'s command structure by inserting degenerate copies
+ * of the command before the first mismatch (zero-length segments at its end
+ * point). Returns null if the two don't differ by a single inserted run.
+ */
+function padPath(short: PathCommand[], long: PathCommand[]): PathCommand[] | null {
+  const extra = long.length - short.length
+  let k = 0
+  while (k < short.length && short[k]!.op === long[k]!.op) k++
+  if (k === 0) return null
+  for (let i = k; i < short.length; i++) {
+    if (short[i]!.op !== long[i + extra]!.op) return null
+  }
+
+  const prev = short[k - 1]!
+  if (prev.op === 'A') return null
+  for (let i = k; i < k + extra; i++) {
+    if (long[i]!.op !== prev.op) return null
+  }
+  const end = endPoint(prev)
+  const filler: PathCommand = { op: prev.op, args: prev.args.map((_, j) => end[j % end.length]!) }
+  return [...short.slice(0, k), ...Array.from({ length: extra }, () => filler), ...short.slice(k)]
+}
+
+/** The coordinates a command ends on (x,y pair, or the single value for H/V). */
+function endPoint(cmd: PathCommand): number[] {
+  if (cmd.op === 'H' || cmd.op === 'V') return cmd.args.slice(-1)
+  return cmd.args.slice(-2)
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+function fmt(v: number): string {
+  return Number.isInteger(v) ? String(v) : v.toFixed(2)
+}
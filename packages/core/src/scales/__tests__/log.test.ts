@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { createLogScale, createSymlogScale } from '../log'
+
+describe('LogScale', () => {
+  it('maps decades to equal pixel steps', () => {
+    const scale = createLogScale({ domain: [1, 1000], range: [0, 300] })
+    expect(scale.map(1)).toBe(0)
+    expect(scale.map(10)).toBe(100)
+    expect(scale.map(100)).toBe(200)
+    expect(scale.map(1000)).toBe(300)
+  })
+
+  it('nices the domain to whole powers of the base', () => {
+    const scale = createLogScale({ domain: [3, 4200], range: [0, 100] })
+    expect(scale.getDomain()).toEqual([1, 10000])
+  })
+
+  it('supports a custom base', () => {
+    const scale = createLogScale({ domain: [1, 16], range: [0, 400], base: 2 })
+    expect(scale.map(2)).toBe(100)
+    expect(scale.map(8)).toBe(300)
+  })
+
+  it('inverts pixels back to values', () => {
+    const scale = createLogScale({ domain: [1, 1000], range: [0, 300] })
+    expect(scale.invert(200)).toBeCloseTo(100, 6)
+  })
+
+  it('maps non-positive values to the start of the range', () => {
+    const scale = createLogScale({ domain: [1, 100], range: [200, 0] })
+    expect(scale.map(0)).toBe(200)
+    expect(scale.map(-5)).toBe(200)
+  })
+
+  it('generates labeled decade ticks and unlabeled minor ticks', () => {
+    const scale = createLogScale({ domain: [1, 100], range: [0, 200] })
+    const ticks = scale.ticks()
+    const major = ticks.filter(t => !t.minor)
+    const minor = ticks.filter(t => t.minor)
+    expect(major.map(t => t.value)).toEqual([1, 10, 100])
+    expect(major.map(t => t.label)).toEqual(['1', '10', '100'])
+    expect(minor).toHaveLength(16)
+    expect(minor.every(t => t.label === '')).toBe(true)
+  })
+
+  it('labels sub-unit decades with full precision', () => {
+    const scale = createLogScale({ domain: [0.001, 1], range: [0, 300] })
+    const labels = scale.ticks().filter(t => !t.minor).map(t => t.label)
+    expect(labels).toEqual(['0.001', '0.01', '0.1', '1'])
+  })
+
+  it('thins major ticks and drops minors across many decades', () => {
+    const scale = createLogScale({ domain: [1, 1e12], range: [0, 600] })
+    const ticks = scale.ticks(4)
+    expect(ticks.some(t => t.minor)).toBe(false)
+    expect(ticks.length).toBeLessThanOrEqual(5)
+  })
+})
+
+describe('SymlogScale', () => {
+  it('passes through zero at the domain midpoint for a symmetric domain', () => {
+    const scale = createSymlogScale({ domain: [-100, 100], range: [0, 200] })
+    expect(scale.map(0)).toBe(100)
+    expect(scale.map(-100)).toBe(0)
+    expect(scale.map(100)).toBe(200)
+  })
+
+  it('compresses large magnitudes', () => {
+    const scale = createSymlogScale({ domain: [0, 1000], range: [0, 300], nice: false })
+    // 10 is much further than 1% of the way along a symlog axis
+    expect(scale.map(10)).toBeGreaterThan(90)
+  })
+
+  it('round-trips through invert', () => {
+    const scale = createSymlogScale({ domain: [-1000, 1000], range: [0, 600] })
+    expect(scale.invert(scale.map(-42))).toBeCloseTo(-42, 1)
+  })
+
+  it('includes zero and signed powers in ticks', () => {
+    const scale = createSymlogScale({ domain: [-100, 100], range: [0, 200] })
+    const major = scale.ticks(10).filter(t => !t.minor).map(t => t.value)
+    expect(major).toContain(0)
+    expect(major).toContain(-100)
+    expect(major).toContain(100)
+  })
+
+  it('falls back to linear ticks within a decade', () => {
+    const labels = (domain: [number, number]): string[] =>
+      createSymlogScale({ domain, range: [0, 200], nice: false }).ticks().map(t => t.label)
+    expect(labels([3, 8])).toEqual(['3', '4', '5', '6', '7', '8'])
+    expect(labels([0.2, 0.8])).toEqual(['0.2', '0.4', '0.6', '0.8'])
+  })
+})
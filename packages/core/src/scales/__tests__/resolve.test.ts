@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createChartScales } from '../resolve'
+import { createLinearScale } from '../linear'
+import { registerScale, clearRegistry } from '../../registry/registry'
+import { lineChartType } from '../../charts/line/line-type'
+import { barChartType } from '../../charts/bar/bar-type'
+import { resolveOptions } from '../../constants'
+
+const area = { x: 0, y: 0, width: 300, height: 200 }
+
+describe('createChartScales', () => {
+  afterEach(() => clearRegistry())
+
+  it('uses a categorical x scale for string labels', () => {
+    const options = resolveOptions({}, 1)
+    const data = lineChartType.prepareData({ labels: ['A', 'B', 'C'], series: [{ name: 'S', values: [1, 2, 3] }] }, options)
+    const { scaleTypes, xScale } = createChartScales(lineChartType, data, area, options)
+    expect(scaleTypes).toEqual({ x: 'categorical', y: 'linear' })
+    expect(xScale.map('B')).toBe(150)
+  })
+
+  it('uses a time x scale for Date labels on line charts', () => {
+    const options = resolveOptions({}, 1)
+    const labels = [new Date(2024, 0, 1), new Date(2024, 0, 2), new Date(2024, 0, 11)]
+    const data = lineChartType.prepareData({ labels, series: [{ name: 'S', values: [1, 2, 3] }] }, options)
+    const { scaleTypes, xScale } = createChartScales(lineChartType, data, area, options)
+    expect(scaleTypes.x).toBe('time')
+    // Irregular spacing is preserved: day 2 of a 10-day span sits at 10%
+    expect(xScale.map(labels[1]!)).toBeCloseTo(30, 5)
+  })
+
+  it('keeps bar charts on a categorical band scale even with Date labels', () => {
+    const options = resolveOptions({}, 1)
+    const labels = [new Date(2024, 0, 1), new Date(2024, 0, 2)]
+    const data = barChartType.prepareData({ labels, series: [{ name: 'S', values: [1, 2] }] }, options)
+    const { scaleTypes } = createChartScales(barChartType, data, area, options)
+    expect(scaleTypes.x).toBe('categorical')
+  })
+
+  it('honors a user-registered scale factory', () => {
+    let calls = 0
+    registerScale('linear', (cfg) => {
+      calls++
+      return createLinearScale({ domain: cfg?.domain as [number, number], range: cfg?.range, nice: false })
+    })
+    const options = resolveOptions({}, 1)
+    const data = lineChartType.prepareData({ labels: ['A', 'B'], series: [{ name: 'S', values: [0, 10] }] }, options)
+    const { yScale } = createChartScales(lineChartType, data, area, options)
+    expect(calls).toBe(1)
+    expect(yScale.getDomain()).toEqual([0, 10])
+  })
+
+  it('switches the value axis to log via options.yScale', () => {
+    const options = resolveOptions({ yScale: 'log' }, 1)
+    const data = lineChartType.prepareData({ labels: ['A', 'B', 'C'], series: [{ name: 'S', values: [0, 50, 5000] }] }, options)
+    const { scaleTypes, yScale } = createChartScales(lineChartType, data, area, options)
+    expect(scaleTypes.y).toBe('log')
+    // Zero is skipped when choosing the domain; it nices out to whole decades
+    expect(yScale.getDomain()).toEqual([10, 10000])
+  })
+
+  it('passes the log base from the object form', () => {
+    const options = resolveOptions({ yScale: { type: 'log', base: 2 } }, 1)
+    const data = lineChartType.prepareData({ labels: ['A', 'B'], series: [{ name: 'S', values: [3, 60] }] }, options)
+    const { yScale } = createChartScales(lineChartType, data, area, options)
+    expect(yScale.getDomain()).toEqual([2, 64])
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { createTimeScale } from '../time'
+
+describe('TimeScale', () => {
+  it('maps dates proportionally to their timestamps', () => {
+    const a = new Date(2024, 0, 1)
+    const b = new Date(2024, 0, 11)
+    const scale = createTimeScale({ domain: [a, b], range: [0, 100] })
+    expect(scale.map(a)).toBe(0)
+    expect(scale.map(new Date(2024, 0, 2))).toBeCloseTo(10, 5)
+    expect(scale.map(b)).toBe(100)
+  })
+
+  it('places month ticks on the first of each month', () => {
+    const scale = createTimeScale({
+      domain: [new Date(2024, 0, 15), new Date(2024, 5, 20)],
+      range: [0, 600],
+    })
+    const ticks = scale.ticks(6)
+    expect(ticks.length).toBeGreaterThanOrEqual(4)
+    for (const tick of ticks) {
+      const d = tick.value as Date
+      expect(d.getDate()).toBe(1)
+      expect(d.getHours()).toBe(0)
+    }
+    expect(ticks[0]!.label).toBe('Feb 2024')
+  })
+
+  it('places year ticks on January 1st', () => {
+    const scale = createTimeScale({
+      domain: [new Date(2010, 6, 1), new Date(2020, 2, 1)],
+      range: [0, 600],
+    })
+    const ticks = scale.ticks(5)
+    for (const tick of ticks) {
+      const d = tick.value as Date
+      expect(d.getMonth()).toBe(0)
+      expect(d.getDate()).toBe(1)
+    }
+  })
+
+  it('keeps ticks inside the domain', () => {
+    const min = new Date(2024, 2, 3, 9, 17)
+    const max = new Date(2024, 2, 3, 15, 42)
+    const scale = createTimeScale({ domain: [min, max], range: [0, 500] })
+    for (const tick of scale.ticks()) {
+      const t = (tick.value as Date).getTime()
+      expect(t).toBeGreaterThanOrEqual(min.getTime())
+      expect(t).toBeLessThanOrEqual(max.getTime())
+    }
+  })
+
+  it('returns no ticks for an empty span', () => {
+    const d = new Date(2024, 0, 1)
+    const scale = createTimeScale({ domain: [d, d], range: [0, 100] })
+    expect(scale.ticks()).toEqual([])
+    expect(scale.map(d)).toBe(50)
+  })
+})
@@ -0,0 +1,235 @@
+import type { Scale, Tick } from '../types'
+import { generateTicks, niceRange } from './nice'
+
+export interface LogScaleOpts {
+  domain?: [number, number]
+  range?: [number, number]
+  /** Logarithm base. Default 10. */
+  base?: number
+  /** Extend the domain to whole powers of the base. Default true. */
+  nice?: boolean
+  clamp?: boolean
+  format?: (value: number) => string
+}
+
+export interface SymlogScaleOpts extends LogScaleOpts {
+  /**
+   * Width of the linear region around zero. Values with |v| < constant
+   * are mapped near-linearly; larger magnitudes are compressed logarithmically.
+   * Default 1.
+   */
+  constant?: number
+}
+
+/** Above this many decades, minor ticks are dropped and majors are thinned. */
+const MAX_MINOR_DECADES = 8
+
+/**
+ * Logarithmic scale. Domain must be positive — non-positive values map to the
+ * bottom of the range. Ticks are whole powers of the base (major, labeled)
+ * plus k·base^e multiples between them (minor, unlabeled).
+ */
+export function createLogScale(opts?: LogScaleOpts): Scale {
+  const base = opts?.base && opts.base > 1 ? opts.base : 10
+  const useNice = opts?.nice ?? true
+  const clamp = opts?.clamp ?? false
+  const fmt = opts?.format ?? defaultLogFmt
+  let dMin = positive(opts?.domain?.[0] ?? 1, 1)
+  let dMax = positive(opts?.domain?.[1] ?? base, base)
+  let rMin = opts?.range?.[0] ?? 0
+  let rMax = opts?.range?.[1] ?? 1
+
+  if (dMin > dMax) [dMin, dMax] = [dMax, dMin]
+  if (useNice) {
+    dMin = Math.pow(base, Math.floor(logb(dMin, base) + 1e-9))
+    dMax = Math.pow(base, Math.ceil(logb(dMax, base) - 1e-9))
+  }
+  if (dMin === dMax) dMax = dMin * base
+
+  function map(value: number | string | Date): number {
+    const v = Number(value)
+    const lo = logb(dMin, base)
+    const span = logb(dMax, base) - lo
+    if (span === 0) return (rMin + rMax) / 2
+    let t = v > 0 ? (logb(v, base) - lo) / span : 0
+    if (clamp) t = Math.max(0, Math.min(1, t))
+    return round2(rMin + t * (rMax - rMin))
+  }
+
+  function invert(px: number): number {
+    const span = rMax - rMin
+    if (span === 0) return Math.sqrt(dMin * dMax)
+    const lo = logb(dMin, base)
+    const hi = logb(dMax, base)
+    return Math.pow(base, lo + ((px - rMin) / span) * (hi - lo))
+  }
+
+  function ticks(count = 5): Tick[] {
+    const eMin = Math.floor(logb(dMin, base) + 1e-9)
+    const eMax = Math.ceil(logb(dMax, base) - 1e-9)
+    const decades = eMax - eMin
+    // Thin major ticks when there are far more decades than requested ticks
+    const every = Math.max(1, Math.ceil(decades / Math.max(count, 1)))
+    const withMinor = decades <= MAX_MINOR_DECADES && Number.isInteger(base)
+    const result: Tick[] = []
+
+    for (let e = eMin; e <= eMax; e++) {
+      const major = Math.pow(base, e)
+      if (inDomain(major) && (e - eMin) % every === 0) {
+        result.push({ value: major, position: map(major), label: fmt(cleanFloat(major)) })
+      }
+      if (!withMinor || e === eMax) continue
+      for (let k = 2; k < base; k++) {
+        const v = k * major
+        if (inDomain(v)) result.push({ value: cleanFloat(v), position: map(v), label: '', minor: true })
+      }
+    }
+    return result
+  }
+
+  function inDomain(v: number): boolean {
+    return v >= dMin * (1 - 1e-9) && v <= dMax * (1 + 1e-9)
+  }
+
+  return {
+    map,
+    invert,
+    ticks,
+    setDomain(min, max) { dMin = positive(Number(min), dMin); dMax = positive(Number(max), dMax) },
+    setRange(min, max) { rMin = min; rMax = max },
+    getDomain() { return [dMin, dMax] },
+    getRange() { return [rMin, rMax] },
+    bandwidth() { return 0 },
+  }
+}
+
+/**
+ * Symmetric log scale — log-like compression that passes through zero and
+ * handles negative values: f(v) = sign(v) · log_b(1 + |v| / constant).
+ */
+export function createSymlogScale(opts?: SymlogScaleOpts): Scale {
+  const base = opts?.base && opts.base > 1 ? opts.base : 10
+  const c = opts?.constant && opts.constant > 0 ? opts.constant : 1
+  const useNice = opts?.nice ?? true
+  const clamp = opts?.clamp ?? false
+  const fmt = opts?.format ?? defaultLogFmt
+  let dMin = opts?.domain?.[0] ?? 0
+  let dMax = opts?.domain?.[1] ?? 1
+  let rMin = opts?.range?.[0] ?? 0
+  let rMax = opts?.range?.[1] ?? 1
+
+  if (dMin > dMax) [dMin, dMax] = [dMax, dMin]
+  if (useNice) {
+    dMin = nicePow(dMin, base, c)
+    dMax = nicePow(dMax, base, c)
+  }
+  if (dMin === dMax) dMax = dMin + c
+
+  const fwd = (v: number): number => Math.sign(v) * logb(1 + Math.abs(v) / c, base)
+  const inv = (t: number): number => Math.sign(t) * c * (Math.pow(base, Math.abs(t)) - 1)
+
+  function map(value: number | string | Date): number {
+    const lo = fwd(dMin)
+    const span = fwd(dMax) - lo
+    if (span === 0) return (rMin + rMax) / 2
+    let t = (fwd(Number(value)) - lo) / span
+    if (clamp) t = Math.max(0, Math.min(1, t))
+    return round2(rMin + t * (rMax - rMin))
+  }
+
+  function invert(px: number): number {
+    const span = rMax - rMin
+    if (span === 0) return (dMin + dMax) / 2
+    const lo = fwd(dMin)
+    return inv(lo + ((px - rMin) / span) * (fwd(dMax) - lo))
+  }
+
+  function ticks(count = 5): Tick[] {
+    // Positive magnitudes: powers of the base at or above the linear threshold
+    const mags: number[] = []
+    const maxAbs = Math.max(Math.abs(dMin), Math.abs(dMax))
+    for (let e = Math.ceil(logb(c, base) - 1e-9); Math.pow(base, e) <= maxAbs * (1 + 1e-9); e++) {
+      mags.push(Math.pow(base, e))
+    }
+    const every = Math.max(1, Math.ceil((mags.length * (dMin < 0 && dMax > 0 ? 2 : 1)) / Math.max(count, 1)))
+    const withMinor = mags.length <= MAX_MINOR_DECADES && Number.isInteger(base)
+
+    const values: { v: number; minor: boolean }[] = []
+    if (dMin <= 0 && dMax >= 0) values.push({ v: 0, minor: false })
+    mags.forEach((m, i) => {
+      const major = i % every === 0
+      for (const sign of [1, -1]) {
+        values.push({ v: sign * m, minor: !major })
+        if (!withMinor || i === mags.length - 1) continue
+        for (let k = 2; k < base; k++) values.push({ v: sign * k * m, minor: true })
+      }
+    })
+
+    const result: Tick[] = values
+      .filter(({ v }) => v >= dMin - 1e-9 && v <= dMax + 1e-9)
+      .sort((a, b) => a.v - b.v)
+      .map(({ v, minor }) => {
+        const value = cleanFloat(v)
+        return minor
+          ? { value, position: map(value), label: '', minor: true }
+          : { value, position: map(value), label: fmt(value) }
+      })
+    if (result.filter(t => !t.minor).length >= 2) return result
+
+    // A domain within one decade (or inside the linear band) holds at most
+    // one power of the base: label it with linear ticks instead
+    const { spacing } = niceRange(dMin, dMax, count)
+    return generateTicks(Math.ceil(dMin / spacing - 1e-9) * spacing, dMax, spacing)
+      .map(v => ({ value: v, position: map(v), label: fmt(v) }))
+  }
+
+  return {
+    map,
+    invert,
+    ticks,
+    setDomain(min, max) { dMin = Number(min); dMax = Number(max) },
+    setRange(min, max) { rMin = min; rMax = max },
+    getDomain() { return [dMin, dMax] },
+    getRange() { return [rMin, rMax] },
+    bandwidth() { return 0 },
+  }
+}
+
+function logb(v: number, base: number): number {
+  return Math.log(v) / Math.log(base)
+}
+
+function positive(v: number, fallback: number): number {
+  return v > 0 && Number.isFinite(v) ? v : fallback
+}
+
+/** Round |v| up to a power of the base (keeping sign); values inside the linear band stay. */
+function nicePow(v: number, base: number, c: number): number {
+  const abs = Math.abs(v)
+  if (abs <= c) return v
+  return Math.sign(v) * Math.pow(base, Math.ceil(logb(abs, base) - 1e-9))
+}
+
+/** Strip float noise from products like 3 * 0.1 */
+function cleanFloat(v: number): number {
+  return Number(v.toPrecision(12))
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function defaultLogFmt(v: number): string {
+  const abs = Math.abs(v)
+  if (abs >= 1e12) return trimSuffix(v / 1e12, 'T')
+  if (abs >= 1e9) return trimSuffix(v / 1e9, 'B')
+  if (abs >= 1e6) return trimSuffix(v / 1e6, 'M')
+  if (abs >= 1e3) return trimSuffix(v / 1e3, 'K')
+  // Sub-unit decades (0.01, 0.001) need more than one decimal place
+  return String(Number(v.toPrecision(6)))
+}
+
+function trimSuffix(v: number, suffix: string): string {
+  const s = v.toFixed(1)
+  return (s.endsWith('.0') ? s.slice(0, -2) : s) + suffix
+}
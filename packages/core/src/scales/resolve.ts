@@ -0,0 +1,141 @@
+import type {
+  ChartTypePlugin, PreparedData, PreparedSeries, ResolvedOptions, ChartArea, Scale, ScaleType,
+} from '../types'
+import { getScaleFactory } from '../registry/registry'
+import { defaultFormats, resolveYScale } from '../constants'
+
+export interface ChartScales {
+  xScale: Scale
+  yScale: Scale
+  scaleTypes: { x: ScaleType; y: ScaleType }
+  /** Secondary y scales keyed by axis id — only present when data has `yAxes`. */
+  yScales?: Record<string, Scale>
+}
+
+/**
+ * Build the x/y scales for a chart from its plugin's getScaleTypes().
+ * Factories come from the scale registry, so registerScale() overrides apply.
+ */
+export function createChartScales(
+  chartType: ChartTypePlugin,
+  data: PreparedData,
+  area: ChartArea,
+  options: ResolvedOptions,
+): ChartScales {
+  const scaleTypes = { ...chartType.getScaleTypes(data, options) }
+  const defaults = defaultFormats(options.locale)
+
+  // options.yScale overrides a continuous value axis (never a categorical one)
+  const yOverride = options.yScale
+  if (yOverride && scaleTypes.y !== 'categorical') {
+    scaleTypes.y = yOverride.type
+  }
+
+  const xScale = scaleTypes.x === 'categorical'
+    ? getScaleFactory('categorical')({
+        categories: data.labels,
+        range: [area.x, area.x + area.width],
+        format: options.xFormat,
+        // Use band mode for bar-like charts so bars don't overflow the chart area
+        band: !!chartType.useBandScale,
+      })
+    : getScaleFactory(scaleTypes.x)({
+        domain: labelDomain(data),
+        range: [area.x, area.x + area.width],
+        nice: false,
+        // Continuous x scales pick their own tick format unless the user set one
+        format: options.xFormat === defaults.x ? undefined : options.xFormat,
+        locale: options.locale,
+      })
+
+  const yRange: [number, number] = [area.y + area.height, area.y]
+  const yScale = scaleTypes.y === 'categorical'
+    ? getScaleFactory('categorical')({
+        categories: data.series.map(s => s.name),
+        range: yRange,
+      })
+    : valueScale(
+        scaleTypes.y,
+        data.bounds.yMin,
+        data.bounds.yMax,
+        positiveMin(data.series, data.bounds.yMin),
+        yRange,
+        options.yFormat,
+        defaults.y,
+        yOverride,
+      )
+
+  if (!data.yAxes || scaleTypes.y === 'categorical') return { xScale, yScale, scaleTypes }
+
+  const yScales: Record<string, Scale> = {}
+  for (const axis of data.yAxes) {
+    const cfg = resolveYScale(axis.scale)
+    const bound = data.series.filter(s => s.yAxis === axis.id)
+    yScales[axis.id] = valueScale(
+      cfg?.type ?? 'linear',
+      axis.yMin,
+      axis.yMax,
+      positiveMin(bound, axis.yMin),
+      yRange,
+      axis.format ?? defaults.y,
+      defaults.y,
+      cfg,
+    )
+  }
+  return { xScale, yScale, scaleTypes, yScales }
+}
+
+/** A continuous value scale for the primary or a secondary y axis. */
+function valueScale(
+  type: ScaleType,
+  min: number,
+  max: number,
+  logMin: number,
+  range: [number, number],
+  format: (value: number) => string,
+  defaultFormat: (value: number) => string,
+  cfg: ResolvedOptions['yScale'],
+): Scale {
+  return getScaleFactory(type)({
+    domain: type === 'log' ? [logMin, max] : [min, max],
+    range,
+    nice: true,
+    // Log scales label decades themselves unless the user set a formatter
+    format: format === defaultFormat && type !== 'linear'
+      ? undefined
+      : format as (value: number | string | Date) => string,
+    base: cfg?.base,
+    constant: cfg?.constant,
+  })
+}
+
+/**
+ * Continuous x domain — extent of numeric/Date labels and of XY series' own
+ * x, index bounds otherwise.
+ */
+function labelDomain(data: PreparedData): [number, number] {
+  let min = Infinity
+  let max = -Infinity
+  const include = (x: string | number | Date): void => {
+    const v = x instanceof Date ? x.getTime() : typeof x === 'number' ? x : NaN
+    if (isNaN(v)) return
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  data.labels.forEach(include)
+  for (const s of data.series) s.x?.forEach(include)
+  if (min === Infinity) return [data.bounds.xMin, data.bounds.xMax]
+  return [min, max]
+}
+
+/** Smallest positive value across the given series — log domains can't include zero. */
+function positiveMin(series: PreparedSeries[], yMin: number): number {
+  if (yMin > 0) return yMin
+  let min = Infinity
+  for (const s of series) {
+    for (const v of s.values) {
+      if (v > 0 && v < min) min = v
+    }
+  }
+  return min === Infinity ? 1 : min
+}
@@ -1,35 +1,47 @@
-import type { Scale, Tick } from '../types'
+import type { FormatLocale, Scale, Tick } from '../types'
+import { timeTickLabels, type TimeUnit } from '../format/time'
 
 export interface TimeScaleOpts {
   domain?: [number | Date, number | Date]
   range?: [number, number]
   format?: (value: Date) => string
+  /** Locale for the default multi-level tick labels. */
+  locale?: FormatLocale
 }
 
 const S = 1000, M = 60 * S, H = 60 * M, D = 24 * H, W = 7 * D, MO = 30 * D, Y = 365 * D
 
-const INTERVALS: { ms: number; fmt: (d: Date) => string }[] = [
-  { ms: S,      fmt: fmtTime },
-  { ms: 5 * S,  fmt: fmtTime },
-  { ms: 15 * S, fmt: fmtTime },
-  { ms: 30 * S, fmt: fmtTime },
-  { ms: M,      fmt: fmtTime },
-  { ms: 5 * M,  fmt: fmtTime },
-  { ms: 15 * M, fmt: fmtTime },
-  { ms: H,      fmt: fmtTime },
-  { ms: 3 * H,  fmt: fmtTime },
-  { ms: 6 * H,  fmt: fmtTime },
-  { ms: 12 * H, fmt: fmtTime },
-  { ms: D,      fmt: fmtDate },
-  { ms: W,      fmt: fmtDate },
-  { ms: MO,     fmt: fmtMonthYear },
-  { ms: 3 * MO, fmt: fmtMonthYear },
-  { ms: 6 * MO, fmt: fmtMonthYear },
-  { ms: Y,      fmt: fmtYear },
-  { ms: 5 * Y,  fmt: fmtYear },
-  { ms: 10 * Y, fmt: fmtYear },
+/**
+ * Candidate tick intervals. `ms` is the approximate length used to pick an
+ * interval; ticks themselves are stepped on calendar boundaries (local time),
+ * so months and years land on the 1st / Jan 1 regardless of month length.
+ * Labels come from timeTickLabels() for the interval's unit.
+ */
+const INTERVALS: { unit: TimeUnit; step: number; ms: number }[] = [
+  { unit: 'second', step: 1,  ms: S },
+  { unit: 'second', step: 5,  ms: 5 * S },
+  { unit: 'second', step: 15, ms: 15 * S },
+  { unit: 'second', step: 30, ms: 30 * S },
+  { unit: 'minute', step: 1,  ms: M },
+  { unit: 'minute', step: 5,  ms: 5 * M },
+  { unit: 'minute', step: 15, ms: 15 * M },
+  { unit: 'hour',   step: 1,  ms: H },
+  { unit: 'hour',   step: 3,  ms: 3 * H },
+  { unit: 'hour',   step: 6,  ms: 6 * H },
+  { unit: 'hour',   step: 12, ms: 12 * H },
+  { unit: 'day',    step: 1,  ms: D },
+  { unit: 'week',   step: 1,  ms: W },
+  { unit: 'month',  step: 1,  ms: MO },
+  { unit: 'month',  step: 3,  ms: 3 * MO },
+  { unit: 'month',  step: 6,  ms: 6 * MO },
+  { unit: 'year',   step: 1,  ms: Y },
+  { unit: 'year',   step: 5,  ms: 5 * Y },
+  { unit: 'year',   step: 10, ms: 10 * Y },
 ]
 
+/** Hard cap on generated ticks — guards against degenerate domains. */
+const MAX_TICKS = 500
+
 export function createTimeScale(opts?: TimeScaleOpts): Scale {
   let dMin = ts(opts?.domain?.[0] ?? 0)
   let dMax = ts(opts?.domain?.[1] ?? Date.now())
@@ -56,15 +68,17 @@ export function createTimeScale(opts?: TimeScaleOpts): Scale {
 
     const target = span / count
     const interval = INTERVALS.find((i) => i.ms >= target) ?? INTERVALS[INTERVALS.length - 1]!
-    const fmt = customFmt ?? interval.fmt
-    const result: Tick[] = []
-    const start = Math.ceil(dMin / interval.ms) * interval.ms
+    const dates: Date[] = []
+
+    let d = floorDate(new Date(dMin), interval.unit, interval.step)
+    if (d.getTime() < dMin) d = offsetDate(d, interval.unit, interval.step)
 
-    for (let t = start; t <= dMax; t += interval.ms) {
-      const d = new Date(t)
-      result.push({ value: d, position: map(t), label: fmt(d) })
+    while (d.getTime() <= dMax && dates.length < MAX_TICKS) {
+      dates.push(d)
+      d = offsetDate(d, interval.unit, interval.step)
     }
-    return result
+    const labels = customFmt ? dates.map(customFmt) : timeTickLabels(dates, interval.unit, opts?.locale)
+    return dates.map((date, i) => ({ value: date, position: map(date), label: labels[i]! }))
   }
 
   return {
@@ -83,10 +97,54 @@ function ts(v: number | string | Date): number {
   return v instanceof Date ? v.getTime() : typeof v === 'string' ? new Date(v).getTime() : v
 }
 
-const MONTHS = ['Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'] as const
+/** Round a date down to the start of its `step`-sized calendar unit (local time). */
+function floorDate(date: Date, unit: TimeUnit, step: number): Date {
+  const d = new Date(date.getTime())
+  switch (unit) {
+    case 'second':
+      d.setMilliseconds(0)
+      d.setSeconds(Math.floor(d.getSeconds() / step) * step)
+      break
+    case 'minute':
+      d.setSeconds(0, 0)
+      d.setMinutes(Math.floor(d.getMinutes() / step) * step)
+      break
+    case 'hour':
+      d.setMinutes(0, 0, 0)
+      d.setHours(Math.floor(d.getHours() / step) * step)
+      break
+    case 'day':
+      d.setHours(0, 0, 0, 0)
+      break
+    case 'week':
+      d.setHours(0, 0, 0, 0)
+      d.setDate(d.getDate() - d.getDay())
+      break
+    case 'month':
+      d.setHours(0, 0, 0, 0)
+      d.setDate(1)
+      d.setMonth(Math.floor(d.getMonth() / step) * step)
+      break
+    case 'year':
+      d.setHours(0, 0, 0, 0)
+      d.setMonth(0, 1)
+      d.setFullYear(Math.floor(d.getFullYear() / step) * step)
+      break
+  }
+  return d
+}
 
-function pad(n: number): string { return n < 10 ? `0${n}` : String(n) }
-function fmtTime(d: Date): string { return `${pad(d.getHours())}:${pad(d.getMinutes())}` }
-function fmtDate(d: Date): string { return `${MONTHS[d.getMonth()]} ${d.getDate()}` }
-function fmtMonthYear(d: Date): string { return `${MONTHS[d.getMonth()]} ${d.getFullYear()}` }
-function fmtYear(d: Date): string { return String(d.getFullYear()) }
+/** Advance a date by `step` calendar units (local time). */
+function offsetDate(date: Date, unit: TimeUnit, step: number): Date {
+  const d = new Date(date.getTime())
+  switch (unit) {
+    case 'second': d.setSeconds(d.getSeconds() + step); break
+    case 'minute': d.setMinutes(d.getMinutes() + step); break
+    case 'hour':   d.setHours(d.getHours() + step); break
+    case 'day':    d.setDate(d.getDate() + step); break
+    case 'week':   d.setDate(d.getDate() + step * 7); break
+    case 'month':  d.setMonth(d.getMonth() + step); break
+    case 'year':   d.setFullYear(d.getFullYear() + step); break
+  }
+  return d
+}
@@ -191,9 +191,25 @@ export const CHART_CSS = /* css */ `
 .chartts-x-label, .chartts-y-label, .chartts-x-axis-label, .chartts-y-axis-label,
 .chartts-legend text, .chartts-slice-label { user-select: none; pointer-events: none; }
 
+/* ---- Keyboard focus ---- */
+.chartts:focus { outline: none; }
+.chartts:focus-visible { outline: 2px solid var(--chartts-text-muted); outline-offset: 2px; }
+
 /* ---- Legend ---- */
 .chartts-legend-item { cursor: pointer; transition: opacity 0.15s ease; }
 .chartts-legend-item:hover { opacity: 0.7; }
+.chartts-legend-item:focus { outline: none; }
+.chartts-legend-item:focus-visible .chartts-legend-hit { stroke: var(--chartts-text-muted); stroke-width: 1; }
+.chartts-legend-page-button { cursor: pointer; }
+.chartts-legend-page-button:focus { outline: none; }
+.chartts-legend-page-button:focus-visible .chartts-legend-hit { stroke: var(--chartts-text-muted); stroke-width: 1; }
+
+/* ---- Annotations ---- */
+.chartts-annotation-label { user-select: none; }
+.chartts-annotation-draggable { cursor: move; }
+.chartts-annotation-drag-x { cursor: ew-resize; }
+.chartts-annotation-drag-y { cursor: ns-resize; }
+.chartts-annotation-dragging, .chartts-annotation-dragging * { cursor: grabbing !important; }
 
 /* ---- Skip animations on data update ---- */
 .chartts-skip-anim *, .chartts-skip-anim [class*="chartts-anim-"] {
@@ -210,4 +226,9 @@ export const CHART_CSS = /* css */ `
   .chartts .chartts-line, .chartts .chartts-sparkline-line,
   .chartts .chartts-gauge-fill { stroke-dashoffset: 0 !important; }
 }
+
+/* ---- Dimmed / toggled-off state (must win over the opacity resets above) ---- */
+.chartts .chartts-dimmed { opacity: 0.3 !important; transition: opacity 0.15s ease; }
+.chartts .chartts-legend-item-hidden { opacity: 0.45 !important; }
+.chartts .chartts-legend-page-disabled { opacity: 0.3 !important; cursor: default; }
 `
@@ -0,0 +1,69 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { renderTemplate } from '../template'
+import { arrangeItems, fillTooltip, placeTooltip, NO_DATA, type TooltipItem } from '../tooltip'
+import { formatNumber } from '../../format/number'
+
+const formats = { label: (l: string | number | Date) => `<${String(l)}>`, value: (v: number) => `${v}u`, missing: NO_DATA }
+
+function item(seriesName: string, value: number, seriesIndex = 0): TooltipItem {
+  return { label: 'Q1', value, index: 0, seriesIndex, seriesName, color: '#f00' }
+}
+
+describe('formatNumber', () => {
+  it('follows d3-format specifiers', () => {
+    expect(formatNumber(1234.567, '$,.2f')).toBe('$1,234.57')
+    expect(formatNumber(0.1234, '.1%')).toBe('12.3%')
+    expect(formatNumber(1500, '$.3~s')).toBe('$1.5k')
+    expect(formatNumber(0.00012, '.2s')).toBe('120µ')
+    expect(formatNumber(-3.5, '(.1f')).toBe('(3.5)')
+    expect(formatNumber(42, '+06d')).toBe('+00042')
+    expect(() => formatNumber(1, 'q')).toThrow('Invalid format specifier')
+  })
+})
+
+describe('renderTemplate', () => {
+  it('fills fields with formatters and escapes them', () => {
+    const fields = { series: 'A&B', label: 'Q1', value: 1234.5, index: 3, color: 'red', meta: { url: '/x?a=1', n: 0.5 } }
+    expect(renderTemplate('<b>{series}</b>: {value:$,.2f} ({label})', fields, formats)).toBe('<b>A&amp;B</b>: $1,234.50 (&lt;Q1&gt;)')
+    expect(renderTemplate('{value} {meta.url} {meta.n:.0%} {meta.nope}|{{x}}', fields, formats)).toBe('1234.5u /x?a=1 50% |{x}')
+    expect(renderTemplate('{value:.2f}', { ...fields, value: NaN }, formats)).toBe(NO_DATA)
+  })
+
+  it('formats Date labels with time specifiers', () => {
+    const fields = { series: 'A', label: new Date(2024, 1, 5), value: 1, index: 0, color: 'red' }
+    expect(renderTemplate('{label:%b %Y}: {value}', fields, formats)).toBe('Feb 2024: 1u')
+    expect(renderTemplate('{label:%-d/%m}', fields, formats)).toBe('5/02')
+  })
+})
+
+describe('tooltip rows', () => {
+  it('filters and sorts, keeping missing values last', () => {
+    const items = [item('A', 2), item('B', NaN, 1), item('C', 5, 2), item('D', -1, 3)]
+    expect(arrangeItems(items, { sort: 'desc' }).map(i => i.seriesName)).toEqual(['C', 'A', 'D', 'B'])
+    expect(arrangeItems(items, { sort: 'asc', filter: p => p.value > 0 }).map(i => i.seriesName)).toEqual(['A', 'C'])
+    expect(arrangeItems(items, {}).map(i => i.seriesName)).toEqual(['A', 'B', 'C', 'D'])
+  })
+
+  it('renders a titled template row per item', () => {
+    const el = document.createElement('div')
+    fillTooltip(el, item('A', 2), [item('A', 2), item('B', 3, 1)], { template: '{series}={value:.1f}' }, formats, 'Q1')
+    expect([...el.querySelectorAll('.chartts-tooltip-row')].map(r => r.textContent)).toEqual(['A=2.0', 'B=3.0'])
+    expect(el.textContent).toContain('Q1')
+  })
+})
+
+describe('placeTooltip', () => {
+  const bounds = { left: 0, top: 0, width: 300, height: 200 }
+
+  it('sits above the anchor, flipping and clamping at the edges', () => {
+    expect(placeTooltip(150, 100, 60, 40, bounds)).toEqual({ left: 120, top: 48 })
+    expect(placeTooltip(150, 20, 60, 40, bounds)).toEqual({ left: 120, top: 36 })
+    expect(placeTooltip(290, 100, 60, 40, bounds).left).toBe(240)
+  })
+
+  it('sits beside the anchor in side mode', () => {
+    expect(placeTooltip(50, 100, 60, 40, bounds, 'side')).toEqual({ left: 66, top: 80 })
+    expect(placeTooltip(260, 100, 60, 40, bounds, 'side').left).toBe(184)
+  })
+})
@@ -0,0 +1,76 @@
+import type { FormatLocale } from '../types'
+import { formatNumber } from '../format/number'
+import { formatDate } from '../format/time'
+
+/**
+ * Tooltip templates — trusted HTML with `{field}` or `{field:specifier}`
+ * placeholders, e.g. `<b>{series}</b>: {value:$,.2f}`.
+ *
+ * Fields are `series`, `label`, `value`, `index`, `color` and `meta`
+ * (`{meta.url}` reaches into point meta). Numbers take d3-format
+ * specifiers and Date labels strftime ones (`{label:%b %Y}`), written in
+ * the chart's locale; without one, labels and values go through the
+ * chart's xFormat/yFormat. Substituted text is HTML-escaped. `{{` and `}}`
+ * are literal braces.
+ */
+
+/** The values a template row is filled from. */
+export interface TemplateFields {
+  series: string
+  label: string | number | Date
+  value: number
+  index: number
+  color: string
+  meta?: unknown
+}
+
+export interface TemplateFormats {
+  label(label: string | number | Date): string
+  value(value: number): string
+  /** Text for a missing value. */
+  missing: string
+  locale?: FormatLocale
+}
+
+const PLACEHOLDER = /\{\{|\}\}|\{([\w.]+)(?::([^}]*))?\}/g
+
+export function renderTemplate(template: string, fields: TemplateFields, formats: TemplateFormats): string {
+  return template.replace(PLACEHOLDER, (match, name: string | undefined, specifier: string | undefined) => {
+    if (match === '{{') return '{'
+    if (match === '}}') return '}'
+    return escapeHTML(fieldText(name!, specifier, fields, formats))
+  })
+}
+
+function fieldText(name: string, specifier: string | undefined, fields: TemplateFields, formats: TemplateFormats): string {
+  switch (name) {
+    case 'series': return fields.series
+    case 'color': return fields.color
+    case 'index': return specifier ? formatNumber(fields.index, specifier, formats.locale) : String(fields.index)
+    case 'label':
+      if (specifier && fields.label instanceof Date) return formatDate(fields.label, specifier, formats.locale)
+      return specifier && typeof fields.label === 'number'
+        ? formatNumber(fields.label, specifier, formats.locale)
+        : formats.label(fields.label)
+    case 'value':
+      if (Number.isNaN(fields.value)) return formats.missing
+      return specifier ? formatNumber(fields.value, specifier, formats.locale) : formats.value(fields.value)
+  }
+
+  const [root, ...path] = name.split('.')
+  if (root !== 'meta') return ''
+  const value = path.reduce<unknown>((obj, key) => (obj as Record<string, unknown> | null | undefined)?.[key], fields.meta)
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'number' && specifier) return formatNumber(value, specifier, formats.locale)
+  return typeof value === 'object' ? JSON.stringify(value) : String(value as string | number | boolean)
+}
+
+/** Escape text for use in HTML content and attribute values. */
+export function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -1,18 +1,49 @@
-import type { DataPoint, TooltipConfig, ThemeConfig } from '../types'
-import { CSS_PREFIX } from '../constants'
+import type { DataPoint, FormatLocale, TooltipConfig, ThemeConfig } from '../types'
+import { CSS_PREFIX, formatX, formatY } from '../constants'
+import { escapeHTML, renderTemplate } from './template'
+
+/** Shown in place of a missing value. */
+export const NO_DATA = 'No data'
+
+/** A tooltip row: a point and its series color. */
+export type TooltipItem = DataPoint & { color: string }
+
+/** How labels and values read when a template doesn't say otherwise. */
+export interface TooltipFormats {
+  label(label: string | number | Date): string
+  value(value: number): string
+  /** Locale for `{field:specifier}` numbers in templates. */
+  locale?: FormatLocale
+}
+
+const DEFAULT_FORMATS: TooltipFormats = { label: formatX, value: formatY }
 
 /**
  * DOM-based tooltip.
  * A real HTML element — style it with CSS, Tailwind, whatever you want.
  */
 export interface TooltipInstance {
-  show(point: DataPoint, color: string, x: number, y: number, container: HTMLElement): void
+  /**
+   * Show `items` for the hovered `point` at (x, y), px relative to the
+   * container. `title` heads multi-row tooltips. Ignored while pinned.
+   */
+  show(point: TooltipItem, items: TooltipItem[], x: number, y: number, container: HTMLElement, title?: string): void
+  /** Keep the tooltip where it is, with selectable text, until unpin(). */
+  pin(): void
+  unpin(): void
+  readonly pinned: boolean
+  /** Ignored while pinned. */
   hide(): void
   destroy(): void
 }
 
-export function createTooltip(config: TooltipConfig, theme: ThemeConfig): TooltipInstance {
+export function createTooltip(
+  config: TooltipConfig,
+  theme: ThemeConfig,
+  formats: () => TooltipFormats = () => DEFAULT_FORMATS,
+): TooltipInstance {
   let el: HTMLDivElement | null = null
+  let pinned = false
 
   function getOrCreate(): HTMLDivElement {
     if (el) return el
@@ -42,55 +73,25 @@ export function createTooltip(config: TooltipConfig, theme: ThemeConfig): Toolti
   }
 
   function show(
-    point: DataPoint,
-    color: string,
+    point: TooltipItem,
+    items: TooltipItem[],
     x: number,
     y: number,
     container: HTMLElement,
+    title?: string,
   ): void {
+    if (pinned) return
     const tip = getOrCreate()
 
-    // Content
-    if (config.render) {
-      const result = config.render({ ...point, color })
-      if (typeof result === 'string') {
-        tip.innerHTML = result
-      } else {
-        tip.innerHTML = ''
-        tip.appendChild(result)
-      }
-    } else if (config.format) {
-      tip.textContent = config.format(point)
-    } else {
-      tip.innerHTML = `
-        <div style="display:flex;align-items:center;gap:8px;margin-bottom:4px;">
-          <span style="width:8px;height:8px;border-radius:50%;background:${color};display:inline-block;box-shadow:0 0 6px ${color};"></span>
-          <span style="font-weight:600;letter-spacing:-0.01em;">${point.seriesName}</span>
-        </div>
-        <div style="display:flex;justify-content:space-between;align-items:baseline;gap:16px;">
-          <span style="color:var(${CSS_PREFIX}-text-muted, #6b7280);font-size:0.9em;">${point.label}</span>
-          <span style="font-size:1.15em;font-weight:700;font-variant-numeric:tabular-nums;">${point.value}</span>
-        </div>
-      `
-    }
+    fillTooltip(tip, point, items, config, formats(), title)
 
-    // Position
     if (!tip.parentElement) {
       container.style.position = 'relative'
       container.appendChild(tip)
     }
 
     const tipRect = tip.getBoundingClientRect()
-    const containerRect = container.getBoundingClientRect()
-
-    let left = x - tipRect.width / 2
-    let top = y - tipRect.height - 12
-
-    // Keep within container bounds
-    if (left < 0) left = 0
-    if (left + tipRect.width > containerRect.width) left = containerRect.width - tipRect.width
-    if (top < 0) top = y + 16
-
+    const { left, top } = placeTooltip(x, y, tipRect.width, tipRect.height, tooltipBounds(container, tipRect.width, tipRect.height))
     tip.style.left = `${left}px`
     tip.style.top = `${top}px`
     tip.style.opacity = '1'
@@ -98,16 +99,202 @@ export function createTooltip(config: TooltipConfig, theme: ThemeConfig): Toolti
   }
 
   function hide(): void {
-    if (el) {
+    if (el && !pinned) {
       el.style.opacity = '0'
       el.style.transform = 'translateY(4px)'
     }
   }
 
+  function pin(): void {
+    if (!el) return
+    pinned = true
+    el.classList.add('chartts-tooltip-pinned')
+    el.style.pointerEvents = 'auto'
+    el.style.userSelect = 'text'
+  }
+
+  function unpin(): void {
+    pinned = false
+    if (!el) return
+    el.classList.remove('chartts-tooltip-pinned')
+    el.style.pointerEvents = 'none'
+    el.style.userSelect = ''
+  }
+
   function destroy(): void {
     el?.remove()
     el = null
+    pinned = false
+  }
+
+  return {
+    show,
+    pin,
+    unpin,
+    get pinned() { return pinned },
+    hide,
+    destroy,
+  }
+}
+
+/**
+ * Fill a tooltip element: `config.render`, else one `config.format` line
+ * per item, else `config.template` rows under the title, else the default
+ * markup — a card for a single point, a titled list for several.
+ */
+export function fillTooltip(
+  el: HTMLElement,
+  point: TooltipItem,
+  items: TooltipItem[],
+  config: TooltipConfig,
+  formats: TooltipFormats,
+  title?: string,
+): void {
+  if (config.render) {
+    const result = config.render(point, items)
+    if (typeof result === 'string') {
+      el.innerHTML = result
+    } else {
+      el.innerHTML = ''
+      el.appendChild(result)
+    }
+    return
+  }
+
+  if (config.format) {
+    if (items.length === 1) el.textContent = config.format(items[0]!)
+    else el.innerHTML = items.map(item => `<div>${escapeHTML(config.format!(item))}</div>`).join('')
+    return
+  }
+
+  const heading = title === undefined ? '' : titleHTML(title)
+  if (config.template) {
+    const template = config.template
+    const missing = NO_DATA
+    el.innerHTML = heading + items.map(item => `<div class="chartts-tooltip-row">${renderTemplate(template, {
+      series: item.seriesName,
+      label: item.label,
+      value: item.value,
+      index: item.index,
+      color: item.color,
+      meta: item.meta,
+    }, { ...formats, missing })}</div>`).join('')
+    return
   }
 
-  return { show, hide, destroy }
+  el.innerHTML = title === undefined && items.length === 1
+    ? pointHTML(items[0]!, formats)
+    : heading + items.map(item => rowHTML(item, formats)).join('')
+}
+
+function titleHTML(title: string): string {
+  return `<div style="font-weight:600;margin-bottom:6px;letter-spacing:-0.01em;">${escapeHTML(title)}</div>`
+}
+
+function pointHTML(point: TooltipItem, formats: TooltipFormats): string {
+  const { color } = point
+  return `
+    <div style="display:flex;align-items:center;gap:8px;margin-bottom:4px;">
+      <span style="width:8px;height:8px;border-radius:50%;background:${color};display:inline-block;box-shadow:0 0 6px ${color};"></span>
+      <span style="font-weight:600;letter-spacing:-0.01em;">${escapeHTML(point.seriesName)}</span>
+    </div>
+    <div style="display:flex;justify-content:space-between;align-items:baseline;gap:16px;">
+      <span style="color:var(${CSS_PREFIX}-text-muted, #6b7280);font-size:0.9em;">${escapeHTML(formats.label(point.label))}</span>
+      <span style="font-size:1.15em;font-weight:700;font-variant-numeric:tabular-nums;">${isNaN(point.value) ? NO_DATA : escapeHTML(formats.value(point.value))}</span>
+    </div>
+  `
+}
+
+/** One row of a multi-row tooltip. Missing values get a muted "No data" rather than vanishing. */
+function rowHTML(item: TooltipItem, formats: TooltipFormats): string {
+  const { color } = item
+  const missing = isNaN(item.value)
+  return `<div style="display:flex;align-items:center;gap:8px;margin-top:3px;">
+    <span style="width:8px;height:8px;border-radius:50%;background:${color};display:inline-block;box-shadow:0 0 6px ${color};flex-shrink:0;"></span>
+    <span style="flex:1;color:var(${CSS_PREFIX}-text-muted, #6b7280);">${escapeHTML(item.seriesName)}</span>
+    <span style="font-weight:${missing ? 400 : 700};font-variant-numeric:tabular-nums;margin-left:12px;${missing ? `color:var(${CSS_PREFIX}-text-muted, #6b7280);` : ''}">${missing ? NO_DATA : escapeHTML(formats.value(item.value))}</span>
+  </div>`
+}
+
+/**
+ * Rows for a multi-row tooltip: `config.filter` applied, then
+ * `config.sort` — by value (missing values last) or a comparator.
+ */
+export function arrangeItems(items: TooltipItem[], config: TooltipConfig): TooltipItem[] {
+  const { filter, sort } = config
+  const kept = filter ? items.filter(item => filter(item)) : items.slice()
+  if (typeof sort === 'function') return kept.sort(sort)
+  if (sort === 'asc' || sort === 'desc') {
+    const dir = sort === 'asc' ? 1 : -1
+    return kept.sort((a, b) => {
+      if (isNaN(a.value) || isNaN(b.value)) return Number(isNaN(a.value)) - Number(isNaN(b.value))
+      return dir * (a.value - b.value)
+    })
+  }
+  return kept
+}
+
+// ---------------------------------------------------------------------------
+// Placement
+// ---------------------------------------------------------------------------
+
+/** A rectangle in px relative to the chart container. */
+export interface TooltipBox {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/**
+ * Top-left corner for a `width`×`height` tooltip anchored at (x, y): above
+ * the anchor ('top') or beside it ('side'). It flips below / to the left when
+ * it would cross `bounds`, then is clamped inside them.
+ */
+export function placeTooltip(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  bounds: TooltipBox,
+  side: 'top' | 'side' = 'top',
+  gap = 12,
+): { left: number; top: number } {
+  let left: number
+  let top: number
+  if (side === 'top') {
+    left = x - width / 2
+    top = y - height - gap
+    if (top < bounds.top) top = y + gap + 4
+  } else {
+    left = x + gap + 4
+    top = y - height / 2
+    if (left + width > bounds.left + bounds.width) left = x - width - gap - 4
+  }
+  return {
+    left: clamp(left, bounds.left, bounds.left + bounds.width - width),
+    top: clamp(top, bounds.top, bounds.top + bounds.height - height),
+  }
+}
+
+/**
+ * Where a tooltip may go, in container px: inside the container and the
+ * viewport, or anywhere in the viewport along an axis the container is too
+ * small for.
+ */
+export function tooltipBounds(container: HTMLElement, width: number, height: number): TooltipBox {
+  const r = container.getBoundingClientRect()
+  const viewWidth = window.innerWidth || r.width
+  const viewHeight = window.innerHeight || r.height
+  const [left, right] = width <= r.width
+    ? [Math.max(0, -r.left), Math.min(r.width, viewWidth - r.left)]
+    : [-r.left, viewWidth - r.left]
+  const [top, bottom] = height <= r.height
+    ? [Math.max(0, -r.top), Math.min(r.height, viewHeight - r.top)]
+    : [-r.top, viewHeight - r.top]
+  return { left, top, width: right - left, height: bottom - top }
+}
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.max(min, Math.min(v, max))
 }
@@ -13,14 +13,53 @@
 // ---------------------------------------------------------------------------
 
 /** A single data series */
+/**
+ * How a series treats missing values (`null` or NaN):
+ * - 'break': leave a gap — lines and areas stop and restart (default)
+ * - 'connect': draw straight across the gap, skipping the missing points
+ * - 'zero': treat missing values as 0
+ * - 'interpolate': fill linearly from the neighbouring values
+ */
+export type GapMode = 'break' | 'connect' | 'zero' | 'interpolate'
+
+/** One sample of an XY series — a y value at its own x position. */
+export interface XYPoint {
+  x: number | Date
+  /** `null` marks a missing value. */
+  y: number | null
+  /** Bubble size (bubble charts). */
+  size?: number
+  /** Anything to carry along with the point. */
+  meta?: unknown
+}
+
 export interface Series {
   name: string
-  values: number[]
+  /** One value per label (or per `x`). `null` (or NaN) marks a missing value. Empty when `points` is given. */
+  values: (number | null)[]
+  /**
+   * x position of each value (numbers or Dates), for a series sampled at its
+   * own x instead of the shared labels. Such series may differ in length and
+   * plot on a continuous x scale.
+   */
+  x?: (number | Date)[]
+  /** XY points plotted at their own x — the same as `x` and `values` given together. Takes precedence over both. */
+  points?: XYPoint[]
+  /**
+   * Per-point data to carry along — ids, URLs, extra dimensions. One entry
+   * per value (or point); returned as `DataPoint.meta` in events and
+   * tooltips. Points may set `meta` on the point instead.
+   */
+  meta?: unknown[]
   color?: string
   style?: 'solid' | 'dashed' | 'dotted'
   fill?: boolean
   fillOpacity?: number
   showPoints?: boolean
+  /** Id of the y axis (from `ChartOptions.yAxes`) this series is plotted against. Default: primary axis. */
+  yAxis?: string
+  /** Treatment of missing values. Default 'break'. */
+  gaps?: GapMode
 }
 
 /** Data shape users pass to any chart */
@@ -33,27 +72,50 @@ export interface ChartData {
 export interface DataPoint {
   label: string | number | Date
   value: number
+  /** Index of the point in its series as given — decimation and zoom don't shift it. */
   index: number
   seriesIndex: number
   seriesName: string
+  /** The point's entry from `Series.meta` (or its XY point's `meta`). */
+  meta?: unknown
+  /** Hierarchy path of the node under the pointer (sunburst, tree). */
+  path?: string[]
 }
 
 /** Validated + normalized data ready for rendering */
 export interface PreparedData {
   labels: (string | number | Date)[]
   series: PreparedSeries[]
+  /** Bounds of the primary axis (series bound to secondary axes are excluded). */
   bounds: DataBounds
+  /** Secondary y axes with their resolved bounds. Absent when only the primary axis is used. */
+  yAxes?: PreparedYAxis[]
 }
 
 export interface PreparedSeries {
   name: string
+  /** Values with gaps resolved per `gaps`; NaN marks a point that is still missing. */
   values: number[]
+  /** Own x positions (XY series), ascending and parallel to `values`. Absent for label-indexed series. */
+  x?: (number | Date)[]
+  /** Per-point sizes from XY points, parallel to `values`. */
+  sizes?: number[]
+  /** Per-point meta (`Series.meta` or XY points' `meta`), parallel to `values`. */
+  meta?: unknown[]
+  /**
+   * Index of each value in the series as given, when decimation, a zoom
+   * window or sorting by x moved them. Absent when they line up.
+   */
+  sourceIndex?: number[]
   color: string
   style: 'solid' | 'dashed' | 'dotted'
   fill: boolean
   fillOpacity: number
   showPoints: boolean
   index: number
+  /** Secondary y axis id, if bound to one. */
+  yAxis?: string
+  gaps: GapMode
 }
 
 export interface DataBounds {
@@ -63,17 +125,117 @@ export interface DataBounds {
   yMax: number
 }
 
+/** Secondary y axis after data preparation — config plus resolved value bounds. */
+export interface PreparedYAxis extends YAxisConfig {
+  position: 'left' | 'right'
+  yMin: number
+  yMax: number
+}
+
 // ---------------------------------------------------------------------------
 // Options
 // ---------------------------------------------------------------------------
 
 export type LegendPosition = 'top' | 'bottom' | 'left' | 'right'
+
+/** Value-axis scale. A string picks the type; the object form also sets the log base / symlog constant. */
+export type YScaleOption =
+  | 'linear' | 'log' | 'symlog'
+  | { type: 'linear' | 'log' | 'symlog'; base?: number; constant?: number }
 export type CurveType = 'linear' | 'monotone' | 'step'
 
+/**
+ * A secondary y axis. Series opt in via `Series.yAxis = id`.
+ * The primary axis is configured by the top-level yMin/yMax/yFormat/yLabel options.
+ */
+export interface YAxisConfig {
+  id: string
+  /** Side of the plot. Axes on the same side stack outward in declaration order. Default 'right'. */
+  position?: 'left' | 'right'
+  min?: number
+  max?: number
+  format?: (value: number) => string
+  label?: string
+  /** Tick count. Default: `yTicks`. */
+  ticks?: number
+  /** Draw horizontal grid lines for this axis. Default false. */
+  grid?: boolean
+  /** Scale type. Default 'linear'. */
+  scale?: YScaleOption
+}
+
+/**
+ * Separators, currency, names and date patterns for a formatting locale.
+ * Built by getLocale() — from Intl for a BCP 47 tag.
+ */
+export interface FormatLocale {
+  /** BCP 47 tag. Empty for the built-in default. */
+  tag: string
+  decimal: string
+  thousands: string
+  /** Currency symbol before and after the amount, e.g. ['$', ''] or ['', ' €']. */
+  currency: [string, string]
+  months: string[]
+  shortMonths: string[]
+  days: string[]
+  shortDays: string[]
+  /** AM / PM. */
+  periods: [string, string]
+  /** Time patterns (strftime-style directives) for tick and tooltip labels. */
+  time: string
+  timeSeconds: string
+  monthDay: string
+  monthYear: string
+  date: string
+}
+
 export interface TooltipConfig {
   enabled?: boolean
+  /**
+   * What the tooltip lists: the hovered point, every series at the hovered
+   * label ('index'), or every point of the hovered series ('series').
+   * Default 'point'.
+   */
+  mode?: 'point' | 'index' | 'series'
+  /**
+   * HTML for each row, with `{field}` or `{field:specifier}` placeholders —
+   * series, label, value, index, color, meta.<key>. Numbers take d3-format
+   * specifiers: `{series}: {value:$,.2f}`. Substituted text is escaped.
+   */
+  template?: string
+  /** Row order: by value (missing values last) or a comparator. Default: series order. */
+  sort?: 'asc' | 'desc' | ((a: DataPoint, b: DataPoint) => number)
+  /** Rows to keep. */
+  filter?: (point: DataPoint) => boolean
+  /**
+   * Click a point to pin its tooltip, so its text can be selected and
+   * copied. A click elsewhere or Escape releases it. Default false.
+   */
+  pin?: boolean
   format?: (point: DataPoint) => string
-  render?: (point: DataPoint & { color: string }) => string | HTMLElement
+  /** Custom content. `points` are all the rows; `point` is the hovered one. */
+  render?: (point: DataPoint & { color: string }, points: (DataPoint & { color: string })[]) => string | HTMLElement
+}
+
+/**
+ * Drill-down navigation. Hierarchical labels ("Europe/France/Paris") are
+ * shown one level at a time — clicking a node drills into its children.
+ * `load` fetches a child dataset for flat data instead.
+ */
+export interface DrilldownConfig {
+  enabled?: boolean
+  /** Separator between levels in hierarchical labels. Default '/'. */
+  separator?: string
+  /**
+   * Child dataset for a node the labels don't break down further (e.g. a
+   * bar), or null at a leaf. Gets the path down to the node and, when it
+   * was clicked, the point.
+   */
+  load?: (path: string[], point?: DataPoint) => ChartData | null | undefined | Promise<ChartData | null | undefined>
+  /** Show a breadcrumb trail while drilled in. Default true. */
+  breadcrumb?: boolean
+  /** Name of the top level in the breadcrumb. Default 'All'. */
+  rootLabel?: string
 }
 
 export interface CrosshairConfig {
@@ -82,6 +244,84 @@ export interface CrosshairConfig {
   mode?: 'vertical' | 'horizontal' | 'both'
 }
 
+// ---------------------------------------------------------------------------
+// Annotations
+// ---------------------------------------------------------------------------
+
+/** Fields shared by every annotation type. */
+export interface AnnotationBase {
+  /** Stable identity across updates (keeps the SVG element while dragging). */
+  id?: string
+  /** Draw above or below the series. Default: areas/thresholds below, lines/labels above. */
+  layer?: 'above' | 'below'
+  /** Hover text. Defaults to the annotation's label. */
+  tooltip?: string
+  /** Let the user drag the annotation along its axis; fires `annotation:change`. */
+  draggable?: boolean
+  /** Secondary y axis the y values are on. Default: the primary axis. */
+  yAxis?: string
+}
+
+export interface LineAnnotation extends AnnotationBase {
+  type: 'line'
+  axis: 'x' | 'y'
+  value: number | string
+  label?: string
+  color?: string
+  dash?: boolean
+  lineWidth?: number
+}
+
+export interface AreaAnnotation extends AnnotationBase {
+  type: 'area'
+  axis: 'x' | 'y'
+  from: number | string
+  to: number | string
+  color?: string
+  opacity?: number
+  label?: string
+}
+
+export interface LabelAnnotation extends AnnotationBase {
+  type: 'label'
+  x: number | string
+  y: number
+  text: string
+  color?: string
+  fontSize?: number
+  anchor?: 'start' | 'middle' | 'end'
+}
+
+export interface ThresholdAnnotation extends AnnotationBase {
+  type: 'threshold'
+  value: number
+  label?: string
+  color?: string
+  aboveColor?: string
+  belowColor?: string
+  lineWidth?: number
+  dash?: boolean
+}
+
+export type Annotation = LineAnnotation | AreaAnnotation | LabelAnnotation | ThresholdAnnotation
+
+/** Audio rendering of the data — values become pitch over time. */
+export interface SonifyConfig {
+  enabled?: boolean
+  /** Pitch of the lowest value, in Hz. Default 220 (A3). */
+  minFrequency?: number
+  /** Pitch of the highest value, in Hz. Default 880 (A5). */
+  maxFrequency?: number
+  /** Length of one note when a series is played, in ms. Default 150. */
+  noteDuration?: number
+  /** Peak gain, 0–1. Default 0.3. */
+  volume?: number
+  /** Oscillator shape. Default 'sine'. */
+  waveform?: 'sine' | 'square' | 'sawtooth' | 'triangle'
+  /** Play a tone when the pointer or keyboard focus lands on a point. Default true. */
+  onPoint?: boolean
+}
+
 /** User-facing chart options. Flat. Every field optional. */
 export interface ChartOptions {
   width?: number
@@ -91,15 +331,24 @@ export interface ChartOptions {
   /** Rendering backend. Default 'svg'. 'canvas' for 1k-100k points. 'webgl' for 100k+. 'auto' selects based on data size. */
   renderer?: 'svg' | 'canvas' | 'webgl' | 'auto'
 
-  /** Data decimation for large datasets. True enables auto LTTB. */
-  decimate?: boolean | { algorithm?: 'lttb' | 'min-max'; threshold?: number }
+  /** Data decimation for large datasets. True enables auto LTTB. While zoomed in, only the visible window is decimated. */
+  decimate?: boolean | { algorithm?: 'lttb' | 'min-max' | 'm4'; threshold?: number }
 
   theme?: 'light' | 'dark' | 'auto' | 'corporate' | 'saas' | 'startup' | 'editorial' | 'ocean' | (string & {}) | ThemeConfig
 
   xLabel?: string
   yLabel?: string
-  xFormat?: (value: string | number | Date) => string
-  yFormat?: (value: number) => string
+  /**
+   * x label formatter, or a specifier: strftime-style for dates (`'%b %Y'`),
+   * d3-format for numbers (`',.0f'`).
+   */
+  xFormat?: ((value: string | number | Date) => string) | string
+  /** y value formatter, or a d3-format specifier (`'$,.2s'`, `'.1%'`, `'duration'`). */
+  yFormat?: ((value: number) => string) | string
+  /** BCP 47 tag for separators, currency and month names in labels. Default: built-in English. */
+  locale?: string
+  /** ISO 4217 code for `$` in format specifiers under `locale`. Default 'USD'. */
+  currency?: string
   xGrid?: boolean
   yGrid?: boolean
   xAxis?: boolean
@@ -108,6 +357,10 @@ export interface ChartOptions {
   yTicks?: number
   yMin?: number
   yMax?: number
+  /** Value-axis scale type. Default: the chart type's own (linear for most). */
+  yScale?: YScaleOption
+  /** Secondary y axes. Bind series with `Series.yAxis`. The id 'y' is reserved for the primary axis. */
+  yAxes?: YAxisConfig[]
 
   legend?: boolean | LegendPosition
   tooltip?: boolean | TooltipConfig
@@ -129,7 +382,20 @@ export interface ChartOptions {
 
   ariaLabel?: string
   ariaDescription?: string
+  /** Focusable chart with arrow-key navigation between points, announced to screen readers. Default: true */
+  keyboard?: boolean
+  /** Visually hidden data table alongside the chart, for screen readers. Lists up to 1000 rows. Default: false */
+  dataTable?: boolean
+  /** Opt-in audio rendering: play series with instance.sonify(), hear points on hover/focus. */
+  sonify?: boolean | SonifyConfig
+
+  /** Reference lines, bands, thresholds and labels drawn with the chart. */
+  annotations?: Annotation[]
 
+  /** Click a node to drill into its children; see instance.drillDown()/drillUp(). */
+  drilldown?: boolean | DrilldownConfig
+
+  /** Fired on click, or on Enter/Space at the keyboard-focused point. */
   onClick?: (point: DataPoint, event: MouseEvent) => void
   onHover?: (point: DataPoint | null, event: MouseEvent) => void
 
@@ -148,6 +414,7 @@ export interface ResolvedOptions {
   yLabel: string
   xFormat: (value: string | number | Date) => string
   yFormat: (value: number) => string
+  locale: FormatLocale
   xGrid: boolean
   yGrid: boolean
   xAxis: boolean
@@ -156,6 +423,9 @@ export interface ResolvedOptions {
   yTicks: number
   yMin: number | undefined
   yMax: number | undefined
+  /** Undefined when the chart type's default y scale applies. */
+  yScale: { type: 'linear' | 'log' | 'symlog'; base: number; constant: number } | undefined
+  yAxes: YAxisConfig[]
 
   legend: false | LegendPosition
   tooltip: false | TooltipConfig
@@ -177,6 +447,11 @@ export interface ResolvedOptions {
 
   ariaLabel: string
   ariaDescription: string
+  keyboard: boolean
+  dataTable: boolean
+  sonify: false | Required<Omit<SonifyConfig, 'enabled'>>
+  annotations: Annotation[]
+  drilldown: false | Required<Omit<DrilldownConfig, 'enabled' | 'load'>> & Pick<DrilldownConfig, 'load'>
 
   onClick: ChartOptions['onClick']
   onHover: ChartOptions['onHover']
@@ -218,6 +493,8 @@ export interface Tick {
   value: number | string | Date
   position: number
   label: string
+  /** Minor tick (e.g. 2·10ⁿ…9·10ⁿ on log scales) — drawn without a label. */
+  minor?: boolean
 }
 
 export interface Scale {
@@ -232,7 +509,7 @@ export interface Scale {
   bandwidth?(): number
 }
 
-export type ScaleType = 'linear' | 'categorical' | 'time' | 'log'
+export type ScaleType = 'linear' | 'categorical' | 'time' | 'log' | 'symlog'
 
 export type ScaleFactory = (config?: {
   domain?: [number | string | Date, number | string | Date]
@@ -240,8 +517,82 @@ export type ScaleFactory = (config?: {
   nice?: boolean
   clamp?: boolean
   format?: (value: number | string | Date) => string
+  /** Category list — only used by categorical scales. */
+  categories?: (string | number | Date)[]
+  /** Band mode — only used by categorical scales. */
+  band?: boolean
+  /** Logarithm base — only used by log/symlog scales. */
+  base?: number
+  /** Linear-region width around zero — only used by symlog scales. */
+  constant?: number
+  /** Formatting locale for default tick labels — only used by time scales. */
+  locale?: FormatLocale
 }) => Scale
 
+/**
+ * Value → color mapping for heatmap, matrix, calendar and geo cells:
+ * - sequential — a continuous ramp from the low to the high end of the palette
+ * - diverging — low and high ends around a midpoint (the palette's centre)
+ * - quantize — `steps` equal-width classes
+ * - quantile — `steps` classes holding equal numbers of values
+ * - threshold — classes split at `thresholds`
+ */
+export type ColorScaleType = 'sequential' | 'diverging' | 'quantize' | 'quantile' | 'threshold'
+
+export type ColorPaletteName =
+  | 'viridis' | 'magma' | 'inferno' | 'plasma' | 'cividis'
+  | 'Blues' | 'Greens' | 'Reds' | 'Oranges' | 'Purples' | 'Greys' | 'YlGnBu' | 'YlOrRd'
+  | 'RdBu' | 'RdYlBu' | 'BrBG' | 'PiYG' | 'PuOr' | 'Spectral'
+
+export interface ColorScaleOptions {
+  /** Default 'sequential'. */
+  type?: ColorScaleType
+  /**
+   * A named palette, or colors to interpolate between (in OKLab). Default:
+   * the chart's first color fading out toward low values; diverging fades
+   * the second color in below the midpoint.
+   */
+  palette?: ColorPaletteName | string[]
+  /** Flip the palette end for end. */
+  reverse?: boolean
+  /**
+   * [min, max] mapped to the palette's ends — [min, mid, max] for diverging.
+   * Default: the data's extent; a diverging midpoint defaults to 0 when the
+   * data spans it, else the middle of the extent.
+   */
+  domain?: number[]
+  /** Number of classes for quantize and quantile. Default 5. */
+  steps?: number
+  /** Class boundaries for threshold: n thresholds give n + 1 classes. */
+  thresholds?: number[]
+  /** Color of missing (NaN) values. Default: the theme's grid color. */
+  unknown?: string
+}
+
+export interface ColorScale {
+  readonly type: ColorScaleType
+  /** [min, max] covered by the scale (and its legend). */
+  readonly domain: [number, number]
+  /** Diverging midpoint. */
+  readonly mid?: number
+  map(value: number): string
+  /** Palette color at `t` in 0..1 — what continuous legends draw. */
+  at(t: number): string
+  /**
+   * Classes of stepped scales (quantize, quantile, threshold): `breaks` are
+   * the inner boundaries, `colors` has one entry per class.
+   */
+  readonly classes?: { breaks: number[]; colors: string[] }
+}
+
+/** Options of the charts that color cells by value: heatmap, matrix, calendar, geo. */
+export interface ColorMapOptions {
+  /** A scale type, or full color scale options. Default 'sequential'. */
+  colorScale?: ColorScaleType | ColorScaleOptions
+  /** Draw a color legend — `true` puts it at the bottom. */
+  colorLegend?: boolean | 'bottom' | 'right'
+}
+
 // ---------------------------------------------------------------------------
 // Render tree
 // ---------------------------------------------------------------------------
@@ -265,13 +616,38 @@ export interface RenderAttrs {
   pointerEvents?: string
   role?: string
   ariaLabel?: string
+  ariaPressed?: 'true' | 'false'
   tabindex?: number
+  /** Native tooltip text — rendered as a <title> child of groups. */
+  title?: string
+  /**
+   * Stable identity for the SVG renderer's diffing. Nodes with the same key
+   * (among siblings) reuse the same element across renders; unkeyed nodes
+   * are matched by position. Not rendered as an attribute.
+   */
+  key?: string | number
   [key: `data-${string}`]: string | number | undefined
 }
 
+/**
+ * Annular sector geometry (pie/donut/sunburst slices). Carried on path nodes
+ * so transitions can tween angles instead of morphing the path string.
+ */
+export interface ArcShape {
+  cx: number
+  cy: number
+  outerR: number
+  innerR: number
+  outerStart: number
+  outerEnd: number
+  innerStart: number
+  innerEnd: number
+  cornerRadius: number
+}
+
 export type RenderNode =
   | { type: 'group'; children: RenderNode[]; attrs?: RenderAttrs }
-  | { type: 'path'; d: string; attrs?: RenderAttrs }
+  | { type: 'path'; d: string; arc?: ArcShape; attrs?: RenderAttrs }
   | {
       type: 'rect'
       x: number
@@ -310,6 +686,11 @@ export interface RendererRoot {
 
 export interface Renderer {
   createRoot(target: HTMLElement, width: number, height: number, attrs?: RenderAttrs): RendererRoot
+  /**
+   * Take over an element rendered elsewhere (e.g. server-side by renderToString)
+   * instead of creating one. The first render reuses its children where they match.
+   */
+  adoptRoot?(element: Element, width: number, height: number, attrs?: RenderAttrs): RendererRoot
   render(root: RendererRoot, nodes: RenderNode[]): void
   update(root: RendererRoot, nodes: RenderNode[]): void
   clear(root: RendererRoot): void
@@ -337,6 +718,10 @@ export interface RenderContext {
   area: ChartArea
   xScale: Scale
   yScale: Scale
+  /** Scales for secondary y axes, keyed by axis id. Use getSeriesYScale() to pick per series. */
+  yScales?: Record<string, Scale>
+  /** Scale types the x/y scales were built from (see ChartTypePlugin.getScaleTypes). */
+  scaleTypes?: { x: ScaleType; y: ScaleType }
   theme: ThemeConfig
   /** Zoom/pan state if enabled. Charts can use this for custom positioning. */
   zoomPan?: { zoomX: number; zoomY: number; panX: number; panY: number }
@@ -352,12 +737,20 @@ export interface ChartTypePlugin {
   readonly suppressAxes?: boolean
   /** If true, x-scale uses band mode (bars don't overflow). */
   readonly useBandScale?: boolean
-  getScaleTypes(): { x: ScaleType; y: ScaleType }
+  /**
+   * If true, the chart draws the whole label hierarchy itself ("A/B/C"
+   * labels). Drill-down then re-roots it; other charts get one level at a time.
+   */
+  readonly hierarchical?: boolean
+  /** Scale types for x/y. Receives the prepared data so types can depend on label kind (e.g. Date → 'time'). */
+  getScaleTypes(data?: PreparedData, options?: ResolvedOptions): { x: ScaleType; y: ScaleType }
   prepareData(data: ChartData, options: ResolvedOptions): PreparedData
   render(ctx: RenderContext): RenderNode[]
   hitTest(ctx: RenderContext, x: number, y: number): HitResult | null
   /** Return RenderNodes for the hover highlight effect. Optional — default is glow ring + dot at hit.x/y. */
   getHighlightNodes?(ctx: RenderContext, hit: HitResult): RenderNode[]
+  /** Unzoomed position of a node by id, for ChartInstance.focusNode(). Optional — graph charts. */
+  locateNode?(ctx: RenderContext, id: string): { x: number; y: number } | null
 }
 
 export interface HitResult {
@@ -368,6 +761,8 @@ export interface HitResult {
   x: number
   /** Pixel y in chart coordinate space */
   y: number
+  /** Hierarchy path of the hit node, for charts that draw label hierarchies. */
+  path?: string[]
 }
 
 // ---------------------------------------------------------------------------
@@ -389,6 +784,38 @@ export interface ChartInstance {
   resize(width: number, height: number): void
   /** Reset zoom/pan to initial state. */
   resetZoom(): void
+  /**
+   * Zoom in `zoom` times (default 2) centred on a node, by id. Needs a
+   * chart with nodes (graph); works without the `zoom` and `pan` options.
+   */
+  focusNode(id: string, zoom?: number): void
+  /**
+   * Show or hide a series by name (flips it when `visible` is omitted).
+   * Hidden series are dropped from rendering and the y domain. The last
+   * visible series can't be hidden.
+   */
+  toggleSeries(name: string, visible?: boolean): void
+  isSeriesVisible(name: string): boolean
+  /** Names of currently hidden series. */
+  getHiddenSeries(): string[]
+  /**
+   * Play a series as audio (first visible series by default). Needs the
+   * `sonify` option; browsers only allow audio after a user gesture.
+   */
+  sonify(series?: string | number): void
+  /** Stop any sonification in progress. */
+  stopSound(): void
+  /**
+   * Drill into a node — one name or a path of names below the current
+   * level. Needs the `drilldown` option. Resolves once the child level is
+   * shown; a leaf, or a failing load (see `drill:error`), leaves the chart
+   * where it is.
+   */
+  drillDown(path: string | string[]): Promise<void>
+  /** Go back up `levels` levels (default 1). */
+  drillUp(levels?: number): void
+  /** Names drilled into, from the top level down. */
+  getDrillPath(): string[]
   destroy(): void
   readonly element: SVGElement | HTMLCanvasElement
   /** Event bus — used by linkCharts() and advanced consumers. */
@@ -406,6 +833,12 @@ export interface ChartEvents {
   'point:enter': { point: DataPoint; event: MouseEvent }
   'point:leave': { event: MouseEvent }
   'point:click': { point: DataPoint; event: MouseEvent }
+  /** A focused point was selected from the keyboard (Enter or Space) — the keyboard's `point:click`. */
+  'point:activate': { point: DataPoint; event: KeyboardEvent }
+  /** Keyboard focus moved to a point. */
+  'point:focus': { point: DataPoint }
+  /** A draggable annotation was dropped at a new position. `index` is in options.annotations. */
+  'annotation:change': { annotation: Annotation; previous: Annotation; index: number }
   'tooltip:show': { point: DataPoint; x: number; y: number }
   'tooltip:hide': void
   'crosshair:move': { x: number; label: string | number | Date }
@@ -415,6 +848,16 @@ export interface ChartEvents {
   'brush:end': { startIndex: number; endIndex: number; startLabel: string | number | Date; endLabel: string | number | Date }
   'destroy': void
   'graph:drag': { nodeIndex: number; pin: { x: number; y: number } }
+  /** A graph cluster was expanded or collapsed (enableGraphClusters). `cluster` is the community index. */
+  'graph:cluster': { cluster: number; expanded: boolean }
+  /** The ends of a graph's highlighted path changed (enableGraphPaths). `path` lists node ids along it — empty until both ends are picked, or when they aren't connected. */
+  'graph:path': { from: string | null; to: string | null; path: string[] }
+  /** Drill-down moved to another level (click, breadcrumb, drillDown() or drillUp()). */
+  'drill:change': { path: string[]; previous: string[] }
+  /** drilldown.load threw or rejected for `path`. The chart stays on its current level. */
+  'drill:error': { path: string[]; error: unknown }
+  /** A series was shown or hidden (legend click or toggleSeries()). `index` is in the full data. */
+  'legend:toggle': { series: string; index: number; visible: boolean }
 }
 
 export type EventHandler<T> = (payload: T) => void
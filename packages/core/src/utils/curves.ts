@@ -1,22 +1,26 @@
 import { PathBuilder } from '../render/tree'
 import { formatNum } from './format'
+import type { GapMode } from '../types'
 
 export type CurveInterpolation = 'linear' | 'monotone' | 'step'
 export type Point = { x: number; y: number }
 
 /**
- * Split values into contiguous segments, breaking at NaN gaps.
+ * Split values into contiguous segments, breaking at NaN gaps — or, with
+ * gaps 'connect', skipping missing points so one segment runs across them.
  * Maps indices to pixel coordinates via xScale/yScale.
  */
 export function segmentValues(
   values: number[],
   xScale: { map(v: number | string | Date): number },
   yScale: { map(v: number | string | Date): number },
+  gaps: GapMode = 'break',
 ): Point[][] {
   const segments: Point[][] = []
   let current: Point[] = []
   for (let i = 0; i < values.length; i++) {
     if (isNaN(values[i]!)) {
+      if (gaps === 'connect') continue
       if (current.length > 0) { segments.push(current); current = [] }
     } else {
       current.push({ x: xScale.map(i), y: yScale.map(values[i]!) })
@@ -27,22 +31,23 @@ export function segmentValues(
 }
 
 /**
- * Build a line path string using specified interpolation, skipping NaN gaps.
+ * Build a line path string using specified interpolation, handling NaN gaps per `gaps`.
  */
 export function buildLinePath(
   values: number[],
   xScale: { map(v: number | string | Date): number },
   yScale: { map(v: number | string | Date): number },
   curve: CurveInterpolation,
+  gaps?: GapMode,
 ): string {
   if (values.length === 0) return ''
-  const segments = segmentValues(values, xScale, yScale)
+  const segments = segmentValues(values, xScale, yScale, gaps)
   const builder = curveBuilder(curve)
   return segments.map(s => builder(s)).join('')
 }
 
 /**
- * Build an area fill path (line path + close along x-axis), skipping NaN gaps.
+ * Build an area fill path (line path + close along x-axis), handling NaN gaps per `gaps`.
  */
 export function buildAreaPath(
   values: number[],
@@ -50,10 +55,11 @@ export function buildAreaPath(
   yScale: { map(v: number | string | Date): number },
   area: { y: number; height: number },
   curve: CurveInterpolation,
+  gaps?: GapMode,
 ): string {
   if (values.length === 0) return ''
   const baseline = area.y + area.height
-  const segments = segmentValues(values, xScale, yScale)
+  const segments = segmentValues(values, xScale, yScale, gaps)
   const builder = curveBuilder(curve)
 
   return segments.map(pts => {
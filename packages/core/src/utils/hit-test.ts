@@ -1,4 +1,5 @@
 import type { RenderContext, HitResult } from '../types'
+import { createIndexMapper, getSeriesYScale } from './scale'
 
 /**
  * Generic nearest-point hit test for point-based charts (line, scatter, etc.).
@@ -10,11 +11,13 @@ export function nearestPointHitTest(
   my: number,
   maxDistance: number,
 ): HitResult | null {
-  const { data, xScale, yScale } = ctx
+  const { data } = ctx
   let best: HitResult | null = null
   let bestDist = Infinity
 
   for (const series of data.series) {
+    const xScale = createIndexMapper(ctx, series)
+    const yScale = getSeriesYScale(ctx, series)
     for (let i = 0; i < series.values.length; i++) {
       if (isNaN(series.values[i]!)) continue
       const x = xScale.map(i)
@@ -1,4 +1,4 @@
-import type { Scale, ChartArea } from '../types'
+import type { Scale, ChartArea, RenderContext, PreparedData, PreparedSeries, ScaleType } from '../types'
 
 /** Safely get bandwidth from a scale. Returns 0 for scales without band mode. */
 export function getBandwidth(scale: Scale): number {
@@ -21,3 +21,47 @@ export function createHorizontalMapper(
     return chartX + chartW * (1 - fraction)
   }
 }
+
+/** True when every label is a Date — such data can be plotted on a time scale. */
+export function hasDateLabels(labels: (string | number | Date)[]): boolean {
+  return labels.length > 0 && labels.every(l => l instanceof Date)
+}
+
+/**
+ * x scale type for point charts (line, scatter, bubble…): a continuous axis
+ * when any series has its own x (time for Dates, linear for numbers) or the
+ * labels are Dates, categorical otherwise.
+ */
+export function pointXScaleType(data?: PreparedData): ScaleType {
+  if (!data) return 'categorical'
+  const xy = data.series.filter(s => s.x)
+  if (xy.length) {
+    return xy.some(s => s.x!.some(x => x instanceof Date)) || hasDateLabels(data.labels) ? 'time' : 'linear'
+  }
+  return hasDateLabels(data.labels) ? 'time' : 'categorical'
+}
+
+/**
+ * Point-index → x-pixel mapper.
+ * Categorical scales position points by index; continuous (time/linear/log)
+ * x scales position them by their label value — or, for a series with its
+ * own x (XY data), by that x.
+ */
+export function createIndexMapper(ctx: RenderContext, series?: PreparedSeries): { map(i: number | string | Date): number } {
+  const { xScale, data } = ctx
+  const own = series?.x
+  if (own) return { map: (i) => xScale.map(own[Number(i)] ?? i) }
+  const xType = ctx.scaleTypes?.x ?? 'categorical'
+  if (xType === 'categorical') return xScale
+  return {
+    map: (i) => {
+      const label = data.labels[Number(i)]
+      return label === undefined ? xScale.map(i) : xScale.map(label)
+    },
+  }
+}
+
+/** The y scale a series is plotted against — its bound secondary axis, else the primary. */
+export function getSeriesYScale(ctx: RenderContext, series: PreparedSeries): Scale {
+  return (series.yAxis && ctx.yScales?.[series.yAxis]) || ctx.yScale
+}
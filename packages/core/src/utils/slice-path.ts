@@ -1,3 +1,4 @@
+import type { ArcShape, RenderAttrs, RenderNode } from '../types'
 import { PathBuilder } from '../render/tree'
 
 /**
@@ -179,3 +180,16 @@ export function uniformGapAngles(
     innerEnd: endAngle - innerPad,
   }
 }
+
+/**
+ * Slice path node. Same geometry as roundedSlicePath, but the node keeps its
+ * ArcShape so transitions can tween the angles.
+ */
+export function slicePath(shape: ArcShape, attrs?: RenderAttrs): RenderNode {
+  const d = roundedSlicePath(
+    shape.cx, shape.cy, shape.outerR, shape.innerR,
+    shape.outerStart, shape.outerEnd, shape.innerStart, shape.innerEnd,
+    shape.cornerRadius,
+  )
+  return { type: 'path', d, arc: shape, attrs }
+}
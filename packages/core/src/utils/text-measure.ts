@@ -0,0 +1,44 @@
+/**
+ * Heuristic text measurement (no DOM access), so server and client layouts
+ * agree. Widths are per-glyph-class fractions of the font size for a
+ * typical sans-serif UI font — close enough to lay out legends and labels.
+ */
+
+const NARROW = new Set('iIjl1.,:;|!\'`')
+const SEMI_NARROW = new Set('frt()[]{}/\\-" ')
+const WIDE = new Set('mwMW@%')
+
+function glyphWidth(ch: string): number {
+  if (NARROW.has(ch)) return 0.28
+  if (SEMI_NARROW.has(ch)) return 0.36
+  if (WIDE.has(ch)) return 0.86
+  // CJK, Hangul, fullwidth forms — roughly square glyphs
+  if (ch.charCodeAt(0) >= 0x2e80) return 1
+  if (ch >= 'A' && ch <= 'Z') return 0.66
+  if (ch >= '0' && ch <= '9') return 0.56
+  return 0.52
+}
+
+/** Estimated rendered width of `text` in px at `fontSize`. */
+export function measureText(text: string, fontSize: number): number {
+  let units = 0
+  for (const ch of text) units += glyphWidth(ch)
+  return units * fontSize
+}
+
+/**
+ * Shorten `text` with an ellipsis so it fits `maxWidth`.
+ * Returns the text unchanged when it already fits.
+ */
+export function truncateText(text: string, fontSize: number, maxWidth: number): string {
+  if (measureText(text, fontSize) <= maxWidth) return text
+  const budget = maxWidth - measureText('…', fontSize)
+  let width = 0
+  let out = ''
+  for (const ch of text) {
+    width += glyphWidth(ch) * fontSize
+    if (width > budget) break
+    out += ch
+  }
+  return out.trimEnd() + '…'
+}
@@ -126,7 +126,7 @@ export function fromCSV(text: string, options?: FromCSVOptions): ChartData {
     name: headerRow?.[colIdx] ?? `Column ${colIdx}`,
     values: dataRows.map(row => {
       const val = row[colIdx] ?? ''
-      return val === '' ? 0 : Number(val)
+      return val === '' ? null : Number(val)
     }),
   }))
 
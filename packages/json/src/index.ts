@@ -29,7 +29,7 @@ function isColumnar(input: Record<string, unknown>): boolean {
 }
 
 function isNumericArray(arr: unknown[]): boolean {
-  return arr.length > 0 && arr.every(v => typeof v === 'number' || (typeof v === 'string' && !isNaN(Number(v))))
+  return arr.length > 0 && arr.every(v => typeof v === 'number' || (typeof v === 'string' && !isNaN(Number(v))) || v == null)
 }
 
 export function fromJSON(input: string | unknown, options?: FromJSONOptions): ChartData {
@@ -82,7 +82,7 @@ function fromRowArray(rows: Record<string, unknown>[], options?: FromJSONOptions
     name: key,
     values: rows.map(row => {
       const v = row[key]
-      if (v == null) return 0
+      if (v == null) return null
       return typeof v === 'number' ? v : Number(v)
     }),
   }))
@@ -109,7 +109,7 @@ function fromColumnar(data: Record<string, unknown[]>, options?: FromJSONOptions
   const labels = (data[labelKey] ?? []).map(v => String(v))
   const series: Series[] = seriesKeys.map(key => ({
     name: key,
-    values: (data[key] ?? []).map(v => Number(v)),
+    values: (data[key] ?? []).map(v => (v == null ? null : Number(v))),
   }))
 
   return { labels, series }
@@ -24,6 +24,8 @@ export interface RasterOptions extends RenderOptions {
  *
  * This is a thin wrapper around core's `renderToString` with sensible defaults.
  * Works in any JavaScript runtime (Node.js, Bun, Deno, Cloudflare Workers).
+ * On the client, `hydrateChart` from `@chartts/core` makes the markup
+ * interactive without re-rendering it.
  *
  * @param type - Chart type plugin (e.g. lineChartType, barChartType)
  * @param data - Chart data with labels and series
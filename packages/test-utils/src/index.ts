@@ -1,5 +1,5 @@
-import type { ChartData, Series, ChartTypePlugin, ChartOptions } from '@chartts/core'
-import { renderToString } from '@chartts/core'
+import type { ChartData, Series, ChartTypePlugin, ChartOptions, Scene } from '@chartts/core'
+import { renderToString, buildScene } from '@chartts/core'
 
 // ============================================================
 // Deterministic PRNG (Linear Congruential Generator)
@@ -432,6 +432,20 @@ export function renderChartToString(
   return renderToString(type, data, options ?? {})
 }
 
+/**
+ * Render tree, context and layout of a chart — the same scene createChart
+ * and renderToString draw. Useful for asserting on geometry without parsing SVG.
+ */
+export function renderChartScene(
+  type: ChartTypePlugin,
+  data: ChartData,
+  options?: ChartOptions & { width?: number; height?: number },
+): Scene {
+  const width = options?.width ?? 600
+  const height = options?.height ?? 400
+  return buildScene(type, data, { ...options, width, height }, { width, height })
+}
+
 export function chartSnapshot(
   type: ChartTypePlugin,
   data: ChartData,